@@ -11,21 +11,198 @@ CREATE TABLE IF NOT EXISTS `user` (
   `password_hash` VARCHAR(255) NOT NULL,               
   `role` ENUM('user','admin') NOT NULL DEFAULT 'user',   
   `is_active` TINYINT(1) NOT NULL DEFAULT 1,
+  `token_version` INT NOT NULL DEFAULT 0,  -- Raised to invalidate every token issued before (deactivation, role or password change)
+  `email_verified_at` DATETIME DEFAULT NULL,  -- NULL = self-registered, confirmation link not clicked yet (cannot log in)
+  `totp_secret` VARCHAR(64) DEFAULT NULL,  -- Base32 TOTP secret once two-factor authentication is enabled
+  `totp_pending_secret` VARCHAR(64) DEFAULT NULL,  -- Secret of an enrolment that was not confirmed with a code yet
+  `totp_enabled_at` DATETIME DEFAULT NULL,
+  `totp_last_used_step` BIGINT DEFAULT NULL,  -- Time step of the last accepted code (codes cannot be used twice)
   `created_at` DATETIME NOT NULL,
   `updated_at` DATETIME NOT NULL
 ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
 
+-- Create the location hierarchy: site -> building -> floor
+-- Rooms reference a floor; the displayed location ("Site, Building, Floor") is derived from it
+CREATE TABLE IF NOT EXISTS `site` (
+  `id` INT AUTO_INCREMENT PRIMARY KEY,
+  `name` VARCHAR(100) NOT NULL,
+  `address` VARCHAR(255) DEFAULT NULL,
+  `created_at` DATETIME NOT NULL,
+  `updated_at` DATETIME NOT NULL,
+
+  UNIQUE KEY `ux_site_name` (`name`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+CREATE TABLE IF NOT EXISTS `building` (
+  `id` INT AUTO_INCREMENT PRIMARY KEY,
+  `site_id` INT NOT NULL,
+  `name` VARCHAR(100) NOT NULL,
+  `created_at` DATETIME NOT NULL,
+  `updated_at` DATETIME NOT NULL,
+
+  CONSTRAINT `fk_building_site` FOREIGN KEY (`site_id`) REFERENCES `site`(`id`) ON DELETE RESTRICT,
+
+  UNIQUE KEY `ux_building_site_name` (`site_id`, `name`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+CREATE TABLE IF NOT EXISTS `floor` (
+  `id` INT AUTO_INCREMENT PRIMARY KEY,
+  `building_id` INT NOT NULL,
+  `name` VARCHAR(100) NOT NULL,
+  `level` INT DEFAULT NULL,  -- Sort order within the building (e.g. -1 = basement, 0 = ground floor)
+  `created_at` DATETIME NOT NULL,
+  `updated_at` DATETIME NOT NULL,
+
+  CONSTRAINT `fk_floor_building` FOREIGN KEY (`building_id`) REFERENCES `building`(`id`) ON DELETE RESTRICT,
+
+  UNIQUE KEY `ux_floor_building_name` (`building_id`, `name`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
 -- Create the room table with correct syntax
 CREATE TABLE IF NOT EXISTS `room` (
   `id` INT AUTO_INCREMENT PRIMARY KEY,
   `name` VARCHAR(255) NOT NULL,
   `capacity` INT NOT NULL,
   `status` ENUM('active','maintenance','inactive') NOT NULL DEFAULT 'active',
-  `location` VARCHAR(255) DEFAULT NULL,
+  `floor_id` INT DEFAULT NULL,  -- NULL = not assigned to a location yet
   `amenities` JSON DEFAULT NULL,
   `icon` VARCHAR(100) DEFAULT NULL,
+  `check_in_grace_minutes` INT DEFAULT NULL,  -- NULL = no check-in required, otherwise unchecked bookings are released after this many minutes
+  `requires_approval` TINYINT(1) NOT NULL DEFAULT 0,  -- Bookings start as 'pending' until an admin or room manager approves them
+  `archived_at` DATETIME DEFAULT NULL,  -- Retired rooms are hidden and cannot be booked, their booking history is kept
+  `archived_by` INT DEFAULT NULL,
   `created_at` DATETIME NOT NULL,
-  `updated_at` DATETIME NOT NULL
+  `updated_at` DATETIME NOT NULL,
+
+  CONSTRAINT `fk_room_floor` FOREIGN KEY (`floor_id`) REFERENCES `floor`(`id`) ON DELETE RESTRICT,
+  CONSTRAINT `fk_room_archived_by` FOREIGN KEY (`archived_by`) REFERENCES `user`(`id`) ON DELETE SET NULL
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- Create the room_manager table
+-- Room managers may approve or reject pending bookings for their rooms (admins may do so for every room)
+CREATE TABLE IF NOT EXISTS `room_manager` (
+  `room_id` INT NOT NULL,
+  `user_id` INT NOT NULL,
+  `created_at` DATETIME NOT NULL,
+
+  PRIMARY KEY (`room_id`, `user_id`),
+  CONSTRAINT `fk_room_manager_room` FOREIGN KEY (`room_id`) REFERENCES `room`(`id`) ON DELETE CASCADE,
+  CONSTRAINT `fk_room_manager_user` FOREIGN KEY (`user_id`) REFERENCES `user`(`id`) ON DELETE CASCADE,
+
+  KEY `ix_room_manager_user` (`user_id`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- Create the business_hours table
+-- Opening hours per weekday. Rows with room_id NULL are the global default; room rows override
+-- the default for their weekday. open_time/close_time NULL = closed on that day.
+-- Without any global rows the built-in default applies (Mon-Fri 08:00-20:00, weekends closed).
+CREATE TABLE IF NOT EXISTS `business_hours` (
+  `id` INT AUTO_INCREMENT PRIMARY KEY,
+  `room_id` INT DEFAULT NULL,
+  `weekday` ENUM('MO','TU','WE','TH','FR','SA','SU') NOT NULL,
+  `open_time` TIME DEFAULT NULL,
+  `close_time` TIME DEFAULT NULL,
+  `created_at` DATETIME NOT NULL,
+  `updated_at` DATETIME NOT NULL,
+
+  CONSTRAINT `fk_business_hours_room` FOREIGN KEY (`room_id`) REFERENCES `room`(`id`) ON DELETE CASCADE,
+
+  UNIQUE KEY `ux_business_hours_room_weekday` (`room_id`, `weekday`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- Create the room_booking_policy table
+-- Optional booking limits per room (NULL = no limit). Rooms without a row have no limits; admins are never limited.
+CREATE TABLE IF NOT EXISTS `room_booking_policy` (
+  `room_id` INT PRIMARY KEY,
+  `min_duration_minutes` INT DEFAULT NULL,
+  `max_duration_minutes` INT DEFAULT NULL,
+  `min_notice_minutes` INT DEFAULT NULL,          -- Bookings must start at least this long from now
+  `max_advance_days` INT DEFAULT NULL,            -- Bookings may start at most this many days ahead
+  `max_active_bookings_per_user` INT DEFAULT NULL, -- Upcoming bookings one user may hold in the room
+  `allow_guests` TINYINT(1) NOT NULL DEFAULT 1,
+  `updated_by` INT DEFAULT NULL,
+  `created_at` DATETIME NOT NULL,
+  `updated_at` DATETIME NOT NULL,
+
+  CONSTRAINT `fk_room_booking_policy_room` FOREIGN KEY (`room_id`) REFERENCES `room`(`id`) ON DELETE CASCADE,
+  CONSTRAINT `fk_room_booking_policy_updated_by` FOREIGN KEY (`updated_by`) REFERENCES `user`(`id`) ON DELETE SET NULL
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- Create the room_maintenance table
+-- Scheduled maintenance windows block new bookings in their range; the room is shown in
+-- 'maintenance' while a window is active. Existing bookings in the range are flagged, not canceled.
+CREATE TABLE IF NOT EXISTS `room_maintenance` (
+  `id` INT AUTO_INCREMENT PRIMARY KEY,
+  `room_id` INT NOT NULL,
+  `start_time` DATETIME NOT NULL,
+  `end_time` DATETIME NOT NULL,
+  `reason` VARCHAR(500) DEFAULT NULL,
+  `created_by` INT DEFAULT NULL,
+  `created_at` DATETIME NOT NULL,
+  `updated_at` DATETIME NOT NULL,
+
+  CONSTRAINT `fk_room_maintenance_room` FOREIGN KEY (`room_id`) REFERENCES `room`(`id`) ON DELETE CASCADE,
+  CONSTRAINT `fk_room_maintenance_created_by` FOREIGN KEY (`created_by`) REFERENCES `user`(`id`) ON DELETE SET NULL,
+
+  KEY `ix_room_maintenance_room_time` (`room_id`, `start_time`, `end_time`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- Create the room_media table
+-- Photos and documents (e.g. seating plans) of a room; the files themselves live in the media storage backend
+CREATE TABLE IF NOT EXISTS `room_media` (
+  `id` INT AUTO_INCREMENT PRIMARY KEY,
+  `room_id` INT NOT NULL,
+  `kind` ENUM('photo', 'document') NOT NULL,
+  `file_name` VARCHAR(255) NOT NULL,       -- Original file name (shown on download)
+  `storage_key` VARCHAR(255) NOT NULL,     -- Key of the file in the media storage backend
+  `mime_type` VARCHAR(100) NOT NULL,
+  `size_bytes` INT NOT NULL,
+  `caption` VARCHAR(255) DEFAULT NULL,
+  `uploaded_by` INT DEFAULT NULL,
+  `created_at` DATETIME NOT NULL,
+
+  CONSTRAINT `fk_room_media_room` FOREIGN KEY (`room_id`) REFERENCES `room`(`id`) ON DELETE CASCADE,
+  CONSTRAINT `fk_room_media_uploaded_by` FOREIGN KEY (`uploaded_by`) REFERENCES `user`(`id`) ON DELETE SET NULL,
+
+  UNIQUE KEY `ux_room_media_storage_key` (`storage_key`),
+  KEY `ix_room_media_room` (`room_id`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- Create the booking_series table for recurring bookings
+-- Each occurrence is a regular booking row that references its series via booking.series_id
+CREATE TABLE IF NOT EXISTS `booking_series` (
+  `id` INT AUTO_INCREMENT PRIMARY KEY,
+  `room_id` INT NOT NULL,
+  `name` VARCHAR(255) NOT NULL,
+  `comment` TEXT,
+  `rrule` VARCHAR(255) NOT NULL,
+  `start_time` DATETIME NOT NULL,
+  `end_time` DATETIME NOT NULL,
+  `created_by` INT DEFAULT NULL,
+  `created_at` DATETIME NOT NULL,
+  `updated_at` DATETIME NOT NULL,
+
+  CONSTRAINT `fk_booking_series_room`       FOREIGN KEY (`room_id`)    REFERENCES `room`(`id`)  ON DELETE CASCADE,
+  CONSTRAINT `fk_booking_series_created_by` FOREIGN KEY (`created_by`) REFERENCES `user`(`id`)  ON DELETE SET NULL,
+
+  KEY `ix_booking_series_creator` (`created_by`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- Create the booking_group table for multi-room bookings
+-- Rooms booked together for the same time (e.g. main hall plus breakout rooms) reference their group via booking.group_id
+CREATE TABLE IF NOT EXISTS `booking_group` (
+  `id` INT AUTO_INCREMENT PRIMARY KEY,
+  `name` VARCHAR(255) NOT NULL,
+  `comment` TEXT,
+  `start_time` DATETIME NOT NULL,
+  `end_time` DATETIME NOT NULL,
+  `created_by` INT DEFAULT NULL,
+  `created_at` DATETIME NOT NULL,
+  `updated_at` DATETIME NOT NULL,
+
+  CONSTRAINT `fk_booking_group_created_by` FOREIGN KEY (`created_by`) REFERENCES `user`(`id`)  ON DELETE SET NULL,
+
+  KEY `ix_booking_group_creator` (`created_by`)
 ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
 
 -- Create the booking table with correct syntax
@@ -36,30 +213,249 @@ CREATE TABLE IF NOT EXISTS `booking` (
   `start_time` DATETIME NOT NULL,
   `end_time` DATETIME NOT NULL,
   `comment` TEXT,
+  `attendees` INT DEFAULT NULL,   -- Optional number of attendees (utilisation analytics)
   `created_by` INT DEFAULT NULL,  -- Nullable to support guest bookings
-  `status` ENUM('confirmed','canceled') NOT NULL DEFAULT 'confirmed',
+  `series_id` INT DEFAULT NULL,   -- Set for occurrences of a recurring booking
+  `group_id` INT DEFAULT NULL,    -- Set for rooms of a multi-room booking
+  `status` ENUM('confirmed','canceled','pending','rejected') NOT NULL DEFAULT 'confirmed',  -- 'pending' reserves the slot tentatively
   `canceled_by` INT DEFAULT NULL,
   `canceled_reason` VARCHAR(255) DEFAULT NULL,
   `canceled_at` DATETIME DEFAULT NULL,
+  `checked_in_at` DATETIME DEFAULT NULL,
+  `checked_in_by` INT DEFAULT NULL,
+  `reviewed_by` INT DEFAULT NULL,
+  `reviewed_at` DATETIME DEFAULT NULL,
+  `review_reason` VARCHAR(255) DEFAULT NULL,
   `created_at` DATETIME NOT NULL,
   `updated_at` DATETIME NOT NULL,
 
-  CONSTRAINT `fk_booking_room`       FOREIGN KEY (`room_id`)    REFERENCES `room`(`id`)  ON DELETE CASCADE,
+  CONSTRAINT `fk_booking_room`       FOREIGN KEY (`room_id`)    REFERENCES `room`(`id`)  ON DELETE RESTRICT,  -- Rooms with bookings are archived, never deleted
   CONSTRAINT `fk_booking_created_by` FOREIGN KEY (`created_by`) REFERENCES `user`(`id`)  ON DELETE SET NULL,  -- Changed to SET NULL to allow guests
   CONSTRAINT `fk_booking_canceled_by` FOREIGN KEY (`canceled_by`) REFERENCES `user`(`id`)  ON DELETE SET NULL,
+  CONSTRAINT `fk_booking_series`      FOREIGN KEY (`series_id`)  REFERENCES `booking_series`(`id`)  ON DELETE SET NULL,
+  CONSTRAINT `fk_booking_group`       FOREIGN KEY (`group_id`)   REFERENCES `booking_group`(`id`)   ON DELETE SET NULL,
+  CONSTRAINT `fk_booking_checked_in_by` FOREIGN KEY (`checked_in_by`) REFERENCES `user`(`id`)  ON DELETE SET NULL,
+  CONSTRAINT `fk_booking_reviewed_by` FOREIGN KEY (`reviewed_by`) REFERENCES `user`(`id`)  ON DELETE SET NULL,
 
   KEY `ix_booking_room_time` (`room_id`, `start_time`, `end_time`),
   KEY `ix_booking_creator_time` (`created_by`, `start_time`),
   KEY `ix_booking_status` (`status`),
-  KEY `ix_booking_status_dates` (`status`, `start_time`, `end_time`)
+  KEY `ix_booking_status_dates` (`status`, `start_time`, `end_time`),
+  KEY `ix_booking_series_time` (`series_id`, `start_time`),
+  KEY `ix_booking_group` (`group_id`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- Create the resource table for shared equipment (projectors, conference cams, whiteboards, ...)
+-- Items are not tied to a room; bookings reserve them via booking_resource
+CREATE TABLE IF NOT EXISTS `resource` (
+  `id` INT AUTO_INCREMENT PRIMARY KEY,
+  `name` VARCHAR(100) NOT NULL,
+  `description` VARCHAR(255) DEFAULT NULL,
+  `quantity` INT NOT NULL,  -- Number of identical items in the pool
+  `created_at` DATETIME NOT NULL,
+  `updated_at` DATETIME NOT NULL,
+
+  UNIQUE KEY `ux_resource_name` (`name`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- Create the booking_resource table (resources reserved by a booking for its whole time range)
+CREATE TABLE IF NOT EXISTS `booking_resource` (
+  `booking_id` INT NOT NULL,
+  `resource_id` INT NOT NULL,
+  `quantity` INT NOT NULL,
+
+  PRIMARY KEY (`booking_id`, `resource_id`),
+  CONSTRAINT `fk_booking_resource_booking`  FOREIGN KEY (`booking_id`)  REFERENCES `booking`(`id`)   ON DELETE CASCADE,
+  CONSTRAINT `fk_booking_resource_resource` FOREIGN KEY (`resource_id`) REFERENCES `resource`(`id`)  ON DELETE CASCADE,
+
+  KEY `ix_booking_resource_resource` (`resource_id`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- Create the booking_waitlist table for fully booked slots
+-- Entries are served first come, first served per room once the requested range becomes free:
+-- auto_book = 1 books the slot directly, otherwise the slot is held for the user until offer_expires_at
+CREATE TABLE IF NOT EXISTS `booking_waitlist` (
+  `id` INT AUTO_INCREMENT PRIMARY KEY,
+  `room_id` INT NOT NULL,
+  `user_id` INT NOT NULL,
+  `title` VARCHAR(255) NOT NULL,
+  `comment` TEXT,
+  `start_time` DATETIME NOT NULL,
+  `end_time` DATETIME NOT NULL,
+  `auto_book` TINYINT(1) NOT NULL DEFAULT 0,
+  `status` ENUM('waiting','offered','fulfilled','expired','canceled') NOT NULL DEFAULT 'waiting',
+  `offered_at` DATETIME DEFAULT NULL,
+  `offer_expires_at` DATETIME DEFAULT NULL,
+  `booking_id` INT DEFAULT NULL,  -- Set once the entry turned into a booking
+  `created_at` DATETIME NOT NULL,
+  `updated_at` DATETIME NOT NULL,
+
+  CONSTRAINT `fk_booking_waitlist_room`    FOREIGN KEY (`room_id`)    REFERENCES `room`(`id`)     ON DELETE CASCADE,
+  CONSTRAINT `fk_booking_waitlist_user`    FOREIGN KEY (`user_id`)    REFERENCES `user`(`id`)     ON DELETE CASCADE,
+  CONSTRAINT `fk_booking_waitlist_booking` FOREIGN KEY (`booking_id`) REFERENCES `booking`(`id`)  ON DELETE SET NULL,
+
+  KEY `ix_booking_waitlist_room_status` (`room_id`, `status`, `start_time`, `end_time`),
+  KEY `ix_booking_waitlist_user` (`user_id`, `status`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- Create the user_notification table
+-- In-app messages for booking owners, e.g. when an archived room's bookings were canceled or moved
+-- or a waitlist slot was offered or booked for them
+CREATE TABLE IF NOT EXISTS `user_notification` (
+  `id` INT AUTO_INCREMENT PRIMARY KEY,
+  `user_id` INT NOT NULL,
+  `type` ENUM('BOOKING_CANCELED','BOOKING_MOVED','WAITLIST_OFFERED','WAITLIST_BOOKED') NOT NULL,
+  `message` VARCHAR(500) NOT NULL,
+  `booking_id` INT DEFAULT NULL,
+  `read_at` DATETIME DEFAULT NULL,
+  `created_at` DATETIME NOT NULL,
+
+  CONSTRAINT `fk_user_notification_user`    FOREIGN KEY (`user_id`)    REFERENCES `user`(`id`)     ON DELETE CASCADE,
+  CONSTRAINT `fk_user_notification_booking` FOREIGN KEY (`booking_id`) REFERENCES `booking`(`id`)  ON DELETE SET NULL,
+
+  KEY `ix_user_notification_user` (`user_id`, `read_at`, `created_at`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- Create the calendar_feed_token table for iCalendar subscriptions
+-- Calendar clients cannot send Bearer headers, so personal feeds authenticate with a revocable URL token.
+-- Only the SHA-256 hash of the token is stored.
+CREATE TABLE IF NOT EXISTS `calendar_feed_token` (
+  `id` INT AUTO_INCREMENT PRIMARY KEY,
+  `user_id` INT NOT NULL,
+  `token_hash` CHAR(64) NOT NULL UNIQUE,
+  `created_at` DATETIME NOT NULL,
+  `last_used_at` DATETIME DEFAULT NULL,
+  `revoked_at` DATETIME DEFAULT NULL,
+
+  CONSTRAINT `fk_calendar_feed_token_user` FOREIGN KEY (`user_id`) REFERENCES `user`(`id`) ON DELETE CASCADE,
+
+  KEY `ix_calendar_feed_token_user` (`user_id`, `revoked_at`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- Create the refresh_token table for login sessions
+-- Access tokens are short-lived; clients renew them with a refresh token that is rotated on every use.
+-- All tokens issued from one login share a family_id. Only the SHA-256 hash of the token is stored.
+CREATE TABLE IF NOT EXISTS `refresh_token` (
+  `id` INT AUTO_INCREMENT PRIMARY KEY,
+  `user_id` INT NOT NULL,
+  `family_id` CHAR(36) NOT NULL,
+  `token_hash` CHAR(64) NOT NULL UNIQUE,
+  `expires_at` DATETIME NOT NULL,
+  `used_at` DATETIME DEFAULT NULL,      -- Set when the token was exchanged for its successor
+  `revoked_at` DATETIME DEFAULT NULL,
+  `revoked_reason` ENUM('LOGOUT','REUSE_DETECTED','ACCOUNT_DISABLED','ROLE_CHANGED','PASSWORD_CHANGED','ADMIN_REVOKED') DEFAULT NULL,
+  `user_agent` VARCHAR(255) DEFAULT NULL,  -- Client that logged in or refreshed (shown in the session list)
+  `ip_address` VARCHAR(45) DEFAULT NULL,
+  `created_at` DATETIME NOT NULL,
+
+  CONSTRAINT `fk_refresh_token_user` FOREIGN KEY (`user_id`) REFERENCES `user`(`id`) ON DELETE CASCADE,
+
+  KEY `ix_refresh_token_family` (`family_id`),
+  KEY `ix_refresh_token_user` (`user_id`, `expires_at`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- Create the password_reset_token table for the "forgot password" flow
+-- Tokens are mailed as a one-time link, expire after a short time and can be used once.
+-- Only the SHA-256 hash of the token is stored.
+CREATE TABLE IF NOT EXISTS `password_reset_token` (
+  `id` INT AUTO_INCREMENT PRIMARY KEY,
+  `user_id` INT NOT NULL,
+  `token_hash` CHAR(64) NOT NULL UNIQUE,
+  `expires_at` DATETIME NOT NULL,
+  `used_at` DATETIME DEFAULT NULL,
+  `created_at` DATETIME NOT NULL,
+
+  CONSTRAINT `fk_password_reset_token_user` FOREIGN KEY (`user_id`) REFERENCES `user`(`id`) ON DELETE CASCADE,
+
+  KEY `ix_password_reset_token_user` (`user_id`, `created_at`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- Create the email_verification_token table
+-- Self-registered accounts confirm their address with a mailed one-time link before they can log in.
+-- Only the SHA-256 hash of the token is stored.
+CREATE TABLE IF NOT EXISTS `email_verification_token` (
+  `id` INT AUTO_INCREMENT PRIMARY KEY,
+  `user_id` INT NOT NULL,
+  `token_hash` CHAR(64) NOT NULL UNIQUE,
+  `expires_at` DATETIME NOT NULL,
+  `used_at` DATETIME DEFAULT NULL,
+  `created_at` DATETIME NOT NULL,
+
+  CONSTRAINT `fk_email_verification_token_user` FOREIGN KEY (`user_id`) REFERENCES `user`(`id`) ON DELETE CASCADE,
+
+  KEY `ix_email_verification_token_user` (`user_id`, `created_at`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- Create the registration_settings table
+-- Who may register themselves: everyone ('open'), addresses of allowed_domains ('domains') or
+-- only invited users ('invite_only'). A single row (id = 1); without it registration is open.
+CREATE TABLE IF NOT EXISTS `registration_settings` (
+  `id` TINYINT PRIMARY KEY,
+  `mode` ENUM('open','domains','invite_only') NOT NULL,
+  `allowed_domains` JSON DEFAULT NULL,  -- e.g. ["example.com"], used in 'domains' mode
+  `updated_at` DATETIME NOT NULL
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- Create the user_invitation table
+-- Admins invite users by email; the mailed link pre-fills the registration with name and role.
+-- Invited accounts are verified by accepting the invitation. Only the SHA-256 hash of the token is stored.
+CREATE TABLE IF NOT EXISTS `user_invitation` (
+  `id` INT AUTO_INCREMENT PRIMARY KEY,
+  `email` VARCHAR(255) NOT NULL,
+  `firstname` VARCHAR(255) DEFAULT NULL,
+  `surname` VARCHAR(255) DEFAULT NULL,
+  `role` ENUM('user','admin') NOT NULL DEFAULT 'user',
+  `token_hash` CHAR(64) NOT NULL UNIQUE,
+  `invited_by` INT DEFAULT NULL,
+  `expires_at` DATETIME NOT NULL,
+  `accepted_at` DATETIME DEFAULT NULL,
+  `accepted_user_id` INT DEFAULT NULL,
+  `revoked_at` DATETIME DEFAULT NULL,
+  `created_at` DATETIME NOT NULL,
+
+  CONSTRAINT `fk_user_invitation_invited_by`    FOREIGN KEY (`invited_by`)       REFERENCES `user`(`id`)  ON DELETE SET NULL,
+  CONSTRAINT `fk_user_invitation_accepted_user` FOREIGN KEY (`accepted_user_id`) REFERENCES `user`(`id`)  ON DELETE SET NULL,
+
+  KEY `ix_user_invitation_email` (`email`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- Create the user_recovery_code table
+-- One-time codes for logging in without the authenticator app. Only the SHA-256 hash of a code is stored.
+CREATE TABLE IF NOT EXISTS `user_recovery_code` (
+  `id` INT AUTO_INCREMENT PRIMARY KEY,
+  `user_id` INT NOT NULL,
+  `code_hash` CHAR(64) NOT NULL,
+  `used_at` DATETIME DEFAULT NULL,
+  `created_at` DATETIME NOT NULL,
+
+  CONSTRAINT `fk_user_recovery_code_user` FOREIGN KEY (`user_id`) REFERENCES `user`(`id`) ON DELETE CASCADE,
+
+  KEY `ix_user_recovery_code_user` (`user_id`, `code_hash`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- Create the two_factor_challenge table
+-- Links the two login steps: after the password check the client gets a short-lived challenge token
+-- and exchanges it, together with a TOTP or recovery code, for the session. Only the SHA-256 hash is stored.
+CREATE TABLE IF NOT EXISTS `two_factor_challenge` (
+  `id` INT AUTO_INCREMENT PRIMARY KEY,
+  `user_id` INT NOT NULL,
+  `token_hash` CHAR(64) NOT NULL UNIQUE,
+  `failed_attempts` INT NOT NULL DEFAULT 0,
+  `expires_at` DATETIME NOT NULL,
+  `used_at` DATETIME DEFAULT NULL,
+  `created_at` DATETIME NOT NULL,
+
+  CONSTRAINT `fk_two_factor_challenge_user` FOREIGN KEY (`user_id`) REFERENCES `user`(`id`) ON DELETE CASCADE,
+
+  KEY `ix_two_factor_challenge_user` (`user_id`, `expires_at`)
 ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
 
 -- Create the activity_log table for audit trail
 CREATE TABLE IF NOT EXISTS `activity_log` (
   `id` INT AUTO_INCREMENT PRIMARY KEY,
   `user_id` INT DEFAULT NULL,
-  `action_type` ENUM('CREATE','UPDATE','DELETE','LOGIN','LOGOUT') NOT NULL,
-  `entity_type` ENUM('BOOKING','ROOM','USER') NOT NULL,
+  `action_type` ENUM('CREATE','UPDATE','DELETE','CANCEL','RESTORE','APPROVE','REJECT','LOGIN','LOGOUT') NOT NULL,
+  `entity_type` ENUM('BOOKING','ROOM','USER','WAITLIST','LOCATION','RESOURCE') NOT NULL,
   `entity_id` INT DEFAULT NULL,
   `details` JSON DEFAULT NULL,
   `timestamp` DATETIME NOT NULL,
@@ -85,7 +481,7 @@ CREATE TABLE IF NOT EXISTS `activity_log` (
 
 -- Use INSERT IGNORE to prevent errors if the user already exists.
 -- This makes the script safely re-runnable (idempotent).
-INSERT IGNORE INTO `user` (email, firstname, surname, password_hash, role, is_active, created_at, updated_at)
+INSERT IGNORE INTO `user` (email, firstname, surname, password_hash, role, is_active, email_verified_at, created_at, updated_at)
 VALUES (
   'admin@13rooms.com',
   'Admin',
@@ -94,5 +490,6 @@ VALUES (
   'admin',
   1,
   NOW(),
+  NOW(),
   NOW()
 );
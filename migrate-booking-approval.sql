@@ -0,0 +1,44 @@
+-- Migration Script: Approval workflow for restricted rooms
+-- Run this in your MySQL client (e.g., MySQL Workbench, phpMyAdmin, or mysql CLI)
+-- Only needed for databases created before the approval workflow existed; fresh installs get this from init-db.sql
+
+USE `13rooms`;
+
+-- Step 1: Per-room approval setting
+ALTER TABLE `room` ADD COLUMN `requires_approval` TINYINT(1) NOT NULL DEFAULT 0 AFTER `check_in_grace_minutes`;
+
+-- Step 2: Room managers (may approve or reject bookings for their rooms)
+CREATE TABLE IF NOT EXISTS `room_manager` (
+  `room_id` INT NOT NULL,
+  `user_id` INT NOT NULL,
+  `created_at` DATETIME NOT NULL,
+
+  PRIMARY KEY (`room_id`, `user_id`),
+  CONSTRAINT `fk_room_manager_room` FOREIGN KEY (`room_id`) REFERENCES `room`(`id`) ON DELETE CASCADE,
+  CONSTRAINT `fk_room_manager_user` FOREIGN KEY (`user_id`) REFERENCES `user`(`id`) ON DELETE CASCADE,
+
+  KEY `ix_room_manager_user` (`user_id`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- Step 3: Pending/rejected booking status and review columns
+ALTER TABLE `booking`
+  MODIFY COLUMN `status` ENUM('confirmed','canceled','pending','rejected') NOT NULL DEFAULT 'confirmed',
+  ADD COLUMN `reviewed_by` INT DEFAULT NULL AFTER `checked_in_by`,
+  ADD COLUMN `reviewed_at` DATETIME DEFAULT NULL AFTER `reviewed_by`,
+  ADD COLUMN `review_reason` VARCHAR(255) DEFAULT NULL AFTER `reviewed_at`;
+
+ALTER TABLE `booking`
+  ADD CONSTRAINT `fk_booking_reviewed_by`
+  FOREIGN KEY (`reviewed_by`) REFERENCES `user`(`id`)
+  ON DELETE SET NULL;
+
+-- Step 4: Approval decisions in the audit trail
+ALTER TABLE `activity_log`
+  MODIFY COLUMN `action_type` ENUM('CREATE','UPDATE','DELETE','CANCEL','RESTORE','APPROVE','REJECT','LOGIN','LOGOUT') NOT NULL;
+
+-- Verification: Check the updated schema
+SHOW CREATE TABLE `room`;
+SHOW CREATE TABLE `booking`;
+SHOW CREATE TABLE `activity_log`;
+
+-- Migration complete!
@@ -0,0 +1,13 @@
+-- Migration Script: Optional attendee count on bookings (utilisation analytics)
+-- Run this in your MySQL client (e.g., MySQL Workbench, phpMyAdmin, or mysql CLI)
+-- Only needed for databases created before attendee counts existed; fresh installs get this from init-db.sql
+
+USE `13rooms`;
+
+-- Step 1: Add the attendees column (existing bookings keep NULL = unknown)
+ALTER TABLE `booking` ADD COLUMN `attendees` INT DEFAULT NULL AFTER `comment`;
+
+-- Verification: Check the updated schema
+SHOW CREATE TABLE `booking`;
+
+-- Migration complete!
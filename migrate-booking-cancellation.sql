@@ -0,0 +1,13 @@
+-- Migration Script: Soft cancellation of bookings
+-- Run this in your MySQL client (e.g., MySQL Workbench, phpMyAdmin, or mysql CLI)
+-- Adds the CANCEL and RESTORE action types to the activity log
+
+USE `13rooms`;
+
+ALTER TABLE `activity_log`
+  MODIFY COLUMN `action_type` ENUM('CREATE','UPDATE','DELETE','CANCEL','RESTORE','LOGIN','LOGOUT') NOT NULL;
+
+-- Verification: Check the updated schema
+SHOW CREATE TABLE `activity_log`;
+
+-- Migration complete!
@@ -0,0 +1,24 @@
+-- Migration Script: Booking check-in and automatic no-show release
+-- Run this in your MySQL client (e.g., MySQL Workbench, phpMyAdmin, or mysql CLI)
+-- Only needed for databases created before check-in existed; fresh installs get this from init-db.sql
+
+USE `13rooms`;
+
+-- Step 1: Per-room grace period (NULL = no check-in required for this room)
+ALTER TABLE `room` ADD COLUMN `check_in_grace_minutes` INT DEFAULT NULL AFTER `icon`;
+
+-- Step 2: Check-in columns on bookings
+ALTER TABLE `booking`
+  ADD COLUMN `checked_in_at` DATETIME DEFAULT NULL AFTER `canceled_at`,
+  ADD COLUMN `checked_in_by` INT DEFAULT NULL AFTER `checked_in_at`;
+
+ALTER TABLE `booking`
+  ADD CONSTRAINT `fk_booking_checked_in_by`
+  FOREIGN KEY (`checked_in_by`) REFERENCES `user`(`id`)
+  ON DELETE SET NULL;
+
+-- Verification: Check the updated schema
+SHOW CREATE TABLE `room`;
+SHOW CREATE TABLE `booking`;
+
+-- Migration complete!
@@ -0,0 +1,36 @@
+-- Migration Script: Add multi-room booking groups
+-- Run this in your MySQL client (e.g., MySQL Workbench, phpMyAdmin, or mysql CLI)
+-- Only needed for databases created before booking groups existed; fresh installs get this from init-db.sql
+
+USE `13rooms`;
+
+-- Step 1: Create the booking_group table
+CREATE TABLE IF NOT EXISTS `booking_group` (
+  `id` INT AUTO_INCREMENT PRIMARY KEY,
+  `name` VARCHAR(255) NOT NULL,
+  `comment` TEXT,
+  `start_time` DATETIME NOT NULL,
+  `end_time` DATETIME NOT NULL,
+  `created_by` INT DEFAULT NULL,
+  `created_at` DATETIME NOT NULL,
+  `updated_at` DATETIME NOT NULL,
+
+  CONSTRAINT `fk_booking_group_created_by` FOREIGN KEY (`created_by`) REFERENCES `user`(`id`)  ON DELETE SET NULL,
+
+  KEY `ix_booking_group_creator` (`created_by`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- Step 2: Link bookings to their group
+ALTER TABLE `booking` ADD COLUMN `group_id` INT DEFAULT NULL AFTER `series_id`;
+
+ALTER TABLE `booking`
+  ADD CONSTRAINT `fk_booking_group`
+  FOREIGN KEY (`group_id`) REFERENCES `booking_group`(`id`)
+  ON DELETE SET NULL;
+
+ALTER TABLE `booking` ADD KEY `ix_booking_group` (`group_id`);
+
+-- Verification: Check the updated schema
+SHOW CREATE TABLE `booking`;
+
+-- Migration complete!
@@ -0,0 +1,27 @@
+-- Migration Script: Add per-room booking policies
+-- Run this in your MySQL client (e.g., MySQL Workbench, phpMyAdmin, or mysql CLI)
+-- Only needed for databases created before booking policies existed; fresh installs get this from init-db.sql
+
+USE `13rooms`;
+
+-- Step 1: Create the room_booking_policy table
+CREATE TABLE IF NOT EXISTS `room_booking_policy` (
+  `room_id` INT PRIMARY KEY,
+  `min_duration_minutes` INT DEFAULT NULL,
+  `max_duration_minutes` INT DEFAULT NULL,
+  `min_notice_minutes` INT DEFAULT NULL,          -- Bookings must start at least this long from now
+  `max_advance_days` INT DEFAULT NULL,            -- Bookings may start at most this many days ahead
+  `max_active_bookings_per_user` INT DEFAULT NULL, -- Upcoming bookings one user may hold in the room
+  `allow_guests` TINYINT(1) NOT NULL DEFAULT 1,
+  `updated_by` INT DEFAULT NULL,
+  `created_at` DATETIME NOT NULL,
+  `updated_at` DATETIME NOT NULL,
+
+  CONSTRAINT `fk_room_booking_policy_room` FOREIGN KEY (`room_id`) REFERENCES `room`(`id`) ON DELETE CASCADE,
+  CONSTRAINT `fk_room_booking_policy_updated_by` FOREIGN KEY (`updated_by`) REFERENCES `user`(`id`) ON DELETE SET NULL
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- Verification: Check the new schema
+SHOW CREATE TABLE `room_booking_policy`;
+
+-- Migration complete!
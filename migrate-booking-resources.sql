@@ -0,0 +1,40 @@
+-- Migration Script: Bookable equipment and resources
+-- Run this in your MySQL client (e.g., MySQL Workbench, phpMyAdmin, or mysql CLI)
+-- Only needed for databases created before bookable resources existed; fresh installs get this from init-db.sql
+
+USE `13rooms`;
+
+-- Step 1: Create the resource catalogue
+CREATE TABLE IF NOT EXISTS `resource` (
+  `id` INT AUTO_INCREMENT PRIMARY KEY,
+  `name` VARCHAR(100) NOT NULL,
+  `description` VARCHAR(255) DEFAULT NULL,
+  `quantity` INT NOT NULL,  -- Number of identical items in the pool
+  `created_at` DATETIME NOT NULL,
+  `updated_at` DATETIME NOT NULL,
+
+  UNIQUE KEY `ux_resource_name` (`name`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- Step 2: Create the booking_resource table (resources reserved by a booking)
+CREATE TABLE IF NOT EXISTS `booking_resource` (
+  `booking_id` INT NOT NULL,
+  `resource_id` INT NOT NULL,
+  `quantity` INT NOT NULL,
+
+  PRIMARY KEY (`booking_id`, `resource_id`),
+  CONSTRAINT `fk_booking_resource_booking`  FOREIGN KEY (`booking_id`)  REFERENCES `booking`(`id`)   ON DELETE CASCADE,
+  CONSTRAINT `fk_booking_resource_resource` FOREIGN KEY (`resource_id`) REFERENCES `resource`(`id`)  ON DELETE CASCADE,
+
+  KEY `ix_booking_resource_resource` (`resource_id`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- Step 3: Allow resource changes in the activity log
+ALTER TABLE `activity_log`
+  MODIFY COLUMN `entity_type` ENUM('BOOKING','ROOM','USER','WAITLIST','LOCATION','RESOURCE') NOT NULL;
+
+-- Verification: Check the new schema
+SHOW CREATE TABLE `resource`;
+SHOW CREATE TABLE `booking_resource`;
+
+-- Migration complete!
@@ -0,0 +1,39 @@
+-- Migration Script: Add recurring booking series
+-- Run this in your MySQL client (e.g., MySQL Workbench, phpMyAdmin, or mysql CLI)
+-- Only needed for databases created before booking series existed; fresh installs get this from init-db.sql
+
+USE `13rooms`;
+
+-- Step 1: Create the booking_series table
+CREATE TABLE IF NOT EXISTS `booking_series` (
+  `id` INT AUTO_INCREMENT PRIMARY KEY,
+  `room_id` INT NOT NULL,
+  `name` VARCHAR(255) NOT NULL,
+  `comment` TEXT,
+  `rrule` VARCHAR(255) NOT NULL,
+  `start_time` DATETIME NOT NULL,
+  `end_time` DATETIME NOT NULL,
+  `created_by` INT DEFAULT NULL,
+  `created_at` DATETIME NOT NULL,
+  `updated_at` DATETIME NOT NULL,
+
+  CONSTRAINT `fk_booking_series_room`       FOREIGN KEY (`room_id`)    REFERENCES `room`(`id`)  ON DELETE CASCADE,
+  CONSTRAINT `fk_booking_series_created_by` FOREIGN KEY (`created_by`) REFERENCES `user`(`id`)  ON DELETE SET NULL,
+
+  KEY `ix_booking_series_creator` (`created_by`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- Step 2: Link bookings to their series
+ALTER TABLE `booking` ADD COLUMN `series_id` INT DEFAULT NULL AFTER `created_by`;
+
+ALTER TABLE `booking`
+  ADD CONSTRAINT `fk_booking_series`
+  FOREIGN KEY (`series_id`) REFERENCES `booking_series`(`id`)
+  ON DELETE SET NULL;
+
+ALTER TABLE `booking` ADD KEY `ix_booking_series_time` (`series_id`, `start_time`);
+
+-- Verification: Check the updated schema
+SHOW CREATE TABLE `booking`;
+
+-- Migration complete!
@@ -0,0 +1,40 @@
+-- Migration Script: Waitlist for fully booked slots
+-- Run this in your MySQL client (e.g., MySQL Workbench, phpMyAdmin, or mysql CLI)
+-- Only needed for databases created before the waitlist existed; fresh installs get this from init-db.sql
+
+USE `13rooms`;
+
+-- Step 1: Waitlist entries
+CREATE TABLE IF NOT EXISTS `booking_waitlist` (
+  `id` INT AUTO_INCREMENT PRIMARY KEY,
+  `room_id` INT NOT NULL,
+  `user_id` INT NOT NULL,
+  `title` VARCHAR(255) NOT NULL,
+  `comment` TEXT,
+  `start_time` DATETIME NOT NULL,
+  `end_time` DATETIME NOT NULL,
+  `auto_book` TINYINT(1) NOT NULL DEFAULT 0,
+  `status` ENUM('waiting','offered','fulfilled','expired','canceled') NOT NULL DEFAULT 'waiting',
+  `offered_at` DATETIME DEFAULT NULL,
+  `offer_expires_at` DATETIME DEFAULT NULL,
+  `booking_id` INT DEFAULT NULL,
+  `created_at` DATETIME NOT NULL,
+  `updated_at` DATETIME NOT NULL,
+
+  CONSTRAINT `fk_booking_waitlist_room`    FOREIGN KEY (`room_id`)    REFERENCES `room`(`id`)     ON DELETE CASCADE,
+  CONSTRAINT `fk_booking_waitlist_user`    FOREIGN KEY (`user_id`)    REFERENCES `user`(`id`)     ON DELETE CASCADE,
+  CONSTRAINT `fk_booking_waitlist_booking` FOREIGN KEY (`booking_id`) REFERENCES `booking`(`id`)  ON DELETE SET NULL,
+
+  KEY `ix_booking_waitlist_room_status` (`room_id`, `status`, `start_time`, `end_time`),
+  KEY `ix_booking_waitlist_user` (`user_id`, `status`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- Step 2: Waitlist actions in the audit trail
+ALTER TABLE `activity_log`
+  MODIFY COLUMN `entity_type` ENUM('BOOKING','ROOM','USER','WAITLIST') NOT NULL;
+
+-- Verification: Check the updated schema
+SHOW CREATE TABLE `booking_waitlist`;
+SHOW CREATE TABLE `activity_log`;
+
+-- Migration complete!
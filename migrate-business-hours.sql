@@ -0,0 +1,26 @@
+-- Migration Script: Add configurable business hours
+-- Run this in your MySQL client (e.g., MySQL Workbench, phpMyAdmin, or mysql CLI)
+-- Only needed for databases created before business hours were configurable; fresh installs get this from init-db.sql
+-- Until an admin stores hours, the built-in default applies (Mon-Fri 08:00-20:00, weekends closed)
+
+USE `13rooms`;
+
+-- Step 1: Create the business_hours table
+CREATE TABLE IF NOT EXISTS `business_hours` (
+  `id` INT AUTO_INCREMENT PRIMARY KEY,
+  `room_id` INT DEFAULT NULL,
+  `weekday` ENUM('MO','TU','WE','TH','FR','SA','SU') NOT NULL,
+  `open_time` TIME DEFAULT NULL,
+  `close_time` TIME DEFAULT NULL,
+  `created_at` DATETIME NOT NULL,
+  `updated_at` DATETIME NOT NULL,
+
+  CONSTRAINT `fk_business_hours_room` FOREIGN KEY (`room_id`) REFERENCES `room`(`id`) ON DELETE CASCADE,
+
+  UNIQUE KEY `ux_business_hours_room_weekday` (`room_id`, `weekday`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- Verification: Check the new schema
+SHOW CREATE TABLE `business_hours`;
+
+-- Migration complete!
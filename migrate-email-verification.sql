@@ -0,0 +1,63 @@
+-- Migration Script: Email verification and invite-only registration
+-- Run this in your MySQL client (e.g., MySQL Workbench, phpMyAdmin, or mysql CLI)
+-- Only needed for databases created before email verification existed; fresh installs get this from init-db.sql
+
+USE `13rooms`;
+
+-- Step 1: Track email verification per user
+-- Existing accounts count as verified
+ALTER TABLE `user`
+  ADD COLUMN `email_verified_at` DATETIME DEFAULT NULL AFTER `token_version`;
+
+UPDATE `user` SET `email_verified_at` = `created_at` WHERE `email_verified_at` IS NULL;
+
+-- Step 2: Create the email_verification_token table (hashed, expiring, single-use tokens)
+CREATE TABLE IF NOT EXISTS `email_verification_token` (
+  `id` INT AUTO_INCREMENT PRIMARY KEY,
+  `user_id` INT NOT NULL,
+  `token_hash` CHAR(64) NOT NULL UNIQUE,
+  `expires_at` DATETIME NOT NULL,
+  `used_at` DATETIME DEFAULT NULL,
+  `created_at` DATETIME NOT NULL,
+
+  CONSTRAINT `fk_email_verification_token_user` FOREIGN KEY (`user_id`) REFERENCES `user`(`id`) ON DELETE CASCADE,
+
+  KEY `ix_email_verification_token_user` (`user_id`, `created_at`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- Step 3: Create the registration_settings table (open, allowed domains or invite-only)
+CREATE TABLE IF NOT EXISTS `registration_settings` (
+  `id` TINYINT PRIMARY KEY,
+  `mode` ENUM('open','domains','invite_only') NOT NULL,
+  `allowed_domains` JSON DEFAULT NULL,  -- e.g. ["example.com"], used in 'domains' mode
+  `updated_at` DATETIME NOT NULL
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- Step 4: Create the user_invitation table (invitations pre-fill name and role)
+CREATE TABLE IF NOT EXISTS `user_invitation` (
+  `id` INT AUTO_INCREMENT PRIMARY KEY,
+  `email` VARCHAR(255) NOT NULL,
+  `firstname` VARCHAR(255) DEFAULT NULL,
+  `surname` VARCHAR(255) DEFAULT NULL,
+  `role` ENUM('user','admin') NOT NULL DEFAULT 'user',
+  `token_hash` CHAR(64) NOT NULL UNIQUE,
+  `invited_by` INT DEFAULT NULL,
+  `expires_at` DATETIME NOT NULL,
+  `accepted_at` DATETIME DEFAULT NULL,
+  `accepted_user_id` INT DEFAULT NULL,
+  `revoked_at` DATETIME DEFAULT NULL,
+  `created_at` DATETIME NOT NULL,
+
+  CONSTRAINT `fk_user_invitation_invited_by`    FOREIGN KEY (`invited_by`)       REFERENCES `user`(`id`)  ON DELETE SET NULL,
+  CONSTRAINT `fk_user_invitation_accepted_user` FOREIGN KEY (`accepted_user_id`) REFERENCES `user`(`id`)  ON DELETE SET NULL,
+
+  KEY `ix_user_invitation_email` (`email`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- Verification: Check the new schema
+SHOW CREATE TABLE `user`;
+SHOW CREATE TABLE `email_verification_token`;
+SHOW CREATE TABLE `registration_settings`;
+SHOW CREATE TABLE `user_invitation`;
+
+-- Migration complete!
@@ -0,0 +1,118 @@
+-- Migration Script: Replace free-text room locations with a site -> building -> floor hierarchy
+-- Run this in your MySQL client (e.g., MySQL Workbench, phpMyAdmin, or mysql CLI)
+-- Only needed for databases created before the location hierarchy existed; fresh installs get this from init-db.sql
+--
+-- IMPORTANT: Run steps 1-3 first, review the location_mapping table (step 3), then run steps 4-7.
+-- Step 7 drops room.location, so check the result of step 5 before running it.
+
+USE `13rooms`;
+
+-- Step 1: Create the location tables
+CREATE TABLE IF NOT EXISTS `site` (
+  `id` INT AUTO_INCREMENT PRIMARY KEY,
+  `name` VARCHAR(100) NOT NULL,
+  `address` VARCHAR(255) DEFAULT NULL,
+  `created_at` DATETIME NOT NULL,
+  `updated_at` DATETIME NOT NULL,
+
+  UNIQUE KEY `ux_site_name` (`name`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+CREATE TABLE IF NOT EXISTS `building` (
+  `id` INT AUTO_INCREMENT PRIMARY KEY,
+  `site_id` INT NOT NULL,
+  `name` VARCHAR(100) NOT NULL,
+  `created_at` DATETIME NOT NULL,
+  `updated_at` DATETIME NOT NULL,
+
+  CONSTRAINT `fk_building_site` FOREIGN KEY (`site_id`) REFERENCES `site`(`id`) ON DELETE RESTRICT,
+
+  UNIQUE KEY `ux_building_site_name` (`site_id`, `name`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+CREATE TABLE IF NOT EXISTS `floor` (
+  `id` INT AUTO_INCREMENT PRIMARY KEY,
+  `building_id` INT NOT NULL,
+  `name` VARCHAR(100) NOT NULL,
+  `level` INT DEFAULT NULL,  -- Sort order within the building (e.g. -1 = basement, 0 = ground floor)
+  `created_at` DATETIME NOT NULL,
+  `updated_at` DATETIME NOT NULL,
+
+  CONSTRAINT `fk_floor_building` FOREIGN KEY (`building_id`) REFERENCES `building`(`id`) ON DELETE RESTRICT,
+
+  UNIQUE KEY `ux_floor_building_name` (`building_id`, `name`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- Step 2: Let rooms reference a floor
+ALTER TABLE `room` ADD COLUMN `floor_id` INT DEFAULT NULL AFTER `status`;
+
+ALTER TABLE `room`
+  ADD CONSTRAINT `fk_room_floor`
+  FOREIGN KEY (`floor_id`) REFERENCES `floor`(`id`)
+  ON DELETE RESTRICT;
+
+-- Step 3: Propose a mapping for every distinct location string
+-- "Haus A, 2. OG" becomes building "Haus A", floor "2. OG"; strings without a comma get the floor "Standard".
+-- All buildings are placed on the site "Hauptstandort".
+-- REVIEW THIS TABLE before continuing: fix typos and map spellings of the same place
+-- (e.g. "Building A 2nd floor") to the same site/building/floor names, for example:
+--   UPDATE location_mapping SET building_name = 'Haus A', floor_name = '2. OG' WHERE location = 'Building A 2nd floor';
+CREATE TABLE IF NOT EXISTS `location_mapping` (
+  `location` VARCHAR(255) NOT NULL PRIMARY KEY,
+  `site_name` VARCHAR(100) NOT NULL,
+  `building_name` VARCHAR(100) NOT NULL,
+  `floor_name` VARCHAR(100) NOT NULL
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+INSERT IGNORE INTO `location_mapping` (`location`, `site_name`, `building_name`, `floor_name`)
+SELECT DISTINCT
+  TRIM(`location`),
+  'Hauptstandort',
+  LEFT(TRIM(SUBSTRING_INDEX(TRIM(`location`), ',', 1)), 100),
+  IF(LOCATE(',', TRIM(`location`)) > 0,
+     LEFT(TRIM(SUBSTRING(TRIM(`location`), LOCATE(',', TRIM(`location`)) + 1)), 100),
+     'Standard')
+FROM `room`
+WHERE `location` IS NOT NULL AND TRIM(`location`) <> '';
+
+SELECT * FROM `location_mapping` ORDER BY `site_name`, `building_name`, `floor_name`;
+
+-- Step 4: Create the sites, buildings and floors of the mapping
+INSERT IGNORE INTO `site` (`name`, `created_at`, `updated_at`)
+SELECT DISTINCT `site_name`, NOW(), NOW() FROM `location_mapping`;
+
+INSERT IGNORE INTO `building` (`site_id`, `name`, `created_at`, `updated_at`)
+SELECT DISTINCT `site`.`id`, `location_mapping`.`building_name`, NOW(), NOW()
+FROM `location_mapping`
+INNER JOIN `site` ON `site`.`name` = `location_mapping`.`site_name`;
+
+INSERT IGNORE INTO `floor` (`building_id`, `name`, `created_at`, `updated_at`)
+SELECT DISTINCT `building`.`id`, `location_mapping`.`floor_name`, NOW(), NOW()
+FROM `location_mapping`
+INNER JOIN `site` ON `site`.`name` = `location_mapping`.`site_name`
+INNER JOIN `building` ON `building`.`site_id` = `site`.`id` AND `building`.`name` = `location_mapping`.`building_name`;
+
+-- Step 5: Assign every room to its floor
+UPDATE `room`
+INNER JOIN `location_mapping` ON `location_mapping`.`location` = TRIM(`room`.`location`)
+INNER JOIN `site` ON `site`.`name` = `location_mapping`.`site_name`
+INNER JOIN `building` ON `building`.`site_id` = `site`.`id` AND `building`.`name` = `location_mapping`.`building_name`
+INNER JOIN `floor` ON `floor`.`building_id` = `building`.`id` AND `floor`.`name` = `location_mapping`.`floor_name`
+SET `room`.`floor_id` = `floor`.`id`;
+
+-- Rooms that had a location but were not assigned (should be empty)
+SELECT `id`, `name`, `location` FROM `room`
+WHERE `floor_id` IS NULL AND `location` IS NOT NULL AND TRIM(`location`) <> '';
+
+-- Step 6: Allow location changes in the activity log
+ALTER TABLE `activity_log`
+  MODIFY COLUMN `entity_type` ENUM('BOOKING','ROOM','USER','WAITLIST','LOCATION') NOT NULL;
+
+-- Step 7: Remove the free-text column and the mapping table
+ALTER TABLE `room` DROP COLUMN `location`;
+DROP TABLE `location_mapping`;
+
+-- Verification: Check the updated schema
+SHOW CREATE TABLE `room`;
+
+-- Migration complete!
@@ -0,0 +1,24 @@
+-- Migration Script: Password reset via emailed one-time link
+-- Run this in your MySQL client (e.g., MySQL Workbench, phpMyAdmin, or mysql CLI)
+-- Only needed for databases created before password resets existed; fresh installs get this from init-db.sql
+
+USE `13rooms`;
+
+-- Step 1: Create the password_reset_token table (hashed, expiring, single-use tokens)
+CREATE TABLE IF NOT EXISTS `password_reset_token` (
+  `id` INT AUTO_INCREMENT PRIMARY KEY,
+  `user_id` INT NOT NULL,
+  `token_hash` CHAR(64) NOT NULL UNIQUE,
+  `expires_at` DATETIME NOT NULL,
+  `used_at` DATETIME DEFAULT NULL,
+  `created_at` DATETIME NOT NULL,
+
+  CONSTRAINT `fk_password_reset_token_user` FOREIGN KEY (`user_id`) REFERENCES `user`(`id`) ON DELETE CASCADE,
+
+  KEY `ix_password_reset_token_user` (`user_id`, `created_at`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- Verification: Check the new schema
+SHOW CREATE TABLE `password_reset_token`;
+
+-- Migration complete!
@@ -0,0 +1,28 @@
+-- Migration Script: Refresh tokens and logout
+-- Run this in your MySQL client (e.g., MySQL Workbench, phpMyAdmin, or mysql CLI)
+-- Only needed for databases created before refresh tokens existed; fresh installs get this from init-db.sql
+
+USE `13rooms`;
+
+-- Step 1: Create the refresh_token table (one family of rotated tokens per login)
+CREATE TABLE IF NOT EXISTS `refresh_token` (
+  `id` INT AUTO_INCREMENT PRIMARY KEY,
+  `user_id` INT NOT NULL,
+  `family_id` CHAR(36) NOT NULL,
+  `token_hash` CHAR(64) NOT NULL UNIQUE,
+  `expires_at` DATETIME NOT NULL,
+  `used_at` DATETIME DEFAULT NULL,      -- Set when the token was exchanged for its successor
+  `revoked_at` DATETIME DEFAULT NULL,
+  `revoked_reason` ENUM('LOGOUT','REUSE_DETECTED','ACCOUNT_DISABLED') DEFAULT NULL,
+  `created_at` DATETIME NOT NULL,
+
+  CONSTRAINT `fk_refresh_token_user` FOREIGN KEY (`user_id`) REFERENCES `user`(`id`) ON DELETE CASCADE,
+
+  KEY `ix_refresh_token_family` (`family_id`),
+  KEY `ix_refresh_token_user` (`user_id`, `expires_at`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- Verification: Check the new schema
+SHOW CREATE TABLE `refresh_token`;
+
+-- Migration complete!
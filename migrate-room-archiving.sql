@@ -0,0 +1,46 @@
+-- Migration Script: Archive rooms instead of deleting them
+-- Run this in your MySQL client (e.g., MySQL Workbench, phpMyAdmin, or mysql CLI)
+-- Only needed for databases created before room archiving existed; fresh installs get this from init-db.sql
+
+USE `13rooms`;
+
+-- Step 1: Archive columns on the room table
+ALTER TABLE `room`
+  ADD COLUMN `archived_at` DATETIME DEFAULT NULL AFTER `requires_approval`,
+  ADD COLUMN `archived_by` INT DEFAULT NULL AFTER `archived_at`;
+
+ALTER TABLE `room`
+  ADD CONSTRAINT `fk_room_archived_by`
+  FOREIGN KEY (`archived_by`) REFERENCES `user`(`id`)
+  ON DELETE SET NULL;
+
+-- Step 2: Deleting a room must no longer wipe its booking history
+ALTER TABLE `booking` DROP FOREIGN KEY `fk_booking_room`;
+
+ALTER TABLE `booking`
+  ADD CONSTRAINT `fk_booking_room`
+  FOREIGN KEY (`room_id`) REFERENCES `room`(`id`)
+  ON DELETE RESTRICT;
+
+-- Step 3: In-app notifications for booking owners
+CREATE TABLE IF NOT EXISTS `user_notification` (
+  `id` INT AUTO_INCREMENT PRIMARY KEY,
+  `user_id` INT NOT NULL,
+  `type` ENUM('BOOKING_CANCELED','BOOKING_MOVED') NOT NULL,
+  `message` VARCHAR(500) NOT NULL,
+  `booking_id` INT DEFAULT NULL,
+  `read_at` DATETIME DEFAULT NULL,
+  `created_at` DATETIME NOT NULL,
+
+  CONSTRAINT `fk_user_notification_user`    FOREIGN KEY (`user_id`)    REFERENCES `user`(`id`)     ON DELETE CASCADE,
+  CONSTRAINT `fk_user_notification_booking` FOREIGN KEY (`booking_id`) REFERENCES `booking`(`id`)  ON DELETE SET NULL,
+
+  KEY `ix_user_notification_user` (`user_id`, `read_at`, `created_at`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- Verification: Check the updated schema
+SHOW CREATE TABLE `room`;
+SHOW CREATE TABLE `booking`;
+SHOW CREATE TABLE `user_notification`;
+
+-- Migration complete!
@@ -0,0 +1,27 @@
+-- Migration Script: Add scheduled maintenance windows for rooms
+-- Run this in your MySQL client (e.g., MySQL Workbench, phpMyAdmin, or mysql CLI)
+-- Only needed for databases created before maintenance windows existed; fresh installs get this from init-db.sql
+
+USE `13rooms`;
+
+-- Step 1: Create the room_maintenance table
+CREATE TABLE IF NOT EXISTS `room_maintenance` (
+  `id` INT AUTO_INCREMENT PRIMARY KEY,
+  `room_id` INT NOT NULL,
+  `start_time` DATETIME NOT NULL,
+  `end_time` DATETIME NOT NULL,
+  `reason` VARCHAR(500) DEFAULT NULL,
+  `created_by` INT DEFAULT NULL,
+  `created_at` DATETIME NOT NULL,
+  `updated_at` DATETIME NOT NULL,
+
+  CONSTRAINT `fk_room_maintenance_room` FOREIGN KEY (`room_id`) REFERENCES `room`(`id`) ON DELETE CASCADE,
+  CONSTRAINT `fk_room_maintenance_created_by` FOREIGN KEY (`created_by`) REFERENCES `user`(`id`) ON DELETE SET NULL,
+
+  KEY `ix_room_maintenance_room_time` (`room_id`, `start_time`, `end_time`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- Verification: Check the new schema
+SHOW CREATE TABLE `room_maintenance`;
+
+-- Migration complete!
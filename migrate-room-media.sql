@@ -0,0 +1,30 @@
+-- Migration Script: Add photo and document uploads for rooms
+-- Run this in your MySQL client (e.g., MySQL Workbench, phpMyAdmin, or mysql CLI)
+-- Only needed for databases created before room media existed; fresh installs get this from init-db.sql
+
+USE `13rooms`;
+
+-- Step 1: Create the room_media table
+CREATE TABLE IF NOT EXISTS `room_media` (
+  `id` INT AUTO_INCREMENT PRIMARY KEY,
+  `room_id` INT NOT NULL,
+  `kind` ENUM('photo', 'document') NOT NULL,
+  `file_name` VARCHAR(255) NOT NULL,       -- Original file name (shown on download)
+  `storage_key` VARCHAR(255) NOT NULL,     -- Key of the file in the media storage backend
+  `mime_type` VARCHAR(100) NOT NULL,
+  `size_bytes` INT NOT NULL,
+  `caption` VARCHAR(255) DEFAULT NULL,
+  `uploaded_by` INT DEFAULT NULL,
+  `created_at` DATETIME NOT NULL,
+
+  CONSTRAINT `fk_room_media_room` FOREIGN KEY (`room_id`) REFERENCES `room`(`id`) ON DELETE CASCADE,
+  CONSTRAINT `fk_room_media_uploaded_by` FOREIGN KEY (`uploaded_by`) REFERENCES `user`(`id`) ON DELETE SET NULL,
+
+  UNIQUE KEY `ux_room_media_storage_key` (`storage_key`),
+  KEY `ix_room_media_room` (`room_id`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- Verification: Check the new schema
+SHOW CREATE TABLE `room_media`;
+
+-- Migration complete!
@@ -0,0 +1,22 @@
+-- Migration Script: Token versioning and session management
+-- Run this in your MySQL client (e.g., MySQL Workbench, phpMyAdmin, or mysql CLI)
+-- Only needed for databases created before token versioning existed; fresh installs get this from init-db.sql
+
+USE `13rooms`;
+
+-- Step 1: Add the token version to the user table
+-- Raising it invalidates every access token issued before
+ALTER TABLE `user`
+  ADD COLUMN `token_version` INT NOT NULL DEFAULT 0 AFTER `is_active`;
+
+-- Step 2: Record the client of each session and the new revocation reasons
+ALTER TABLE `refresh_token`
+  MODIFY COLUMN `revoked_reason` ENUM('LOGOUT','REUSE_DETECTED','ACCOUNT_DISABLED','ROLE_CHANGED','PASSWORD_CHANGED','ADMIN_REVOKED') DEFAULT NULL,
+  ADD COLUMN `user_agent` VARCHAR(255) DEFAULT NULL AFTER `revoked_reason`,
+  ADD COLUMN `ip_address` VARCHAR(45) DEFAULT NULL AFTER `user_agent`;
+
+-- Verification: Check the new schema
+SHOW CREATE TABLE `user`;
+SHOW CREATE TABLE `refresh_token`;
+
+-- Migration complete!
@@ -0,0 +1,47 @@
+-- Migration Script: TOTP two-factor authentication
+-- Run this in your MySQL client (e.g., MySQL Workbench, phpMyAdmin, or mysql CLI)
+-- Only needed for databases created before two-factor authentication existed; fresh installs get this from init-db.sql
+
+USE `13rooms`;
+
+-- Step 1: Add the TOTP columns to the user table
+ALTER TABLE `user`
+  ADD COLUMN `totp_secret` VARCHAR(64) DEFAULT NULL AFTER `email_verified_at`,
+  ADD COLUMN `totp_pending_secret` VARCHAR(64) DEFAULT NULL AFTER `totp_secret`,
+  ADD COLUMN `totp_enabled_at` DATETIME DEFAULT NULL AFTER `totp_pending_secret`,
+  ADD COLUMN `totp_last_used_step` BIGINT DEFAULT NULL AFTER `totp_enabled_at`;
+
+-- Step 2: Create the user_recovery_code table (hashed one-time recovery codes)
+CREATE TABLE IF NOT EXISTS `user_recovery_code` (
+  `id` INT AUTO_INCREMENT PRIMARY KEY,
+  `user_id` INT NOT NULL,
+  `code_hash` CHAR(64) NOT NULL,
+  `used_at` DATETIME DEFAULT NULL,
+  `created_at` DATETIME NOT NULL,
+
+  CONSTRAINT `fk_user_recovery_code_user` FOREIGN KEY (`user_id`) REFERENCES `user`(`id`) ON DELETE CASCADE,
+
+  KEY `ix_user_recovery_code_user` (`user_id`, `code_hash`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- Step 3: Create the two_factor_challenge table (second login step)
+CREATE TABLE IF NOT EXISTS `two_factor_challenge` (
+  `id` INT AUTO_INCREMENT PRIMARY KEY,
+  `user_id` INT NOT NULL,
+  `token_hash` CHAR(64) NOT NULL UNIQUE,
+  `failed_attempts` INT NOT NULL DEFAULT 0,
+  `expires_at` DATETIME NOT NULL,
+  `used_at` DATETIME DEFAULT NULL,
+  `created_at` DATETIME NOT NULL,
+
+  CONSTRAINT `fk_two_factor_challenge_user` FOREIGN KEY (`user_id`) REFERENCES `user`(`id`) ON DELETE CASCADE,
+
+  KEY `ix_two_factor_challenge_user` (`user_id`, `expires_at`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- Verification: Check the new schema
+SHOW CREATE TABLE `user`;
+SHOW CREATE TABLE `user_recovery_code`;
+SHOW CREATE TABLE `two_factor_challenge`;
+
+-- Migration complete!
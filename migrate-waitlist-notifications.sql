@@ -0,0 +1,14 @@
+-- Migration Script: Notifications for waitlist offers and automatic waitlist bookings
+-- Run this in your MySQL client (e.g., MySQL Workbench, phpMyAdmin, or mysql CLI)
+-- Only needed for databases created before waitlist notifications existed; fresh installs get this from init-db.sql
+
+USE `13rooms`;
+
+-- Step 1: New notification types
+ALTER TABLE `user_notification`
+  MODIFY COLUMN `type` ENUM('BOOKING_CANCELED','BOOKING_MOVED','WAITLIST_OFFERED','WAITLIST_BOOKED') NOT NULL;
+
+-- Verification: Check the updated schema
+SHOW CREATE TABLE `user_notification`;
+
+-- Migration complete!
@@ -0,0 +1,141 @@
+import { Response } from 'express';
+import pool from '../models/db';
+import { AuthenticatedRequest } from '../middleware/auth.middleware';
+import { BusinessHoursService } from '../services/business-hours.service';
+import { NO_SHOW_CANCEL_REASON } from '../services/no-show.service';
+import { calculateSecondsBetweenNaive, getCurrentNaiveDateTimeString } from '../utils/date-utils';
+import { addSecondsToNaive } from '../utils/recurrence';
+import {
+  locationFilterSql,
+  parseLocationFilter,
+  ROOM_LOCATION_COLUMNS,
+  ROOM_LOCATION_JOINS
+} from '../utils/room-location';
+import {
+  computeRoomUtilisation,
+  formatUtilisation,
+  groupUtilisation,
+  sumUtilisation,
+  UtilisationGroupBy,
+  utilisationToCsv
+} from '../utils/utilisation';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const GROUP_BY_VALUES: UtilisationGroupBy[] = ['room', 'floor', 'building', 'site'];
+const DEFAULT_RANGE_DAYS = 30;
+const MAX_RANGE_DAYS = 366;
+const DAY_SECONDS = 24 * 60 * 60;
+
+/**
+ * @route GET /api/analytics/utilisation
+ * @desc Utilisation report per room or per location: booked vs. available opening hours, peak hours
+ *       and weekdays, average booking length, cancellation rate and booking size vs. capacity
+ * @access Private (requires admin)
+ * @query from, to - Date range (YYYY-MM-DD, inclusive; default: the last 30 days)
+ * @query groupBy - room (default), floor, building or site
+ * @query siteId, buildingId, floorId - Optional location filter
+ * @query format - json (default) or csv (also selected by Accept: text/csv)
+ */
+export const getUtilisation = async (req: AuthenticatedRequest, res: Response) => {
+  const today = getCurrentNaiveDateTimeString().slice(0, 10);
+  const to = typeof req.query.to === 'string' ? req.query.to : today;
+  const from = typeof req.query.from === 'string'
+    ? req.query.from
+    : addSecondsToNaive(`${to} 00:00:00`, -(DEFAULT_RANGE_DAYS - 1) * DAY_SECONDS).slice(0, 10);
+
+  if (!DATE_PATTERN.test(from) || !DATE_PATTERN.test(to)) {
+    return res.status(400).json({ message: 'from and to must be dates in YYYY-MM-DD format' });
+  }
+
+  const rangeStart = `${from} 00:00:00`;
+  const rangeEnd = addSecondsToNaive(`${to} 00:00:00`, DAY_SECONDS);
+  const rangeDays = calculateSecondsBetweenNaive(rangeStart, rangeEnd) / DAY_SECONDS;
+  if (!(rangeDays >= 1)) {
+    return res.status(400).json({ message: 'to must not be before from' });
+  }
+  if (rangeDays > MAX_RANGE_DAYS) {
+    return res.status(400).json({ message: `The date range may span at most ${MAX_RANGE_DAYS} days` });
+  }
+
+  const groupBy = (req.query.groupBy ?? 'room') as UtilisationGroupBy;
+  if (!GROUP_BY_VALUES.includes(groupBy)) {
+    return res.status(400).json({ message: `groupBy must be one of ${GROUP_BY_VALUES.join(', ')}` });
+  }
+
+  const format = req.query.format ?? (req.accepts(['json', 'text/csv']) === 'text/csv' ? 'csv' : 'json');
+  if (format !== 'json' && format !== 'csv') {
+    return res.status(400).json({ message: 'format must be json or csv' });
+  }
+
+  let locationFilter;
+  try {
+    locationFilter = locationFilterSql(parseLocationFilter(req.query));
+  } catch (error) {
+    return res.status(400).json({ message: error instanceof Error ? error.message : 'Invalid location filter' });
+  }
+
+  try {
+    const [rooms] = await pool.query<any[]>(
+      `SELECT room.id, room.name, room.capacity, ${ROOM_LOCATION_COLUMNS}
+       FROM room
+       ${ROOM_LOCATION_JOINS}
+       WHERE 1 = 1${locationFilter.sql}
+       ORDER BY room.name ASC`,
+      locationFilter.params
+    );
+    const roomIds = rooms.map((room: any) => room.id);
+
+    // Confirmed bookings make up the booked time; canceled ones only count towards the cancellation rate
+    const [bookingRows] = roomIds.length > 0
+      ? await pool.query<any[]>(
+        `SELECT room_id, start_time, end_time, status, attendees, canceled_reason, canceled_by
+         FROM booking
+         WHERE room_id IN (?)
+         AND start_time < ?
+         AND end_time > ?
+         AND status IN ('confirmed', 'canceled')`,
+        [roomIds, rangeEnd, rangeStart]
+      )
+      : [[]];
+
+    const hoursByRoom = await BusinessHoursService.getRoomHours(roomIds);
+    const byRoom = computeRoomUtilisation(
+      rooms,
+      hoursByRoom,
+      bookingRows.map((row: any) => ({
+        room_id: row.room_id,
+        start_time: row.start_time,
+        end_time: row.end_time,
+        status: row.status,
+        attendees: row.attendees ?? null,
+        no_show: row.canceled_reason === NO_SHOW_CANCEL_REASON && row.canceled_by === null
+      })),
+      rangeStart,
+      rangeEnd
+    );
+    const groups = groupUtilisation(rooms, byRoom, groupBy);
+
+    if (format === 'csv') {
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="utilisation-${groupBy}-${from}-${to}.csv"`);
+      return res.send(utilisationToCsv(groups));
+    }
+
+    res.json({
+      from,
+      to,
+      groupBy,
+      totals: formatUtilisation(sumUtilisation(groups)),
+      results: groups.map(group => ({
+        id: group.id,
+        name: group.name,
+        rooms: group.rooms,
+        capacity: group.capacity,
+        ...formatUtilisation(group.totals)
+      }))
+    });
+  } catch (error) {
+    console.error('Error computing utilisation:', error);
+    res.status(500).json({ message: 'Server Error' });
+  }
+};
@@ -1,29 +1,174 @@
 import { Request, Response } from 'express';
-import pool from '../models/db';
+import validator from 'validator';
+import pool, { withTransaction } from '../models/db';
+import { AuthenticatedRequest } from '../middleware/auth.middleware';
 import { hashPassword, verifyPassword } from '../utils/password';
-import { generateToken } from '../utils/token';
+import { generateToken, getAccessTokenTtlSeconds } from '../utils/token';
 import { ActivityLogService } from '../services/activity-log.service';
+import { EmailVerificationService } from '../services/email-verification.service';
+import { PasswordResetService } from '../services/password-reset.service';
+import { ClientInfo, IssuedRefreshToken, RefreshTokenService } from '../services/refresh-token.service';
+import { RegistrationService } from '../services/registration.service';
+import { TwoFactorService } from '../services/two-factor.service';
 import { getCurrentTimezoneNaiveTimestamp } from '../utils/date-utils';
 
 const sanitizeEmail = (email: string): string => email.trim().toLowerCase();
 
-const normalizeRole = (role?: string): 'user' | 'admin' => {
-  if (role && role.toLowerCase() === 'admin') {
-    return 'admin';
+const getClientInfo = (req: Request): ClientInfo => ({
+  userAgent: req.get('user-agent') ?? null,
+  ipAddress: req.ip ?? null
+});
+
+/**
+ * Access token (bound to the refresh token's session) plus refresh token for the response.
+ */
+const buildTokens = (
+  user: { id: number; email: string; role: 'user' | 'admin'; tokenVersion: number },
+  refreshToken: IssuedRefreshToken
+) => ({
+  token: generateToken({
+    id: user.id,
+    email: user.email,
+    role: user.role,
+    sid: refreshToken.familyId,
+    ver: user.tokenVersion
+  }),
+  refresh_token: refreshToken.token,
+  expires_in: getAccessTokenTtlSeconds()
+});
+
+type InvitationRegistrationOutcome =
+  | { ok: true; invitationId: number; user: { id: number; email: string; firstname: string; surname: string; role: 'user' | 'admin' } }
+  | { ok: false; status: number; body: Record<string, any> };
+
+/**
+ * Registration with an invitation token: the account gets the invited email and role and is verified right away.
+ * Name fields from the request override the pre-filled ones.
+ */
+const registerWithInvitation = async (req: Request, res: Response) => {
+  const { firstname, surname, password, invite_token: inviteToken } = req.body ?? {};
+
+  if (!inviteToken || typeof inviteToken !== 'string' || !password) {
+    return res.status(400).json({ message: 'Please provide the invitation token and a password.' });
+  }
+
+  let passwordHash: string;
+  try {
+    passwordHash = hashPassword(password);
+  } catch (error) {
+    return res.status(400).json({ message: error instanceof Error ? error.message : 'Invalid password.' });
+  }
+
+  try {
+    const outcome = await withTransaction(async (connection): Promise<InvitationRegistrationOutcome> => {
+      const invitation = await RegistrationService.findPendingInvitation(inviteToken, connection);
+      if (!invitation) {
+        return { ok: false, status: 400, body: { message: 'This invitation is invalid or has expired.' } };
+      }
+
+      const userFirstname = (typeof firstname === 'string' && firstname.trim()) || invitation.firstname;
+      const userSurname = (typeof surname === 'string' && surname.trim()) || invitation.surname;
+      if (!userFirstname || !userSurname) {
+        return { ok: false, status: 400, body: { message: 'Please provide firstname and surname.' } };
+      }
+
+      const [existingRows] = await connection.query<any[]>(
+        'SELECT id FROM `user` WHERE email = ? LIMIT 1',
+        [invitation.email]
+      );
+      if (existingRows.length > 0) {
+        return { ok: false, status: 409, body: { message: 'An account with this email already exists.' } };
+      }
+
+      const now = getCurrentTimezoneNaiveTimestamp();
+      const [result] = await connection.query<any>(
+        `INSERT INTO \`user\` (email, firstname, surname, password_hash, role, is_active, email_verified_at, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, 1, ?, ?, ?)`,
+        [invitation.email, userFirstname, userSurname, passwordHash, invitation.role, now, now, now]
+      );
+      await RegistrationService.markAccepted(connection, invitation.id, result.insertId);
+
+      return {
+        ok: true,
+        invitationId: invitation.id,
+        user: {
+          id: result.insertId,
+          email: invitation.email,
+          firstname: userFirstname,
+          surname: userSurname,
+          role: invitation.role
+        }
+      };
+    });
+
+    if (!outcome.ok) {
+      return res.status(outcome.status).json(outcome.body);
+    }
+
+    const { user } = outcome;
+    const tokens = buildTokens(
+      { id: user.id, email: user.email, role: user.role, tokenVersion: 0 },
+      await RefreshTokenService.issue(user.id, getClientInfo(req))
+    );
+
+    await ActivityLogService.logActivity(
+      user.id,
+      'CREATE',
+      'USER',
+      user.id,
+      {
+        email: user.email,
+        firstname: user.firstname,
+        surname: user.surname,
+        role: user.role,
+        self_registration: true,
+        invitation_id: outcome.invitationId
+      }
+    );
+
+    res.status(201).json({
+      message: 'Account successfully created.',
+      ...tokens,
+      user
+    });
+  } catch (error) {
+    console.error('Registration with invitation failed:', error);
+    res.status(500).json({ message: 'Unable to register at this time.' });
   }
-  return 'user';
 };
 
+/**
+ * Self-registration. Depending on the registration settings it is open to everyone, to allowed
+ * email domains only, or only possible with an invitation (invite_token).
+ * Accounts registered without an invitation are regular users and can log in after confirming their email.
+ */
 export const register = async (req: Request, res: Response) => {
-  const { email, firstname, surname, password, role } = req.body ?? {};
+  const { email, firstname, surname, password, invite_token: inviteToken } = req.body ?? {};
+
+  if (inviteToken !== undefined) {
+    return registerWithInvitation(req, res);
+  }
 
   if (!email || !firstname || !surname || !password) {
     return res.status(400).json({ message: 'Please provide email, firstname, surname, and password.' });
   }
 
+  // Checked before the domain rules, which only look at the part after the last "@"
+  if (typeof email !== 'string' || !validator.isEmail(email.trim())) {
+    return res.status(400).json({ message: 'Please provide a valid email address.' });
+  }
+
   try {
     const normalizedEmail = sanitizeEmail(email);
-    const normalizedRole = normalizeRole(role);
+
+    const registrationError = RegistrationService.getSelfRegistrationError(
+      await RegistrationService.getSettings(),
+      normalizedEmail
+    );
+    if (registrationError) {
+      return res.status(403).json({ message: registrationError });
+    }
+
     const passwordHash = hashPassword(password);
 
     const [existingRows] = await pool.query<any[]>(
@@ -35,15 +180,16 @@ export const register = async (req: Request, res: Response) => {
       return res.status(409).json({ message: 'An account with this email already exists.' });
     }
 
+    // Self-registration never grants admin rights; admins are created or invited by an admin
     const now = getCurrentTimezoneNaiveTimestamp();
     const [result] = await pool.query<any>(
       `INSERT INTO \`user\` (email, firstname, surname, password_hash, role, is_active, created_at, updated_at)
-       VALUES (?, ?, ?, ?, ?, 1, ?, ?)`,
-      [normalizedEmail, firstname.trim(), surname.trim(), passwordHash, normalizedRole, now, now]
+       VALUES (?, ?, ?, ?, 'user', 1, ?, ?)`,
+      [normalizedEmail, firstname.trim(), surname.trim(), passwordHash, now, now]
     );
 
     const userId = result.insertId;
-    const token = generateToken({ id: userId, email: normalizedEmail, role: normalizedRole });
+    await EmailVerificationService.sendVerification({ id: userId, email: normalizedEmail, firstname: firstname.trim() });
 
     // Log the activity (user registers themselves)
     await ActivityLogService.logActivity(
@@ -55,20 +201,20 @@ export const register = async (req: Request, res: Response) => {
         email: normalizedEmail,
         firstname: firstname.trim(),
         surname: surname.trim(),
-        role: normalizedRole,
+        role: 'user',
         self_registration: true
       }
     );
 
     res.status(201).json({
-      message: 'Account successfully created.',
-      token,
+      message: 'Account successfully created. Please confirm your email address with the link we sent you.',
+      email_verification_required: true,
       user: {
         id: userId,
         email: normalizedEmail,
         firstname: firstname.trim(),
         surname: surname.trim(),
-        role: normalizedRole
+        role: 'user'
       }
     });
   } catch (error) {
@@ -90,7 +236,8 @@ export const login = async (req: Request, res: Response) => {
   try {
     const normalizedEmail = sanitizeEmail(email);
     const [rows] = await pool.query<any[]>(
-      'SELECT id, email, firstname, surname, password_hash, role, is_active FROM `user` WHERE email = ? LIMIT 1',
+      `SELECT id, email, firstname, surname, password_hash, role, is_active, token_version, email_verified_at, totp_enabled_at
+       FROM \`user\` WHERE email = ? LIMIT 1`,
       [normalizedEmail]
     );
 
@@ -110,7 +257,28 @@ export const login = async (req: Request, res: Response) => {
       return res.status(401).json({ message: 'Invalid email or password.' });
     }
 
-    const token = generateToken({ id: user.id, email: user.email, role: user.role });
+    if (!user.email_verified_at) {
+      return res.status(403).json({
+        message: 'Please confirm your email address before logging in.',
+        code: 'EMAIL_NOT_VERIFIED'
+      });
+    }
+
+    // With 2FA the password only opens the second step; the session starts in loginWithSecondFactor
+    if (user.totp_enabled_at) {
+      const challenge = await TwoFactorService.createChallenge(user.id);
+      return res.json({
+        message: 'Two-factor authentication required.',
+        two_factor_required: true,
+        challenge_token: challenge.token,
+        expires_in: challenge.expiresIn
+      });
+    }
+
+    const tokens = buildTokens(
+      { id: user.id, email: user.email, role: user.role, tokenVersion: user.token_version },
+      await RefreshTokenService.issue(user.id, getClientInfo(req))
+    );
 
     // Log the login activity
     await ActivityLogService.logActivity(
@@ -126,17 +294,294 @@ export const login = async (req: Request, res: Response) => {
 
     res.json({
       message: 'Login successful.',
-      token,
+      ...tokens,
       user: {
         id: user.id,
         email: user.email,
         firstname: user.firstname,
         surname: user.surname,
         role: user.role
-      }
+      },
+      ...(TwoFactorService.isRequiredForRole(user.role) && { two_factor_setup_required: true })
     });
   } catch (error) {
     console.error('Login failed:', error);
     res.status(500).json({ message: 'Unable to login at this time.' });
   }
 };
+
+/**
+ * Second login step for accounts with 2FA.
+ * Body: challenge_token, code or recovery_code
+ */
+export const loginWithSecondFactor = async (req: Request, res: Response) => {
+  const { challenge_token: challengeToken, code, recovery_code: recoveryCode } = req.body ?? {};
+
+  if (!challengeToken || typeof challengeToken !== 'string') {
+    return res.status(400).json({ message: 'Please provide the challenge token from the login.' });
+  }
+  if (typeof code !== 'string' && typeof recoveryCode !== 'string') {
+    return res.status(400).json({ message: 'Please provide a code or a recovery code.' });
+  }
+
+  try {
+    const outcome = await TwoFactorService.completeChallenge(challengeToken, {
+      code: typeof code === 'string' ? code : undefined,
+      recoveryCode: typeof recoveryCode === 'string' ? recoveryCode : undefined
+    });
+
+    if (!outcome.ok) {
+      if (outcome.reason === 'INVALID_CODE') {
+        await ActivityLogService.logActivity(
+          outcome.userId,
+          'LOGIN',
+          'USER',
+          outcome.userId,
+          {
+            two_factor: 'failed',
+            attempts_left: outcome.attemptsLeft
+          }
+        );
+        return res.status(401).json({
+          message: 'Invalid authentication code.',
+          attempts_left: outcome.attemptsLeft
+        });
+      }
+      return res.status(401).json({ message: 'The login has expired. Please log in again.' });
+    }
+
+    const { user } = outcome;
+    const tokens = buildTokens(
+      { id: user.id, email: user.email, role: user.role, tokenVersion: user.token_version },
+      await RefreshTokenService.issue(user.id, getClientInfo(req))
+    );
+
+    await ActivityLogService.logActivity(
+      user.id,
+      'LOGIN',
+      'USER',
+      user.id,
+      {
+        email: user.email,
+        role: user.role,
+        two_factor: outcome.method
+      }
+    );
+
+    res.json({
+      message: 'Login successful.',
+      ...tokens,
+      user: {
+        id: user.id,
+        email: user.email,
+        firstname: user.firstname,
+        surname: user.surname,
+        role: user.role
+      }
+    });
+  } catch (error) {
+    console.error('Two-factor login failed:', error);
+    res.status(500).json({ message: 'Unable to login at this time.' });
+  }
+};
+
+export const refresh = async (req: Request, res: Response) => {
+  const { refresh_token: refreshToken } = req.body ?? {};
+
+  if (!refreshToken || typeof refreshToken !== 'string') {
+    return res.status(400).json({ message: 'Please provide a refresh token.' });
+  }
+
+  try {
+    const outcome = await RefreshTokenService.rotate(refreshToken, getClientInfo(req));
+
+    if (!outcome.ok) {
+      if (outcome.reason === 'REUSED' && outcome.owner) {
+        // A rotated token came back: someone holds a copy, so the whole session was revoked
+        await ActivityLogService.logActivity(
+          outcome.owner.userId,
+          'LOGOUT',
+          'USER',
+          outcome.owner.userId,
+          {
+            session: outcome.owner.familyId,
+            reason: 'refresh_token_reuse'
+          }
+        );
+      }
+
+      if (outcome.reason === 'ACCOUNT_DISABLED') {
+        return res.status(403).json({ message: 'Account is disabled. Please contact support.' });
+      }
+      return res.status(401).json({ message: 'Invalid or expired refresh token.' });
+    }
+
+    res.json({
+      message: 'Token refreshed.',
+      ...buildTokens(outcome.user, outcome.refreshToken)
+    });
+  } catch (error) {
+    console.error('Token refresh failed:', error);
+    res.status(500).json({ message: 'Unable to refresh the token at this time.' });
+  }
+};
+
+/**
+ * Ends the session of the given refresh token (or of the Bearer access token).
+ * With all: true every session of the user is ended and all of the user's access tokens are invalidated.
+ */
+export const logout = async (req: AuthenticatedRequest, res: Response) => {
+  const { refresh_token: refreshToken, all } = req.body ?? {};
+
+  if (refreshToken !== undefined && typeof refreshToken !== 'string') {
+    return res.status(400).json({ message: 'refresh_token must be a string.' });
+  }
+  if (!refreshToken && !req.user) {
+    return res.status(400).json({ message: 'Please provide a refresh token.' });
+  }
+
+  try {
+    const owner = refreshToken ? await RefreshTokenService.findOwner(refreshToken) : null;
+    const userId = owner?.userId ?? (refreshToken ? undefined : req.user?.id);
+    const session = owner?.familyId ?? (refreshToken ? undefined : req.user?.sid);
+
+    // Unknown token: nothing to end, and nothing to reveal
+    if (!userId) {
+      return res.json({ message: 'Logout successful.' });
+    }
+
+    const revoked = all === true
+      ? await RefreshTokenService.endAllSessions(userId, 'LOGOUT')
+      : session ? await RefreshTokenService.revokeFamily(session, 'LOGOUT') : 0;
+
+    // Repeated logouts of an ended session are not logged again
+    if (revoked > 0 || all === true) {
+      await ActivityLogService.logActivity(
+        userId,
+        'LOGOUT',
+        'USER',
+        userId,
+        {
+          session: all === true ? null : session,
+          all_sessions: all === true
+        }
+      );
+    }
+
+    res.json({ message: 'Logout successful.' });
+  } catch (error) {
+    console.error('Logout failed:', error);
+    res.status(500).json({ message: 'Unable to logout at this time.' });
+  }
+};
+
+/**
+ * Mails a one-time reset link. The response is the same whether or not the email belongs to an account.
+ */
+export const forgotPassword = async (req: Request, res: Response) => {
+  const { email } = req.body ?? {};
+
+  if (!email || typeof email !== 'string') {
+    return res.status(400).json({ message: 'Please provide an email address.' });
+  }
+
+  try {
+    await PasswordResetService.requestReset(sanitizeEmail(email));
+
+    res.json({ message: 'If an account with this email exists, a link to reset the password has been sent.' });
+  } catch (error) {
+    console.error('Password reset request failed:', error);
+    res.status(500).json({ message: 'Unable to request a password reset at this time.' });
+  }
+};
+
+export const resetPassword = async (req: Request, res: Response) => {
+  const { token, password } = req.body ?? {};
+
+  if (!token || typeof token !== 'string' || !password) {
+    return res.status(400).json({ message: 'Please provide the reset token and a new password.' });
+  }
+
+  let passwordHash: string;
+  try {
+    passwordHash = hashPassword(password);
+  } catch (error) {
+    return res.status(400).json({ message: error instanceof Error ? error.message : 'Invalid password.' });
+  }
+
+  try {
+    const outcome = await PasswordResetService.resetPassword(token, passwordHash);
+
+    if (!outcome.ok) {
+      return res.status(400).json({ message: 'This password reset link is invalid or has expired.' });
+    }
+
+    await ActivityLogService.logActivity(
+      outcome.userId,
+      'UPDATE',
+      'USER',
+      outcome.userId,
+      {
+        password_changed: true,
+        password_reset: true,
+        sessions_ended: 'PASSWORD_CHANGED'
+      }
+    );
+
+    res.json({ message: 'Password has been reset. Please log in with your new password.' });
+  } catch (error) {
+    console.error('Password reset failed:', error);
+    res.status(500).json({ message: 'Unable to reset the password at this time.' });
+  }
+};
+
+export const verifyEmail = async (req: Request, res: Response) => {
+  const { token } = req.body ?? {};
+
+  if (!token || typeof token !== 'string') {
+    return res.status(400).json({ message: 'Please provide the confirmation token.' });
+  }
+
+  try {
+    const outcome = await EmailVerificationService.verify(token);
+
+    if (!outcome.ok) {
+      return res.status(400).json({ message: 'This confirmation link is invalid or has expired.' });
+    }
+
+    await ActivityLogService.logActivity(
+      outcome.userId,
+      'UPDATE',
+      'USER',
+      outcome.userId,
+      {
+        email_verified: true
+      }
+    );
+
+    res.json({ message: 'Email address confirmed. You can now log in.' });
+  } catch (error) {
+    console.error('Email verification failed:', error);
+    res.status(500).json({ message: 'Unable to confirm the email address at this time.' });
+  }
+};
+
+/**
+ * Mails a new confirmation link. The response is the same whether or not the email belongs to an unverified account.
+ */
+export const resendVerification = async (req: Request, res: Response) => {
+  const { email } = req.body ?? {};
+
+  if (!email || typeof email !== 'string') {
+    return res.status(400).json({ message: 'Please provide an email address.' });
+  }
+
+  try {
+    await EmailVerificationService.resendVerification(sanitizeEmail(email));
+
+    res.json({ message: 'If an unconfirmed account with this email exists, a new confirmation link has been sent.' });
+  } catch (error) {
+    console.error('Resending the confirmation failed:', error);
+    res.status(500).json({ message: 'Unable to send a confirmation link at this time.' });
+  }
+};
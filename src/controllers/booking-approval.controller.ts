@@ -0,0 +1,208 @@
+import { Response } from 'express';
+import pool, { withTransaction } from '../models/db';
+import { AuthenticatedRequest } from '../middleware/auth.middleware';
+import { ActivityLogService } from '../services/activity-log.service';
+import { BookingApprovalService } from '../services/booking-approval.service';
+import { BookingConflictService } from '../services/booking-conflict.service';
+import { invalidateRoomsCache } from '../services/cache.service';
+import { WaitlistService } from '../services/waitlist.service';
+import { getCurrentTimezoneNaiveTimestamp } from '../utils/date-utils';
+import { validateAndSanitizeReason } from '../utils/sanitize';
+
+type ReviewDecision = 'approve' | 'reject';
+
+type ReviewOutcome =
+  | { ok: true; bookingIds: number[] }
+  | { ok: false; status: number; body: Record<string, any> };
+
+/**
+ * @route GET /api/bookings/approvals?room_id=1
+ * @desc Get the approval queue: pending bookings, oldest request first.
+ *       Admins see every room, room managers only the rooms they manage.
+ * @access Private (requires admin or room manager)
+ */
+export const getApprovalQueue = async (req: AuthenticatedRequest, res: Response) => {
+  const user = req.user;
+
+  if (!user) {
+    return res.status(401).json({ message: 'Authentication required' });
+  }
+
+  try {
+    let query = `SELECT
+                   booking.id,
+                   booking.room_id,
+                   room.name AS room_name,
+                   booking.name AS title,
+                   booking.start_time,
+                   booking.end_time,
+                   booking.comment,
+                   booking.series_id,
+                   booking.status,
+                   booking.created_by,
+                   creator.firstname AS creator_firstname,
+                   creator.surname AS creator_surname,
+                   creator.email AS creator_email,
+                   booking.created_at
+                 FROM booking
+                 INNER JOIN room ON room.id = booking.room_id
+                 LEFT JOIN \`user\` AS creator ON creator.id = booking.created_by
+                 WHERE booking.status = 'pending'
+                 AND booking.end_time > ?`;
+    const params: any[] = [getCurrentTimezoneNaiveTimestamp()];
+
+    if (user.role !== 'admin') {
+      const managedRoomIds = await BookingApprovalService.getManagedRoomIds(user.id);
+      if (managedRoomIds.length === 0) {
+        return res.status(403).json({ message: 'Access denied. Admin or room manager privileges required.' });
+      }
+      query += ' AND booking.room_id IN (?)';
+      params.push(managedRoomIds);
+    }
+
+    if (req.query.room_id !== undefined) {
+      const roomId = Number(req.query.room_id);
+      if (!Number.isInteger(roomId) || roomId <= 0) {
+        return res.status(400).json({ message: 'Invalid room_id' });
+      }
+      query += ' AND booking.room_id = ?';
+      params.push(roomId);
+    }
+
+    query += ' ORDER BY booking.created_at ASC, booking.start_time ASC';
+
+    const [rows] = await pool.query<any[]>(query, params);
+    res.json(rows.map((row: any) => ({ ...row, comment: row.comment ?? null })));
+  } catch (error) {
+    console.error('Error fetching approval queue:', error);
+    res.status(500).json({ message: 'Server Error' });
+  }
+};
+
+/**
+ * Shared implementation of approve/reject.
+ * With series: true every pending, upcoming occurrence of the booking's series is decided at once.
+ */
+const reviewBooking = async (req: AuthenticatedRequest, res: Response, decision: ReviewDecision) => {
+  const { id } = req.params;
+  const user = req.user;
+  const applyToSeries = req.body?.series === true;
+
+  if (!user) {
+    return res.status(401).json({ message: 'Authentication required' });
+  }
+
+  let reason: string | null;
+  try {
+    reason = validateAndSanitizeReason(req.body?.reason);
+  } catch (error) {
+    return res.status(400).json({ message: error instanceof Error ? error.message : 'Invalid reason' });
+  }
+
+  if (decision === 'reject' && !reason) {
+    return res.status(400).json({ message: 'Bitte geben Sie einen Grund für die Ablehnung an.' });
+  }
+
+  try {
+    const [rows] = await pool.query<any[]>(
+      `SELECT room_id, name, start_time, end_time, status, series_id, created_by FROM booking WHERE id = ?`,
+      [id]
+    );
+
+    if (rows.length === 0) {
+      return res.status(404).json({ message: 'Booking not found' });
+    }
+
+    const booking = rows[0];
+    if (!(await BookingApprovalService.canReview(user, booking.room_id))) {
+      return res.status(403).json({ message: 'Only admins and managers of this room may review its bookings.' });
+    }
+
+    if (applyToSeries && !booking.series_id) {
+      return res.status(400).json({ message: 'Booking is not part of a series' });
+    }
+
+    const outcome = await withTransaction(async (connection): Promise<ReviewOutcome> => {
+      // Same lock as every booking write path, so the decision cannot interleave with a reschedule
+      await BookingConflictService.lockRooms(connection, [booking.room_id]);
+
+      const [targets] = applyToSeries
+        ? await connection.query<any[]>(
+          `SELECT id FROM booking
+           WHERE series_id = ? AND room_id = ? AND status = 'pending' AND end_time > ?
+           FOR UPDATE`,
+          [booking.series_id, booking.room_id, getCurrentTimezoneNaiveTimestamp()]
+        )
+        : await connection.query<any[]>(
+          `SELECT id FROM booking WHERE id = ? AND status = 'pending' FOR UPDATE`,
+          [id]
+        );
+
+      if (targets.length === 0) {
+        return { ok: false, status: 409, body: { message: 'Only pending bookings can be approved or rejected' } };
+      }
+
+      const bookingIds = targets.map((target: any) => target.id);
+      const now = getCurrentTimezoneNaiveTimestamp();
+      await connection.query(
+        `UPDATE booking
+         SET status = ?, reviewed_by = ?, reviewed_at = ?, review_reason = ?, updated_at = ?
+         WHERE id IN (?) AND status = 'pending'`,
+        [decision === 'approve' ? 'confirmed' : 'rejected', user.id, now, reason, now, bookingIds]
+      );
+
+      return { ok: true, bookingIds };
+    });
+
+    if (!outcome.ok) {
+      return res.status(outcome.status).json(outcome.body);
+    }
+
+    // Log every decision (after commit)
+    for (const bookingId of outcome.bookingIds) {
+      await ActivityLogService.logActivity(
+        user.id,
+        decision === 'approve' ? 'APPROVE' : 'REJECT',
+        'BOOKING',
+        bookingId,
+        {
+          room_id: booking.room_id,
+          title: booking.name,
+          series_id: booking.series_id ?? undefined,
+          owner_id: booking.created_by,
+          reason
+        }
+      );
+    }
+
+    invalidateRoomsCache();
+    if (decision === 'reject') {
+      // Rejected bookings no longer reserve their slot
+      WaitlistService.notifySlotFreed([booking.room_id]);
+    }
+
+    res.json({
+      message: decision === 'approve' ? 'Booking approved successfully' : 'Booking rejected successfully',
+      bookingIds: outcome.bookingIds
+    });
+  } catch (error) {
+    console.error(`Error reviewing booking ${id}:`, error);
+    res.status(500).json({ message: 'Server Error' });
+  }
+};
+
+/**
+ * @route POST /api/bookings/:id/approve
+ * @desc Approve a pending booking (confirms the tentatively reserved slot)
+ * @body reason - Optional note; series: true approves all upcoming pending occurrences of the series
+ * @access Private (requires admin or manager of the booking's room)
+ */
+export const approveBooking = (req: AuthenticatedRequest, res: Response) => reviewBooking(req, res, 'approve');
+
+/**
+ * @route POST /api/bookings/:id/reject
+ * @desc Reject a pending booking and free its slot
+ * @body reason - Required; series: true rejects all upcoming pending occurrences of the series
+ * @access Private (requires admin or manager of the booking's room)
+ */
+export const rejectBooking = (req: AuthenticatedRequest, res: Response) => reviewBooking(req, res, 'reject');
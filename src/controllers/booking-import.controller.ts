@@ -0,0 +1,241 @@
+import { Response } from 'express';
+import { withTransaction } from '../models/db';
+import { AuthenticatedRequest } from '../middleware/auth.middleware';
+import { ActivityLogService } from '../services/activity-log.service';
+import { invalidateRoomsCache } from '../services/cache.service';
+import { BookingConflictService } from '../services/booking-conflict.service';
+import { BusinessHoursService } from '../services/business-hours.service';
+import { getBusinessHoursError } from '../utils/business-hours';
+import { calculateSecondsBetweenNaive, getCurrentTimezoneNaiveTimestamp, parseTimezoneNaiveDateString } from '../utils/date-utils';
+import { validateAndSanitizeComment, validateAndSanitizeTitle } from '../utils/sanitize';
+import {
+  detectImportFormat,
+  ImportFormat,
+  ImportRow,
+  MAX_IMPORT_ROWS,
+  parseCsvImport,
+  parseICalendarImport
+} from '../utils/booking-import';
+
+type ImportRowStatus = 'created' | 'conflicting' | 'invalid';
+
+interface ImportRowReport {
+  row: number;
+  status: ImportRowStatus;
+  message: string | null;
+  room_id: number | null;
+  title: string | null;
+  start_time: string | null;
+  end_time: string | null;
+  bookingId?: number;
+  conflict?: Record<string, any>;
+}
+
+const isTruthyFlag = (value: unknown): boolean =>
+  value === true || value === 'true' || value === '1';
+
+/**
+ * @route POST /api/bookings/import?dryRun=true&format=ics|csv
+ * @desc Bulk import bookings from an iCalendar (.ics) or CSV file.
+ *       The file is sent as the raw request body (Content-Type text/calendar or text/csv),
+ *       or as JSON { content, format?, dryRun? }.
+ *       Every row goes through the same sanitization, room status and overlap checks as
+ *       POST /api/bookings and is reported as created, conflicting or invalid.
+ *       In dry-run mode nothing is written.
+ * @access Private (requires admin)
+ */
+export const importBookings = async (req: AuthenticatedRequest, res: Response) => {
+  const user = req.user;
+  const isJsonBody = req.body && typeof req.body === 'object';
+  const content: unknown = isJsonBody ? req.body.content : req.body;
+  const dryRun = isTruthyFlag(req.query.dryRun) || (isJsonBody && isTruthyFlag(req.body.dryRun));
+
+  if (typeof content !== 'string' || content.trim().length === 0) {
+    return res.status(400).json({ message: 'Please upload an .ics or CSV file (text/calendar or text/csv body).' });
+  }
+
+  const requestedFormat = (req.query.format ?? (isJsonBody ? req.body.format : undefined)) as string | undefined;
+  if (requestedFormat !== undefined && requestedFormat !== 'ics' && requestedFormat !== 'csv') {
+    return res.status(400).json({ message: "Format must be 'ics' or 'csv'" });
+  }
+  const format: ImportFormat = requestedFormat ?? detectImportFormat(req.headers['content-type'], content);
+
+  let rows: ImportRow[];
+  try {
+    rows = format === 'ics' ? parseICalendarImport(content) : parseCsvImport(content);
+  } catch (error) {
+    return res.status(400).json({ message: error instanceof Error ? error.message : 'Unable to parse file' });
+  }
+
+  if (rows.length === 0) {
+    return res.status(400).json({ message: 'The file does not contain any bookings.' });
+  }
+
+  if (rows.length > MAX_IMPORT_ROWS) {
+    return res.status(400).json({ message: `A single import may contain at most ${MAX_IMPORT_ROWS} bookings.` });
+  }
+
+  try {
+    const report = await withTransaction(async (connection) => {
+      // Map rooms by ID or (case-insensitive) name
+      const [roomRows] = await connection.query<any[]>('SELECT id, name FROM room');
+      const roomsById = new Map<number, number>(roomRows.map((room: any) => [room.id, room.id]));
+      const roomsByName = new Map<string, number>(roomRows.map((room: any) => [room.name.trim().toLowerCase(), room.id]));
+
+      const resolveRoomId = (room: string | null): number | null => {
+        if (!room) {
+          return null;
+        }
+        const trimmed = room.trim();
+        if (/^\d+$/.test(trimmed)) {
+          return roomsById.get(Number(trimmed)) ?? null;
+        }
+        return roomsByName.get(trimmed.toLowerCase()) ?? null;
+      };
+
+      const resolvedRoomIds = rows.map(row => resolveRoomId(row.room));
+      const lockedRooms = await BookingConflictService.lockRooms(
+        connection,
+        resolvedRoomIds.filter((id): id is number => id !== null)
+      );
+      const hoursByRoom = await BusinessHoursService.getRoomHours(lockedRooms.map(room => room.id), connection);
+
+      // Rows accepted earlier in this file must also block later rows
+      const accepted: Array<{ room_id: number; start_time: string; end_time: string; title: string }> = [];
+      const now = getCurrentTimezoneNaiveTimestamp();
+      const results: ImportRowReport[] = [];
+
+      for (let index = 0; index < rows.length; index++) {
+        const row = rows[index];
+        const roomId = resolvedRoomIds[index];
+        const base = {
+          row: row.row,
+          room_id: roomId,
+          title: row.title,
+          start_time: row.start_time,
+          end_time: row.end_time,
+        };
+
+        if (row.error) {
+          results.push({ ...base, status: 'invalid', message: row.error });
+          continue;
+        }
+
+        if (roomId === null) {
+          results.push({ ...base, status: 'invalid', message: `Room not found: ${row.room ?? '(empty)'}` });
+          continue;
+        }
+
+        const roomError = BookingConflictService.getRoomBookingError(lockedRooms.find(room => room.id === roomId));
+        if (roomError) {
+          results.push({ ...base, status: 'invalid', message: roomError.message });
+          continue;
+        }
+
+        let title: string;
+        let comment: string | null;
+        try {
+          title = validateAndSanitizeTitle(row.title);
+          comment = validateAndSanitizeComment(row.comment);
+        } catch (error) {
+          results.push({ ...base, status: 'invalid', message: error instanceof Error ? error.message : 'Invalid input' });
+          continue;
+        }
+
+        const startTime = row.start_time!;
+        const endTime = row.end_time!;
+        if (!parseTimezoneNaiveDateString(startTime) || !parseTimezoneNaiveDateString(endTime)) {
+          results.push({ ...base, status: 'invalid', message: 'Ungültiges Start- oder Enddatum.' });
+          continue;
+        }
+        if (calculateSecondsBetweenNaive(startTime, endTime) <= 0) {
+          results.push({ ...base, status: 'invalid', message: 'Die Endzeit muss nach der Startzeit liegen.' });
+          continue;
+        }
+        const hoursError = getBusinessHoursError(hoursByRoom.get(roomId)!, startTime, endTime);
+        if (hoursError) {
+          results.push({ ...base, status: 'invalid', message: hoursError });
+          continue;
+        }
+
+        const existing = await BookingConflictService.findConflicts(roomId, startTime, endTime, [], connection);
+        const inFile = accepted.find(entry =>
+          entry.room_id === roomId && entry.start_time < endTime && entry.end_time > startTime
+        );
+
+        if (existing.length > 0 || inFile) {
+          results.push({
+            ...base,
+            title,
+            status: 'conflicting',
+            message: 'Dieser Zeitraum ist bereits gebucht.',
+            conflict: existing.length > 0
+              ? BookingConflictService.toConflictResponse(existing[0])
+              : { title: inFile!.title, name: inFile!.title, start_time: inFile!.start_time, end_time: inFile!.end_time, in_file: true }
+          });
+          continue;
+        }
+
+        accepted.push({ room_id: roomId, start_time: startTime, end_time: endTime, title });
+
+        if (dryRun) {
+          results.push({ ...base, title, status: 'created', message: null });
+          continue;
+        }
+
+        const [result] = await connection.query<any>(
+          `INSERT INTO booking (room_id, name, start_time, end_time, comment, created_by, status, created_at, updated_at)
+           VALUES (?, ?, ?, ?, ?, ?, 'confirmed', ?, ?)`,
+          [roomId, title, startTime, endTime, comment, user?.id ?? null, now, now]
+        );
+
+        results.push({ ...base, title, status: 'created', message: null, bookingId: result.insertId });
+      }
+
+      return results;
+    });
+
+    const created = report.filter(entry => entry.status === 'created');
+
+    if (!dryRun) {
+      // Log every created booking (after commit)
+      for (const entry of created) {
+        await ActivityLogService.logActivity(
+          user?.id ?? null,
+          'CREATE',
+          'BOOKING',
+          entry.bookingId ?? null,
+          {
+            room_id: entry.room_id,
+            title: entry.title,
+            start_time: entry.start_time,
+            end_time: entry.end_time,
+            imported: true,
+            import_format: format,
+            import_row: entry.row
+          }
+        );
+      }
+
+      if (created.length > 0) {
+        invalidateRoomsCache();
+      }
+    }
+
+    res.status(dryRun || created.length === 0 ? 200 : 201).json({
+      message: dryRun ? 'Import dry run completed' : 'Import completed',
+      dryRun,
+      format,
+      summary: {
+        total: report.length,
+        created: created.length,
+        conflicting: report.filter(entry => entry.status === 'conflicting').length,
+        invalid: report.filter(entry => entry.status === 'invalid').length
+      },
+      rows: report
+    });
+  } catch (error) {
+    console.error('Error importing bookings:', error);
+    res.status(500).json({ message: 'Server Error' });
+  }
+};
@@ -0,0 +1,107 @@
+import { Request, Response } from 'express';
+import pool from '../models/db';
+import { AuthenticatedRequest } from '../middleware/auth.middleware';
+import { ActivityLogService } from '../services/activity-log.service';
+import { BookingPolicyService } from '../services/booking-policy.service';
+import { BookingPolicy, DEFAULT_BOOKING_POLICY, parseBookingPolicy } from '../utils/booking-policy';
+
+/**
+ * @route GET /api/rooms/:id/policy
+ * @desc Get the booking policy of a room (null limits = no limit)
+ * @access Public
+ */
+export const getRoomPolicy = async (req: Request, res: Response) => {
+  const { id } = req.params;
+
+  try {
+    const [roomRows] = await pool.query<any[]>('SELECT id FROM room WHERE id = ?', [id]);
+    if (roomRows.length === 0) {
+      return res.status(404).json({ message: 'Room not found' });
+    }
+
+    const policy = await BookingPolicyService.getStoredPolicy(id);
+    res.json({ room_id: Number(id), policy: policy ?? DEFAULT_BOOKING_POLICY, is_default: policy === null });
+  } catch (error) {
+    console.error(`Error fetching booking policy for room ${id}:`, error);
+    res.status(500).json({ message: 'Server Error' });
+  }
+};
+
+/**
+ * @route PUT /api/rooms/:id/policy
+ * @desc Replace the booking policy of a room. Omitted limits are removed. Existing bookings are kept.
+ * @body min_duration_minutes, max_duration_minutes, min_notice_minutes, max_advance_days,
+ *       max_active_bookings_per_user (integers or null), allow_guests (boolean, default true)
+ * @access Private (requires admin)
+ */
+export const setRoomPolicy = async (req: AuthenticatedRequest, res: Response) => {
+  const { id } = req.params;
+
+  let policy: BookingPolicy;
+  try {
+    policy = parseBookingPolicy(req.body);
+  } catch (error) {
+    return res.status(400).json({ message: error instanceof Error ? error.message : 'Invalid policy' });
+  }
+
+  try {
+    const [roomRows] = await pool.query<any[]>('SELECT id FROM room WHERE id = ?', [id]);
+    if (roomRows.length === 0) {
+      return res.status(404).json({ message: 'Room not found' });
+    }
+
+    const oldPolicy = await BookingPolicyService.getStoredPolicy(id);
+    await BookingPolicyService.savePolicy(Number(id), policy, req.user?.id ?? null);
+
+    await ActivityLogService.logActivity(
+      req.user?.id ?? null,
+      'UPDATE',
+      'ROOM',
+      Number(id),
+      {
+        old_booking_policy: oldPolicy,
+        new_booking_policy: policy
+      }
+    );
+
+    res.json({ message: 'Room booking policy updated successfully', room_id: Number(id), policy });
+  } catch (error) {
+    console.error(`Error updating booking policy for room ${id}:`, error);
+    res.status(500).json({ message: 'Server Error' });
+  }
+};
+
+/**
+ * @route DELETE /api/rooms/:id/policy
+ * @desc Remove the booking policy of a room (no limits)
+ * @access Private (requires admin)
+ */
+export const resetRoomPolicy = async (req: AuthenticatedRequest, res: Response) => {
+  const { id } = req.params;
+
+  try {
+    const [roomRows] = await pool.query<any[]>('SELECT id FROM room WHERE id = ?', [id]);
+    if (roomRows.length === 0) {
+      return res.status(404).json({ message: 'Room not found' });
+    }
+
+    const oldPolicy = await BookingPolicyService.getStoredPolicy(id);
+    await BookingPolicyService.deletePolicy(Number(id));
+
+    await ActivityLogService.logActivity(
+      req.user?.id ?? null,
+      'UPDATE',
+      'ROOM',
+      Number(id),
+      {
+        old_booking_policy: oldPolicy,
+        new_booking_policy: null
+      }
+    );
+
+    res.json({ message: 'Room booking policy removed', room_id: Number(id), policy: DEFAULT_BOOKING_POLICY });
+  } catch (error) {
+    console.error(`Error removing booking policy for room ${id}:`, error);
+    res.status(500).json({ message: 'Server Error' });
+  }
+};
@@ -1,53 +1,136 @@
 import { Request, Response } from 'express';
-import pool from '../models/db';
-import validator from 'validator';
+import { PoolConnection } from 'mysql2/promise';
+import pool, { withTransaction } from '../models/db';
 import { AuthenticatedRequest } from '../middleware/auth.middleware';
 import { ActivityLogService } from '../services/activity-log.service';
 import { invalidateRoomsCache } from '../services/cache.service';
-import { parseTimezoneNaiveDateString, calculateSecondsBetweenNaive, getCurrentTimezoneNaiveTimestamp } from '../utils/date-utils';
+import { WaitlistService } from '../services/waitlist.service';
+import { BookingApprovalService } from '../services/booking-approval.service';
+import { BusinessHoursService } from '../services/business-hours.service';
+import { BookingPolicyService } from '../services/booking-policy.service';
+import { BookingResource, ResourceService } from '../services/resource.service';
+import {
+  BookingConflictService,
+  BookingStatus,
+  ConflictingBooking,
+  LockedRoom,
+  SLOT_BLOCKING_STATUSES
+} from '../services/booking-conflict.service';
+import { parseTimezoneNaiveDateString, calculateSecondsBetweenNaive, getCurrentTimezoneNaiveTimestamp, getCurrentNaiveDateTimeString } from '../utils/date-utils';
+import { validateAndSanitizeComment, validateAndSanitizeReason, validateAndSanitizeTitle, validateAttendees } from '../utils/sanitize';
+import { TIME_OF_DAY_PATTERN, getBusinessHoursError } from '../utils/business-hours';
+import { addSecondsToNaive, expandRecurrence, formatRecurrenceRule, parseRecurrenceRule, Occurrence, RecurrenceRule } from '../utils/recurrence';
+import { formatResourceShortage, parseResourceRequests, ResourceRange, ResourceRequest } from '../utils/resources';
+
+type BookingWriteOutcome =
+  | { ok: true; bookingId: number; status?: BookingStatus }
+  | { ok: false; status: number; body: Record<string, any> };
 
 /**
- * Sanitizes user input to prevent XSS attacks.
- * Escapes HTML entities and trims whitespace.
+ * Validates that a (locked) room exists and accepts bookings.
+ * Returns an error outcome, or null if the room is bookable.
  */
-const sanitizeInput = (input: string | undefined | null): string | null => {
-  if (!input || typeof input !== 'string') {
-    return null;
+const checkRoomBookable = (room: LockedRoom | undefined): { ok: false; status: number; body: Record<string, any> } | null => {
+  const roomError = BookingConflictService.getRoomBookingError(room);
+  return roomError ? { ok: false, status: roomError.status, body: { message: roomError.message } } : null;
+};
+
+/**
+ * Validates that a booking range lies within the room's opening hours.
+ * Returns an error outcome, or null if the range fits.
+ */
+const checkWithinBusinessHours = async (
+  connection: PoolConnection,
+  roomId: number | string,
+  startTime: string,
+  endTime: string
+): Promise<{ ok: false; status: number; body: Record<string, any> } | null> => {
+  const hoursError = await BusinessHoursService.getBookingHoursError(connection, roomId, startTime, endTime);
+  return hoursError ? { ok: false, status: hoursError.status, body: { message: hoursError.message } } : null;
+};
+
+/**
+ * Validates booking ranges in one room against the room's booking policy (admins bypass policies).
+ * Returns an error outcome with a machine-readable `code`, or null if the booking is allowed.
+ */
+const checkBookingPolicy = async (
+  connection: PoolConnection,
+  roomId: number | string,
+  user: AuthenticatedRequest['user'],
+  ranges: Array<{ start_time: string; end_time: string }>,
+  excludeBookingIds?: Array<number | string>
+): Promise<{ ok: false; status: number; body: Record<string, any> } | null> => {
+  const violation = await BookingPolicyService.checkBooking(connection, { roomId, user, ranges, excludeBookingIds });
+  return violation
+    ? { ok: false, status: violation.status, body: { message: violation.message, code: violation.code, room_id: Number(roomId) } }
+    : null;
+};
+
+/**
+ * Validates that the requested resources are free in every range (reservations of the excluded
+ * bookings do not count). Returns an error outcome with a `code`, or null if everything fits.
+ */
+const checkResourceAvailability = async (
+  connection: PoolConnection,
+  ranges: ResourceRange[],
+  excludeBookingIds?: Array<number | string>
+): Promise<{ ok: false; status: number; body: Record<string, any> } | null> => {
+  const { unknownIds, shortages } = await ResourceService.checkAvailability(connection, ranges, excludeBookingIds);
+  if (unknownIds.length > 0) {
+    return { ok: false, status: 400, body: { message: `Unbekannte Ausstattung: ${unknownIds.join(', ')}` } };
   }
-  const trimmed = input.trim();
-  if (!trimmed) {
+
+  const index = shortages.findIndex(shortage => shortage !== null);
+  if (index === -1) {
     return null;
   }
-  // Escape HTML entities to prevent XSS
-  return validator.escape(trimmed);
+  return {
+    ok: false,
+    status: 409,
+    body: {
+      message: formatResourceShortage(shortages[index]!),
+      code: 'RESOURCE_UNAVAILABLE',
+      resource: shortages[index],
+      start_time: ranges[index].start_time,
+      end_time: ranges[index].end_time
+    }
+  };
 };
 
 /**
- * Validates and sanitizes a title field.
- * Ensures minimum length after sanitization.
+ * Re-checks the resources reserved by existing bookings at their new times (moves, restores).
+ * The bookings being changed do not block each other.
  */
-const validateAndSanitizeTitle = (title: string | undefined | null): string => {
-  const sanitized = sanitizeInput(title);
-  if (!sanitized || sanitized.length < 2) {
-    throw new Error('Der Titel muss mindestens 2 Zeichen lang sein.');
-  }
-  if (sanitized.length > 200) {
-    throw new Error('Der Titel darf maximal 200 Zeichen lang sein.');
-  }
-  return sanitized;
+const checkReservedResources = async (
+  connection: PoolConnection,
+  bookings: Array<{ id: number | string; start_time: string; end_time: string }>
+): Promise<{ ok: false; status: number; body: Record<string, any> } | null> => {
+  const reservations = await ResourceService.getReservations(bookings.map(booking => booking.id), connection);
+  const ranges: ResourceRange[] = bookings
+    .filter(booking => reservations.has(Number(booking.id)))
+    .map(booking => ({
+      start_time: booking.start_time,
+      end_time: booking.end_time,
+      resources: reservations.get(Number(booking.id))!.map(({ resource_id, quantity }) => ({ resource_id, quantity }))
+    }));
+  return ranges.length > 0 ? checkResourceAvailability(connection, ranges, bookings.map(booking => booking.id)) : null;
 };
 
 /**
- * Validates and sanitizes a comment field.
+ * Adds the reserved resources to booking rows for API responses.
  */
-const validateAndSanitizeComment = (comment: string | undefined | null): string | null => {
-  const sanitized = sanitizeInput(comment);
-  if (sanitized && sanitized.length > 2500) {
-    throw new Error('Der Kommentar darf maximal 2500 Zeichen lang sein.');
-  }
-  return sanitized;
+const withResources = async <T extends { id: number }>(bookings: T[]): Promise<Array<T & { resources: BookingResource[] }>> => {
+  const reservations = await ResourceService.getReservations(bookings.map(booking => booking.id));
+  return bookings.map(booking => ({ ...booking, resources: reservations.get(booking.id) ?? [] }));
 };
 
+// First scheduled maintenance window that collides with the booking (flags bookings made before the window)
+const MAINTENANCE_CONFLICT_SELECT = `(SELECT room_maintenance.id FROM room_maintenance
+         WHERE room_maintenance.room_id = booking.room_id
+         AND room_maintenance.start_time < booking.end_time
+         AND room_maintenance.end_time > booking.start_time
+         ORDER BY room_maintenance.start_time ASC LIMIT 1) AS maintenance_id`;
+
 // Interface for Booking data
 interface Booking {
   id: number;
@@ -56,14 +139,17 @@ interface Booking {
   start_time: Date;
   end_time: Date;
   comment: string | null;
+  attendees: number | null;
   created_by: number;
   creator_firstname: string | null;
   creator_surname: string | null;
   creator_email: string | null;
-  status: 'confirmed' | 'canceled';
+  status: BookingStatus;
   canceled_by: number | null;
   canceled_reason: string | null;
   canceled_at: Date | null;
+  maintenance_id: number | null;
+  resources?: BookingResource[];
 }
 
 /**
@@ -81,15 +167,22 @@ export const getAllBookings = async (_req: Request, res: Response) => {
          booking.start_time,
          booking.end_time,
          booking.comment,
+         booking.attendees,
          booking.created_by,
          creator.firstname AS creator_firstname,
          creator.surname AS creator_surname,
          creator.email AS creator_email,
          room.name AS room_name,
+         booking.series_id,
+         booking.group_id,
          booking.status,
          booking.canceled_by,
          booking.canceled_reason,
-         booking.canceled_at
+         booking.canceled_at,
+         booking.reviewed_by,
+         booking.reviewed_at,
+         booking.review_reason,
+         ${MAINTENANCE_CONFLICT_SELECT}
        FROM booking
        LEFT JOIN \`user\` AS creator ON creator.id = booking.created_by
        LEFT JOIN room ON room.id = booking.room_id
@@ -102,8 +195,9 @@ export const getAllBookings = async (_req: Request, res: Response) => {
       end_time: row.end_time,
       comment: row.comment ?? null,
       canceled_at: row.canceled_at || null,
+      maintenance_id: row.maintenance_id ?? null,
     }));
-    res.json(bookings);
+    res.json(await withResources(bookings));
   } catch (error) {
     console.error('Error fetching bookings:', error);
     res.status(500).json({ message: 'Server Error' });
@@ -138,8 +232,8 @@ export const getBookingsByRoomId = async (req: AuthenticatedRequest, res: Respon
                  FROM booking
                  LEFT JOIN \`user\` AS creator ON creator.id = booking.created_by
                  WHERE booking.room_id = ?
-                 AND booking.status = 'confirmed'`;
-    const params: any[] = [roomId];
+                 AND booking.status IN (?)`;
+    const params: any[] = [roomId, SLOT_BLOCKING_STATUSES];
 
     // If date is provided, filter bookings for that specific date
     if (date) {
@@ -187,7 +281,8 @@ export const getBookingsByRoomId = async (req: AuthenticatedRequest, res: Respon
       }));
     }
 
-    res.json(processedBookings);
+    // PRIVACY: Reserved equipment is only shown to authenticated users
+    res.json(isGuest ? processedBookings : await withResources(processedBookings));
   } catch (error) {
     console.error(`Error fetching bookings for room ${roomId}:`, error);
     res.status(500).json({ message: 'Server Error' });
@@ -211,6 +306,11 @@ export const createBooking = async (req: AuthenticatedRequest, res: Response) =>
     startTime,
     endTime,
     comment,
+    attendees,
+    recurrence,
+    skipConflicts,
+    room_ids,
+    resources,
   } = req.body ?? {};
 
   // Optional authentication - can be null for guest bookings
@@ -244,6 +344,22 @@ export const createBooking = async (req: AuthenticatedRequest, res: Response) =>
     return res.status(400).json({ message: error instanceof Error ? error.message : 'Invalid comment' });
   }
 
+  // Optional number of attendees (used for utilisation analytics)
+  let attendeeCount: number | null;
+  try {
+    attendeeCount = validateAttendees(attendees) ?? null;
+  } catch (error) {
+    return res.status(400).json({ message: error instanceof Error ? error.message : 'Invalid attendees' });
+  }
+
+  // Optional shared equipment reserved for the booking's time range (see /api/resources)
+  let resourceRequests: ResourceRequest[];
+  try {
+    resourceRequests = parseResourceRequests(resources) ?? [];
+  } catch (error) {
+    return res.status(400).json({ message: error instanceof Error ? error.message : 'Invalid resources' });
+  }
+
   // --- CRITICAL FIX: Support both combined (start_time/end_time) and separate (date/startTime/endTime) formats ---
   // This ensures backwards compatibility while fixing timezone issues
   let start_time_string: string;
@@ -262,7 +378,17 @@ export const createBooking = async (req: AuthenticatedRequest, res: Response) =>
     return res.status(400).json({ message: 'Please enter all required fields (room_id, title/guestName, start_time, end_time) or (room_id, title/guestName, date, startTime, endTime)' });
   }
 
-  if (!room_id) {
+  // Multi-room booking: several rooms for the same time, booked all or nothing
+  let groupRoomIds: number[] | null = null;
+  if (room_ids !== undefined) {
+    try {
+      groupRoomIds = parseGroupRoomIds(room_ids);
+    } catch (error) {
+      return res.status(400).json({ message: error instanceof Error ? error.message : 'Invalid room_ids' });
+    }
+  }
+
+  if (!room_id && !groupRoomIds) {
     return res.status(400).json({ message: 'Room ID is required' });
   }
 
@@ -281,115 +407,541 @@ export const createBooking = async (req: AuthenticatedRequest, res: Response) =>
     return res.status(400).json({ message: 'Die Endzeit muss nach der Startzeit liegen.' });
   }
 
-  const status: 'confirmed' | 'canceled' = 'confirmed';
+  // Grouped bookings need an owner so the group can be edited or canceled later
+  if (groupRoomIds) {
+    if (createdBy === null) {
+      return res.status(401).json({ message: 'Mehrraumbuchungen sind nur für angemeldete Benutzer möglich.' });
+    }
+    if (recurrence) {
+      return res.status(400).json({ message: 'Serienbuchungen können nicht mit mehreren Räumen kombiniert werden.' });
+    }
+    if (resourceRequests.length > 0) {
+      return res.status(400).json({ message: 'Ausstattung kann nicht mit Mehrraumbuchungen kombiniert werden.' });
+    }
+  }
+
+  // Recurring bookings need an owner so the series can be edited or canceled later
+  let recurrenceRule: RecurrenceRule | null = null;
+  let recurrenceOccurrences: Occurrence[] = [];
+  if (recurrence) {
+    if (createdBy === null) {
+      return res.status(401).json({ message: 'Serienbuchungen sind nur für angemeldete Benutzer möglich.' });
+    }
+    try {
+      recurrenceRule = parseRecurrenceRule(recurrence);
+      recurrenceOccurrences = expandRecurrence(start_time_string, end_time_string, recurrenceRule);
+    } catch (error) {
+      return res.status(400).json({ message: error instanceof Error ? error.message : 'Invalid recurrence rule' });
+    }
+    if (recurrenceOccurrences.length === 0) {
+      return res.status(400).json({ message: 'Die Wiederholungsregel ergibt keine Termine.' });
+    }
+  }
+
   const canceled_by = null;
   const canceled_reason = null;
   const canceled_at = null;
 
   try {
-    // Validate room status before proceeding
-    const [roomStatusRows] = await pool.query<any[]>(
-      'SELECT status FROM room WHERE id = ?',
-      [room_id]
-    );
+    // MULTI-ROOM BOOKING: Every room is checked and booked in one transaction - all or nothing
+    if (groupRoomIds) {
+      const groupOutcome = await withTransaction(connection => createGroupBooking(connection, {
+        roomIds: groupRoomIds!,
+        title: bookingTitle,
+        comment: sanitizedComment,
+        attendees: attendeeCount,
+        createdBy: createdBy!,
+        user: req.user,
+        startTime: start_time_string,
+        endTime: end_time_string,
+      }));
 
-    if (!Array.isArray(roomStatusRows) || roomStatusRows.length === 0) {
-      return res.status(404).json({ message: 'Room not found' });
-    }
+      if (!groupOutcome.ok) {
+        return res.status(groupOutcome.status).json(groupOutcome.body);
+      }
+
+      // Log the activity for every booked room (after commit)
+      for (const entry of groupOutcome.bookings) {
+        await ActivityLogService.logActivity(
+          createdBy,
+          'CREATE',
+          'BOOKING',
+          entry.bookingId,
+          {
+            room_id: entry.room_id,
+            group_id: groupOutcome.groupId,
+            title: bookingTitle,
+            start_time: start_time_string,
+            end_time: end_time_string,
+            comment: sanitizedComment,
+            attendees: attendeeCount,
+            status: entry.status
+          }
+        );
+      }
 
-    const roomStatus = (roomStatusRows[0]?.status ?? '').toString().toLowerCase();
-    if (roomStatus === 'inactive' || roomStatus === 'maintenance') {
-      return res.status(400).json({
-        message: 'Für inaktive oder gewartete Räume können keine Buchungen erstellt werden.'
+      invalidateRoomsCache();
+      const hasPending = groupOutcome.bookings.some(entry => entry.status === 'pending');
+      return res.status(201).json({
+        message: hasPending ? 'Multi-room booking created, some rooms await approval' : 'Multi-room booking created successfully',
+        groupId: groupOutcome.groupId,
+        bookingId: groupOutcome.bookings[0].bookingId,
+        bookings: groupOutcome.bookings
       });
     }
 
-    // CRITICAL: Server-side conflict check to prevent booking overwrites
-    // Check for overlapping bookings before inserting
-    // A booking overlaps if:
-    // 1. It starts before the requested end time AND
-    // 2. It ends after the requested start time
-    const [existingBookings] = await pool.query<any[]>(
-      `SELECT id, room_id, name AS title, start_time, end_time
-       FROM booking
-       WHERE room_id = ?
-       AND start_time < ?
-       AND end_time > ?
-       AND status = 'confirmed'`,
-      [room_id, end_time_string, start_time_string]
-    );
+    // RECURRING BOOKING: Expand the rule and check every occurrence individually
+    if (recurrence) {
+      const recurringOutcome = await withTransaction(connection => createRecurringBooking(connection, {
+        roomId: room_id,
+        title: bookingTitle,
+        comment: sanitizedComment,
+        attendees: attendeeCount,
+        createdBy,
+        user: req.user,
+        rule: recurrenceRule!,
+        occurrences: recurrenceOccurrences,
+        skipConflicts: skipConflicts === true,
+        resources: resourceRequests,
+      }));
 
-    // If any overlapping booking exists, reject the request
-    if (existingBookings.length > 0) {
-      const conflict = existingBookings[0];
-      return res.status(409).json({
-        message: 'Dieser Zeitraum ist bereits gebucht.',
-        conflict: {
-          title: conflict.title ?? conflict.name,
-          name: conflict.title ?? conflict.name,
-          start_time: conflict.start_time,
-          end_time: conflict.end_time
-        }
+      if (!recurringOutcome.ok) {
+        return res.status(recurringOutcome.status).json(recurringOutcome.body);
+      }
+
+      // Log the activity for every created occurrence (after commit)
+      for (const entry of recurringOutcome.report.filter(item => item.status === 'created')) {
+        await ActivityLogService.logActivity(
+          createdBy,
+          'CREATE',
+          'BOOKING',
+          entry.bookingId,
+          {
+            room_id,
+            series_id: recurringOutcome.seriesId,
+            title: bookingTitle,
+            start_time: entry.start_time,
+            end_time: entry.end_time,
+            comment: sanitizedComment,
+            resources: resourceRequests,
+            status: recurringOutcome.status
+          }
+        );
+      }
+
+      invalidateRoomsCache();
+      const created = recurringOutcome.report.filter(item => item.status === 'created');
+      const skipped = recurringOutcome.report.length - created.length;
+      return res.status(201).json({
+        message: recurringOutcome.status === 'pending'
+          ? 'Booking series submitted for approval'
+          : skipped > 0 ? 'Booking series created with skipped occurrences' : 'Booking series created successfully',
+        seriesId: recurringOutcome.seriesId,
+        status: recurringOutcome.status,
+        bookingId: created[0].bookingId,
+        created: created.length,
+        skipped,
+        occurrences: recurringOutcome.report
       });
     }
 
-    // No conflict - proceed with insertion using literal time strings
-    const now = getCurrentTimezoneNaiveTimestamp();
-    const [result] = await pool.query<any>(
-      `INSERT INTO booking (
-        room_id,
-        name,
-        start_time,
-        end_time,
-        comment,
-        created_by,
-        status,
-        canceled_by,
-        canceled_reason,
-        canceled_at,
-        created_at,
-        updated_at
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-      [
-        room_id,
-        bookingTitle,
-        start_time_string,
-        end_time_string,
-        sanitizedComment,
-        createdBy,
-        status,
-        canceled_by ?? null,
-        canceled_reason ?? null,
-        canceled_at ?? null,
-        now,
-        now,
-      ]
-    );
+    // CRITICAL: Lock the room, check for conflicts and insert in ONE transaction.
+    // Concurrent requests for the same room queue up on the room lock, so exactly one
+    // of them can take a slot and every other one deterministically receives a 409.
+    const outcome = await withTransaction(async (connection): Promise<BookingWriteOutcome> => {
+      const [room] = await BookingConflictService.lockRooms(connection, [room_id]);
+      const roomError = checkRoomBookable(room) ?? await checkWithinBusinessHours(
+        connection, room_id, start_time_string, end_time_string
+      );
+      if (roomError) {
+        return roomError;
+      }
+
+      // Restricted rooms: the booking needs an owner who can be informed about the decision
+      if (room.requires_approval && createdBy === null) {
+        return { ok: false, status: 401, body: { message: 'Dieser Raum erfordert eine Freigabe. Bitte melden Sie sich an.' } };
+      }
+      const policyError = await checkBookingPolicy(
+        connection, room_id, req.user, [{ start_time: start_time_string, end_time: end_time_string }]
+      );
+      if (policyError) {
+        return policyError;
+      }
+      const status = await BookingApprovalService.getInitialStatus(connection, room, req.user);
+
+      const existingBookings = await BookingConflictService.findConflicts(
+        room_id, start_time_string, end_time_string, [], connection
+      );
+
+      // If any overlapping booking exists, reject the request
+      if (existingBookings.length > 0) {
+        return {
+          ok: false,
+          status: 409,
+          body: {
+            message: 'Dieser Zeitraum ist bereits gebucht.',
+            conflict: BookingConflictService.toConflictResponse(existingBookings[0])
+          }
+        };
+      }
+
+      const resourceError = await checkResourceAvailability(
+        connection, [{ start_time: start_time_string, end_time: end_time_string, resources: resourceRequests }]
+      );
+      if (resourceError) {
+        return resourceError;
+      }
+
+      // No conflict - proceed with insertion using literal time strings
+      const now = getCurrentTimezoneNaiveTimestamp();
+      const [result] = await connection.query<any>(
+        `INSERT INTO booking (
+          room_id,
+          name,
+          start_time,
+          end_time,
+          comment,
+          attendees,
+          created_by,
+          status,
+          canceled_by,
+          canceled_reason,
+          canceled_at,
+          created_at,
+          updated_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          room_id,
+          bookingTitle,
+          start_time_string,
+          end_time_string,
+          sanitizedComment,
+          attendeeCount,
+          createdBy,
+          status,
+          canceled_by ?? null,
+          canceled_reason ?? null,
+          canceled_at ?? null,
+          now,
+          now,
+        ]
+      );
 
+      if (resourceRequests.length > 0) {
+        await ResourceService.saveReservations(connection, result.insertId, resourceRequests);
+      }
+
+      return { ok: true, bookingId: result.insertId, status };
+    });
+
+    if (!outcome.ok) {
+      return res.status(outcome.status).json(outcome.body);
+    }
 
     // Log the activity
     await ActivityLogService.logActivity(
       createdBy,
       'CREATE',
       'BOOKING',
-      result.insertId,
+      outcome.bookingId,
       {
         room_id,
         title: bookingTitle,
         start_time: start_time_string,
         end_time: end_time_string,
-        comment: sanitizedComment
+        comment: sanitizedComment,
+        attendees: attendeeCount,
+        resources: resourceRequests,
+        status: outcome.status
       }
     );
 
     invalidateRoomsCache();
-    res.status(201).json({ message: 'Booking created successfully', bookingId: result.insertId });
+    const reservations = await ResourceService.getReservations([outcome.bookingId]);
+    res.status(201).json({
+      message: outcome.status === 'pending' ? 'Booking request submitted for approval' : 'Booking created successfully',
+      bookingId: outcome.bookingId,
+      status: outcome.status,
+      resources: reservations.get(outcome.bookingId) ?? []
+    });
   } catch (error) {
     console.error('Error creating booking:', error);
     res.status(500).json({ message: 'Server Error' });
   }
 };
 
+interface RecurringBookingInput {
+  roomId: number;
+  title: string;
+  comment: string | null;
+  attendees: number | null;
+  createdBy: number | null;
+  user: AuthenticatedRequest['user'];
+  rule: RecurrenceRule;
+  occurrences: Occurrence[];
+  skipConflicts: boolean;
+  resources: ResourceRequest[];
+}
+
+type RecurringBookingOutcome =
+  | { ok: true; seriesId: number; status: BookingStatus; report: any[] }
+  | { ok: false; status: number; body: Record<string, any> };
+
+/**
+ * Creates a booking series and one booking row per occurrence (inside the caller's transaction).
+ *
+ * Every occurrence runs through the same overlap and opening hours checks as a single booking.
+ * By default the whole series is rejected with a per-occurrence report if any
+ * occurrence conflicts or lies outside the opening hours; with skipConflicts the
+ * free occurrences are booked and the others are reported as skipped.
+ */
+const createRecurringBooking = async (
+  connection: PoolConnection,
+  input: RecurringBookingInput
+): Promise<RecurringBookingOutcome> => {
+  const { roomId, title, comment, attendees, createdBy, user, rule, occurrences, skipConflicts, resources } = input;
+
+  const [room] = await BookingConflictService.lockRooms(connection, [roomId]);
+  const roomError = checkRoomBookable(room);
+  if (roomError) {
+    return roomError;
+  }
+  const status = await BookingApprovalService.getInitialStatus(connection, room, user);
+
+  const conflicts = await BookingConflictService.findConflictsForRanges(roomId, occurrences, [], connection);
+  const hours = (await BusinessHoursService.getRoomHours([roomId], connection)).get(Number(roomId))!;
+  const hoursErrors = occurrences.map(occurrence => getBusinessHoursError(hours, occurrence.start_time, occurrence.end_time));
+
+  // Occurrences that cannot be booked anyway do not reserve any resources
+  const resourceCheck = await ResourceService.checkAvailability(connection, occurrences.map((occurrence, index) => ({
+    start_time: occurrence.start_time,
+    end_time: occurrence.end_time,
+    resources: hoursErrors[index] || conflicts[index] ? [] : resources
+  })));
+  if (resourceCheck.unknownIds.length > 0) {
+    return { ok: false, status: 400, body: { message: `Unbekannte Ausstattung: ${resourceCheck.unknownIds.join(', ')}` } };
+  }
+  const shortages = resourceCheck.shortages;
+
+  // Reports why an occurrence cannot be booked (opening hours take precedence over conflicts)
+  const describe = (index: number) => {
+    if (hoursErrors[index]) {
+      return { status: 'outside_hours', message: hoursErrors[index], conflict: null };
+    }
+    if (conflicts[index]) {
+      return { status: 'conflict', conflict: BookingConflictService.toConflictResponse(conflicts[index]!) };
+    }
+    if (shortages[index]) {
+      return { status: 'resource_unavailable', message: formatResourceShortage(shortages[index]!), resource: shortages[index], conflict: null };
+    }
+    return null;
+  };
+
+  const conflictCount = conflicts.filter(conflict => conflict !== null).length;
+  const shortageCount = shortages.filter(shortage => shortage !== null).length;
+  const unavailableCount = occurrences.filter((_occurrence, index) => describe(index) !== null).length;
+
+  if (unavailableCount > 0 && (!skipConflicts || unavailableCount === occurrences.length)) {
+    return {
+      ok: false,
+      status: conflictCount > 0 || shortageCount > 0 ? 409 : 400,
+      body: {
+        message: conflictCount > 0
+          ? 'Einige Termine der Serie sind bereits gebucht.'
+          : shortageCount > 0
+            ? 'Für einige Termine der Serie ist die angefragte Ausstattung nicht verfügbar.'
+            : 'Einige Termine der Serie liegen außerhalb der Öffnungszeiten.',
+        occurrences: occurrences.map((occurrence, index) => ({
+          ...occurrence,
+          ...(describe(index) ?? { status: 'available', conflict: null })
+        }))
+      }
+    };
+  }
+
+  // Only the occurrences that will be created count against the policy (e.g. the per-user booking limit)
+  const policyError = await checkBookingPolicy(
+    connection, roomId, user, occurrences.filter((_occurrence, index) => describe(index) === null)
+  );
+  if (policyError) {
+    return policyError;
+  }
+
+  const now = getCurrentTimezoneNaiveTimestamp();
+  const first = occurrences[0];
+  const [seriesResult] = await connection.query<any>(
+    `INSERT INTO booking_series (room_id, name, comment, rrule, start_time, end_time, created_by, created_at, updated_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [roomId, title, comment, formatRecurrenceRule(rule), first.start_time, first.end_time, createdBy, now, now]
+  );
+  const seriesId: number = seriesResult.insertId;
+
+  const report: any[] = [];
+  for (let index = 0; index < occurrences.length; index++) {
+    const occurrence = occurrences[index];
+    const unavailable = describe(index);
+
+    if (unavailable) {
+      report.push({ ...occurrence, ...unavailable });
+      continue;
+    }
+
+    const [result] = await connection.query<any>(
+      `INSERT INTO booking (room_id, name, start_time, end_time, comment, attendees, created_by, series_id, status, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [roomId, title, occurrence.start_time, occurrence.end_time, comment, attendees, createdBy, seriesId, status, now, now]
+    );
+    if (resources.length > 0) {
+      await ResourceService.saveReservations(connection, result.insertId, resources);
+    }
+
+    report.push({ ...occurrence, status: 'created', bookingId: result.insertId });
+  }
+
+  return { ok: true, seriesId, status, report };
+};
+
+// Upper bound for rooms in one multi-room booking
+const MAX_GROUP_ROOMS = 20;
+
+/**
+ * Validates the room list of a multi-room booking (2 to MAX_GROUP_ROOMS distinct room IDs).
+ *
+ * @throws Error with a user-facing message
+ */
+const parseGroupRoomIds = (value: unknown): number[] => {
+  if (!Array.isArray(value)) {
+    throw new Error('room_ids must be an array of room IDs');
+  }
+
+  const roomIds = Array.from(new Set(value.map(Number)));
+  if (roomIds.some(roomId => !Number.isInteger(roomId) || roomId <= 0)) {
+    throw new Error('room_ids must be an array of room IDs');
+  }
+  if (roomIds.length < 2) {
+    throw new Error('A multi-room booking needs at least two different rooms');
+  }
+  if (roomIds.length > MAX_GROUP_ROOMS) {
+    throw new Error(`A multi-room booking may contain at most ${MAX_GROUP_ROOMS} rooms`);
+  }
+  return roomIds;
+};
+
+interface GroupBookingInput {
+  roomIds: number[];
+  title: string;
+  comment: string | null;
+  attendees: number | null;
+  createdBy: number;
+  user: AuthenticatedRequest['user'];
+  startTime: string;
+  endTime: string;
+}
+
+type GroupBookingOutcome =
+  | { ok: true; groupId: number; bookings: Array<{ room_id: number; bookingId: number; status: BookingStatus }> }
+  | { ok: false; status: number; body: Record<string, any> };
+
+/**
+ * Checks every room of a multi-room booking for the same time range (inside the caller's transaction).
+ * Returns one report entry per room: available, conflict (slot taken) or unavailable (missing/inactive room
+ * or outside its opening hours).
+ */
+const checkGroupRooms = async (
+  connection: PoolConnection,
+  lockedRooms: LockedRoom[],
+  roomIds: number[],
+  startTime: string,
+  endTime: string,
+  excludeBookingIds: number[] = []
+) => {
+  const report: Array<{ room_id: number; status: 'available' | 'conflict' | 'unavailable'; message?: string; conflict?: any }> = [];
+  let errorStatus: number | null = null;
+
+  for (const roomId of roomIds) {
+    const roomError = BookingConflictService.getRoomBookingError(lockedRooms.find(room => room.id === roomId));
+    if (roomError) {
+      report.push({ room_id: roomId, status: 'unavailable', message: roomError.message });
+      errorStatus = errorStatus ?? roomError.status;
+      continue;
+    }
+
+    const hoursError = await BusinessHoursService.getBookingHoursError(connection, roomId, startTime, endTime);
+    if (hoursError) {
+      report.push({ room_id: roomId, status: 'unavailable', message: hoursError.message });
+      errorStatus = errorStatus ?? hoursError.status;
+      continue;
+    }
+
+    const existing = await BookingConflictService.findConflicts(roomId, startTime, endTime, excludeBookingIds, connection);
+    if (existing.length > 0) {
+      report.push({ room_id: roomId, status: 'conflict', conflict: BookingConflictService.toConflictResponse(existing[0]) });
+      // A taken room wins over other errors: the combined report is a conflict report
+      errorStatus = 409;
+      continue;
+    }
+
+    report.push({ room_id: roomId, status: 'available' });
+  }
+
+  return { report, errorStatus };
+};
+
+/**
+ * Creates a booking group and one booking per room (inside the caller's transaction).
+ * If any room is taken or unavailable, nothing is written and a combined report is returned.
+ */
+const createGroupBooking = async (
+  connection: PoolConnection,
+  input: GroupBookingInput
+): Promise<GroupBookingOutcome> => {
+  const { roomIds, title, comment, attendees, createdBy, user, startTime, endTime } = input;
+
+  const lockedRooms = await BookingConflictService.lockRooms(connection, roomIds);
+  for (const roomId of roomIds) {
+    const policyError = await checkBookingPolicy(connection, roomId, user, [{ start_time: startTime, end_time: endTime }]);
+    if (policyError) {
+      return policyError;
+    }
+  }
+  const { report, errorStatus } = await checkGroupRooms(connection, lockedRooms, roomIds, startTime, endTime);
+
+  if (errorStatus !== null) {
+    return {
+      ok: false,
+      status: errorStatus,
+      body: {
+        message: errorStatus === 409
+          ? 'Einige Räume sind in diesem Zeitraum bereits gebucht.'
+          : 'Einige Räume können nicht gebucht werden.',
+        rooms: report
+      }
+    };
+  }
+
+  const now = getCurrentTimezoneNaiveTimestamp();
+  const [groupResult] = await connection.query<any>(
+    `INSERT INTO booking_group (name, comment, start_time, end_time, created_by, created_at, updated_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?)`,
+    [title, comment, startTime, endTime, createdBy, now, now]
+  );
+  const groupId: number = groupResult.insertId;
+
+  const bookings: Array<{ room_id: number; bookingId: number; status: BookingStatus }> = [];
+  for (const roomId of roomIds) {
+    const room = lockedRooms.find(locked => locked.id === roomId)!;
+    const status = await BookingApprovalService.getInitialStatus(connection, room, user);
+    const [result] = await connection.query<any>(
+      `INSERT INTO booking (room_id, name, start_time, end_time, comment, attendees, created_by, group_id, status, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [roomId, title, startTime, endTime, comment, attendees, createdBy, groupId, status, now, now]
+    );
+    bookings.push({ room_id: roomId, bookingId: result.insertId, status });
+  }
+
+  return { ok: true, groupId, bookings };
+};
+
 /**
  * @route GET /api/bookings/check-conflict/:roomId
  * @desc Check if a time slot has a booking conflict
@@ -409,22 +961,11 @@ export const checkBookingConflict = async (req: AuthenticatedRequest, res: Respo
     const requestedStart = `${date} ${startTime}:00`;
     const requestedEnd = `${date} ${endTime}:00`;
 
-    // Query for overlapping bookings
-    // A booking overlaps if:
-    // 1. It starts before the requested end time AND
-    // 2. It ends after the requested start time
-    const [rows] = await pool.query<any[]>(
-      `SELECT id, room_id, name AS title, start_time, end_time, comment
-       FROM booking
-       WHERE room_id = ?
-       AND start_time < ?
-       AND end_time > ?
-       AND status = 'confirmed'`,
-      [roomId, requestedEnd, requestedStart]
-    );
+    // Same overlap rule as POST /api/bookings (bookings, waitlist holds and maintenance windows)
+    const conflicts = await BookingConflictService.findConflicts(roomId, requestedStart, requestedEnd);
 
-    if (rows.length > 0) {
-      const conflict = rows[0];
+    if (conflicts.length > 0) {
+      const conflict = conflicts[0];
 
       // PRIVACY: Check if user is authenticated
       const isGuest = !req.user;
@@ -442,11 +983,10 @@ export const checkBookingConflict = async (req: AuthenticatedRequest, res: Respo
         });
       } else {
         // Authenticated user - return full details
-        const normalizedTitle = conflict.title ?? conflict.name;
         res.json({
           ...conflict,
-          title: normalizedTitle,
-          name: normalizedTitle
+          name: conflict.title,
+          comment: conflict.comment ?? null
         });
       }
     } else {
@@ -462,6 +1002,7 @@ export const checkBookingConflict = async (req: AuthenticatedRequest, res: Respo
 /**
  * @route GET /api/bookings/my-bookings
  * @desc Get all bookings created by the currently authenticated user
+ *       (confirmed and pending, plus upcoming rejected bookings with the review reason)
  * @access Private (requires authentication)
  */
 export const getMyBookings = async (req: AuthenticatedRequest, res: Response) => {
@@ -480,16 +1021,24 @@ export const getMyBookings = async (req: AuthenticatedRequest, res: Response) =>
          booking.start_time,
          booking.end_time,
          booking.comment,
+         booking.attendees,
          booking.created_by,
+         booking.series_id,
+         booking.group_id,
          booking.status,
+         booking.checked_in_at,
+         booking.reviewed_at,
+         booking.review_reason,
+         ${MAINTENANCE_CONFLICT_SELECT},
          room.name AS room_name,
-         room.icon AS room_icon
+         room.icon AS room_icon,
+         room.check_in_grace_minutes
        FROM booking
        INNER JOIN room ON room.id = booking.room_id
        WHERE booking.created_by = ?
-       AND booking.status = 'confirmed'
+       AND (booking.status IN (?) OR (booking.status = 'rejected' AND booking.end_time > ?))
        ORDER BY booking.start_time ASC`,
-      [user.id]
+      [user.id, SLOT_BLOCKING_STATUSES, getCurrentTimezoneNaiveTimestamp()]
     );
 
     const bookings = rows.map((row: any) => ({
@@ -502,10 +1051,17 @@ export const getMyBookings = async (req: AuthenticatedRequest, res: Response) =>
       end_time: row.end_time,
       comment: row.comment ?? null,
       created_by: row.created_by,
-      status: row.status
+      series_id: row.series_id ?? null,
+      group_id: row.group_id ?? null,
+      status: row.status,
+      checked_in_at: row.checked_in_at ?? null,
+      check_in_required: row.check_in_grace_minutes !== null,
+      reviewed_at: row.reviewed_at ?? null,
+      review_reason: row.review_reason ?? null,
+      maintenance_id: row.maintenance_id ?? null
     }));
 
-    res.json(bookings);
+    res.json(await withResources(bookings));
   } catch (error) {
     console.error('Error fetching user bookings:', error);
     res.status(500).json({ message: 'Server Error' });
@@ -520,7 +1076,7 @@ export const getMyBookings = async (req: AuthenticatedRequest, res: Response) =>
 export const updateBooking = async (req: AuthenticatedRequest, res: Response) => {
   const { id } = req.params;
   const user = req.user;
-  const { title, comment, room_id, start_time, end_time, date, startTime, endTime } = req.body;
+  const { title, comment, attendees, resources, room_id, start_time, end_time, date, startTime, endTime } = req.body;
 
   if (!user) {
     return res.status(401).json({ message: 'Authentication required' });
@@ -542,10 +1098,28 @@ export const updateBooking = async (req: AuthenticatedRequest, res: Response) =>
     return res.status(400).json({ message: error instanceof Error ? error.message : 'Invalid comment' });
   }
 
+  // Attendees are only changed when sent
+  let attendeeCount: number | null | undefined;
+  try {
+    attendeeCount = validateAttendees(attendees);
+  } catch (error) {
+    return res.status(400).json({ message: error instanceof Error ? error.message : 'Invalid attendees' });
+  }
+  const attendeesSql = attendeeCount !== undefined ? ', attendees = ?' : '';
+  const attendeesParams = attendeeCount !== undefined ? [attendeeCount] : [];
+
+  // Reserved resources are only replaced when sent ([] releases them)
+  let resourceRequests: ResourceRequest[] | undefined;
+  try {
+    resourceRequests = parseResourceRequests(resources);
+  } catch (error) {
+    return res.status(400).json({ message: error instanceof Error ? error.message : 'Invalid resources' });
+  }
+
   try {
     // Check if booking exists and verify ownership
     const [rows] = await pool.query<any[]>(
-      `SELECT created_by, room_id, start_time, end_time FROM booking WHERE id = ?`,
+      `SELECT created_by, room_id, start_time, end_time, status FROM booking WHERE id = ?`,
       [id]
     );
 
@@ -562,6 +1136,14 @@ export const updateBooking = async (req: AuthenticatedRequest, res: Response) =>
       return res.status(403).json({ message: 'You may only update your own bookings.' });
     }
 
+    if (booking.status === 'canceled') {
+      return res.status(409).json({ message: 'Canceled bookings cannot be updated. Restore the booking first.' });
+    }
+
+    if (booking.status === 'rejected') {
+      return res.status(409).json({ message: 'Rejected bookings cannot be updated.' });
+    }
+
     // --- CRITICAL FIX: Support both combined and separate time formats for rescheduling ---
     let start_time_string: string | undefined;
     let end_time_string: string | undefined;
@@ -604,42 +1186,86 @@ export const updateBooking = async (req: AuthenticatedRequest, res: Response) =>
 
       const targetRoomId = room_id ?? booking.room_id;
 
-      // CRITICAL: Server-side conflict check (excluding the current booking)
-      // Check for overlapping bookings before updating
-      const [existingBookings] = await pool.query<any[]>(
-        `SELECT id, room_id, name AS title, start_time, end_time
-         FROM booking
-         WHERE room_id = ?
-         AND id != ?
-         AND start_time < ?
-         AND end_time > ?
-         AND status = 'confirmed'`,
-        [targetRoomId, id, endTimeStr, startTimeStr]
-      );
+      // Only a move has to fit the opening hours and needs a new approval; unchanged bookings keep their slot
+      const isMove = Number(targetRoomId) !== Number(booking.room_id)
+        || startTimeStr !== booking.start_time
+        || endTimeStr !== booking.end_time;
+
+      // CRITICAL: Lock source and target room, check for conflicts (excluding the current booking)
+      // and update in ONE transaction so concurrent writers cannot take the same slot
+      const outcome = await withTransaction(async (connection): Promise<BookingWriteOutcome> => {
+        const lockedRooms = await BookingConflictService.lockRooms(connection, [booking.room_id, targetRoomId]);
+        const targetRoom = lockedRooms.find(room => room.id === Number(targetRoomId));
+
+        if (Number(targetRoomId) !== Number(booking.room_id)) {
+          const roomError = checkRoomBookable(targetRoom);
+          if (roomError) {
+            return roomError;
+          }
+        } else if (!targetRoom) {
+          return { ok: false, status: 404, body: { message: 'Room not found' } };
+        }
 
-      // If any overlapping booking exists, reject the request
-      if (existingBookings.length > 0) {
-        const conflict = existingBookings[0];
-        return res.status(409).json({
-          message: 'Dieser Zeitraum ist bereits gebucht.',
-          conflict: {
-            title: conflict.title ?? conflict.name,
-            name: conflict.title ?? conflict.name,
-            start_time: conflict.start_time,
-            end_time: conflict.end_time
+        if (isMove) {
+          const hoursError = await checkWithinBusinessHours(connection, targetRoomId, startTimeStr, endTimeStr)
+            ?? await checkBookingPolicy(connection, targetRoomId, user, [{ start_time: startTimeStr, end_time: endTimeStr }], [id]);
+          if (hoursError) {
+            return hoursError;
           }
-        });
-      }
+        }
 
-      // No conflict - proceed with full update using literal time strings
-      const updateNow = getCurrentTimezoneNaiveTimestamp();
-      const [result] = await pool.query<any>(
-        `UPDATE booking SET room_id = ?, name = ?, start_time = ?, end_time = ?, comment = ?, updated_at = ? WHERE id = ?`,
-        [targetRoomId, sanitizedTitle, startTimeStr, endTimeStr, sanitizedComment, updateNow, id]
-      );
+        const existingBookings = await BookingConflictService.findConflicts(
+          targetRoomId, startTimeStr, endTimeStr, [id], connection
+        );
+
+        // A new time or room in a restricted room needs a new approval unless the user may approve it
+        const status = isMove
+          ? await BookingApprovalService.getInitialStatus(connection, targetRoom!, user)
+          : booking.status;
+
+        // If any overlapping booking exists, reject the request
+        if (existingBookings.length > 0) {
+          return {
+            ok: false,
+            status: 409,
+            body: {
+              message: 'Dieser Zeitraum ist bereits gebucht.',
+              conflict: BookingConflictService.toConflictResponse(existingBookings[0])
+            }
+          };
+        }
 
-      if (result.affectedRows === 0) {
-        return res.status(404).json({ message: 'Booking not found' });
+        // New resources are checked as requested; kept ones have to be free at the new time
+        const resourceError = resourceRequests !== undefined
+          ? await checkResourceAvailability(
+            connection, [{ start_time: startTimeStr, end_time: endTimeStr, resources: resourceRequests }], [id]
+          )
+          : await checkReservedResources(connection, [{ id, start_time: startTimeStr, end_time: endTimeStr }]);
+        if (resourceError) {
+          return resourceError;
+        }
+
+        // No conflict - proceed with full update using literal time strings
+        const updateNow = getCurrentTimezoneNaiveTimestamp();
+        const [result] = await connection.query<any>(
+          `UPDATE booking SET room_id = ?, name = ?, start_time = ?, end_time = ?, comment = ?${attendeesSql}, status = ?, updated_at = ?
+           WHERE id = ? AND status IN (?)`,
+          [targetRoomId, sanitizedTitle, startTimeStr, endTimeStr, sanitizedComment, ...attendeesParams, status, updateNow, id, SLOT_BLOCKING_STATUSES]
+        );
+
+        if (result.affectedRows === 0) {
+          return { ok: false, status: 404, body: { message: 'Booking not found' } };
+        }
+
+        if (resourceRequests !== undefined) {
+          await ResourceService.saveReservations(connection, Number(id), resourceRequests);
+        }
+
+        return { ok: true, bookingId: parseInt(id), status };
+      });
+
+      if (!outcome.ok) {
+        return res.status(outcome.status).json(outcome.body);
       }
 
 
@@ -657,23 +1283,52 @@ export const updateBooking = async (req: AuthenticatedRequest, res: Response) =>
           old_end_time: booking.end_time,
           new_end_time: endTimeStr,
           new_title: sanitizedTitle,
-          new_comment: sanitizedComment
+          new_comment: sanitizedComment,
+          ...(attendeeCount !== undefined ? { new_attendees: attendeeCount } : {}),
+          ...(resourceRequests !== undefined ? { new_resources: resourceRequests } : {}),
+          old_status: booking.status,
+          new_status: outcome.status
         }
       );
 
       invalidateRoomsCache();
-      res.json({ message: 'Booking rescheduled successfully' });
+      // The old slot may be wanted by someone on the waitlist
+      WaitlistService.notifySlotFreed([booking.room_id]);
+      res.json({
+        message: isMove && outcome.status === 'pending' ? 'Booking rescheduled and submitted for approval' : 'Booking rescheduled successfully',
+        status: outcome.status
+      });
     } else {
-      // SIMPLE UPDATE: Only update title and comment (legacy behavior)
-      const updateNow = getCurrentTimezoneNaiveTimestamp();
+      // SIMPLE UPDATE: Only update title and comment (legacy behavior), plus the resources if sent
+      const outcome = await withTransaction(async (connection): Promise<BookingWriteOutcome> => {
+        if (resourceRequests !== undefined) {
+          const resourceError = await checkResourceAvailability(
+            connection, [{ start_time: booking.start_time, end_time: booking.end_time, resources: resourceRequests }], [id]
+          );
+          if (resourceError) {
+            return resourceError;
+          }
+        }
 
-      const [result] = await pool.query<any>(
-        `UPDATE booking SET name = ?, comment = ?, updated_at = ? WHERE id = ?`,
-        [sanitizedTitle, sanitizedComment, updateNow, id]
-      );
+        const updateNow = getCurrentTimezoneNaiveTimestamp();
+        const [result] = await connection.query<any>(
+          `UPDATE booking SET name = ?, comment = ?${attendeesSql}, updated_at = ? WHERE id = ?`,
+          [sanitizedTitle, sanitizedComment, ...attendeesParams, updateNow, id]
+        );
 
-      if (result.affectedRows === 0) {
-        return res.status(404).json({ message: 'Booking not found' });
+        if (result.affectedRows === 0) {
+          return { ok: false, status: 404, body: { message: 'Booking not found' } };
+        }
+
+        if (resourceRequests !== undefined) {
+          await ResourceService.saveReservations(connection, Number(id), resourceRequests);
+        }
+
+        return { ok: true, bookingId: parseInt(id) };
+      });
+
+      if (!outcome.ok) {
+        return res.status(outcome.status).json(outcome.body);
       }
 
 
@@ -685,7 +1340,9 @@ export const updateBooking = async (req: AuthenticatedRequest, res: Response) =>
         parseInt(id),
         {
           new_title: sanitizedTitle,
-          new_comment: sanitizedComment
+          new_comment: sanitizedComment,
+          ...(attendeeCount !== undefined ? { new_attendees: attendeeCount } : {}),
+          ...(resourceRequests !== undefined ? { new_resources: resourceRequests } : {})
         }
       );
 
@@ -700,10 +1357,12 @@ export const updateBooking = async (req: AuthenticatedRequest, res: Response) =>
 
 /**
  * @route DELETE /api/bookings/:id
- * @desc Delete a booking by ID
+ * @route POST /api/bookings/:id/cancel
+ * @desc Cancel a booking by ID (soft cancellation - the row and its history are kept)
+ * @body reason - Optional cancellation reason
  * @access Private (requires authentication and ownership or admin role)
  */
-export const deleteBooking = async (req: AuthenticatedRequest, res: Response) => {
+export const cancelBooking = async (req: AuthenticatedRequest, res: Response) => {
   const { id } = req.params;
   const user = req.user;
 
@@ -711,9 +1370,16 @@ export const deleteBooking = async (req: AuthenticatedRequest, res: Response) =>
     return res.status(401).json({ message: 'Authentication required' });
   }
 
+  let reason: string | null;
+  try {
+    reason = validateAndSanitizeReason(req.body?.reason ?? (req.query.reason as string | undefined));
+  } catch (error) {
+    return res.status(400).json({ message: error instanceof Error ? error.message : 'Invalid reason' });
+  }
+
   try {
     const [rows] = await pool.query<any[]>(
-      `SELECT created_by, room_id, name, start_time, end_time FROM booking WHERE id = ?`,
+      `SELECT created_by, room_id, name, start_time, end_time, status FROM booking WHERE id = ?`,
       [id]
     );
 
@@ -727,36 +1393,999 @@ export const deleteBooking = async (req: AuthenticatedRequest, res: Response) =>
     const isAdmin = user.role === 'admin';
 
     if (!isAdmin && !isOwner) {
-      return res.status(403).json({ message: 'You may only delete your own bookings.' });
+      return res.status(403).json({ message: 'You may only cancel your own bookings.' });
+    }
+
+    if (booking.status === 'canceled') {
+      return res.status(409).json({ message: 'Booking is already canceled' });
+    }
+
+    if (booking.status === 'rejected') {
+      return res.status(409).json({ message: 'Rejected bookings cannot be canceled' });
     }
 
+    const now = getCurrentTimezoneNaiveTimestamp();
     const [result] = await pool.query<any>(
-      `DELETE FROM booking WHERE id = ?`,
-      [id]
+      `UPDATE booking
+       SET status = 'canceled', canceled_by = ?, canceled_reason = ?, canceled_at = ?, updated_at = ?
+       WHERE id = ? AND status IN (?)`,
+      [user.id, reason, now, now, id, SLOT_BLOCKING_STATUSES]
     );
 
     if (result.affectedRows === 0) {
-      return res.status(404).json({ message: 'Booking not found' });
+      return res.status(409).json({ message: 'Booking is already canceled' });
     }
 
-    // Log the activity with details about the deleted booking
+    // Log the activity with details about the canceled booking
     await ActivityLogService.logActivity(
       user.id,
-      'DELETE',
+      'CANCEL',
       'BOOKING',
       parseInt(id),
       {
         room_id: booking.room_id,
         title: booking.name,
         start_time: booking.start_time,
-        end_time: booking.end_time
+        end_time: booking.end_time,
+        reason
+      }
+    );
+
+    invalidateRoomsCache();
+    WaitlistService.notifySlotFreed([booking.room_id]);
+    res.json({ message: 'Booking canceled successfully' });
+  } catch (error) {
+    console.error('Error canceling booking:', error);
+    res.status(500).json({ message: 'Server Error' });
+  }
+};
+
+// Check-in opens this many minutes before the booking starts
+const CHECK_IN_EARLY_MINUTES = 15;
+
+/**
+ * @route POST /api/bookings/:id/check-in
+ * @desc Check in to a booking (confirms the room is actually used, so it is not released as a no-show).
+ *       Possible from 15 minutes before start until the booking ends.
+ * @access Owner or admin; guest bookings can be checked in without authentication (e.g. from a room panel)
+ */
+export const checkInBooking = async (req: AuthenticatedRequest, res: Response) => {
+  const { id } = req.params;
+  const user = req.user;
+
+  try {
+    const [rows] = await pool.query<any[]>(
+      `SELECT created_by, room_id, name, start_time, end_time, status, checked_in_at FROM booking WHERE id = ?`,
+      [id]
+    );
+
+    if (rows.length === 0) {
+      return res.status(404).json({ message: 'Booking not found' });
+    }
+
+    const booking = rows[0];
+    const isGuestBooking = booking.created_by === null;
+    const isOwner = user !== undefined && booking.created_by === user.id;
+    const isAdmin = user?.role === 'admin';
+
+    if (!isGuestBooking && !user) {
+      return res.status(401).json({ message: 'Authentication required' });
+    }
+
+    if (!isGuestBooking && !isOwner && !isAdmin) {
+      return res.status(403).json({ message: 'You may only check in to your own bookings.' });
+    }
+
+    if (booking.status === 'pending') {
+      return res.status(409).json({ message: 'Pending bookings cannot be checked in before they are approved.' });
+    }
+
+    if (booking.status !== 'confirmed') {
+      return res.status(409).json({ message: 'Canceled bookings cannot be checked in.' });
+    }
+
+    if (booking.checked_in_at) {
+      return res.status(409).json({ message: 'Booking is already checked in.', checked_in_at: booking.checked_in_at });
+    }
+
+    // TIME ARCHITECTURE: Use calculateSecondsBetweenNaive for the check-in window
+    const now = getCurrentTimezoneNaiveTimestamp();
+    if (calculateSecondsBetweenNaive(now, booking.start_time) > CHECK_IN_EARLY_MINUTES * 60) {
+      return res.status(400).json({ message: `Check-in ist frühestens ${CHECK_IN_EARLY_MINUTES} Minuten vor Beginn möglich.` });
+    }
+    if (calculateSecondsBetweenNaive(now, booking.end_time) <= 0) {
+      return res.status(400).json({ message: 'Die Buchung ist bereits beendet.' });
+    }
+
+    const [result] = await pool.query<any>(
+      `UPDATE booking SET checked_in_at = ?, checked_in_by = ?, updated_at = ?
+       WHERE id = ? AND status = 'confirmed' AND checked_in_at IS NULL`,
+      [now, user?.id ?? null, now, id]
+    );
+
+    if (result.affectedRows === 0) {
+      return res.status(409).json({ message: 'Booking was canceled or checked in concurrently.' });
+    }
+
+    await ActivityLogService.logActivity(
+      user?.id ?? null,
+      'UPDATE',
+      'BOOKING',
+      parseInt(id),
+      {
+        room_id: booking.room_id,
+        title: booking.name,
+        checked_in_at: now
+      }
+    );
+
+    invalidateRoomsCache();
+    res.json({ message: 'Checked in successfully', checked_in_at: now });
+  } catch (error) {
+    console.error('Error checking in booking:', error);
+    res.status(500).json({ message: 'Server Error' });
+  }
+};
+
+/**
+ * @route GET /api/bookings/canceled
+ * @desc Get all canceled bookings, most recently canceled first
+ * @access Private (requires admin)
+ */
+export const getCanceledBookings = async (_req: AuthenticatedRequest, res: Response) => {
+  try {
+    const [rows] = await pool.query<any[]>(
+      `SELECT
+         booking.id,
+         booking.room_id,
+         booking.name AS title,
+         booking.start_time,
+         booking.end_time,
+         booking.comment,
+         booking.attendees,
+         booking.created_by,
+         creator.firstname AS creator_firstname,
+         creator.surname AS creator_surname,
+         creator.email AS creator_email,
+         room.name AS room_name,
+         booking.series_id,
+         booking.status,
+         booking.canceled_by,
+         canceler.firstname AS canceler_firstname,
+         canceler.surname AS canceler_surname,
+         booking.canceled_reason,
+         booking.canceled_at
+       FROM booking
+       LEFT JOIN \`user\` AS creator ON creator.id = booking.created_by
+       LEFT JOIN \`user\` AS canceler ON canceler.id = booking.canceled_by
+       LEFT JOIN room ON room.id = booking.room_id
+       WHERE booking.status = 'canceled'
+       ORDER BY booking.canceled_at DESC`
+    );
+
+    res.json(await withResources(rows.map((row: any) => ({
+      ...row,
+      comment: row.comment ?? null,
+      canceled_at: row.canceled_at || null,
+    }))));
+  } catch (error) {
+    console.error('Error fetching canceled bookings:', error);
+    res.status(500).json({ message: 'Server Error' });
+  }
+};
+
+/**
+ * @route POST /api/bookings/:id/restore
+ * @desc Restore a canceled booking if its time slot is still free
+ * @access Private (requires admin)
+ */
+export const restoreBooking = async (req: AuthenticatedRequest, res: Response) => {
+  const { id } = req.params;
+
+  try {
+    const [rows] = await pool.query<any[]>(
+      `SELECT room_id, name, start_time, end_time, status, canceled_reason FROM booking WHERE id = ?`,
+      [id]
+    );
+
+    if (rows.length === 0) {
+      return res.status(404).json({ message: 'Booking not found' });
+    }
+
+    const booking = rows[0];
+    if (booking.status !== 'canceled') {
+      return res.status(409).json({ message: 'Only canceled bookings can be restored' });
+    }
+
+    // TIME ARCHITECTURE: String comparison works for "YYYY-MM-DD HH:mm:ss"
+    if (booking.end_time <= getCurrentNaiveDateTimeString()) {
+      return res.status(400).json({ message: 'Vergangene Buchungen können nicht wiederhergestellt werden.' });
+    }
+
+    // Lock the room so the slot cannot be taken between the check and the restore
+    const outcome = await withTransaction(async (connection): Promise<BookingWriteOutcome> => {
+      const [room] = await BookingConflictService.lockRooms(connection, [booking.room_id]);
+      if (room?.archived_at) {
+        return { ok: false, status: 409, body: { message: 'Der Raum dieser Buchung wurde archiviert.' } };
+      }
+      const roomError = checkRoomBookable(room);
+      if (roomError) {
+        return roomError;
+      }
+
+      const existingBookings = await BookingConflictService.findConflicts(
+        booking.room_id, booking.start_time, booking.end_time, [id], connection
+      );
+
+      if (existingBookings.length > 0) {
+        return {
+          ok: false,
+          status: 409,
+          body: {
+            message: 'Dieser Zeitraum ist bereits gebucht.',
+            conflict: BookingConflictService.toConflictResponse(existingBookings[0])
+          }
+        };
+      }
+
+      // The reserved resources may have been given to someone else in the meantime
+      const resourceError = await checkReservedResources(
+        connection, [{ id, start_time: booking.start_time, end_time: booking.end_time }]
+      );
+      if (resourceError) {
+        return resourceError;
+      }
+
+      const now = getCurrentTimezoneNaiveTimestamp();
+      const [result] = await connection.query<any>(
+        `UPDATE booking
+         SET status = 'confirmed', canceled_by = NULL, canceled_reason = NULL, canceled_at = NULL, updated_at = ?
+         WHERE id = ? AND status = 'canceled'`,
+        [now, id]
+      );
+
+      if (result.affectedRows === 0) {
+        return { ok: false, status: 409, body: { message: 'Only canceled bookings can be restored' } };
+      }
+
+      return { ok: true, bookingId: parseInt(id) };
+    });
+
+    if (!outcome.ok) {
+      return res.status(outcome.status).json(outcome.body);
+    }
+
+    await ActivityLogService.logActivity(
+      req.user?.id ?? null,
+      'RESTORE',
+      'BOOKING',
+      parseInt(id),
+      {
+        room_id: booking.room_id,
+        title: booking.name,
+        start_time: booking.start_time,
+        end_time: booking.end_time,
+        previous_cancel_reason: booking.canceled_reason
+      }
+    );
+
+    invalidateRoomsCache();
+    res.json({ message: 'Booking restored successfully' });
+  } catch (error) {
+    console.error('Error restoring booking:', error);
+    res.status(500).json({ message: 'Server Error' });
+  }
+};
+
+/**
+ * @route DELETE /api/bookings/:id/purge
+ * @desc Permanently delete a booking by ID (irreversible)
+ * @access Private (requires admin)
+ */
+export const purgeBooking = async (req: AuthenticatedRequest, res: Response) => {
+  const { id } = req.params;
+
+  try {
+    const [rows] = await pool.query<any[]>(
+      `SELECT room_id, name, start_time, end_time, status FROM booking WHERE id = ?`,
+      [id]
+    );
+
+    if (rows.length === 0) {
+      return res.status(404).json({ message: 'Booking not found' });
+    }
+
+    const booking = rows[0];
+    const [result] = await pool.query<any>(`DELETE FROM booking WHERE id = ?`, [id]);
+
+    if (result.affectedRows === 0) {
+      return res.status(404).json({ message: 'Booking not found' });
+    }
+
+    // Log the activity with details about the purged booking
+    await ActivityLogService.logActivity(
+      req.user?.id ?? null,
+      'DELETE',
+      'BOOKING',
+      parseInt(id),
+      {
+        room_id: booking.room_id,
+        title: booking.name,
+        start_time: booking.start_time,
+        end_time: booking.end_time,
+        status: booking.status,
+        purged: true
+      }
+    );
+
+    invalidateRoomsCache();
+    if (SLOT_BLOCKING_STATUSES.includes(booking.status)) {
+      WaitlistService.notifySlotFreed([booking.room_id]);
+    }
+    res.json({ message: 'Booking permanently deleted' });
+  } catch (error) {
+    console.error('Error purging booking:', error);
+    res.status(500).json({ message: 'Server Error' });
+  }
+};
+
+type SeriesScope = 'following' | 'all';
+
+const normalizeSeriesScope = (scope: unknown): SeriesScope | null => {
+  if (scope === 'following' || scope === 'all') {
+    return scope;
+  }
+  return null;
+};
+
+/**
+ * Loads the occurrence a series operation starts from and the occurrences it affects.
+ * "following" = this occurrence and all later ones; "all" = every occurrence that has not ended yet.
+ * Past occurrences are never touched so the booking history stays intact.
+ */
+const loadSeriesScope = async (bookingId: string, scope: SeriesScope) => {
+  const [rows] = await pool.query<any[]>(
+    `SELECT booking.id, booking.series_id, booking.start_time, booking_series.created_by, booking_series.rrule
+     FROM booking
+     INNER JOIN booking_series ON booking_series.id = booking.series_id
+     WHERE booking.id = ?`,
+    [bookingId]
+  );
+
+  if (rows.length === 0) {
+    return null;
+  }
+
+  const anchor = rows[0];
+  const fromTime = scope === 'following' ? anchor.start_time : getCurrentTimezoneNaiveTimestamp();
+  const timeColumn = scope === 'following' ? 'start_time' : 'end_time';
+
+  const [occurrences] = await pool.query<any[]>(
+    `SELECT id, room_id, name, start_time, end_time, comment, status
+     FROM booking
+     WHERE series_id = ?
+     AND status IN (?)
+     AND ${timeColumn} ${scope === 'following' ? '>=' : '>'} ?
+     ORDER BY start_time ASC`,
+    [anchor.series_id, SLOT_BLOCKING_STATUSES, fromTime]
+  );
+
+  return { anchor, occurrences };
+};
+
+/**
+ * @route GET /api/bookings/series/:seriesId
+ * @desc Get a booking series with all of its occurrences
+ * @access Private (requires authentication and ownership or admin role)
+ */
+export const getBookingSeries = async (req: AuthenticatedRequest, res: Response) => {
+  const { seriesId } = req.params;
+  const user = req.user;
+
+  if (!user) {
+    return res.status(401).json({ message: 'Authentication required' });
+  }
+
+  try {
+    const [seriesRows] = await pool.query<any[]>(
+      `SELECT id, room_id, name AS title, comment, rrule, start_time, end_time, created_by, created_at, updated_at
+       FROM booking_series
+       WHERE id = ?`,
+      [seriesId]
+    );
+
+    if (seriesRows.length === 0) {
+      return res.status(404).json({ message: 'Booking series not found' });
+    }
+
+    const series = seriesRows[0];
+    if (user.role !== 'admin' && series.created_by !== user.id) {
+      return res.status(403).json({ message: 'You may only view your own booking series.' });
+    }
+
+    const [occurrences] = await pool.query<any[]>(
+      `SELECT id, room_id, name AS title, start_time, end_time, comment, status
+       FROM booking
+       WHERE series_id = ?
+       ORDER BY start_time ASC`,
+      [seriesId]
+    );
+
+    res.json({ ...series, occurrences: await withResources(occurrences) });
+  } catch (error) {
+    console.error(`Error fetching booking series ${seriesId}:`, error);
+    res.status(500).json({ message: 'Server Error' });
+  }
+};
+
+/**
+ * @route PUT /api/bookings/:id/series
+ * @desc Update "this and following" or "all" occurrences of the series the booking belongs to.
+ *       Title/comment are always updated; startTime/endTime (HH:mm) move every affected occurrence
+ *       to the new time of day on its own date. Use PUT /api/bookings/:id for a single occurrence.
+ * @access Private (requires authentication and ownership or admin role)
+ */
+export const updateBookingSeries = async (req: AuthenticatedRequest, res: Response) => {
+  const { id } = req.params;
+  const user = req.user;
+  const { scope, title, comment, startTime, endTime } = req.body ?? {};
+
+  if (!user) {
+    return res.status(401).json({ message: 'Authentication required' });
+  }
+
+  const normalizedScope = normalizeSeriesScope(scope);
+  if (!normalizedScope) {
+    return res.status(400).json({ message: "Scope must be 'following' or 'all'" });
+  }
+
+  let sanitizedTitle: string;
+  let sanitizedComment: string | null;
+  try {
+    sanitizedTitle = validateAndSanitizeTitle(title);
+    sanitizedComment = validateAndSanitizeComment(comment);
+  } catch (error) {
+    return res.status(400).json({ message: error instanceof Error ? error.message : 'Invalid input' });
+  }
+
+  const isRetime = Boolean(startTime && endTime);
+  if (isRetime && (!TIME_OF_DAY_PATTERN.test(String(startTime)) || !TIME_OF_DAY_PATTERN.test(String(endTime)))) {
+    return res.status(400).json({ message: 'startTime and endTime must be in HH:mm format' });
+  }
+  if (isRetime && calculateSecondsBetweenNaive(`2000-01-01 ${startTime}:00`, `2000-01-01 ${endTime}:00`) <= 0) {
+    return res.status(400).json({ message: 'Die Endzeit muss nach der Startzeit liegen.' });
+  }
+
+  try {
+    const loaded = await loadSeriesScope(id, normalizedScope);
+    if (!loaded) {
+      return res.status(404).json({ message: 'Booking is not part of a series' });
+    }
+
+    const { anchor, occurrences } = loaded;
+    if (user.role !== 'admin' && anchor.created_by !== user.id) {
+      return res.status(403).json({ message: 'You may only update your own bookings.' });
+    }
+
+    if (occurrences.length === 0) {
+      return res.status(400).json({ message: 'No upcoming occurrences to update' });
+    }
+
+    const targets = occurrences.map((occurrence: any) => {
+      const day = occurrence.start_time.split(' ')[0];
+      return {
+        id: occurrence.id,
+        room_id: occurrence.room_id,
+        status: occurrence.status,
+        start_time: isRetime ? `${day} ${startTime}:00` : occurrence.start_time,
+        end_time: isRetime ? `${day} ${endTime}:00` : occurrence.end_time,
+      };
+    });
+
+    const outcome = await withTransaction(async (connection) => {
+      // Status per room; moved occurrences in restricted rooms need a new approval
+      const statusByRoom = new Map<number, BookingStatus>();
+      if (isRetime) {
+        // Occurrences being moved must not block each other; single occurrences may have been moved to other rooms
+        const lockedRooms = await BookingConflictService.lockRooms(connection, targets.map(target => target.room_id));
+        for (const room of lockedRooms) {
+          statusByRoom.set(room.id, await BookingApprovalService.getInitialStatus(connection, room, user));
+        }
+        const affectedIds = targets.map(target => target.id);
+        for (const room of lockedRooms) {
+          const policyError = await checkBookingPolicy(
+            connection, room.id, user, targets.filter(target => target.room_id === room.id), affectedIds
+          );
+          if (policyError) {
+            return { ok: false as const, rejection: policyError, conflicts: [], hoursErrors: [] };
+          }
+        }
+        const resourceError = await checkReservedResources(connection, targets);
+        if (resourceError) {
+          return { ok: false as const, rejection: resourceError, conflicts: [], hoursErrors: [] };
+        }
+        const hoursByRoom = await BusinessHoursService.getRoomHours(targets.map(target => target.room_id), connection);
+        const conflicts: Array<ConflictingBooking | null> = [];
+        const hoursErrors: Array<string | null> = [];
+        for (const target of targets) {
+          const existing = await BookingConflictService.findConflicts(
+            target.room_id, target.start_time, target.end_time, affectedIds, connection
+          );
+          conflicts.push(existing[0] ?? null);
+          hoursErrors.push(getBusinessHoursError(hoursByRoom.get(target.room_id)!, target.start_time, target.end_time));
+        }
+
+        if (conflicts.some(conflict => conflict !== null) || hoursErrors.some(error => error !== null)) {
+          return { ok: false as const, rejection: null, conflicts, hoursErrors };
+        }
+      }
+
+      const now = getCurrentTimezoneNaiveTimestamp();
+      for (const target of targets) {
+        await connection.query(
+          `UPDATE booking SET name = ?, comment = ?, start_time = ?, end_time = ?, status = ?, updated_at = ? WHERE id = ?`,
+          [sanitizedTitle, sanitizedComment, target.start_time, target.end_time, statusByRoom.get(target.room_id) ?? target.status, now, target.id]
+        );
+      }
+
+      if (normalizedScope === 'all') {
+        await connection.query(
+          `UPDATE booking_series SET name = ?, comment = ?, updated_at = ? WHERE id = ?`,
+          [sanitizedTitle, sanitizedComment, now, anchor.series_id]
+        );
+      }
+
+      return { ok: true as const };
+    });
+
+    if (!outcome.ok) {
+      if (outcome.rejection) {
+        return res.status(outcome.rejection.status).json(outcome.rejection.body);
+      }
+      const { conflicts, hoursErrors } = outcome;
+      const hasConflicts = conflicts.some(conflict => conflict !== null);
+      return res.status(hasConflicts ? 409 : 400).json({
+        message: hasConflicts
+          ? 'Einige Termine der Serie sind bereits gebucht.'
+          : 'Einige Termine der Serie liegen außerhalb der Öffnungszeiten.',
+        occurrences: targets.map((target, index) => ({
+          bookingId: target.id,
+          start_time: target.start_time,
+          end_time: target.end_time,
+          status: hoursErrors[index] ? 'outside_hours' : conflicts[index] ? 'conflict' : 'available',
+          ...(hoursErrors[index] ? { message: hoursErrors[index] } : {}),
+          conflict: conflicts[index] ? BookingConflictService.toConflictResponse(conflicts[index]!) : null
+        }))
+      });
+    }
+
+    await ActivityLogService.logActivity(
+      user.id,
+      'UPDATE',
+      'BOOKING',
+      parseInt(id),
+      {
+        series_id: anchor.series_id,
+        scope: normalizedScope,
+        booking_ids: targets.map(target => target.id),
+        new_title: sanitizedTitle,
+        new_comment: sanitizedComment,
+        new_start_time_of_day: isRetime ? startTime : undefined,
+        new_end_time_of_day: isRetime ? endTime : undefined
+      }
+    );
+
+    invalidateRoomsCache();
+    if (isRetime) {
+      WaitlistService.notifySlotFreed(targets.map(target => target.room_id));
+    }
+    res.json({ message: 'Booking series updated successfully', updated: targets.length });
+  } catch (error) {
+    console.error('Error updating booking series:', error);
+    res.status(500).json({ message: 'Server Error' });
+  }
+};
+
+/**
+ * @route DELETE /api/bookings/:id/series?scope=following|all
+ * @desc Cancel "this and following" or "all" upcoming occurrences of a series.
+ *       Use DELETE /api/bookings/:id for a single occurrence.
+ * @body reason - Optional cancellation reason
+ * @access Private (requires authentication and ownership or admin role)
+ */
+export const cancelBookingSeries = async (req: AuthenticatedRequest, res: Response) => {
+  const { id } = req.params;
+  const user = req.user;
+
+  if (!user) {
+    return res.status(401).json({ message: 'Authentication required' });
+  }
+
+  const normalizedScope = normalizeSeriesScope(req.query.scope ?? req.body?.scope);
+  if (!normalizedScope) {
+    return res.status(400).json({ message: "Scope must be 'following' or 'all'" });
+  }
+
+  let reason: string | null;
+  try {
+    reason = validateAndSanitizeReason(req.body?.reason ?? (req.query.reason as string | undefined));
+  } catch (error) {
+    return res.status(400).json({ message: error instanceof Error ? error.message : 'Invalid reason' });
+  }
+
+  try {
+    const loaded = await loadSeriesScope(id, normalizedScope);
+    if (!loaded) {
+      return res.status(404).json({ message: 'Booking is not part of a series' });
+    }
+
+    const { anchor, occurrences } = loaded;
+    if (user.role !== 'admin' && anchor.created_by !== user.id) {
+      return res.status(403).json({ message: 'You may only cancel your own bookings.' });
+    }
+
+    const bookingIds = occurrences.map((occurrence: any) => occurrence.id);
+    const now = getCurrentTimezoneNaiveTimestamp();
+
+    // Lock the affected rooms so the cancellation cannot interleave with a concurrent update of the occurrences
+    await withTransaction(async (connection) => {
+      if (bookingIds.length > 0) {
+        await BookingConflictService.lockRooms(connection, occurrences.map((occurrence: any) => occurrence.room_id));
+        await connection.query(
+          `UPDATE booking
+           SET status = 'canceled', canceled_by = ?, canceled_reason = ?, canceled_at = ?, updated_at = ?
+           WHERE id IN (?) AND status IN (?)`,
+          [user.id, reason, now, now, bookingIds, SLOT_BLOCKING_STATUSES]
+        );
+      }
+
+      // "This and following" ends the series the day before the selected occurrence
+      if (normalizedScope === 'following') {
+        let truncatedRule: string | null = null;
+        try {
+          const rule = parseRecurrenceRule(anchor.rrule);
+          const dayBefore = addSecondsToNaive(`${anchor.start_time.split(' ')[0]} 00:00:00`, -24 * 60 * 60).split(' ')[0];
+          truncatedRule = formatRecurrenceRule({ ...rule, count: null, until: dayBefore });
+        } catch (error) {
+          console.error(`Could not truncate rule of booking series ${anchor.series_id}:`, error);
+        }
+        if (truncatedRule) {
+          await connection.query(
+            `UPDATE booking_series SET rrule = ?, updated_at = ? WHERE id = ?`,
+            [truncatedRule, now, anchor.series_id]
+          );
+        }
+      }
+    });
+
+    await ActivityLogService.logActivity(
+      user.id,
+      'CANCEL',
+      'BOOKING',
+      parseInt(id),
+      {
+        series_id: anchor.series_id,
+        scope: normalizedScope,
+        booking_ids: bookingIds,
+        reason
+      }
+    );
+
+    invalidateRoomsCache();
+    WaitlistService.notifySlotFreed(occurrences.map((occurrence: any) => occurrence.room_id));
+    res.json({ message: 'Booking series canceled successfully', canceled: bookingIds.length });
+  } catch (error) {
+    console.error('Error canceling booking series:', error);
+    res.status(500).json({ message: 'Server Error' });
+  }
+};
+
+/**
+ * Loads the booking a group operation starts from and the group's active (confirmed or pending) bookings.
+ */
+const loadGroupScope = async (bookingId: string) => {
+  const [rows] = await pool.query<any[]>(
+    `SELECT booking.id, booking.group_id, booking_group.created_by, booking_group.start_time, booking_group.end_time
+     FROM booking
+     INNER JOIN booking_group ON booking_group.id = booking.group_id
+     WHERE booking.id = ?`,
+    [bookingId]
+  );
+
+  if (rows.length === 0) {
+    return null;
+  }
+
+  const anchor = rows[0];
+  const [bookings] = await pool.query<any[]>(
+    `SELECT id, room_id, name, start_time, end_time, comment, status
+     FROM booking
+     WHERE group_id = ?
+     AND status IN (?)
+     ORDER BY room_id ASC`,
+    [anchor.group_id, SLOT_BLOCKING_STATUSES]
+  );
+
+  return { anchor, bookings };
+};
+
+/**
+ * @route GET /api/bookings/groups/:groupId
+ * @desc Get a multi-room booking with the bookings of all its rooms
+ * @access Private (requires authentication and ownership or admin role)
+ */
+export const getBookingGroup = async (req: AuthenticatedRequest, res: Response) => {
+  const { groupId } = req.params;
+  const user = req.user;
+
+  if (!user) {
+    return res.status(401).json({ message: 'Authentication required' });
+  }
+
+  try {
+    const [groupRows] = await pool.query<any[]>(
+      `SELECT id, name AS title, comment, start_time, end_time, created_by, created_at, updated_at
+       FROM booking_group
+       WHERE id = ?`,
+      [groupId]
+    );
+
+    if (groupRows.length === 0) {
+      return res.status(404).json({ message: 'Booking group not found' });
+    }
+
+    const group = groupRows[0];
+    if (user.role !== 'admin' && group.created_by !== user.id) {
+      return res.status(403).json({ message: 'You may only view your own booking groups.' });
+    }
+
+    const [bookings] = await pool.query<any[]>(
+      `SELECT booking.id, booking.room_id, room.name AS room_name, booking.name AS title,
+              booking.start_time, booking.end_time, booking.comment, booking.status
+       FROM booking
+       INNER JOIN room ON room.id = booking.room_id
+       WHERE booking.group_id = ?
+       ORDER BY booking.room_id ASC`,
+      [groupId]
+    );
+
+    res.json({ ...group, bookings: await withResources(bookings) });
+  } catch (error) {
+    console.error(`Error fetching booking group ${groupId}:`, error);
+    res.status(500).json({ message: 'Server Error' });
+  }
+};
+
+/**
+ * @route PUT /api/bookings/:id/group
+ * @desc Update all rooms of the multi-room booking the booking belongs to.
+ *       Title/comment are always updated; (start_time, end_time) or (date, startTime, endTime)
+ *       move every room to the new time - all or nothing, with a combined conflict report.
+ *       Use PUT /api/bookings/:id for a single room.
+ * @access Private (requires authentication and ownership or admin role)
+ */
+export const updateBookingGroup = async (req: AuthenticatedRequest, res: Response) => {
+  const { id } = req.params;
+  const user = req.user;
+  const { title, comment, start_time, end_time, date, startTime, endTime } = req.body ?? {};
+
+  if (!user) {
+    return res.status(401).json({ message: 'Authentication required' });
+  }
+
+  let sanitizedTitle: string;
+  let sanitizedComment: string | null;
+  try {
+    sanitizedTitle = validateAndSanitizeTitle(title);
+    sanitizedComment = validateAndSanitizeComment(comment);
+  } catch (error) {
+    return res.status(400).json({ message: error instanceof Error ? error.message : 'Invalid input' });
+  }
+
+  let startTimeStr: string | null = null;
+  let endTimeStr: string | null = null;
+  if (date && startTime && endTime) {
+    startTimeStr = `${date} ${startTime}:00`;
+    endTimeStr = `${date} ${endTime}:00`;
+  } else if (start_time && end_time) {
+    startTimeStr = start_time;
+    endTimeStr = end_time;
+  }
+
+  const isRetime = startTimeStr !== null && endTimeStr !== null;
+  if (isRetime) {
+    if (!parseTimezoneNaiveDateString(startTimeStr) || !parseTimezoneNaiveDateString(endTimeStr)) {
+      return res.status(400).json({ message: 'Ungültiges Start- oder Enddatum.' });
+    }
+    if (calculateSecondsBetweenNaive(startTimeStr!, endTimeStr!) <= 0) {
+      return res.status(400).json({ message: 'Die Endzeit muss nach der Startzeit liegen.' });
+    }
+  }
+
+  try {
+    const loaded = await loadGroupScope(id);
+    if (!loaded) {
+      return res.status(404).json({ message: 'Booking is not part of a multi-room booking' });
+    }
+
+    const { anchor, bookings } = loaded;
+    if (user.role !== 'admin' && anchor.created_by !== user.id) {
+      return res.status(403).json({ message: 'You may only update your own bookings.' });
+    }
+
+    if (bookings.length === 0) {
+      return res.status(400).json({ message: 'The multi-room booking has no active bookings' });
+    }
+
+    const roomIds: number[] = bookings.map((booking: any) => booking.room_id);
+    const bookingIds: number[] = bookings.map((booking: any) => booking.id);
+
+    const outcome = await withTransaction(async (connection): Promise<BookingWriteOutcome> => {
+      const statusByRoom = new Map<number, BookingStatus>();
+      if (isRetime) {
+        // The group's own bookings must not block each other's move
+        const lockedRooms = await BookingConflictService.lockRooms(connection, roomIds);
+        const { report, errorStatus } = await checkGroupRooms(
+          connection, lockedRooms, roomIds, startTimeStr!, endTimeStr!, bookingIds
+        );
+
+        if (errorStatus !== null) {
+          return {
+            ok: false,
+            status: errorStatus,
+            body: {
+              message: errorStatus === 409
+                ? 'Einige Räume sind in diesem Zeitraum bereits gebucht.'
+                : 'Einige Räume können nicht gebucht werden.',
+              rooms: report
+            }
+          };
+        }
+
+        for (const roomId of roomIds) {
+          const policyError = await checkBookingPolicy(
+            connection, roomId, user, [{ start_time: startTimeStr!, end_time: endTimeStr! }], bookingIds
+          );
+          if (policyError) {
+            return policyError;
+          }
+        }
+
+        const resourceError = await checkReservedResources(
+          connection,
+          bookings.map((booking: any) => ({ id: booking.id, start_time: startTimeStr!, end_time: endTimeStr! }))
+        );
+        if (resourceError) {
+          return resourceError;
+        }
+
+        // A new time in a restricted room needs a new approval unless the user may approve it
+        for (const room of lockedRooms) {
+          statusByRoom.set(room.id, await BookingApprovalService.getInitialStatus(connection, room, user));
+        }
+      }
+
+      const now = getCurrentTimezoneNaiveTimestamp();
+      for (const booking of bookings) {
+        await connection.query(
+          `UPDATE booking SET name = ?, comment = ?, start_time = ?, end_time = ?, status = ?, updated_at = ? WHERE id = ?`,
+          [
+            sanitizedTitle,
+            sanitizedComment,
+            startTimeStr ?? booking.start_time,
+            endTimeStr ?? booking.end_time,
+            statusByRoom.get(booking.room_id) ?? booking.status,
+            now,
+            booking.id
+          ]
+        );
+      }
+
+      await connection.query(
+        `UPDATE booking_group SET name = ?, comment = ?, start_time = ?, end_time = ?, updated_at = ? WHERE id = ?`,
+        [sanitizedTitle, sanitizedComment, startTimeStr ?? anchor.start_time, endTimeStr ?? anchor.end_time, now, anchor.group_id]
+      );
+
+      return { ok: true, bookingId: parseInt(id) };
+    });
+
+    if (!outcome.ok) {
+      return res.status(outcome.status).json(outcome.body);
+    }
+
+    await ActivityLogService.logActivity(
+      user.id,
+      'UPDATE',
+      'BOOKING',
+      parseInt(id),
+      {
+        group_id: anchor.group_id,
+        booking_ids: bookingIds,
+        new_title: sanitizedTitle,
+        new_comment: sanitizedComment,
+        old_start_time: isRetime ? anchor.start_time : undefined,
+        new_start_time: isRetime ? startTimeStr : undefined,
+        old_end_time: isRetime ? anchor.end_time : undefined,
+        new_end_time: isRetime ? endTimeStr : undefined
+      }
+    );
+
+    invalidateRoomsCache();
+    if (isRetime) {
+      WaitlistService.notifySlotFreed(roomIds);
+    }
+    res.json({ message: 'Multi-room booking updated successfully', updated: bookingIds.length });
+  } catch (error) {
+    console.error('Error updating booking group:', error);
+    res.status(500).json({ message: 'Server Error' });
+  }
+};
+
+/**
+ * @route DELETE /api/bookings/:id/group
+ * @desc Cancel every room of the multi-room booking the booking belongs to.
+ *       Use DELETE /api/bookings/:id for a single room.
+ * @body reason - Optional cancellation reason
+ * @access Private (requires authentication and ownership or admin role)
+ */
+export const cancelBookingGroup = async (req: AuthenticatedRequest, res: Response) => {
+  const { id } = req.params;
+  const user = req.user;
+
+  if (!user) {
+    return res.status(401).json({ message: 'Authentication required' });
+  }
+
+  let reason: string | null;
+  try {
+    reason = validateAndSanitizeReason(req.body?.reason ?? (req.query.reason as string | undefined));
+  } catch (error) {
+    return res.status(400).json({ message: error instanceof Error ? error.message : 'Invalid reason' });
+  }
+
+  try {
+    const loaded = await loadGroupScope(id);
+    if (!loaded) {
+      return res.status(404).json({ message: 'Booking is not part of a multi-room booking' });
+    }
+
+    const { anchor, bookings } = loaded;
+    if (user.role !== 'admin' && anchor.created_by !== user.id) {
+      return res.status(403).json({ message: 'You may only cancel your own bookings.' });
+    }
+
+    const bookingIds = bookings.map((booking: any) => booking.id);
+    if (bookingIds.length > 0) {
+      const now = getCurrentTimezoneNaiveTimestamp();
+      await withTransaction(async (connection) => {
+        await BookingConflictService.lockRooms(connection, bookings.map((booking: any) => booking.room_id));
+        await connection.query(
+          `UPDATE booking
+           SET status = 'canceled', canceled_by = ?, canceled_reason = ?, canceled_at = ?, updated_at = ?
+           WHERE id IN (?) AND status IN (?)`,
+          [user.id, reason, now, now, bookingIds, SLOT_BLOCKING_STATUSES]
+        );
+      });
+    }
+
+    await ActivityLogService.logActivity(
+      user.id,
+      'CANCEL',
+      'BOOKING',
+      parseInt(id),
+      {
+        group_id: anchor.group_id,
+        booking_ids: bookingIds,
+        room_ids: bookings.map((booking: any) => booking.room_id),
+        reason
       }
     );
 
     invalidateRoomsCache();
-    res.json({ message: 'Booking deleted successfully' });
+    WaitlistService.notifySlotFreed(bookings.map((booking: any) => booking.room_id));
+    res.json({ message: 'Multi-room booking canceled successfully', canceled: bookingIds.length });
   } catch (error) {
-    console.error('Error deleting booking:', error);
+    console.error('Error canceling booking group:', error);
     res.status(500).json({ message: 'Server Error' });
   }
 };
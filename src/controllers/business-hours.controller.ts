@@ -0,0 +1,166 @@
+import { Request, Response } from 'express';
+import pool, { withTransaction } from '../models/db';
+import { AuthenticatedRequest } from '../middleware/auth.middleware';
+import { ActivityLogService } from '../services/activity-log.service';
+import { BusinessHoursService } from '../services/business-hours.service';
+import { invalidateRoomsCache } from '../services/cache.service';
+import { parseWeeklyHours, WeeklyHours } from '../utils/business-hours';
+
+/**
+ * @route GET /api/rooms/business-hours
+ * @desc Get the global default opening hours (used by every room without own hours for a weekday)
+ * @access Public
+ */
+export const getDefaultBusinessHours = async (_req: Request, res: Response) => {
+  try {
+    const { hours, isBuiltIn } = await BusinessHoursService.getDefaultHours();
+    res.json({ hours, is_built_in: isBuiltIn });
+  } catch (error) {
+    console.error('Error fetching default business hours:', error);
+    res.status(500).json({ message: 'Server Error' });
+  }
+};
+
+/**
+ * @route PUT /api/rooms/business-hours
+ * @desc Replace the global default opening hours. Weekdays that are missing or null are closed.
+ *       Existing bookings outside the new hours are kept.
+ * @body hours - { MO: { open: "08:00", close: "20:00" }, ..., SA: null, SU: null }
+ * @access Private (requires admin)
+ */
+export const setDefaultBusinessHours = async (req: AuthenticatedRequest, res: Response) => {
+  let hours: Partial<WeeklyHours>;
+  try {
+    hours = parseWeeklyHours(req.body?.hours);
+  } catch (error) {
+    return res.status(400).json({ message: error instanceof Error ? error.message : 'Invalid hours' });
+  }
+
+  try {
+    const { hours: oldHours } = await BusinessHoursService.getDefaultHours();
+    await withTransaction(connection => BusinessHoursService.replaceHours(connection, null, hours));
+    const { hours: newHours } = await BusinessHoursService.getDefaultHours();
+
+    await ActivityLogService.logActivity(
+      req.user?.id ?? null,
+      'UPDATE',
+      'ROOM',
+      null,
+      {
+        old_default_business_hours: oldHours,
+        new_default_business_hours: newHours
+      }
+    );
+
+    invalidateRoomsCache();
+    res.json({ message: 'Default business hours updated successfully', hours: newHours });
+  } catch (error) {
+    console.error('Error updating default business hours:', error);
+    res.status(500).json({ message: 'Server Error' });
+  }
+};
+
+/**
+ * @route GET /api/rooms/:id/business-hours
+ * @desc Get the effective opening hours of a room and the weekdays it overrides
+ * @access Public
+ */
+export const getRoomBusinessHours = async (req: Request, res: Response) => {
+  const { id } = req.params;
+
+  try {
+    const [roomRows] = await pool.query<any[]>('SELECT id FROM room WHERE id = ?', [id]);
+    if (roomRows.length === 0) {
+      return res.status(404).json({ message: 'Room not found' });
+    }
+
+    const hours = (await BusinessHoursService.getRoomHours([id])).get(Number(id));
+    const overrides = await BusinessHoursService.getRoomOverrides(id);
+    res.json({ room_id: Number(id), hours, overrides });
+  } catch (error) {
+    console.error(`Error fetching business hours for room ${id}:`, error);
+    res.status(500).json({ message: 'Server Error' });
+  }
+};
+
+/**
+ * @route PUT /api/rooms/:id/business-hours
+ * @desc Replace the room's own opening hours. Only the given weekdays are overridden (null = closed);
+ *       all other weekdays follow the global default. Existing bookings outside the new hours are kept.
+ * @body hours - e.g. { SA: { open: "10:00", close: "14:00" }, FR: null }
+ * @access Private (requires admin)
+ */
+export const setRoomBusinessHours = async (req: AuthenticatedRequest, res: Response) => {
+  const { id } = req.params;
+
+  let overrides: Partial<WeeklyHours>;
+  try {
+    overrides = parseWeeklyHours(req.body?.hours);
+  } catch (error) {
+    return res.status(400).json({ message: error instanceof Error ? error.message : 'Invalid hours' });
+  }
+
+  try {
+    const [roomRows] = await pool.query<any[]>('SELECT id FROM room WHERE id = ?', [id]);
+    if (roomRows.length === 0) {
+      return res.status(404).json({ message: 'Room not found' });
+    }
+
+    const oldOverrides = await BusinessHoursService.getRoomOverrides(id);
+    await withTransaction(connection => BusinessHoursService.replaceHours(connection, Number(id), overrides));
+    const hours = (await BusinessHoursService.getRoomHours([id])).get(Number(id));
+
+    await ActivityLogService.logActivity(
+      req.user?.id ?? null,
+      'UPDATE',
+      'ROOM',
+      Number(id),
+      {
+        old_business_hours: oldOverrides,
+        new_business_hours: overrides
+      }
+    );
+
+    invalidateRoomsCache();
+    res.json({ message: 'Room business hours updated successfully', room_id: Number(id), hours, overrides });
+  } catch (error) {
+    console.error(`Error updating business hours for room ${id}:`, error);
+    res.status(500).json({ message: 'Server Error' });
+  }
+};
+
+/**
+ * @route DELETE /api/rooms/:id/business-hours
+ * @desc Remove the room's own opening hours so it follows the global default again
+ * @access Private (requires admin)
+ */
+export const resetRoomBusinessHours = async (req: AuthenticatedRequest, res: Response) => {
+  const { id } = req.params;
+
+  try {
+    const [roomRows] = await pool.query<any[]>('SELECT id FROM room WHERE id = ?', [id]);
+    if (roomRows.length === 0) {
+      return res.status(404).json({ message: 'Room not found' });
+    }
+
+    const oldOverrides = await BusinessHoursService.getRoomOverrides(id);
+    await withTransaction(connection => BusinessHoursService.replaceHours(connection, Number(id), {}));
+
+    await ActivityLogService.logActivity(
+      req.user?.id ?? null,
+      'UPDATE',
+      'ROOM',
+      Number(id),
+      {
+        old_business_hours: oldOverrides,
+        new_business_hours: {}
+      }
+    );
+
+    invalidateRoomsCache();
+    res.json({ message: 'Room business hours reset to the default' });
+  } catch (error) {
+    console.error(`Error resetting business hours for room ${id}:`, error);
+    res.status(500).json({ message: 'Server Error' });
+  }
+};
@@ -0,0 +1,252 @@
+import { Request, Response } from 'express';
+import pool from '../models/db';
+import { AuthenticatedRequest } from '../middleware/auth.middleware';
+import { ActivityLogService } from '../services/activity-log.service';
+import { formatToTimezoneNaiveString, getCurrentTimezoneNaiveTimestamp } from '../utils/date-utils';
+import { buildCalendar, bookingUid, CalendarEvent } from '../utils/icalendar';
+import { ROOM_LOCATION_COLUMNS, ROOM_LOCATION_JOINS } from '../utils/room-location';
+import { generateSecureToken, hashSecureToken } from '../utils/secure-token';
+
+// Feeds include recent history so clients can still show last month's bookings
+const FEED_PAST_DAYS = 30;
+
+interface FeedTokenOwner {
+  id: number;
+  email: string;
+  role: 'user' | 'admin';
+}
+
+const getFeedWindowStart = (): string =>
+  formatToTimezoneNaiveString(new Date(Date.now() - FEED_PAST_DAYS * 24 * 60 * 60 * 1000));
+
+const sendCalendar = (res: Response, filename: string, body: string) => {
+  res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+  res.setHeader('Content-Disposition', `inline; filename="${filename}"`);
+  // Feeds are personal or privacy-filtered - never let shared caches store them
+  res.setHeader('Cache-Control', 'private, max-age=300');
+  res.send(body);
+};
+
+const buildFeedUrl = (req: Request, token: string): string =>
+  `${req.protocol}://${req.get('host')}/api/bookings/my-bookings/calendar.ics?token=${token}`;
+
+/**
+ * Resolves a calendar feed token to its (active) owner.
+ * Returns null for unknown, revoked or deactivated-user tokens.
+ */
+const resolveFeedToken = async (token: unknown): Promise<FeedTokenOwner | null> => {
+  if (!token || typeof token !== 'string') {
+    return null;
+  }
+
+  const [rows] = await pool.query<any[]>(
+    `SELECT calendar_feed_token.id AS token_id, \`user\`.id, \`user\`.email, \`user\`.role
+     FROM calendar_feed_token
+     INNER JOIN \`user\` ON \`user\`.id = calendar_feed_token.user_id
+     WHERE calendar_feed_token.token_hash = ?
+     AND calendar_feed_token.revoked_at IS NULL
+     AND \`user\`.is_active = 1
+     LIMIT 1`,
+    [hashSecureToken(token)]
+  );
+
+  if (rows.length === 0) {
+    return null;
+  }
+
+  await pool.query(
+    'UPDATE calendar_feed_token SET last_used_at = ? WHERE id = ?',
+    [getCurrentTimezoneNaiveTimestamp(), rows[0].token_id]
+  );
+
+  return { id: rows[0].id, email: rows[0].email, role: rows[0].role };
+};
+
+/**
+ * @route GET /api/rooms/:id/calendar.ics
+ * @desc iCalendar feed of a room's bookings (including cancellations)
+ * @access Public (anonymized "Belegt" unless a Bearer token or ?token=<feed token> is given)
+ */
+export const getRoomCalendar = async (req: AuthenticatedRequest, res: Response) => {
+  const { id } = req.params;
+
+  try {
+    const [roomRows] = await pool.query<any[]>(
+      `SELECT room.id, room.name, ${ROOM_LOCATION_COLUMNS}
+       FROM room
+       ${ROOM_LOCATION_JOINS}
+       WHERE room.id = ?`,
+      [id]
+    );
+
+    if (roomRows.length === 0) {
+      return res.status(404).json({ message: 'Room not found' });
+    }
+
+    const room = roomRows[0];
+
+    // PRIVACY: Calendar clients usually cannot send Bearer headers, so a feed token also counts as authenticated
+    const reader = req.user ?? await resolveFeedToken(req.query.token);
+    const isGuest = !reader;
+
+    const [rows] = await pool.query<any[]>(
+      `SELECT id, name AS title, start_time, end_time, comment, status, updated_at
+       FROM booking
+       WHERE room_id = ?
+       AND end_time >= ?
+       ORDER BY start_time ASC`,
+      [id, getFeedWindowStart()]
+    );
+
+    const location = room.location ? `${room.name}, ${room.location}` : room.name;
+    const events: CalendarEvent[] = rows.map((row: any) => ({
+      uid: bookingUid(row.id),
+      // Guest user - anonymize booking details
+      summary: isGuest ? 'Belegt' : row.title,
+      description: isGuest ? null : row.comment,
+      start_time: row.start_time,
+      end_time: row.end_time,
+      status: row.status,
+      location,
+      updated_at: row.updated_at,
+    }));
+
+    sendCalendar(res, `room-${room.id}.ics`, buildCalendar(`13Rooms: ${room.name}`, events));
+  } catch (error) {
+    console.error(`Error building calendar feed for room ${id}:`, error);
+    res.status(500).json({ message: 'Server Error' });
+  }
+};
+
+/**
+ * @route GET /api/bookings/my-bookings/calendar.ics?token=<feed token>
+ * @desc iCalendar feed of the bookings created by the feed token's owner (mirrors /my-bookings)
+ * @access Private (feed token in the URL)
+ */
+export const getMyBookingsCalendar = async (req: Request, res: Response) => {
+  try {
+    const owner = await resolveFeedToken(req.query.token);
+
+    if (!owner) {
+      return res.status(401).json({ message: 'Invalid or revoked calendar feed token' });
+    }
+
+    const [rows] = await pool.query<any[]>(
+      `SELECT
+         booking.id,
+         booking.name AS title,
+         booking.start_time,
+         booking.end_time,
+         booking.comment,
+         booking.status,
+         booking.updated_at,
+         room.name AS room_name,
+         NULLIF(CONCAT_WS(', ', site.name, building.name, floor.name), '') AS room_location
+       FROM booking
+       INNER JOIN room ON room.id = booking.room_id
+       ${ROOM_LOCATION_JOINS}
+       WHERE booking.created_by = ?
+       AND booking.end_time >= ?
+       ORDER BY booking.start_time ASC`,
+      [owner.id, getFeedWindowStart()]
+    );
+
+    const events: CalendarEvent[] = rows.map((row: any) => ({
+      uid: bookingUid(row.id),
+      summary: row.title,
+      description: row.comment,
+      start_time: row.start_time,
+      end_time: row.end_time,
+      status: row.status,
+      location: row.room_location ? `${row.room_name}, ${row.room_location}` : row.room_name,
+      updated_at: row.updated_at,
+    }));
+
+    sendCalendar(res, 'my-bookings.ics', buildCalendar('13Rooms: Meine Buchungen', events));
+  } catch (error) {
+    console.error('Error building personal calendar feed:', error);
+    res.status(500).json({ message: 'Server Error' });
+  }
+};
+
+/**
+ * @route POST /api/bookings/my-bookings/feed-token
+ * @desc Create a personal calendar feed token (revokes any previous one)
+ * @access Private (requires authentication)
+ */
+export const createFeedToken = async (req: AuthenticatedRequest, res: Response) => {
+  const user = req.user;
+
+  if (!user) {
+    return res.status(401).json({ message: 'Authentication required' });
+  }
+
+  try {
+    const now = getCurrentTimezoneNaiveTimestamp();
+    const token = generateSecureToken();
+
+    await pool.query(
+      'UPDATE calendar_feed_token SET revoked_at = ? WHERE user_id = ? AND revoked_at IS NULL',
+      [now, user.id]
+    );
+    await pool.query(
+      'INSERT INTO calendar_feed_token (user_id, token_hash, created_at) VALUES (?, ?, ?)',
+      [user.id, hashSecureToken(token), now]
+    );
+
+    await ActivityLogService.logActivity(
+      user.id,
+      'UPDATE',
+      'USER',
+      user.id,
+      { calendar_feed_token: 'created' }
+    );
+
+    // The plain token is only ever returned here
+    res.status(201).json({
+      message: 'Calendar feed token created successfully',
+      token,
+      url: buildFeedUrl(req, token)
+    });
+  } catch (error) {
+    console.error('Error creating calendar feed token:', error);
+    res.status(500).json({ message: 'Server Error' });
+  }
+};
+
+/**
+ * @route DELETE /api/bookings/my-bookings/feed-token
+ * @desc Revoke the personal calendar feed token
+ * @access Private (requires authentication)
+ */
+export const revokeFeedToken = async (req: AuthenticatedRequest, res: Response) => {
+  const user = req.user;
+
+  if (!user) {
+    return res.status(401).json({ message: 'Authentication required' });
+  }
+
+  try {
+    const [result] = await pool.query<any>(
+      'UPDATE calendar_feed_token SET revoked_at = ? WHERE user_id = ? AND revoked_at IS NULL',
+      [getCurrentTimezoneNaiveTimestamp(), user.id]
+    );
+
+    if (result.affectedRows === 0) {
+      return res.status(404).json({ message: 'No active calendar feed token' });
+    }
+
+    await ActivityLogService.logActivity(
+      user.id,
+      'UPDATE',
+      'USER',
+      user.id,
+      { calendar_feed_token: 'revoked' }
+    );
+
+    res.json({ message: 'Calendar feed token revoked successfully' });
+  } catch (error) {
+    console.error('Error revoking calendar feed token:', error);
+    res.status(500).json({ message: 'Server Error' });
+  }
+};
@@ -0,0 +1,365 @@
+import { Request, Response } from 'express';
+import pool from '../models/db';
+import { AuthenticatedRequest } from '../middleware/auth.middleware';
+import { ActivityLogService } from '../services/activity-log.service';
+import { invalidateRoomsCache } from '../services/cache.service';
+import { getCurrentTimezoneNaiveTimestamp } from '../utils/date-utils';
+import { sanitizeInput } from '../utils/sanitize';
+
+type LocationLevel = 'site' | 'building' | 'floor';
+
+interface LevelConfig {
+  table: LocationLevel;
+  label: string;
+  // Column referencing the parent level (null for sites)
+  parentColumn: 'site_id' | 'building_id' | null;
+  parentTable: LocationLevel | null;
+  // What references this level and therefore blocks deletion
+  childTable: 'building' | 'floor' | 'room';
+  childColumn: 'site_id' | 'building_id' | 'floor_id';
+  childLabel: string;
+}
+
+const LEVELS: Record<LocationLevel, LevelConfig> = {
+  site: {
+    table: 'site', label: 'Site', parentColumn: null, parentTable: null,
+    childTable: 'building', childColumn: 'site_id', childLabel: 'buildings'
+  },
+  building: {
+    table: 'building', label: 'Building', parentColumn: 'site_id', parentTable: 'site',
+    childTable: 'floor', childColumn: 'building_id', childLabel: 'floors'
+  },
+  floor: {
+    table: 'floor', label: 'Floor', parentColumn: 'building_id', parentTable: 'building',
+    childTable: 'room', childColumn: 'floor_id', childLabel: 'rooms'
+  },
+};
+
+const MAX_NAME_LENGTH = 100;
+const MAX_ADDRESS_LENGTH = 255;
+
+/**
+ * Validates the writable fields of a location level.
+ * On create the name (and the parent reference) are required; on update every field is optional.
+ *
+ * @throws Error with a user-facing message
+ */
+const parseLocationFields = (level: LocationLevel, body: any, isCreate: boolean): Record<string, any> => {
+  const config = LEVELS[level];
+  const fields: Record<string, any> = {};
+
+  if (body.name !== undefined || isCreate) {
+    const name = sanitizeInput(body.name);
+    if (!name) {
+      throw new Error('name is required');
+    }
+    if (name.length > MAX_NAME_LENGTH) {
+      throw new Error(`name must be at most ${MAX_NAME_LENGTH} characters`);
+    }
+    fields.name = name;
+  }
+
+  if (config.parentColumn && (body[config.parentColumn] !== undefined || isCreate)) {
+    const parentId = Number(body[config.parentColumn]);
+    if (!Number.isInteger(parentId) || parentId <= 0) {
+      throw new Error(`${config.parentColumn} is required`);
+    }
+    fields[config.parentColumn] = parentId;
+  }
+
+  if (level === 'site' && body.address !== undefined) {
+    const address = sanitizeInput(body.address);
+    if (address && address.length > MAX_ADDRESS_LENGTH) {
+      throw new Error(`address must be at most ${MAX_ADDRESS_LENGTH} characters`);
+    }
+    fields.address = address;
+  }
+
+  if (level === 'floor' && body.level !== undefined) {
+    if (body.level !== null && (!Number.isInteger(body.level) || body.level < -20 || body.level > 200)) {
+      throw new Error('level must be an integer between -20 and 200 (or null)');
+    }
+    fields.level = body.level;
+  }
+
+  return fields;
+};
+
+/**
+ * Returns an error response body if the parent is missing or the name is taken within the parent.
+ */
+const checkLocationConstraints = async (
+  level: LocationLevel,
+  fields: Record<string, any>,
+  current: Record<string, any> | null
+): Promise<{ status: number; message: string } | null> => {
+  const config = LEVELS[level];
+  const parentId = config.parentColumn ? fields[config.parentColumn] ?? current?.[config.parentColumn] : null;
+
+  if (config.parentColumn && fields[config.parentColumn] !== undefined) {
+    const [parents] = await pool.query<any[]>(`SELECT id FROM ${config.parentTable} WHERE id = ?`, [parentId]);
+    if (parents.length === 0) {
+      return { status: 400, message: `${LEVELS[config.parentTable!].label} not found: ${parentId}` };
+    }
+  }
+
+  const name = fields.name ?? current?.name;
+  const [duplicates] = await pool.query<any[]>(
+    `SELECT id FROM ${config.table} WHERE name = ?${config.parentColumn ? ` AND ${config.parentColumn} = ?` : ''}${current ? ' AND id <> ?' : ''}`,
+    [name, ...(config.parentColumn ? [parentId] : []), ...(current ? [current.id] : [])]
+  );
+  if (duplicates.length > 0) {
+    return {
+      status: 409,
+      message: config.parentColumn
+        ? `${config.label} "${name}" already exists in this ${LEVELS[config.parentTable!].label.toLowerCase()}`
+        : `${config.label} "${name}" already exists`
+    };
+  }
+
+  return null;
+};
+
+/**
+ * @route GET /api/locations
+ * @desc Get the location hierarchy: sites with their buildings and floors, including room counts per floor
+ * @access Public
+ */
+export const getLocations = async (_req: Request, res: Response) => {
+  try {
+    const [sites] = await pool.query<any[]>('SELECT id, name, address FROM site ORDER BY name ASC');
+    const [buildings] = await pool.query<any[]>('SELECT id, site_id, name FROM building ORDER BY name ASC');
+    const [floors] = await pool.query<any[]>(
+      `SELECT floor.id, floor.building_id, floor.name, floor.level, COUNT(room.id) AS room_count
+       FROM floor
+       LEFT JOIN room ON room.floor_id = floor.id
+       GROUP BY floor.id
+       ORDER BY floor.level IS NULL, floor.level ASC, floor.name ASC`
+    );
+
+    res.json(sites.map((site: any) => ({
+      id: site.id,
+      name: site.name,
+      address: site.address ?? null,
+      buildings: buildings
+        .filter((building: any) => building.site_id === site.id)
+        .map((building: any) => ({
+          id: building.id,
+          name: building.name,
+          floors: floors
+            .filter((floor: any) => floor.building_id === building.id)
+            .map((floor: any) => ({
+              id: floor.id,
+              name: floor.name,
+              level: floor.level ?? null,
+              room_count: Number(floor.room_count)
+            }))
+        }))
+    })));
+  } catch (error) {
+    console.error('Error fetching locations:', error);
+    res.status(500).json({ message: 'Server Error' });
+  }
+};
+
+/**
+ * Shared implementation of the create endpoints.
+ */
+const createLocation = async (req: AuthenticatedRequest, res: Response, level: LocationLevel) => {
+  const config = LEVELS[level];
+
+  let fields: Record<string, any>;
+  try {
+    fields = parseLocationFields(level, req.body ?? {}, true);
+  } catch (error) {
+    return res.status(400).json({ message: error instanceof Error ? error.message : 'Invalid input' });
+  }
+
+  try {
+    const constraintError = await checkLocationConstraints(level, fields, null);
+    if (constraintError) {
+      return res.status(constraintError.status).json({ message: constraintError.message });
+    }
+
+    const now = getCurrentTimezoneNaiveTimestamp();
+    const columns = [...Object.keys(fields), 'created_at', 'updated_at'];
+    const [result] = await pool.query<any>(
+      `INSERT INTO ${config.table} (${columns.join(', ')}) VALUES (?)`,
+      [[...Object.values(fields), now, now]]
+    );
+
+    await ActivityLogService.logActivity(
+      req.user?.id ?? null,
+      'CREATE',
+      'LOCATION',
+      result.insertId,
+      { level, ...fields }
+    );
+
+    res.status(201).json({ message: `${config.label} created successfully`, id: result.insertId, ...fields });
+  } catch (error) {
+    console.error(`Error creating ${level}:`, error);
+    res.status(500).json({ message: 'Server Error' });
+  }
+};
+
+/**
+ * Shared implementation of the update endpoints.
+ * Renaming or moving a level changes the derived location of its rooms.
+ */
+const updateLocation = async (req: AuthenticatedRequest, res: Response, level: LocationLevel) => {
+  const { id } = req.params;
+  const config = LEVELS[level];
+
+  let fields: Record<string, any>;
+  try {
+    fields = parseLocationFields(level, req.body ?? {}, false);
+  } catch (error) {
+    return res.status(400).json({ message: error instanceof Error ? error.message : 'Invalid input' });
+  }
+
+  if (Object.keys(fields).length === 0) {
+    return res.status(400).json({ message: 'No fields provided for update' });
+  }
+
+  try {
+    const [rows] = await pool.query<any[]>(`SELECT * FROM ${config.table} WHERE id = ?`, [id]);
+    if (rows.length === 0) {
+      return res.status(404).json({ message: `${config.label} not found` });
+    }
+    const current = rows[0];
+
+    const constraintError = await checkLocationConstraints(level, fields, current);
+    if (constraintError) {
+      return res.status(constraintError.status).json({ message: constraintError.message });
+    }
+
+    const assignments = Object.keys(fields).map(column => `${column} = ?`);
+    await pool.query(
+      `UPDATE ${config.table} SET ${assignments.join(', ')}, updated_at = ? WHERE id = ?`,
+      [...Object.values(fields), getCurrentTimezoneNaiveTimestamp(), id]
+    );
+
+    const logDetails: Record<string, any> = { level };
+    for (const [column, value] of Object.entries(fields)) {
+      logDetails[`old_${column}`] = current[column] ?? null;
+      logDetails[`new_${column}`] = value;
+    }
+    await ActivityLogService.logActivity(req.user?.id ?? null, 'UPDATE', 'LOCATION', Number(id), logDetails);
+
+    invalidateRoomsCache();
+    res.json({ message: `${config.label} updated successfully` });
+  } catch (error) {
+    console.error(`Error updating ${level} ${id}:`, error);
+    res.status(500).json({ message: 'Server Error' });
+  }
+};
+
+/**
+ * Shared implementation of the delete endpoints. Only empty levels can be deleted.
+ */
+const deleteLocation = async (req: AuthenticatedRequest, res: Response, level: LocationLevel) => {
+  const { id } = req.params;
+  const config = LEVELS[level];
+
+  try {
+    const [rows] = await pool.query<any[]>(`SELECT * FROM ${config.table} WHERE id = ?`, [id]);
+    if (rows.length === 0) {
+      return res.status(404).json({ message: `${config.label} not found` });
+    }
+
+    const [children] = await pool.query<any[]>(
+      `SELECT COUNT(*) AS total FROM ${config.childTable} WHERE ${config.childColumn} = ?`,
+      [id]
+    );
+    if (Number(children[0].total) > 0) {
+      return res.status(409).json({
+        message: `${config.label} still has ${children[0].total} ${config.childLabel}. Move or delete them first.`
+      });
+    }
+
+    await pool.query(`DELETE FROM ${config.table} WHERE id = ?`, [id]);
+
+    await ActivityLogService.logActivity(
+      req.user?.id ?? null,
+      'DELETE',
+      'LOCATION',
+      Number(id),
+      { level, name: rows[0].name }
+    );
+
+    res.json({ message: `${config.label} deleted successfully` });
+  } catch (error) {
+    console.error(`Error deleting ${level} ${id}:`, error);
+    res.status(500).json({ message: 'Server Error' });
+  }
+};
+
+/**
+ * @route POST /api/locations/sites
+ * @desc Create a site
+ * @body name, address (optional)
+ * @access Private (requires admin)
+ */
+export const createSite = (req: AuthenticatedRequest, res: Response) => createLocation(req, res, 'site');
+
+/**
+ * @route PUT /api/locations/sites/:id
+ * @desc Update a site
+ * @body name, address
+ * @access Private (requires admin)
+ */
+export const updateSite = (req: AuthenticatedRequest, res: Response) => updateLocation(req, res, 'site');
+
+/**
+ * @route DELETE /api/locations/sites/:id
+ * @desc Delete a site without buildings
+ * @access Private (requires admin)
+ */
+export const deleteSite = (req: AuthenticatedRequest, res: Response) => deleteLocation(req, res, 'site');
+
+/**
+ * @route POST /api/locations/buildings
+ * @desc Create a building in a site
+ * @body site_id, name
+ * @access Private (requires admin)
+ */
+export const createBuilding = (req: AuthenticatedRequest, res: Response) => createLocation(req, res, 'building');
+
+/**
+ * @route PUT /api/locations/buildings/:id
+ * @desc Rename a building or move it to another site
+ * @body name, site_id
+ * @access Private (requires admin)
+ */
+export const updateBuilding = (req: AuthenticatedRequest, res: Response) => updateLocation(req, res, 'building');
+
+/**
+ * @route DELETE /api/locations/buildings/:id
+ * @desc Delete a building without floors
+ * @access Private (requires admin)
+ */
+export const deleteBuilding = (req: AuthenticatedRequest, res: Response) => deleteLocation(req, res, 'building');
+
+/**
+ * @route POST /api/locations/floors
+ * @desc Create a floor in a building
+ * @body building_id, name, level (optional sort order, e.g. 0 = ground floor)
+ * @access Private (requires admin)
+ */
+export const createFloor = (req: AuthenticatedRequest, res: Response) => createLocation(req, res, 'floor');
+
+/**
+ * @route PUT /api/locations/floors/:id
+ * @desc Rename a floor, change its level or move it to another building
+ * @body name, level, building_id
+ * @access Private (requires admin)
+ */
+export const updateFloor = (req: AuthenticatedRequest, res: Response) => updateLocation(req, res, 'floor');
+
+/**
+ * @route DELETE /api/locations/floors/:id
+ * @desc Delete a floor without rooms
+ * @access Private (requires admin)
+ */
+export const deleteFloor = (req: AuthenticatedRequest, res: Response) => deleteLocation(req, res, 'floor');
@@ -0,0 +1,238 @@
+import { Response } from 'express';
+import { PoolConnection } from 'mysql2/promise';
+import pool, { withTransaction } from '../models/db';
+import { AuthenticatedRequest } from '../middleware/auth.middleware';
+import { ActivityLogService } from '../services/activity-log.service';
+import { BookingConflictService, SLOT_BLOCKING_STATUSES } from '../services/booking-conflict.service';
+import { invalidateRoomsCache } from '../services/cache.service';
+import { WaitlistService } from '../services/waitlist.service';
+import {
+  calculateSecondsBetweenNaive,
+  getCurrentNaiveDateTimeString,
+  getCurrentTimezoneNaiveTimestamp,
+  parseTimezoneNaiveDateString
+} from '../utils/date-utils';
+import { sanitizeInput } from '../utils/sanitize';
+
+const MAX_REASON_LENGTH = 500;
+
+type MaintenanceWriteOutcome =
+  | { ok: true; maintenanceId: number; affectedBookings: any[] }
+  | { ok: false; status: number; body: Record<string, any> };
+
+/**
+ * Bookings that collide with a maintenance window. They are kept and only flagged,
+ * so admins can move or cancel them.
+ */
+const findAffectedBookings = async (
+  roomId: number | string,
+  startTime: string,
+  endTime: string,
+  connection?: PoolConnection
+) => {
+  const [rows] = await (connection ?? pool).query<any[]>(
+    `SELECT booking.id, booking.name AS title, booking.start_time, booking.end_time, booking.status, booking.created_by,
+            creator.email AS creator_email
+     FROM booking
+     LEFT JOIN \`user\` AS creator ON creator.id = booking.created_by
+     WHERE booking.room_id = ?
+     AND booking.start_time < ?
+     AND booking.end_time > ?
+     AND booking.status IN (?)
+     ORDER BY booking.start_time ASC`,
+    [roomId, endTime, startTime, SLOT_BLOCKING_STATUSES]
+  );
+  return rows;
+};
+
+/**
+ * @route GET /api/rooms/:id/maintenance?include_past=true
+ * @desc Get the scheduled maintenance windows of a room (current and upcoming by default).
+ *       Admins also get the bookings that collide with each window.
+ * @access Public (with optional authentication)
+ */
+export const getRoomMaintenance = async (req: AuthenticatedRequest, res: Response) => {
+  const { id } = req.params;
+  const includePast = req.query.include_past === 'true';
+  const isAdmin = req.user?.role === 'admin';
+
+  try {
+    const [roomRows] = await pool.query<any[]>('SELECT id FROM room WHERE id = ?', [id]);
+    if (roomRows.length === 0) {
+      return res.status(404).json({ message: 'Room not found' });
+    }
+
+    // TIME ARCHITECTURE: Compare against a timezone-naive "now" string
+    const nowStr = getCurrentNaiveDateTimeString();
+    const [rows] = await pool.query<any[]>(
+      `SELECT id, room_id, start_time, end_time, reason, created_by, created_at
+       FROM room_maintenance
+       WHERE room_id = ?${includePast ? '' : ' AND end_time > ?'}
+       ORDER BY start_time ASC`,
+      includePast ? [id] : [id, nowStr]
+    );
+
+    const windows = [];
+    for (const row of rows) {
+      windows.push({
+        id: row.id,
+        room_id: row.room_id,
+        start_time: row.start_time,
+        end_time: row.end_time,
+        reason: row.reason ?? null,
+        is_active: row.start_time <= nowStr && row.end_time > nowStr,
+        ...(isAdmin
+          ? { created_by: row.created_by, affected_bookings: await findAffectedBookings(row.room_id, row.start_time, row.end_time) }
+          : {})
+      });
+    }
+
+    res.json(windows);
+  } catch (error) {
+    console.error(`Error fetching maintenance windows for room ${id}:`, error);
+    res.status(500).json({ message: 'Server Error' });
+  }
+};
+
+/**
+ * @route POST /api/rooms/:id/maintenance
+ * @desc Schedule a maintenance window. New bookings in the range are rejected; existing
+ *       bookings in the range are kept and returned as affected_bookings.
+ * @body start_time, end_time ("YYYY-MM-DD HH:mm:ss"), reason (optional)
+ * @access Private (requires admin)
+ */
+export const createMaintenanceWindow = async (req: AuthenticatedRequest, res: Response) => {
+  const { id } = req.params;
+  const { start_time, end_time, reason } = req.body ?? {};
+
+  if (typeof start_time !== 'string' || typeof end_time !== 'string' ||
+      !parseTimezoneNaiveDateString(start_time) || !parseTimezoneNaiveDateString(end_time)) {
+    return res.status(400).json({ message: 'start_time and end_time are required in YYYY-MM-DD HH:mm:ss format' });
+  }
+
+  if (calculateSecondsBetweenNaive(start_time, end_time) <= 0) {
+    return res.status(400).json({ message: 'end_time must be after start_time' });
+  }
+
+  if (end_time <= getCurrentNaiveDateTimeString()) {
+    return res.status(400).json({ message: 'Maintenance windows cannot lie entirely in the past' });
+  }
+
+  const sanitizedReason = sanitizeInput(reason);
+  if (sanitizedReason && sanitizedReason.length > MAX_REASON_LENGTH) {
+    return res.status(400).json({ message: `reason must be at most ${MAX_REASON_LENGTH} characters` });
+  }
+
+  try {
+    // Same room lock as every booking write path, so no booking slips in while the window is created
+    const outcome = await withTransaction(async (connection): Promise<MaintenanceWriteOutcome> => {
+      const [room] = await BookingConflictService.lockRooms(connection, [id]);
+      if (!room) {
+        return { ok: false, status: 404, body: { message: 'Room not found' } };
+      }
+
+      const [overlapping] = await connection.query<any[]>(
+        `SELECT id, start_time, end_time FROM room_maintenance
+         WHERE room_id = ? AND start_time < ? AND end_time > ?
+         LIMIT 1`,
+        [id, end_time, start_time]
+      );
+      if (overlapping.length > 0) {
+        return {
+          ok: false,
+          status: 409,
+          body: { message: 'The room already has a maintenance window in this range', maintenance: overlapping[0] }
+        };
+      }
+
+      const now = getCurrentTimezoneNaiveTimestamp();
+      const [result] = await connection.query<any>(
+        `INSERT INTO room_maintenance (room_id, start_time, end_time, reason, created_by, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`,
+        [id, start_time, end_time, sanitizedReason, req.user?.id ?? null, now, now]
+      );
+
+      const affectedBookings = await findAffectedBookings(id, start_time, end_time, connection);
+      return { ok: true, maintenanceId: result.insertId, affectedBookings };
+    });
+
+    if (!outcome.ok) {
+      return res.status(outcome.status).json(outcome.body);
+    }
+
+    await ActivityLogService.logActivity(
+      req.user?.id ?? null,
+      'UPDATE',
+      'ROOM',
+      Number(id),
+      {
+        maintenance_id: outcome.maintenanceId,
+        maintenance: 'scheduled',
+        start_time,
+        end_time,
+        reason: sanitizedReason,
+        affected_booking_ids: outcome.affectedBookings.map((booking: any) => booking.id)
+      }
+    );
+
+    invalidateRoomsCache();
+    res.status(201).json({
+      message: outcome.affectedBookings.length > 0
+        ? 'Maintenance window scheduled; some existing bookings collide with it'
+        : 'Maintenance window scheduled successfully',
+      id: outcome.maintenanceId,
+      room_id: Number(id),
+      start_time,
+      end_time,
+      reason: sanitizedReason,
+      affected_bookings: outcome.affectedBookings
+    });
+  } catch (error) {
+    console.error(`Error scheduling maintenance for room ${id}:`, error);
+    res.status(500).json({ message: 'Server Error' });
+  }
+};
+
+/**
+ * @route DELETE /api/rooms/:id/maintenance/:maintenanceId
+ * @desc Remove a maintenance window (e.g. finished early or canceled); its range becomes bookable again
+ * @access Private (requires admin)
+ */
+export const deleteMaintenanceWindow = async (req: AuthenticatedRequest, res: Response) => {
+  const { id, maintenanceId } = req.params;
+
+  try {
+    const [rows] = await pool.query<any[]>(
+      'SELECT id, start_time, end_time, reason FROM room_maintenance WHERE id = ? AND room_id = ?',
+      [maintenanceId, id]
+    );
+    if (rows.length === 0) {
+      return res.status(404).json({ message: 'Maintenance window not found' });
+    }
+
+    await pool.query('DELETE FROM room_maintenance WHERE id = ?', [maintenanceId]);
+
+    await ActivityLogService.logActivity(
+      req.user?.id ?? null,
+      'UPDATE',
+      'ROOM',
+      Number(id),
+      {
+        maintenance_id: Number(maintenanceId),
+        maintenance: 'removed',
+        start_time: rows[0].start_time,
+        end_time: rows[0].end_time,
+        reason: rows[0].reason
+      }
+    );
+
+    invalidateRoomsCache();
+    // Waiting users may get the range now
+    WaitlistService.notifySlotFreed([Number(id)]);
+
+    res.json({ message: 'Maintenance window removed successfully' });
+  } catch (error) {
+    console.error(`Error removing maintenance window ${maintenanceId}:`, error);
+    res.status(500).json({ message: 'Server Error' });
+  }
+};
@@ -0,0 +1,60 @@
+import { Response } from 'express';
+import { AuthenticatedRequest } from '../middleware/auth.middleware';
+import { NotificationService } from '../services/notification.service';
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+
+/**
+ * @route GET /api/bookings/my-bookings/notifications?unread=true&limit=50
+ * @desc Get the current user's notifications, newest first (e.g. bookings canceled or moved by an admin)
+ * @access Private (requires authentication)
+ */
+export const getMyNotifications = async (req: AuthenticatedRequest, res: Response) => {
+  const user = req.user;
+
+  if (!user) {
+    return res.status(401).json({ message: 'Authentication required' });
+  }
+
+  const limit = req.query.limit !== undefined ? Number(req.query.limit) : DEFAULT_LIMIT;
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+    return res.status(400).json({ message: `limit must be an integer between 1 and ${MAX_LIMIT}` });
+  }
+
+  try {
+    const notifications = await NotificationService.getForUser(user.id, req.query.unread === 'true', limit);
+    res.json(notifications);
+  } catch (error) {
+    console.error('Error fetching notifications:', error);
+    res.status(500).json({ message: 'Server Error' });
+  }
+};
+
+/**
+ * @route POST /api/bookings/my-bookings/notifications/read
+ * @desc Mark notifications as read
+ * @body ids - Array of notification IDs (omit to mark all as read)
+ * @access Private (requires authentication)
+ */
+export const markNotificationsRead = async (req: AuthenticatedRequest, res: Response) => {
+  const user = req.user;
+  const { ids } = req.body ?? {};
+
+  if (!user) {
+    return res.status(401).json({ message: 'Authentication required' });
+  }
+
+  if (ids !== undefined && (!Array.isArray(ids) || ids.length === 0
+    || ids.some((id: unknown) => !Number.isInteger(id) || (id as number) <= 0))) {
+    return res.status(400).json({ message: 'ids must be a non-empty array of notification IDs' });
+  }
+
+  try {
+    const updated = await NotificationService.markAsRead(user.id, ids ?? null);
+    res.json({ message: 'Notifications marked as read', updated });
+  } catch (error) {
+    console.error('Error marking notifications as read:', error);
+    res.status(500).json({ message: 'Server Error' });
+  }
+};
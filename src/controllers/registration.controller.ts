@@ -0,0 +1,236 @@
+import { Request, Response } from 'express';
+import validator from 'validator';
+import pool from '../models/db';
+import { AuthenticatedRequest } from '../middleware/auth.middleware';
+import { ActivityLogService } from '../services/activity-log.service';
+import { REGISTRATION_MODES, RegistrationService, RegistrationSettings } from '../services/registration.service';
+
+const MAX_ALLOWED_DOMAINS = 100;
+
+const sanitizeEmail = (email: string): string => email.trim().toLowerCase();
+
+const normalizeRole = (role?: string): 'user' | 'admin' => {
+  if (role && role.toLowerCase() === 'admin') {
+    return 'admin';
+  }
+  return 'user';
+};
+
+/**
+ * Validates registration settings: { mode, allowed_domains? }.
+ * Domains are stored lower-case without a leading "@"; 'domains' mode needs at least one.
+ *
+ * @throws Error with a user-facing message
+ */
+const parseRegistrationSettings = (body: any): RegistrationSettings => {
+  if (!REGISTRATION_MODES.includes(body.mode)) {
+    throw new Error(`mode must be one of: ${REGISTRATION_MODES.join(', ')}`);
+  }
+
+  const rawDomains = body.allowed_domains ?? [];
+  if (!Array.isArray(rawDomains)) {
+    throw new Error('allowed_domains must be a list of domains');
+  }
+  if (rawDomains.length > MAX_ALLOWED_DOMAINS) {
+    throw new Error(`At most ${MAX_ALLOWED_DOMAINS} domains can be allowed`);
+  }
+
+  const domains = new Set<string>();
+  for (const rawDomain of rawDomains) {
+    const domain = typeof rawDomain === 'string' ? rawDomain.trim().toLowerCase().replace(/^@/, '') : '';
+    if (!validator.isFQDN(domain)) {
+      throw new Error(`Invalid domain: ${String(rawDomain)}`);
+    }
+    domains.add(domain);
+  }
+
+  if (body.mode === 'domains' && domains.size === 0) {
+    throw new Error('allowed_domains must contain at least one domain in domains mode');
+  }
+
+  return { mode: body.mode, allowed_domains: Array.from(domains) };
+};
+
+/**
+ * GET /api/users/registration-settings
+ * Who may register themselves (admin only)
+ */
+export const getRegistrationSettings = async (_req: AuthenticatedRequest, res: Response) => {
+  try {
+    res.json(await RegistrationService.getSettings());
+  } catch (error) {
+    console.error('Failed to fetch registration settings:', error);
+    res.status(500).json({ message: 'Unable to fetch registration settings at this time.' });
+  }
+};
+
+/**
+ * PUT /api/users/registration-settings
+ * Open registration, restrict it to allowed email domains or switch to invite-only (admin only)
+ * Body: mode ('open' | 'domains' | 'invite_only'), allowed_domains
+ */
+export const updateRegistrationSettings = async (req: AuthenticatedRequest, res: Response) => {
+  let settings: RegistrationSettings;
+  try {
+    settings = parseRegistrationSettings(req.body ?? {});
+  } catch (error) {
+    return res.status(400).json({ message: error instanceof Error ? error.message : 'Invalid input' });
+  }
+
+  try {
+    const oldSettings = await RegistrationService.getSettings();
+    await RegistrationService.saveSettings(settings);
+
+    await ActivityLogService.logActivity(
+      req.user?.id ?? null,
+      'UPDATE',
+      'USER',
+      null,
+      {
+        old_registration_settings: oldSettings,
+        new_registration_settings: settings
+      }
+    );
+
+    res.json({ message: 'Registration settings successfully updated.', settings });
+  } catch (error) {
+    console.error('Failed to update registration settings:', error);
+    res.status(500).json({ message: 'Unable to update registration settings at this time.' });
+  }
+};
+
+/**
+ * GET /api/users/invitations
+ * All invitations with their status, newest first (admin only)
+ */
+export const getInvitations = async (_req: AuthenticatedRequest, res: Response) => {
+  try {
+    res.json({
+      message: 'Invitations retrieved successfully.',
+      invitations: await RegistrationService.getInvitations()
+    });
+  } catch (error) {
+    console.error('Failed to fetch invitations:', error);
+    res.status(500).json({ message: 'Unable to fetch invitations at this time.' });
+  }
+};
+
+/**
+ * POST /api/users/invitations
+ * Invite a user by email; the mailed link pre-fills the registration (admin only)
+ * Body: email, firstname?, surname?, role?
+ */
+export const createInvitation = async (req: AuthenticatedRequest, res: Response) => {
+  const { email, firstname, surname, role } = req.body ?? {};
+
+  if (!email || typeof email !== 'string' || !validator.isEmail(email.trim())) {
+    return res.status(400).json({ message: 'Please provide a valid email address.' });
+  }
+  if ((firstname !== undefined && typeof firstname !== 'string') || (surname !== undefined && typeof surname !== 'string')) {
+    return res.status(400).json({ message: 'firstname and surname must be strings.' });
+  }
+
+  try {
+    const normalizedEmail = sanitizeEmail(email);
+
+    const [existingRows] = await pool.query<any[]>(
+      'SELECT id FROM `user` WHERE email = ? LIMIT 1',
+      [normalizedEmail]
+    );
+
+    if (existingRows.length > 0) {
+      return res.status(409).json({ message: 'An account with this email already exists.' });
+    }
+
+    const invitation = await RegistrationService.createInvitation(
+      {
+        email: normalizedEmail,
+        firstname: firstname?.trim() || null,
+        surname: surname?.trim() || null,
+        role: normalizeRole(role)
+      },
+      req.user?.id ?? null
+    );
+
+    await ActivityLogService.logActivity(
+      req.user?.id ?? null,
+      'CREATE',
+      'USER',
+      null,
+      {
+        invitation_id: invitation.id,
+        email: invitation.email,
+        firstname: invitation.firstname,
+        surname: invitation.surname,
+        role: invitation.role
+      }
+    );
+
+    res.status(201).json({
+      message: 'Invitation successfully sent.',
+      invitation
+    });
+  } catch (error) {
+    console.error('Failed to create invitation:', error);
+    res.status(500).json({ message: 'Unable to send the invitation at this time.' });
+  }
+};
+
+/**
+ * DELETE /api/users/invitations/:id
+ * Revoke a pending invitation (admin only)
+ */
+export const revokeInvitation = async (req: AuthenticatedRequest, res: Response) => {
+  const { id } = req.params;
+
+  try {
+    const invitation = await RegistrationService.revokeInvitation(parseInt(id, 10));
+
+    if (!invitation) {
+      return res.status(404).json({ message: 'Pending invitation not found.' });
+    }
+
+    await ActivityLogService.logActivity(
+      req.user?.id ?? null,
+      'DELETE',
+      'USER',
+      null,
+      {
+        invitation_id: invitation.id,
+        email: invitation.email
+      }
+    );
+
+    res.json({ message: 'Invitation successfully revoked.' });
+  } catch (error) {
+    console.error('Failed to revoke invitation:', error);
+    res.status(500).json({ message: 'Unable to revoke the invitation at this time.' });
+  }
+};
+
+/**
+ * GET /api/auth/invitations/:token
+ * Pre-filled registration data of a pending invitation (public; the token is the secret)
+ */
+export const getInvitationByToken = async (req: Request, res: Response) => {
+  const { token } = req.params;
+
+  try {
+    const invitation = await RegistrationService.findPendingInvitation(token);
+
+    if (!invitation) {
+      return res.status(404).json({ message: 'This invitation is invalid or has expired.' });
+    }
+
+    res.json({
+      email: invitation.email,
+      firstname: invitation.firstname,
+      surname: invitation.surname,
+      role: invitation.role,
+      expires_at: invitation.expires_at
+    });
+  } catch (error) {
+    console.error('Failed to fetch invitation:', error);
+    res.status(500).json({ message: 'Unable to fetch the invitation at this time.' });
+  }
+};
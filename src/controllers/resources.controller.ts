@@ -0,0 +1,251 @@
+import { Request, Response } from 'express';
+import pool from '../models/db';
+import { AuthenticatedRequest } from '../middleware/auth.middleware';
+import { ActivityLogService } from '../services/activity-log.service';
+import { SLOT_BLOCKING_STATUSES } from '../services/booking-conflict.service';
+import { getCurrentNaiveDateTimeString, getCurrentTimezoneNaiveTimestamp, parseTimezoneNaiveDateString } from '../utils/date-utils';
+import { getPeakUsage, MAX_RESOURCE_QUANTITY } from '../utils/resources';
+import { sanitizeInput } from '../utils/sanitize';
+
+const MAX_NAME_LENGTH = 100;
+const MAX_DESCRIPTION_LENGTH = 255;
+
+/**
+ * Validates the writable fields of a resource.
+ * On create name and quantity are required; on update every field is optional.
+ *
+ * @throws Error with a user-facing message
+ */
+const parseResourceFields = (body: any, isCreate: boolean): Record<string, any> => {
+  const fields: Record<string, any> = {};
+
+  if (body.name !== undefined || isCreate) {
+    const name = sanitizeInput(body.name);
+    if (!name) {
+      throw new Error('name is required');
+    }
+    if (name.length > MAX_NAME_LENGTH) {
+      throw new Error(`name must be at most ${MAX_NAME_LENGTH} characters`);
+    }
+    fields.name = name;
+  }
+
+  if (body.description !== undefined) {
+    const description = sanitizeInput(body.description);
+    if (description && description.length > MAX_DESCRIPTION_LENGTH) {
+      throw new Error(`description must be at most ${MAX_DESCRIPTION_LENGTH} characters`);
+    }
+    fields.description = description;
+  }
+
+  if (body.quantity !== undefined || isCreate) {
+    if (!Number.isInteger(body.quantity) || body.quantity < 1 || body.quantity > MAX_RESOURCE_QUANTITY) {
+      throw new Error(`quantity must be an integer between 1 and ${MAX_RESOURCE_QUANTITY}`);
+    }
+    fields.quantity = body.quantity;
+  }
+
+  return fields;
+};
+
+/**
+ * Reservations of upcoming (or ongoing) bookings per resource.
+ */
+const loadUpcomingReservations = async (resourceIds: number[], from: string, to: string | null) => {
+  const [rows] = await pool.query<any[]>(
+    `SELECT booking_resource.resource_id, booking_resource.quantity, booking.start_time, booking.end_time
+     FROM booking_resource
+     INNER JOIN booking ON booking.id = booking_resource.booking_id
+     WHERE booking_resource.resource_id IN (?)
+     AND booking.end_time > ?${to ? ' AND booking.start_time < ?' : ''}
+     AND booking.status IN (?)`,
+    [resourceIds, from, ...(to ? [to] : []), SLOT_BLOCKING_STATUSES]
+  );
+  return rows;
+};
+
+/**
+ * @route GET /api/resources
+ * @desc Get the resource catalogue. With start_time and end_time every resource also
+ *       reports how many items are still available in that range.
+ * @access Public
+ * @query start_time, end_time - Optional range ("YYYY-MM-DD HH:mm:ss")
+ */
+export const getResources = async (req: Request, res: Response) => {
+  const { start_time, end_time } = req.query;
+  const withAvailability = start_time !== undefined || end_time !== undefined;
+
+  if (withAvailability) {
+    if (typeof start_time !== 'string' || typeof end_time !== 'string'
+      || !parseTimezoneNaiveDateString(start_time) || !parseTimezoneNaiveDateString(end_time)) {
+      return res.status(400).json({ message: 'start_time and end_time must be datetimes in YYYY-MM-DD HH:mm:ss format' });
+    }
+    if (end_time <= start_time) {
+      return res.status(400).json({ message: 'end_time must be after start_time' });
+    }
+  }
+
+  try {
+    const [rows] = await pool.query<any[]>(
+      'SELECT id, name, description, quantity, created_at, updated_at FROM resource ORDER BY name ASC'
+    );
+
+    if (!withAvailability || rows.length === 0) {
+      return res.json(rows);
+    }
+
+    const reservations = await loadUpcomingReservations(
+      rows.map((row: any) => row.id),
+      start_time as string,
+      end_time as string
+    );
+
+    res.json(rows.map((row: any) => ({
+      ...row,
+      available: Math.max(0, row.quantity - getPeakUsage(
+        reservations.filter((reservation: any) => reservation.resource_id === row.id),
+        start_time as string,
+        end_time as string
+      ))
+    })));
+  } catch (error) {
+    console.error('Error fetching resources:', error);
+    res.status(500).json({ message: 'Server Error' });
+  }
+};
+
+/**
+ * @route POST /api/resources
+ * @desc Add a resource to the catalogue
+ * @body name, quantity, description?
+ * @access Private (requires admin)
+ */
+export const createResource = async (req: AuthenticatedRequest, res: Response) => {
+  let fields: Record<string, any>;
+  try {
+    fields = parseResourceFields(req.body ?? {}, true);
+  } catch (error) {
+    return res.status(400).json({ message: error instanceof Error ? error.message : 'Invalid input' });
+  }
+
+  try {
+    const [duplicates] = await pool.query<any[]>('SELECT id FROM resource WHERE name = ?', [fields.name]);
+    if (duplicates.length > 0) {
+      return res.status(409).json({ message: `Resource "${fields.name}" already exists` });
+    }
+
+    const now = getCurrentTimezoneNaiveTimestamp();
+    const [result] = await pool.query<any>(
+      'INSERT INTO resource (name, description, quantity, created_at, updated_at) VALUES (?, ?, ?, ?, ?)',
+      [fields.name, fields.description ?? null, fields.quantity, now, now]
+    );
+
+    await ActivityLogService.logActivity(req.user?.id ?? null, 'CREATE', 'RESOURCE', result.insertId, fields);
+
+    res.status(201).json({ message: 'Resource created successfully', resourceId: result.insertId });
+  } catch (error) {
+    console.error('Error creating resource:', error);
+    res.status(500).json({ message: 'Server Error' });
+  }
+};
+
+/**
+ * @route PUT /api/resources/:id
+ * @desc Update a resource. The quantity cannot drop below what upcoming bookings have reserved at the same time.
+ * @body name?, description?, quantity?
+ * @access Private (requires admin)
+ */
+export const updateResource = async (req: AuthenticatedRequest, res: Response) => {
+  const { id } = req.params;
+
+  let fields: Record<string, any>;
+  try {
+    fields = parseResourceFields(req.body ?? {}, false);
+  } catch (error) {
+    return res.status(400).json({ message: error instanceof Error ? error.message : 'Invalid input' });
+  }
+
+  if (Object.keys(fields).length === 0) {
+    return res.status(400).json({ message: 'No fields provided for update' });
+  }
+
+  try {
+    const [rows] = await pool.query<any[]>('SELECT id, name, description, quantity FROM resource WHERE id = ?', [id]);
+    if (rows.length === 0) {
+      return res.status(404).json({ message: 'Resource not found' });
+    }
+    const current = rows[0];
+
+    if (fields.name !== undefined) {
+      const [duplicates] = await pool.query<any[]>('SELECT id FROM resource WHERE name = ? AND id <> ?', [fields.name, id]);
+      if (duplicates.length > 0) {
+        return res.status(409).json({ message: `Resource "${fields.name}" already exists` });
+      }
+    }
+
+    if (fields.quantity !== undefined && fields.quantity < current.quantity) {
+      const nowStr = getCurrentNaiveDateTimeString();
+      const reservations = await loadUpcomingReservations([current.id], nowStr, null);
+      const peak = getPeakUsage(reservations, nowStr, '9999-12-31 23:59:59');
+      if (fields.quantity < peak) {
+        return res.status(409).json({
+          message: `Upcoming bookings reserve up to ${peak} items at the same time; quantity cannot be lower`
+        });
+      }
+    }
+
+    const columns = Object.keys(fields);
+    await pool.query(
+      `UPDATE resource SET ${columns.map(column => `${column} = ?`).join(', ')}, updated_at = ? WHERE id = ?`,
+      [...columns.map(column => fields[column]), getCurrentTimezoneNaiveTimestamp(), id]
+    );
+
+    const logDetails: Record<string, any> = {};
+    for (const column of columns) {
+      logDetails[`old_${column}`] = current[column];
+      logDetails[`new_${column}`] = fields[column];
+    }
+    await ActivityLogService.logActivity(req.user?.id ?? null, 'UPDATE', 'RESOURCE', Number(id), logDetails);
+
+    res.json({ message: 'Resource updated successfully', resource: { ...current, ...fields } });
+  } catch (error) {
+    console.error(`Error updating resource ${id}:`, error);
+    res.status(500).json({ message: 'Server Error' });
+  }
+};
+
+/**
+ * @route DELETE /api/resources/:id
+ * @desc Remove a resource from the catalogue (only while no upcoming booking reserves it)
+ * @access Private (requires admin)
+ */
+export const deleteResource = async (req: AuthenticatedRequest, res: Response) => {
+  const { id } = req.params;
+
+  try {
+    const [rows] = await pool.query<any[]>('SELECT id, name, quantity FROM resource WHERE id = ?', [id]);
+    if (rows.length === 0) {
+      return res.status(404).json({ message: 'Resource not found' });
+    }
+
+    const reservations = await loadUpcomingReservations([rows[0].id], getCurrentNaiveDateTimeString(), null);
+    if (reservations.length > 0) {
+      return res.status(409).json({
+        message: `Resource is reserved by ${reservations.length} upcoming booking(s); remove it from those bookings first`
+      });
+    }
+
+    // Reservations of past bookings are removed by ON DELETE CASCADE
+    await pool.query('DELETE FROM resource WHERE id = ?', [id]);
+
+    await ActivityLogService.logActivity(req.user?.id ?? null, 'DELETE', 'RESOURCE', Number(id), {
+      name: rows[0].name,
+      quantity: rows[0].quantity
+    });
+
+    res.json({ message: 'Resource deleted successfully' });
+  } catch (error) {
+    console.error(`Error deleting resource ${id}:`, error);
+    res.status(500).json({ message: 'Server Error' });
+  }
+};
@@ -0,0 +1,233 @@
+import { Request, Response } from 'express';
+import pool from '../models/db';
+import { AuthenticatedRequest } from '../middleware/auth.middleware';
+import { ActivityLogService } from '../services/activity-log.service';
+import { invalidateRoomsCache } from '../services/cache.service';
+import { MediaStorageService } from '../services/media-storage.service';
+import { getCurrentTimezoneNaiveTimestamp } from '../utils/date-utils';
+import { getMultipartBoundary, parseMultipart } from '../utils/multipart';
+import {
+  ALLOWED_MEDIA_TYPES,
+  detectMediaType,
+  groupMediaByRoom,
+  MAX_MEDIA_BYTES,
+  MAX_MEDIA_PER_ROOM,
+  ROOM_MEDIA_COLUMNS,
+  sanitizeFileName,
+  toRoomMedia
+} from '../utils/room-media';
+import { sanitizeInput } from '../utils/sanitize';
+import { generateSecureToken } from '../utils/secure-token';
+
+const MAX_CAPTION_LENGTH = 255;
+
+// Stored files never change (a new upload gets a new key), so clients may cache them for good
+const MEDIA_CACHE_CONTROL = 'public, max-age=31536000, immutable';
+
+/**
+ * @route GET /api/rooms/:id/media
+ * @desc Get the photos and documents of a room
+ * @access Public
+ */
+export const getRoomMedia = async (req: Request, res: Response) => {
+  const { id } = req.params;
+
+  try {
+    const [roomRows] = await pool.query<any[]>('SELECT id FROM room WHERE id = ?', [id]);
+    if (roomRows.length === 0) {
+      return res.status(404).json({ message: 'Room not found' });
+    }
+
+    const [rows] = await pool.query<any[]>(`SELECT ${ROOM_MEDIA_COLUMNS} FROM room_media WHERE room_id = ?`, [id]);
+    res.json(groupMediaByRoom(rows).get(Number(id)) ?? []);
+  } catch (error) {
+    console.error(`Error fetching media for room ${id}:`, error);
+    res.status(500).json({ message: 'Server Error' });
+  }
+};
+
+/**
+ * @route POST /api/rooms/:id/media
+ * @desc Upload a photo (JPEG, PNG, WebP; max. 5 MB) or document (PDF; max. 10 MB) for a room
+ * @body multipart/form-data with `file`, optional `caption` and `kind` (photo or document)
+ * @access Private (requires admin)
+ */
+export const uploadRoomMedia = async (req: AuthenticatedRequest, res: Response) => {
+  const { id } = req.params;
+
+  const boundary = getMultipartBoundary(req.headers['content-type']);
+  if (!boundary || !Buffer.isBuffer(req.body)) {
+    return res.status(400).json({ message: 'Expected a multipart/form-data body with a file field' });
+  }
+
+  let upload;
+  try {
+    upload = parseMultipart(req.body, boundary);
+  } catch (error) {
+    return res.status(400).json({ message: error instanceof Error ? error.message : 'Invalid multipart body' });
+  }
+
+  const file = upload.files.find(candidate => candidate.fieldName === 'file') ?? upload.files[0];
+  if (!file || file.data.length === 0) {
+    return res.status(400).json({ message: 'No file uploaded (expected form field "file")' });
+  }
+
+  const mediaType = detectMediaType(file.data);
+  if (!mediaType) {
+    return res.status(415).json({
+      message: `Unsupported file type. Allowed types: ${ALLOWED_MEDIA_TYPES.join(', ')}`
+    });
+  }
+
+  const requestedKind = upload.fields.kind?.trim().toLowerCase();
+  if (requestedKind && requestedKind !== mediaType.kind) {
+    return res.status(400).json({ message: `The uploaded file is a ${mediaType.kind}, not a ${requestedKind}` });
+  }
+
+  const maxBytes = MAX_MEDIA_BYTES[mediaType.kind];
+  if (file.data.length > maxBytes) {
+    return res.status(413).json({
+      message: `File too large: ${mediaType.kind}s may be at most ${Math.floor(maxBytes / (1024 * 1024))} MB`
+    });
+  }
+
+  const caption = sanitizeInput(upload.fields.caption);
+  if (caption && caption.length > MAX_CAPTION_LENGTH) {
+    return res.status(400).json({ message: `caption must be at most ${MAX_CAPTION_LENGTH} characters` });
+  }
+
+  const fileName = sanitizeFileName(file.fileName);
+  const storageKey = `${Number(id)}/${generateSecureToken(16)}.${mediaType.extension}`;
+
+  try {
+    const [roomRows] = await pool.query<any[]>('SELECT id FROM room WHERE id = ?', [id]);
+    if (roomRows.length === 0) {
+      return res.status(404).json({ message: 'Room not found' });
+    }
+
+    const [countRows] = await pool.query<any[]>('SELECT COUNT(*) AS total FROM room_media WHERE room_id = ?', [id]);
+    if (Number(countRows[0].total) >= MAX_MEDIA_PER_ROOM) {
+      return res.status(409).json({ message: `A room can have at most ${MAX_MEDIA_PER_ROOM} media files` });
+    }
+
+    // Store the file first; a row without a file would break the room responses
+    await MediaStorageService.getBackend().save(storageKey, file.data);
+
+    let mediaId: number;
+    const createdAt = getCurrentTimezoneNaiveTimestamp();
+    try {
+      const [result] = await pool.query<any>(
+        `INSERT INTO room_media (room_id, kind, file_name, storage_key, mime_type, size_bytes, caption, uploaded_by, created_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [id, mediaType.kind, fileName, storageKey, mediaType.mimeType, file.data.length, caption, req.user?.id ?? null, createdAt]
+      );
+      mediaId = result.insertId;
+    } catch (error) {
+      await MediaStorageService.removeQuietly([storageKey]);
+      throw error;
+    }
+
+    await ActivityLogService.logActivity(
+      req.user?.id ?? null,
+      'UPDATE',
+      'ROOM',
+      Number(id),
+      { media_uploaded: fileName, media_id: mediaId, kind: mediaType.kind, size_bytes: file.data.length }
+    );
+
+    invalidateRoomsCache();
+    res.status(201).json(toRoomMedia({
+      id: mediaId,
+      room_id: Number(id),
+      kind: mediaType.kind,
+      file_name: fileName,
+      mime_type: mediaType.mimeType,
+      size_bytes: file.data.length,
+      caption,
+      created_at: createdAt
+    }));
+  } catch (error) {
+    console.error(`Error uploading media for room ${id}:`, error);
+    res.status(500).json({ message: 'Server Error' });
+  }
+};
+
+/**
+ * @route GET /api/rooms/:id/media/:mediaId
+ * @desc Download a room photo or document (served with long-lived cache headers and an ETag)
+ * @access Public
+ */
+export const serveRoomMedia = async (req: Request, res: Response) => {
+  const { id, mediaId } = req.params;
+
+  try {
+    const [rows] = await pool.query<any[]>(
+      'SELECT file_name, storage_key, mime_type FROM room_media WHERE id = ? AND room_id = ?',
+      [mediaId, id]
+    );
+    if (rows.length === 0) {
+      return res.status(404).json({ message: 'Media not found' });
+    }
+    const media = rows[0];
+
+    const etag = `"${media.storage_key.split('/').pop()}"`;
+    res.setHeader('Cache-Control', MEDIA_CACHE_CONTROL);
+    res.setHeader('ETag', etag);
+    if (req.headers['if-none-match'] === etag) {
+      return res.status(304).end();
+    }
+
+    const data = await MediaStorageService.getBackend().read(media.storage_key);
+    if (!data) {
+      console.error(`[MEDIA STORAGE] File ${media.storage_key} of media ${mediaId} is missing`);
+      res.removeHeader('Cache-Control');
+      return res.status(404).json({ message: 'Media not found' });
+    }
+
+    res.setHeader('Content-Type', media.mime_type);
+    res.setHeader('Content-Length', data.length);
+    res.setHeader('Content-Disposition', `inline; filename*=UTF-8''${encodeURIComponent(media.file_name)}`);
+    // Allow the frontend (a different origin) to embed room photos
+    res.setHeader('Cross-Origin-Resource-Policy', 'cross-origin');
+    res.end(data);
+  } catch (error) {
+    console.error(`Error serving media ${mediaId} of room ${id}:`, error);
+    res.status(500).json({ message: 'Server Error' });
+  }
+};
+
+/**
+ * @route DELETE /api/rooms/:id/media/:mediaId
+ * @desc Delete a room photo or document
+ * @access Private (requires admin)
+ */
+export const deleteRoomMedia = async (req: AuthenticatedRequest, res: Response) => {
+  const { id, mediaId } = req.params;
+
+  try {
+    const [rows] = await pool.query<any[]>(
+      'SELECT id, file_name, storage_key FROM room_media WHERE id = ? AND room_id = ?',
+      [mediaId, id]
+    );
+    if (rows.length === 0) {
+      return res.status(404).json({ message: 'Media not found' });
+    }
+
+    await pool.query('DELETE FROM room_media WHERE id = ?', [mediaId]);
+    await MediaStorageService.removeQuietly([rows[0].storage_key]);
+
+    await ActivityLogService.logActivity(
+      req.user?.id ?? null,
+      'UPDATE',
+      'ROOM',
+      Number(id),
+      { media_deleted: rows[0].file_name, media_id: Number(mediaId) }
+    );
+
+    invalidateRoomsCache();
+    res.json({ message: 'Media deleted successfully' });
+  } catch (error) {
+    console.error(`Error deleting media ${mediaId} of room ${id}:`, error);
+    res.status(500).json({ message: 'Server Error' });
+  }
+};
@@ -1,5 +1,5 @@
 import { Request, Response } from 'express';
-import pool from '../models/db';
+import pool, { withTransaction } from '../models/db';
 import { AuthenticatedRequest } from '../middleware/auth.middleware';
 import { ActivityLogService } from '../services/activity-log.service';
 import {
@@ -9,7 +9,29 @@ import {
   invalidateRoomsCache,
   updateRoomsCache
 } from '../services/cache.service';
-import { getCurrentNaiveDateTimeString, calculateSecondsBetweenNaive, getCurrentTimezoneNaiveTimestamp } from '../utils/date-utils';
+import { BookingConflictService, SLOT_BLOCKING_STATUSES } from '../services/booking-conflict.service';
+import { BusinessHoursService } from '../services/business-hours.service';
+import { MediaStorageService } from '../services/media-storage.service';
+import { NewNotification, NotificationService } from '../services/notification.service';
+import { ACTIVE_WAITLIST_STATUSES } from '../services/waitlist.service';
+import { TIME_OF_DAY_PATTERN, getBusinessHoursError, isOutsideBusinessHours } from '../utils/business-hours';
+import { findFreeIntervals, findFreeSlots } from '../utils/free-slots';
+import {
+  locationFilterSql,
+  parseLocationFilter,
+  ROOM_LOCATION_COLUMNS,
+  ROOM_LOCATION_JOINS
+} from '../utils/room-location';
+import { groupMediaByRoom, ROOM_MEDIA_COLUMNS } from '../utils/room-media';
+import { filterRooms, hasRoomFilters, parseRoomFilters, RoomFilters, sortRooms } from '../utils/room-filters';
+import { validateAndSanitizeReason } from '../utils/sanitize';
+import {
+  getCurrentNaiveDateTimeString,
+  calculateSecondsBetweenNaive,
+  getCurrentTimezoneNaiveTimestamp,
+  parseTimezoneNaiveDateString
+} from '../utils/date-utils';
+import { addSecondsToNaive } from '../utils/recurrence';
 
 // Interface for Room data
 type RoomStatus = 'active' | 'maintenance' | 'inactive' | 'night_rest';
@@ -19,9 +41,20 @@ interface Room {
   name: string;
   capacity: number;
   status: RoomStatus;
+  // Derived from the floor ("Site, Building, Floor"), see utils/room-location.ts
   location?: string | null;
+  floor_id?: number | null;
+  floor_name?: string | null;
+  building_id?: number | null;
+  building_name?: string | null;
+  site_id?: number | null;
+  site_name?: string | null;
   amenities?: string[] | null;
   icon?: string | null;
+  check_in_grace_minutes?: number | null;
+  requires_approval?: boolean;
+  // Set for retired rooms (see DELETE /api/rooms/:id); only returned by GET /api/rooms/:id
+  archived_at?: string | null;
   // TIME ARCHITECTURE: nextAvailableTime is a timezone-naive datetime string
   nextAvailableTime?: string | null;
   remainingTimeMinutes?: number | null;
@@ -56,155 +89,270 @@ const normalizeRoomStatus = (status?: string | null): RoomStatus => {
   }
 };
 
+const LOCATION_IS_DERIVED_MESSAGE = 'location is derived from the floor; set floor_id instead (see /api/locations)';
+
 /**
- * @route GET /api/rooms
- * @desc Get all rooms
- * @access Public (with optional authentication for privacy)
+ * Validates a room's floor reference: null/empty unassigns the room, otherwise the floor must exist.
+ *
+ * @throws Error with a user-facing message
  */
-export const getAllRooms = async (req: AuthenticatedRequest, res: Response) => {
-  const now = Date.now();
-  if (cachedRoomsData && (now - cacheTimestamp) < CACHE_TTL_MS) {
-    console.log(`[CACHE HIT] Returning cached rooms data. Age: ${Math.round((now - cacheTimestamp) / 1000)}s`);
-    return res.json(cachedRoomsData);
+const parseFloorId = async (value: unknown): Promise<number | null> => {
+  if (value === null || value === '' || value === undefined) {
+    return null;
   }
-  console.log('[CACHE MISS] Fetching fresh rooms data from database...');
-  try {
-    const [roomRows] = await pool.query<any[]>('SELECT id, name, capacity, status, location, JSON_UNQUOTE(amenities) AS amenities, icon FROM room');
-    const rooms: Room[] = roomRows.map((row: any) => ({
-      ...row,
-      status: normalizeRoomStatus(row.status),
-      amenities: row.amenities ? JSON.parse(row.amenities) : null,
-    }));
+  const floorId = Number(value);
+  if (!Number.isInteger(floorId) || floorId <= 0) {
+    throw new Error('floor_id must be a floor ID (or null)');
+  }
+  const [rows] = await pool.query<any[]>('SELECT id FROM floor WHERE id = ?', [floorId]);
+  if (rows.length === 0) {
+    throw new Error(`Floor not found: ${floorId}`);
+  }
+  return floorId;
+};
 
-    // TIME ARCHITECTURE COMPLIANCE: Use string-based "now" for all time logic
-    const nowStr = getCurrentNaiveDateTimeString();
+/**
+ * Validates the per-room check-in grace period.
+ * null/empty disables check-in for the room; otherwise 1-240 minutes.
+ */
+const parseGraceMinutes = (value: unknown): number | null => {
+  if (value === null || value === '' || value === undefined) {
+    return null;
+  }
+  const minutes = Number(value);
+  if (!Number.isInteger(minutes) || minutes < 1 || minutes > 240) {
+    throw new Error('check_in_grace_minutes must be an integer between 1 and 240 (or null to disable check-in)');
+  }
+  return minutes;
+};
 
-    // Fetch all bookings that overlap with today
-    const [bookingRows] = await pool.query<any[]>(
-      `SELECT id, room_id, name AS title, start_time, end_time, comment
-       FROM booking
-       WHERE (DATE(start_time) = CURDATE() OR DATE(end_time) = CURDATE())
-       AND status = 'confirmed'
-       ORDER BY start_time ASC`
+/**
+ * Shapes a booking for the room views (room list, timeline).
+ * PRIVACY: Guests only get anonymized booking details.
+ * TIME ARCHITECTURE: Keep bookings as strings (no Date object conversion).
+ */
+const toRoomBooking = (row: any, isGuest: boolean) => ({
+  id: row.id as number,
+  room_id: row.room_id as number,
+  title: isGuest ? 'Belegt' : (row.title ?? row.name) as string,
+  start_time: row.start_time as string,
+  end_time: row.end_time as string,
+  comment: isGuest ? null : (row.comment ?? null) as string | null,
+});
+
+/**
+ * Loads every room with today's bookings and its current status (business hours, maintenance).
+ * The result is what GET /api/rooms caches.
+ */
+const loadRoomsWithBookingInfo = async (isGuest: boolean) => {
+  const [roomRows] = await pool.query<any[]>(
+    `SELECT room.id, room.name, room.capacity, room.status, JSON_UNQUOTE(room.amenities) AS amenities, room.icon, room.check_in_grace_minutes, room.requires_approval, ${ROOM_LOCATION_COLUMNS}
+     FROM room
+     ${ROOM_LOCATION_JOINS}
+     WHERE room.archived_at IS NULL
+     ORDER BY room.id ASC`
+  );
+  const rooms: Room[] = roomRows.map((row: any) => ({
+    ...row,
+    status: normalizeRoomStatus(row.status),
+    requires_approval: row.requires_approval === 1,
+    amenities: row.amenities ? JSON.parse(row.amenities) : null,
+  }));
+
+  // TIME ARCHITECTURE COMPLIANCE: Use string-based "now" for all time logic
+  const nowStr = getCurrentNaiveDateTimeString();
+
+  // Fetch all bookings that overlap with today (pending bookings reserve their slot too)
+  const [bookingRows] = await pool.query<any[]>(
+    `SELECT id, room_id, name AS title, start_time, end_time, comment
+     FROM booking
+     WHERE (DATE(start_time) = CURDATE() OR DATE(end_time) = CURDATE())
+     AND status IN (?)
+     ORDER BY start_time ASC`,
+    [SLOT_BLOCKING_STATUSES]
+  );
+
+  // PRIVACY: Guests only get anonymized booking details
+  const allBookings = bookingRows.map((row: any) => toRoomBooking(row, isGuest));
+
+  // BUSINESS HOURS LOGIC: Opening hours per room and weekday (see services/business-hours.service.ts)
+  const hoursByRoom = await BusinessHoursService.getRoomHours(rooms.map(room => room.id));
+
+  // SCHEDULED MAINTENANCE: Rooms with a maintenance window covering "now"
+  const [maintenanceRows] = await pool.query<any[]>(
+    'SELECT DISTINCT room_id FROM room_maintenance WHERE start_time <= ? AND end_time > ?',
+    [nowStr, nowStr]
+  );
+  const roomsInMaintenance = new Set<number>(maintenanceRows.map((row: any) => row.room_id));
+
+  // ROOM MEDIA: Photos and documents with their download URLs
+  const [mediaRows] = await pool.query<any[]>(`SELECT ${ROOM_MEDIA_COLUMNS} FROM room_media`);
+  const mediaByRoom = groupMediaByRoom(mediaRows);
+
+  const roomsWithBookingInfo = rooms.map(room => {
+    const roomBookings = allBookings.filter(booking => booking.room_id === room.id);
+
+    let currentBooking: typeof allBookings[0] | undefined = undefined;
+    let nextBooking: typeof allBookings[0] | undefined = undefined;
+
+    // Find current booking (ongoing right now)
+    // TIME ARCHITECTURE: Use string comparison (start_time <= nowStr && end_time > nowStr)
+    currentBooking = roomBookings.find(booking => {
+      const isCurrentlyBooked = booking.start_time <= nowStr && booking.end_time > nowStr;
+      return isCurrentlyBooked;
+    });
+
+    // Find next booking for today
+    // TIME ARCHITECTURE: Use string comparison (start_time > nowStr)
+    const futureBookingsToday = roomBookings
+      .filter(booking => {
+        const isFuture = booking.start_time > nowStr;
+        return isFuture;
+      })
+      .sort((a, b) => a.start_time.localeCompare(b.start_time));  // String sort
+
+    if (futureBookingsToday.length > 0) {
+      nextBooking = futureBookingsToday[0];
+    }
+
+    // Calculate total bookings and booked minutes for today
+    const totalBookingsToday = roomBookings.length;
+    const totalBookedMinutesToday = roomBookings.reduce((total, booking) => {
+      // TIME ARCHITECTURE: Use calculateSecondsBetweenNaive for duration
+      const durationSeconds = calculateSecondsBetweenNaive(booking.start_time, booking.end_time);
+      const durationMinutes = Math.floor(durationSeconds / 60);
+      return total + durationMinutes;
+    }, 0);
+
+    // Sort all room bookings by start time for frontend block detection
+    // TIME ARCHITECTURE: Use string comparison
+    const sortedRoomBookings = roomBookings.sort((a, b) =>
+      a.start_time.localeCompare(b.start_time)
     );
 
-    // PRIVACY: Check if user is authenticated
-    const isGuest = !req.user;
-
-    // TIME ARCHITECTURE: Keep bookings as strings (no Date object conversion)
-    let allBookings: Array<{
-      id: number;
-      room_id: number;
-      title: string;
-      start_time: string;
-      end_time: string;
-      comment: string | null;
-    }>;
-
-    if (isGuest) {
-      // Guest user - anonymize booking details
-      allBookings = bookingRows.map((row: any) => ({
-        id: row.id,
-        room_id: row.room_id,
-        title: 'Belegt',
-        start_time: row.start_time,  // Keep as string
-        end_time: row.end_time,      // Keep as string
-        comment: null,
-      }));
-    } else {
-      // Authenticated user - return full details
-      allBookings = bookingRows.map((row: any) => ({
-        id: row.id,
-        room_id: row.room_id,
-        title: row.title ?? row.name,
-        start_time: row.start_time,  // Keep as string
-        end_time: row.end_time,      // Keep as string
-        comment: row.comment ?? null,
-      }));
+    // APPLY BUSINESS HOURS OVERRIDE
+    let finalStatus = room.status;
+    if (finalStatus === 'active' && roomsInMaintenance.has(room.id)) {
+      finalStatus = 'maintenance';
+    }
+    if (isOutsideBusinessHours(hoursByRoom.get(room.id)!, nowStr)) {
+      // Override status to 'night_rest' if outside business hours
+      finalStatus = 'night_rest';
     }
 
-    // BUSINESS HOURS LOGIC
-    // Define business hours: 08:00 to 20:00
-    // Extract hour from the current datetime string
-    const currentHour = parseInt(nowStr.split(' ')[1].split(':')[0], 10);
-    const isOutsideBusinessHours = currentHour < 8 || currentHour >= 20;
+    return {
+      // Explicitly map every single property from the RoomWithBookingInfo interface
+      id: room.id,
+      name: room.name,
+      capacity: room.capacity,
+      status: finalStatus, // Use the calculated status
+
+      // CRITICAL FIX: Ensure all nullable fields default to `null`, never `undefined`.
+      location: room.location ?? null,
+      floor_id: room.floor_id ?? null,
+      floor_name: room.floor_name ?? null,
+      building_id: room.building_id ?? null,
+      building_name: room.building_name ?? null,
+      site_id: room.site_id ?? null,
+      site_name: room.site_name ?? null,
+      amenities: room.amenities ?? null,
+      icon: room.icon ?? null,
+      check_in_grace_minutes: room.check_in_grace_minutes ?? null,
+      requires_approval: room.requires_approval ?? false,
+      media: mediaByRoom.get(room.id) ?? [],
+
+      // Pass through the calculated booking info
+      currentBooking: currentBooking || null,
+      nextBooking: nextBooking || null,
+      allBookingsToday: sortedRoomBookings,
+
+      // Pass through the calculated stats
+      totalBookingsToday: totalBookingsToday,
+      totalBookedMinutesToday: totalBookedMinutesToday,
+    };
+  });
 
-    const roomsWithBookingInfo = rooms.map(room => {
-      const roomBookings = allBookings.filter(booking => booking.room_id === room.id);
+  // TIME ARCHITECTURE: Bookings are already timezone-naive strings
+  // No conversion needed - they stay as strings throughout
+  return roomsWithBookingInfo;
+};
 
-      let currentBooking: typeof allBookings[0] | undefined = undefined;
-      let nextBooking: typeof allBookings[0] | undefined = undefined;
+/**
+ * @route GET /api/rooms
+ * @desc Get all rooms, optionally filtered, sorted and paginated. Filters run on the cached room list.
+ *       Without page/limit the response is the plain room array; with them { rooms, pagination }.
+ * @access Public (with optional authentication for privacy)
+ * @query minCapacity - Minimum capacity
+ * @query amenities - Comma-separated amenities every room must have
+ * @query location - Case-insensitive part of the location
+ * @query siteId, buildingId, floorId - Rooms in the given site, building and/or floor
+ * @query status - Comma-separated statuses (active, maintenance, inactive, night_rest)
+ * @query freeNow - true: only rooms that are active and not booked right now
+ * @query freeFor - Only rooms that stay free (and open) for the next N minutes
+ * @query sort - name, capacity, location or status (default: database order); order - asc or desc
+ * @query page - Page number (default: 1), limit - Items per page (default: 20, max: 100)
+ */
+export const getAllRooms = async (req: AuthenticatedRequest, res: Response) => {
+  let filters: RoomFilters | null = null;
+  if (hasRoomFilters(req.query)) {
+    try {
+      filters = parseRoomFilters(req.query);
+    } catch (error) {
+      return res.status(400).json({ message: error instanceof Error ? error.message : 'Invalid filter' });
+    }
+  }
 
-      // Find current booking (ongoing right now)
-      // TIME ARCHITECTURE: Use string comparison (start_time <= nowStr && end_time > nowStr)
-      currentBooking = roomBookings.find(booking => {
-        const isCurrentlyBooked = booking.start_time <= nowStr && booking.end_time > nowStr;
-        return isCurrentlyBooked;
-      });
+  try {
+    let rooms = cachedRoomsData;
+    const now = Date.now();
+    if (rooms && (now - cacheTimestamp) < CACHE_TTL_MS) {
+      console.log(`[CACHE HIT] Returning cached rooms data. Age: ${Math.round((now - cacheTimestamp) / 1000)}s`);
+    } else {
+      console.log('[CACHE MISS] Fetching fresh rooms data from database...');
+      rooms = await loadRoomsWithBookingInfo(!req.user);
+      updateRoomsCache(rooms);
+    }
 
-      // Find next booking for today
-      // TIME ARCHITECTURE: Use string comparison (start_time > nowStr)
-      const futureBookingsToday = roomBookings
-        .filter(booking => {
-          const isFuture = booking.start_time > nowStr;
-          return isFuture;
-        })
-        .sort((a, b) => a.start_time.localeCompare(b.start_time));  // String sort
-
-      if (futureBookingsToday.length > 0) {
-        nextBooking = futureBookingsToday[0];
-      }
+    if (!filters) {
+      return res.json(rooms);
+    }
 
-      // Calculate total bookings and booked minutes for today
-      const totalBookingsToday = roomBookings.length;
-      const totalBookedMinutesToday = roomBookings.reduce((total, booking) => {
-        // TIME ARCHITECTURE: Use calculateSecondsBetweenNaive for duration
-        const durationSeconds = calculateSecondsBetweenNaive(booking.start_time, booking.end_time);
-        const durationMinutes = Math.floor(durationSeconds / 60);
-        return total + durationMinutes;
-      }, 0);
-
-      // Sort all room bookings by start time for frontend block detection
-      // TIME ARCHITECTURE: Use string comparison
-      const sortedRoomBookings = roomBookings.sort((a, b) =>
-        a.start_time.localeCompare(b.start_time)
+    const nowStr = getCurrentNaiveDateTimeString();
+    let matches = filterRooms(rooms, filters, nowStr);
+
+    // "Free for N minutes" looks beyond today's cached bookings, so it is checked against fresh data
+    if (filters.freeForMinutes !== null && matches.length > 0) {
+      const until = addSecondsToNaive(nowStr, filters.freeForMinutes * 60);
+      const roomIds = matches.map(room => room.id);
+      const busyRoomIds = new Set(
+        (await BookingConflictService.findBusyRanges(roomIds, nowStr, until)).map(range => range.room_id)
       );
+      const hoursByRoom = await BusinessHoursService.getRoomHours(roomIds);
+      matches = matches.filter(room =>
+        !busyRoomIds.has(room.id) && !getBusinessHoursError(hoursByRoom.get(room.id)!, nowStr, until)
+      );
+    }
 
-      // APPLY BUSINESS HOURS OVERRIDE
-      let finalStatus = room.status;
-      if (isOutsideBusinessHours) {
-        // Override status to 'night_rest' if outside business hours
-        finalStatus = 'night_rest';
-      }
-
-      return {
-        // Explicitly map every single property from the RoomWithBookingInfo interface
-        id: room.id,
-        name: room.name,
-        capacity: room.capacity,
-        status: finalStatus, // Use the calculated status
-
-        // CRITICAL FIX: Ensure all nullable fields default to `null`, never `undefined`.
-        location: room.location ?? null,
-        amenities: room.amenities ?? null,
-        icon: room.icon ?? null,
-
-        // Pass through the calculated booking info
-        currentBooking: currentBooking || null,
-        nextBooking: nextBooking || null,
-        allBookingsToday: sortedRoomBookings,
-
-        // Pass through the calculated stats
-        totalBookingsToday: totalBookingsToday,
-        totalBookedMinutesToday: totalBookedMinutesToday,
-      };
-    });
+    matches = sortRooms(matches, filters);
 
-    // TIME ARCHITECTURE: Bookings are already timezone-naive strings
-    // No conversion needed - they stay as strings throughout
-    updateRoomsCache(roomsWithBookingInfo);
+    if (filters.page === null || filters.limit === null) {
+      return res.json(matches);
+    }
 
-    res.json(roomsWithBookingInfo);
+    const total = matches.length;
+    const totalPages = Math.ceil(total / filters.limit);
+    const offset = (filters.page - 1) * filters.limit;
+    res.json({
+      rooms: matches.slice(offset, offset + filters.limit),
+      pagination: {
+        page: filters.page,
+        limit: filters.limit,
+        total,
+        totalPages,
+        hasNextPage: filters.page < totalPages,
+        hasPreviousPage: filters.page > 1
+      }
+    });
   } catch (error) {
     console.error('Error fetching rooms with booking info:', error);
     res.status(500).json({ message: 'Server Error' });
@@ -220,7 +368,10 @@ export const getRoomById = async (req: Request, res: Response) => {
   const { id } = req.params;
   try {
     const [rows] = await pool.query<any[]>(
-      'SELECT id, name, capacity, status, location, JSON_UNQUOTE(amenities) AS amenities, icon FROM room WHERE id = ?',
+      `SELECT room.id, room.name, room.capacity, room.status, JSON_UNQUOTE(room.amenities) AS amenities, room.icon, room.check_in_grace_minutes, room.requires_approval, room.archived_at, ${ROOM_LOCATION_COLUMNS}
+       FROM room
+       ${ROOM_LOCATION_JOINS}
+       WHERE room.id = ?`,
       [id]
     );
 
@@ -231,10 +382,13 @@ export const getRoomById = async (req: Request, res: Response) => {
     const room: Room = {
       ...rows[0],
       status: normalizeRoomStatus(rows[0].status),
+      requires_approval: rows[0].requires_approval === 1,
       amenities: rows[0].amenities ? JSON.parse(rows[0].amenities) : null,
     };
 
-    res.json(room);
+    const [mediaRows] = await pool.query<any[]>(`SELECT ${ROOM_MEDIA_COLUMNS} FROM room_media WHERE room_id = ?`, [id]);
+
+    res.json({ ...room, media: groupMediaByRoom(mediaRows).get(room.id) ?? [] });
   } catch (error) {
     console.error(`Error fetching room with ID: ${id}:`, error);
     res.status(500).json({ message: 'Server Error' });
@@ -247,19 +401,42 @@ export const getRoomById = async (req: Request, res: Response) => {
  * @access Private (requires admin)
  */
 export const createRoom = async (req: AuthenticatedRequest, res: Response) => {
-  const { name, capacity, status, location, amenities, icon } = req.body;
+  const { name, capacity, status, location, floor_id, amenities, icon, check_in_grace_minutes, requires_approval } = req.body;
   if (!name || !capacity) {
     return res.status(400).json({ message: 'Please enter all required fields (name, capacity)' });
   }
 
+  if (location !== undefined) {
+    return res.status(400).json({ message: LOCATION_IS_DERIVED_MESSAGE });
+  }
+
+  let floorId: number | null;
+  try {
+    floorId = await parseFloorId(floor_id);
+  } catch (error) {
+    return res.status(400).json({ message: error instanceof Error ? error.message : 'Invalid floor_id' });
+  }
+
+  if (requires_approval !== undefined && typeof requires_approval !== 'boolean') {
+    return res.status(400).json({ message: 'requires_approval must be a boolean' });
+  }
+  const requiresApproval = requires_approval === true;
+
   const normalizedStatus = normalizeRoomStatus(status);
 
+  let graceMinutes: number | null;
+  try {
+    graceMinutes = parseGraceMinutes(check_in_grace_minutes);
+  } catch (error) {
+    return res.status(400).json({ message: error instanceof Error ? error.message : 'Invalid grace period' });
+  }
+
   try {
     const amenitiesJson = amenities ? JSON.stringify(amenities) : null;
     const now = getCurrentTimezoneNaiveTimestamp();
     const [result] = await pool.query<any>(
-      'INSERT INTO room (name, capacity, status, location, amenities, icon, created_at, updated_at) VALUES (?, ?, ?, ?, CAST(? AS JSON), ?, ?, ?)',
-      [name, capacity, normalizedStatus, location, amenitiesJson, icon, now, now]
+      'INSERT INTO room (name, capacity, status, floor_id, amenities, icon, check_in_grace_minutes, requires_approval, created_at, updated_at) VALUES (?, ?, ?, ?, CAST(? AS JSON), ?, ?, ?, ?, ?)',
+      [name, capacity, normalizedStatus, floorId, amenitiesJson, icon, graceMinutes, requiresApproval ? 1 : 0, now, now]
     );
 
     // Log the activity
@@ -272,9 +449,11 @@ export const createRoom = async (req: AuthenticatedRequest, res: Response) => {
         name,
         capacity,
         status: normalizedStatus,
-        location: location ?? null,
+        floor_id: floorId,
         amenities: amenities ?? null,
-        icon: icon ?? null
+        icon: icon ?? null,
+        check_in_grace_minutes: graceMinutes,
+        requires_approval: requiresApproval
       }
     );
 
@@ -293,15 +472,19 @@ export const createRoom = async (req: AuthenticatedRequest, res: Response) => {
  */
 export const updateRoom = async (req: AuthenticatedRequest, res: Response) => {
   const { id } = req.params;
-  const { name, capacity, status, location, amenities, icon } = req.body ?? {};
+  const { name, capacity, status, location, floor_id, amenities, icon, check_in_grace_minutes, requires_approval } = req.body ?? {};
 
   if (!id) {
     return res.status(400).json({ message: 'Room ID is required' });
   }
 
+  if (location !== undefined) {
+    return res.status(400).json({ message: LOCATION_IS_DERIVED_MESSAGE });
+  }
+
   // Fetch old room data for logging
   const [oldRoomRows] = await pool.query<any[]>(
-    'SELECT name, capacity, status, location, amenities, icon FROM room WHERE id = ?',
+    'SELECT name, capacity, status, floor_id, amenities, icon, check_in_grace_minutes, requires_approval FROM room WHERE id = ?',
     [Number(id)]
   );
 
@@ -335,10 +518,15 @@ export const updateRoom = async (req: AuthenticatedRequest, res: Response) => {
     values.push(normalizedStatus);
   }
 
-  if (location !== undefined) {
-    const sanitizedLocation = typeof location === 'string' ? location.trim() : null;
-    fieldsToUpdate.push('location = ?');
-    values.push(sanitizedLocation || null);
+  let floorId: number | null = null;
+  if (floor_id !== undefined) {
+    try {
+      floorId = await parseFloorId(floor_id);
+    } catch (error) {
+      return res.status(400).json({ message: error instanceof Error ? error.message : 'Invalid floor_id' });
+    }
+    fieldsToUpdate.push('floor_id = ?');
+    values.push(floorId);
   }
 
   if (amenities !== undefined) {
@@ -365,6 +553,23 @@ export const updateRoom = async (req: AuthenticatedRequest, res: Response) => {
     values.push(sanitizedIcon);
   }
 
+  if (check_in_grace_minutes !== undefined) {
+    try {
+      fieldsToUpdate.push('check_in_grace_minutes = ?');
+      values.push(parseGraceMinutes(check_in_grace_minutes));
+    } catch (error) {
+      return res.status(400).json({ message: error instanceof Error ? error.message : 'Invalid grace period' });
+    }
+  }
+
+  if (requires_approval !== undefined) {
+    if (typeof requires_approval !== 'boolean') {
+      return res.status(400).json({ message: 'requires_approval must be a boolean' });
+    }
+    fieldsToUpdate.push('requires_approval = ?');
+    values.push(requires_approval ? 1 : 0);
+  }
+
   if (fieldsToUpdate.length === 0) {
     return res.status(400).json({ message: 'No fields provided for update' });
   }
@@ -386,7 +591,11 @@ export const updateRoom = async (req: AuthenticatedRequest, res: Response) => {
     }
 
     const [rows] = await pool.query<any[]>(
-      'SELECT id, name, capacity, status, location, amenities, icon FROM room WHERE id = ?',
+      `SELECT room.id, room.name, room.capacity, room.status, room.amenities, room.icon, room.check_in_grace_minutes, room.requires_approval,
+              ${ROOM_LOCATION_COLUMNS}
+       FROM room
+       ${ROOM_LOCATION_JOINS}
+       WHERE room.id = ?`,
       [Number(id)]
     );
 
@@ -400,14 +609,20 @@ export const updateRoom = async (req: AuthenticatedRequest, res: Response) => {
       }
     }
 
+    if (updatedRoom) {
+      updatedRoom.requires_approval = updatedRoom.requires_approval === 1;
+    }
+
     // Log the activity with old and new values
     const logDetails: any = {};
     if (name !== undefined) logDetails.old_name = oldRoomData.name, logDetails.new_name = name;
     if (capacity !== undefined) logDetails.old_capacity = oldRoomData.capacity, logDetails.new_capacity = capacity;
     if (status !== undefined) logDetails.old_status = oldRoomData.status, logDetails.new_status = normalizeRoomStatus(status);
-    if (location !== undefined) logDetails.old_location = oldRoomData.location, logDetails.new_location = location;
+    if (floor_id !== undefined) logDetails.old_floor_id = oldRoomData.floor_id, logDetails.new_floor_id = floorId;
     if (amenities !== undefined) logDetails.old_amenities = oldRoomData.amenities, logDetails.new_amenities = amenities;
     if (icon !== undefined) logDetails.old_icon = oldRoomData.icon, logDetails.new_icon = icon;
+    if (check_in_grace_minutes !== undefined) logDetails.old_check_in_grace_minutes = oldRoomData.check_in_grace_minutes, logDetails.new_check_in_grace_minutes = parseGraceMinutes(check_in_grace_minutes);
+    if (requires_approval !== undefined) logDetails.old_requires_approval = oldRoomData.requires_approval === 1, logDetails.new_requires_approval = requires_approval;
 
     await ActivityLogService.logActivity(
       req.user?.id ?? null,
@@ -425,50 +640,437 @@ export const updateRoom = async (req: AuthenticatedRequest, res: Response) => {
   }
 };
 
+// Cancellation reason stored on bookings canceled because their room was archived (unless the admin gives one)
+const ROOM_ARCHIVED_CANCEL_REASON = 'ROOM_ARCHIVED';
+
+type FutureBookingsAction = 'cancel' | 'move';
+
+type RoomArchiveOutcome =
+  | {
+    ok: true;
+    roomName: string;
+    replacementName: string | null;
+    canceled: any[];
+    moved: any[];
+    waitlistEntryIds: number[];
+  }
+  | { ok: false; status: number; body: Record<string, any> };
+
+const formatBookingRange = (booking: { start_time: string; end_time: string }): string =>
+  `vom ${booking.start_time.slice(0, 16)} bis ${booking.end_time.slice(0, 16)}`;
+
+/**
+ * Permanently removes a room that never had any bookings (e.g. created by mistake).
+ */
+const purgeRoom = async (req: AuthenticatedRequest, res: Response) => {
+  const { id } = req.params;
+
+  const [roomRows] = await pool.query<any[]>(
+    `SELECT room.name, room.capacity, room.status, room.amenities, room.icon, ${ROOM_LOCATION_COLUMNS}
+     FROM room
+     ${ROOM_LOCATION_JOINS}
+     WHERE room.id = ?`,
+    [id]
+  );
+
+  if (roomRows.length === 0) {
+    return res.status(404).json({ message: 'Room not found' });
+  }
+
+  const [bookingRows] = await pool.query<any[]>('SELECT COUNT(*) AS total FROM booking WHERE room_id = ?', [id]);
+  if (Number(bookingRows[0].total) > 0) {
+    return res.status(409).json({
+      message: 'Rooms with bookings cannot be deleted permanently; archive the room instead (omit purge)'
+    });
+  }
+
+  const roomData = roomRows[0];
+  const [mediaRows] = await pool.query<any[]>('SELECT storage_key FROM room_media WHERE room_id = ?', [id]);
+
+  const [result] = await pool.query<any>('DELETE FROM room WHERE id = ?', [id]);
+  if (result.affectedRows === 0) {
+    return res.status(404).json({ message: 'Room not found' });
+  }
+
+  // The media rows are removed by ON DELETE CASCADE; the stored files are not
+  await MediaStorageService.removeQuietly(mediaRows.map((row: any) => row.storage_key));
+
+  // Log the activity with details about the deleted room
+  await ActivityLogService.logActivity(
+    req.user?.id ?? null,
+    'DELETE',
+    'ROOM',
+    Number(id),
+    {
+      name: roomData.name,
+      capacity: roomData.capacity,
+      status: roomData.status,
+      floor_id: roomData.floor_id,
+      location: roomData.location,
+      amenities: roomData.amenities,
+      icon: roomData.icon,
+      purged: true
+    }
+  );
+
+  invalidateRoomsCache();
+  res.json({ message: 'Room deleted permanently' });
+};
+
 /**
  * @route DELETE /api/rooms/:id
- * @desc Delete a room by ID
+ * @desc Retire a room: it is archived (hidden from room lists, no new bookings) and its booking
+ *       history is kept. Upcoming bookings block archiving until the admin decides what happens
+ *       to them; the 409 response lists them. Owners are notified of canceled or moved bookings.
+ * @body future_bookings - 'cancel' or 'move' (required if the room has upcoming bookings)
+ * @body replacement_room_id - Room the upcoming bookings are moved to (future_bookings = 'move')
+ * @body reason - Optional cancellation reason (future_bookings = 'cancel')
+ * @query purge=true - Delete the room permanently instead; only allowed if it never had bookings
  * @access Private (requires admin)
  */
 export const deleteRoom = async (req: AuthenticatedRequest, res: Response) => {
   const { id } = req.params;
+  const body = req.body ?? {};
+  const action = body.future_bookings ?? req.query.future_bookings;
+  const replacementValue = body.replacement_room_id ?? req.query.replacement_room_id;
+
+  if (req.query.purge === 'true') {
+    try {
+      return await purgeRoom(req, res);
+    } catch (error) {
+      console.error('Error deleting room:', error);
+      return res.status(500).json({ message: 'Server Error' });
+    }
+  }
+
+  if (action !== undefined && action !== 'cancel' && action !== 'move') {
+    return res.status(400).json({ message: "future_bookings must be 'cancel' or 'move'" });
+  }
+  const futureBookingsAction = action as FutureBookingsAction | undefined;
+
+  let replacementRoomId: number | null = null;
+  if (futureBookingsAction === 'move') {
+    replacementRoomId = Number(replacementValue);
+    if (!Number.isInteger(replacementRoomId) || replacementRoomId <= 0) {
+      return res.status(400).json({ message: "replacement_room_id is required when future_bookings is 'move'" });
+    }
+    if (replacementRoomId === Number(id)) {
+      return res.status(400).json({ message: 'The replacement room must be a different room' });
+    }
+  }
+
+  let reason: string | null;
   try {
-    const [roomRows] = await pool.query<any[]>(
-      'SELECT name, capacity, status, location, amenities, icon FROM room WHERE id = ?',
-      [id]
-    );
+    reason = validateAndSanitizeReason(body.reason ?? (req.query.reason as string | undefined));
+  } catch (error) {
+    return res.status(400).json({ message: error instanceof Error ? error.message : 'Invalid reason' });
+  }
 
-    if (roomRows.length === 0) {
-      return res.status(404).json({ message: 'Room not found' });
+  const adminId = req.user?.id ?? null;
+
+  try {
+    const outcome = await withTransaction(async (connection): Promise<RoomArchiveOutcome> => {
+      const lockedRooms = await BookingConflictService.lockRooms(
+        connection,
+        replacementRoomId !== null ? [id, replacementRoomId] : [id]
+      );
+      const room = lockedRooms.find(lockedRoom => lockedRoom.id === Number(id));
+      if (!room) {
+        return { ok: false, status: 404, body: { message: 'Room not found' } };
+      }
+      if (room.archived_at) {
+        return { ok: false, status: 409, body: { message: 'Room is already archived' } };
+      }
+
+      const [nameRows] = await connection.query<any[]>(
+        'SELECT id, name FROM room WHERE id IN (?)',
+        [lockedRooms.map(lockedRoom => lockedRoom.id)]
+      );
+      const roomNames = new Map<number, string>(nameRows.map((row: any) => [row.id, row.name]));
+
+      const nowStr = getCurrentNaiveDateTimeString();
+      const [futureBookings] = await connection.query<any[]>(
+        `SELECT id, room_id, series_id, name, start_time, end_time, status, created_by
+         FROM booking
+         WHERE room_id = ? AND end_time > ? AND status IN (?)
+         ORDER BY start_time ASC
+         FOR UPDATE`,
+        [id, nowStr, SLOT_BLOCKING_STATUSES]
+      );
+
+      if (futureBookings.length > 0 && !futureBookingsAction) {
+        return {
+          ok: false,
+          status: 409,
+          body: {
+            message: "Room has upcoming bookings; set future_bookings to 'cancel' or 'move' (with replacement_room_id)",
+            future_bookings: futureBookings.map((booking: any) => ({
+              id: booking.id,
+              title: booking.name,
+              start_time: booking.start_time,
+              end_time: booking.end_time,
+              status: booking.status,
+              created_by: booking.created_by
+            }))
+          }
+        };
+      }
+
+      const now = getCurrentTimezoneNaiveTimestamp();
+      const notifications: NewNotification[] = [];
+      const bookingIds = futureBookings.map((booking: any) => booking.id);
+      let canceled: any[] = [];
+      let moved: any[] = [];
+
+      if (futureBookings.length > 0 && futureBookingsAction === 'move') {
+        const replacement = lockedRooms.find(lockedRoom => lockedRoom.id === replacementRoomId);
+        const replacementError = BookingConflictService.getRoomBookingError(replacement);
+        if (replacementError) {
+          return {
+            ok: false,
+            status: replacementError.status === 404 ? 400 : replacementError.status,
+            body: { message: replacementError.status === 404 ? 'Replacement room not found' : replacementError.message }
+          };
+        }
+
+        // All or nothing: every booking must fit into the replacement room
+        const problems: any[] = [];
+        for (const booking of futureBookings) {
+          const hoursError = await BusinessHoursService.getBookingHoursError(
+            connection, replacementRoomId!, booking.start_time, booking.end_time
+          );
+          const conflicts = await BookingConflictService.findConflicts(
+            replacementRoomId!, booking.start_time, booking.end_time, bookingIds, connection
+          );
+          if (hoursError || conflicts.length > 0) {
+            problems.push({
+              booking_id: booking.id,
+              start_time: booking.start_time,
+              end_time: booking.end_time,
+              message: hoursError?.message ?? 'Der Zeitraum ist im Ersatzraum bereits belegt.',
+              conflicts
+            });
+          }
+        }
+        if (problems.length > 0) {
+          return {
+            ok: false,
+            status: 409,
+            body: { message: 'Some upcoming bookings do not fit into the replacement room', problems }
+          };
+        }
+
+        await connection.query(
+          'UPDATE booking SET room_id = ?, updated_at = ? WHERE id IN (?)',
+          [replacementRoomId, now, bookingIds]
+        );
+
+        // Series with moved occurrences continue in the replacement room
+        const seriesIds = Array.from(new Set(futureBookings.map((booking: any) => booking.series_id).filter(Boolean)));
+        if (seriesIds.length > 0) {
+          await connection.query(
+            'UPDATE booking_series SET room_id = ?, updated_at = ? WHERE id IN (?) AND room_id = ?',
+            [replacementRoomId, now, seriesIds, id]
+          );
+        }
+
+        moved = futureBookings;
+        for (const booking of moved.filter((candidate: any) => candidate.created_by)) {
+          notifications.push({
+            userId: booking.created_by,
+            type: 'BOOKING_MOVED',
+            bookingId: booking.id,
+            message: `Ihre Buchung "${booking.name}" ${formatBookingRange(booking)} wurde aus dem Raum "${roomNames.get(room.id)}" `
+              + `in den Raum "${roomNames.get(replacementRoomId!)}" verlegt, da der Raum nicht mehr zur Verfügung steht.`
+          });
+        }
+      } else if (futureBookings.length > 0) {
+        await connection.query(
+          `UPDATE booking
+           SET status = 'canceled', canceled_by = ?, canceled_reason = ?, canceled_at = ?, updated_at = ?
+           WHERE id IN (?)`,
+          [adminId, reason ?? ROOM_ARCHIVED_CANCEL_REASON, now, now, bookingIds]
+        );
+
+        canceled = futureBookings;
+        for (const booking of canceled.filter((candidate: any) => candidate.created_by)) {
+          notifications.push({
+            userId: booking.created_by,
+            type: 'BOOKING_CANCELED',
+            bookingId: booking.id,
+            message: `Ihre Buchung "${booking.name}" ${formatBookingRange(booking)} wurde storniert, `
+              + `da der Raum "${roomNames.get(room.id)}" nicht mehr zur Verfügung steht.`
+              + (reason ? ` Grund: ${reason}` : '')
+          });
+        }
+      }
+
+      // Waiting users can no longer get this room
+      const [waitlistRows] = await connection.query<any[]>(
+        'SELECT id FROM booking_waitlist WHERE room_id = ? AND status IN (?) FOR UPDATE',
+        [id, ACTIVE_WAITLIST_STATUSES]
+      );
+      const waitlistEntryIds: number[] = waitlistRows.map((row: any) => row.id);
+      if (waitlistEntryIds.length > 0) {
+        await connection.query(
+          "UPDATE booking_waitlist SET status = 'canceled', updated_at = ? WHERE id IN (?)",
+          [now, waitlistEntryIds]
+        );
+      }
+
+      await connection.query(
+        'UPDATE room SET archived_at = ?, archived_by = ?, updated_at = ? WHERE id = ?',
+        [now, adminId, now, id]
+      );
+      await NotificationService.notify(notifications, connection);
+
+      return {
+        ok: true,
+        roomName: roomNames.get(room.id)!,
+        replacementName: replacementRoomId !== null ? roomNames.get(replacementRoomId) ?? null : null,
+        canceled,
+        moved,
+        waitlistEntryIds
+      };
+    });
+
+    if (!outcome.ok) {
+      return res.status(outcome.status).json(outcome.body);
     }
 
-    const roomData = roomRows[0];
+    for (const booking of outcome.canceled) {
+      await ActivityLogService.logActivity(
+        adminId,
+        'CANCEL',
+        'BOOKING',
+        booking.id,
+        {
+          room_id: booking.room_id,
+          title: booking.name,
+          start_time: booking.start_time,
+          end_time: booking.end_time,
+          reason: reason ?? ROOM_ARCHIVED_CANCEL_REASON,
+          room_archived: true
+        }
+      );
+    }
 
-    const [result] = await pool.query<any>('DELETE FROM room WHERE id = ?', [id]);
-    if (result.affectedRows === 0) {
+    for (const booking of outcome.moved) {
+      await ActivityLogService.logActivity(
+        adminId,
+        'UPDATE',
+        'BOOKING',
+        booking.id,
+        {
+          title: booking.name,
+          start_time: booking.start_time,
+          end_time: booking.end_time,
+          old_room_id: booking.room_id,
+          new_room_id: replacementRoomId,
+          room_archived: true
+        }
+      );
+    }
+
+    for (const entryId of outcome.waitlistEntryIds) {
+      await ActivityLogService.logActivity(adminId, 'CANCEL', 'WAITLIST', entryId, { room_id: Number(id), room_archived: true });
+    }
+
+    await ActivityLogService.logActivity(
+      adminId,
+      'DELETE',
+      'ROOM',
+      Number(id),
+      {
+        name: outcome.roomName,
+        archived: true,
+        future_bookings: futureBookingsAction ?? null,
+        canceled_booking_ids: outcome.canceled.map(booking => booking.id),
+        moved_booking_ids: outcome.moved.map(booking => booking.id),
+        replacement_room_id: outcome.moved.length > 0 ? replacementRoomId : null
+      }
+    );
+
+    invalidateRoomsCache();
+    res.json({
+      message: 'Room archived successfully',
+      canceled_bookings: outcome.canceled.map(booking => booking.id),
+      moved_bookings: outcome.moved.map(booking => booking.id),
+      replacement_room: outcome.moved.length > 0 ? { id: replacementRoomId, name: outcome.replacementName } : null,
+      canceled_waitlist_entries: outcome.waitlistEntryIds
+    });
+  } catch (error) {
+    console.error('Error archiving room:', error);
+    res.status(500).json({ message: 'Server Error' });
+  }
+};
+
+/**
+ * @route GET /api/rooms/archived
+ * @desc List archived rooms (newest first)
+ * @access Private (requires admin)
+ */
+export const getArchivedRooms = async (req: Request, res: Response) => {
+  try {
+    const [rows] = await pool.query<any[]>(
+      `SELECT room.id, room.name, room.capacity, room.status, room.archived_at, room.archived_by,
+              (SELECT COUNT(*) FROM booking WHERE booking.room_id = room.id) AS booking_count,
+              ${ROOM_LOCATION_COLUMNS}
+       FROM room
+       ${ROOM_LOCATION_JOINS}
+       WHERE room.archived_at IS NOT NULL
+       ORDER BY room.archived_at DESC`
+    );
+
+    res.json(rows.map((row: any) => ({
+      ...row,
+      status: normalizeRoomStatus(row.status),
+      booking_count: Number(row.booking_count)
+    })));
+  } catch (error) {
+    console.error('Error fetching archived rooms:', error);
+    res.status(500).json({ message: 'Server Error' });
+  }
+};
+
+/**
+ * @route POST /api/rooms/:id/restore
+ * @desc Bring an archived room back; it can be listed and booked again
+ *       (bookings canceled or moved when it was archived stay as they are)
+ * @access Private (requires admin)
+ */
+export const restoreRoom = async (req: AuthenticatedRequest, res: Response) => {
+  const { id } = req.params;
+
+  try {
+    const [rows] = await pool.query<any[]>('SELECT name, archived_at FROM room WHERE id = ?', [id]);
+    if (rows.length === 0) {
       return res.status(404).json({ message: 'Room not found' });
     }
+    if (!rows[0].archived_at) {
+      return res.status(409).json({ message: 'Room is not archived' });
+    }
+
+    await pool.query(
+      'UPDATE room SET archived_at = NULL, archived_by = NULL, updated_at = ? WHERE id = ?',
+      [getCurrentTimezoneNaiveTimestamp(), id]
+    );
 
-    // Log the activity with details about the deleted room
     await ActivityLogService.logActivity(
       req.user?.id ?? null,
-      'DELETE',
+      'RESTORE',
       'ROOM',
       Number(id),
       {
-        name: roomData.name,
-        capacity: roomData.capacity,
-        status: roomData.status,
-        location: roomData.location,
-        amenities: roomData.amenities,
-        icon: roomData.icon
+        name: rows[0].name,
+        archived_at: rows[0].archived_at
       }
     );
 
     invalidateRoomsCache();
-    res.json({ message: 'Room deleted successfully' });
+    res.json({ message: 'Room restored successfully' });
   } catch (error) {
-    console.error('Error deleting room:', error);
+    console.error('Error restoring room:', error);
     res.status(500).json({ message: 'Server Error' });
   }
 };
@@ -480,6 +1082,7 @@ export const deleteRoom = async (req: AuthenticatedRequest, res: Response) => {
  * @query date - Date in YYYY-MM-DD format
  * @query startTime - Start time in HH:mm format
  * @query endTime - End time in HH:mm format
+ * @query siteId, buildingId, floorId - Optional location filter
  */
 export const getAvailableRooms = async (req: Request, res: Response) => {
   const { date, startTime, endTime } = req.query;
@@ -488,25 +1091,36 @@ export const getAvailableRooms = async (req: Request, res: Response) => {
     return res.status(400).json({ message: 'Missing required parameters: date, startTime, endTime' });
   }
 
+  let locationFilter;
+  try {
+    locationFilter = locationFilterSql(parseLocationFilter(req.query));
+  } catch (error) {
+    return res.status(400).json({ message: error instanceof Error ? error.message : 'Invalid location filter' });
+  }
+
   try {
     const requestedStart = `${date} ${startTime}:00`;
     const requestedEnd = `${date} ${endTime}:00`;
 
     const [roomRows] = await pool.query<any[]>(
-      'SELECT id, name, capacity, status, location, JSON_UNQUOTE(amenities) AS amenities, icon FROM room'
+      `SELECT room.id, room.name, room.capacity, room.status, JSON_UNQUOTE(room.amenities) AS amenities, room.icon,
+              ${ROOM_LOCATION_COLUMNS}
+       FROM room
+       ${ROOM_LOCATION_JOINS}
+       WHERE room.archived_at IS NULL${locationFilter.sql}`,
+      locationFilter.params
     );
 
-    const [conflictingBookings] = await pool.query<any[]>(
-      `SELECT room_id FROM booking
-       WHERE (start_time < ? AND end_time > ?)
-       AND status = 'confirmed'`,
-      [requestedEnd, requestedStart]
+    // Same rules as POST /api/bookings: bookings, waitlist holds, maintenance windows and opening hours
+    const roomIds = roomRows.map((row: any) => row.id);
+    const occupiedRoomIds = new Set(
+      (await BookingConflictService.findBusyRanges(roomIds, requestedStart, requestedEnd)).map(range => range.room_id)
     );
-
-    const occupiedRoomIds = new Set(conflictingBookings.map((booking: any) => booking.room_id));
+    const hoursByRoom = await BusinessHoursService.getRoomHours(roomIds);
 
     const availableRooms: Room[] = roomRows
-      .filter((row: any) => !occupiedRoomIds.has(row.id))
+      .filter((row: any) => !occupiedRoomIds.has(row.id)
+        && !getBusinessHoursError(hoursByRoom.get(row.id)!, requestedStart, requestedEnd))
       .map((row: any) => ({
         ...row,
         status: normalizeRoomStatus(row.status),
@@ -520,3 +1134,347 @@ export const getAvailableRooms = async (req: Request, res: Response) => {
     res.status(500).json({ message: 'Server Error' });
   }
 };
+
+/**
+ * @route GET /api/rooms/:id/managers
+ * @desc Get the managers of a room (may approve or reject pending bookings for it)
+ * @access Private (requires admin)
+ */
+export const getRoomManagers = async (req: Request, res: Response) => {
+  const { id } = req.params;
+
+  try {
+    const [roomRows] = await pool.query<any[]>('SELECT id FROM room WHERE id = ?', [id]);
+    if (roomRows.length === 0) {
+      return res.status(404).json({ message: 'Room not found' });
+    }
+
+    const [rows] = await pool.query<any[]>(
+      `SELECT user.id, user.email, user.firstname, user.surname, room_manager.created_at AS assigned_at
+       FROM room_manager
+       INNER JOIN \`user\` ON user.id = room_manager.user_id
+       WHERE room_manager.room_id = ?
+       ORDER BY user.surname ASC, user.firstname ASC`,
+      [id]
+    );
+
+    res.json(rows);
+  } catch (error) {
+    console.error(`Error fetching managers for room ${id}:`, error);
+    res.status(500).json({ message: 'Server Error' });
+  }
+};
+
+/**
+ * @route PUT /api/rooms/:id/managers
+ * @desc Replace the managers of a room
+ * @body user_ids - Array of user IDs (empty array removes all managers)
+ * @access Private (requires admin)
+ */
+export const setRoomManagers = async (req: AuthenticatedRequest, res: Response) => {
+  const { id } = req.params;
+  const { user_ids } = req.body ?? {};
+
+  if (!Array.isArray(user_ids) || user_ids.some((userId: unknown) => !Number.isInteger(userId) || (userId as number) <= 0)) {
+    return res.status(400).json({ message: 'user_ids must be an array of user IDs' });
+  }
+  const userIds = Array.from(new Set<number>(user_ids));
+
+  try {
+    const [roomRows] = await pool.query<any[]>('SELECT id FROM room WHERE id = ?', [id]);
+    if (roomRows.length === 0) {
+      return res.status(404).json({ message: 'Room not found' });
+    }
+
+    if (userIds.length > 0) {
+      const [userRows] = await pool.query<any[]>('SELECT id FROM `user` WHERE id IN (?)', [userIds]);
+      const knownIds = new Set(userRows.map((row: any) => row.id));
+      const unknownIds = userIds.filter(userId => !knownIds.has(userId));
+      if (unknownIds.length > 0) {
+        return res.status(400).json({ message: `Unknown user IDs: ${unknownIds.join(', ')}` });
+      }
+    }
+
+    const [oldRows] = await pool.query<any[]>('SELECT user_id FROM room_manager WHERE room_id = ?', [id]);
+    const oldUserIds = oldRows.map((row: any) => row.user_id);
+
+    await withTransaction(async (connection) => {
+      await connection.query('DELETE FROM room_manager WHERE room_id = ?', [id]);
+      if (userIds.length > 0) {
+        const now = getCurrentTimezoneNaiveTimestamp();
+        await connection.query(
+          'INSERT INTO room_manager (room_id, user_id, created_at) VALUES ?',
+          [userIds.map(userId => [Number(id), userId, now])]
+        );
+      }
+    });
+
+    await ActivityLogService.logActivity(
+      req.user?.id ?? null,
+      'UPDATE',
+      'ROOM',
+      Number(id),
+      {
+        old_manager_ids: oldUserIds,
+        new_manager_ids: userIds
+      }
+    );
+
+    res.json({ message: 'Room managers updated successfully', user_ids: userIds });
+  } catch (error) {
+    console.error(`Error updating managers for room ${id}:`, error);
+    res.status(500).json({ message: 'Server Error' });
+  }
+};
+
+// Limits for the free slot search
+const MAX_SEARCH_DAYS = 31;
+const MAX_SLOT_RESULTS = 50;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * @route GET /api/rooms/free-slots
+ * @desc Find the earliest free slots of a given length across all active rooms, ranked by
+ *       start time and then by the smallest room that fits. Only each room's opening hours are searched.
+ * @access Public
+ * @query duration - Slot length in minutes (required, 5-720)
+ * @query from, to - Date range in YYYY-MM-DD format (default: today to today + 6 days, max. 31 days)
+ * @query dayStart, dayEnd - Daily window in HH:mm format (default: the whole opening hours of each room)
+ * @query minCapacity - Minimum room capacity
+ * @query amenities - Comma-separated amenities every room must have
+ * @query siteId, buildingId, floorId - Optional location filter
+ * @query step - Start time grid in minutes (default: 15)
+ * @query limit - Maximum number of slots (default: 10, max. 50)
+ */
+export const getFreeSlots = async (req: Request, res: Response) => {
+  const { duration, from, to, dayStart, dayEnd, minCapacity, amenities, step, limit } = req.query;
+
+  const durationMinutes = Number(duration);
+  if (!Number.isInteger(durationMinutes) || durationMinutes < 5 || durationMinutes > 720) {
+    return res.status(400).json({ message: 'duration must be an integer between 5 and 720 (minutes)' });
+  }
+
+  const nowStr = getCurrentNaiveDateTimeString();
+  const today = nowStr.split(' ')[0];
+  const fromDate = (from as string | undefined) ?? today;
+  if (!DATE_PATTERN.test(fromDate) || !parseTimezoneNaiveDateString(`${fromDate} 00:00:00`)) {
+    return res.status(400).json({ message: 'from must be a date in YYYY-MM-DD format' });
+  }
+  const toDate = (to as string | undefined) ?? addSecondsToNaive(`${fromDate} 00:00:00`, 6 * 24 * 60 * 60).split(' ')[0];
+  if (!DATE_PATTERN.test(toDate) || !parseTimezoneNaiveDateString(`${toDate} 00:00:00`)) {
+    return res.status(400).json({ message: 'to must be a date in YYYY-MM-DD format' });
+  }
+  const searchDays = calculateSecondsBetweenNaive(`${fromDate} 00:00:00`, `${toDate} 00:00:00`) / (24 * 60 * 60) + 1;
+  if (searchDays < 1 || searchDays > MAX_SEARCH_DAYS) {
+    return res.status(400).json({ message: `The search window must cover 1 to ${MAX_SEARCH_DAYS} days (from <= to)` });
+  }
+
+  // The window is narrowed to each room's opening hours later on
+  const windowStart = (dayStart as string | undefined) ?? '00:00';
+  const windowEnd = (dayEnd as string | undefined) ?? '23:59';
+  if (!TIME_OF_DAY_PATTERN.test(windowStart) || !TIME_OF_DAY_PATTERN.test(windowEnd)) {
+    return res.status(400).json({ message: 'dayStart and dayEnd must be in HH:mm format' });
+  }
+  const windowMinutes = calculateSecondsBetweenNaive(`${today} ${windowStart}:00`, `${today} ${windowEnd}:00`) / 60;
+  if (windowMinutes < durationMinutes) {
+    return res.status(400).json({ message: `The daily window (${windowStart}-${windowEnd}) is shorter than the requested duration` });
+  }
+
+  const minimumCapacity = minCapacity !== undefined ? Number(minCapacity) : 1;
+  if (!Number.isInteger(minimumCapacity) || minimumCapacity < 1) {
+    return res.status(400).json({ message: 'minCapacity must be a positive integer' });
+  }
+
+  const stepMinutes = step !== undefined ? Number(step) : 15;
+  if (!Number.isInteger(stepMinutes) || stepMinutes < 5 || stepMinutes > 60) {
+    return res.status(400).json({ message: 'step must be an integer between 5 and 60 (minutes)' });
+  }
+
+  const maxResults = limit !== undefined ? Number(limit) : 10;
+  if (!Number.isInteger(maxResults) || maxResults < 1 || maxResults > MAX_SLOT_RESULTS) {
+    return res.status(400).json({ message: `limit must be an integer between 1 and ${MAX_SLOT_RESULTS}` });
+  }
+
+  const requiredAmenities = typeof amenities === 'string' && amenities.trim().length > 0
+    ? amenities.split(',').map(amenity => amenity.trim().toLowerCase()).filter(Boolean)
+    : [];
+
+  let locationFilter;
+  try {
+    locationFilter = locationFilterSql(parseLocationFilter(req.query));
+  } catch (error) {
+    return res.status(400).json({ message: error instanceof Error ? error.message : 'Invalid location filter' });
+  }
+
+  try {
+    const [roomRows] = await pool.query<any[]>(
+      `SELECT room.id, room.name, room.capacity, room.status, JSON_UNQUOTE(room.amenities) AS amenities,
+              ${ROOM_LOCATION_COLUMNS}
+       FROM room
+       ${ROOM_LOCATION_JOINS}
+       WHERE room.capacity >= ? AND room.archived_at IS NULL${locationFilter.sql}`,
+      [minimumCapacity, ...locationFilter.params]
+    );
+
+    // Only active rooms that have every required amenity
+    const candidateRooms = roomRows
+      .map((row: any) => ({
+        ...row,
+        status: normalizeRoomStatus(row.status),
+        amenities: row.amenities ? JSON.parse(row.amenities) : [],
+      }))
+      .filter((room: any) => room.status === 'active')
+      .filter((room: any) => {
+        const roomAmenities = (Array.isArray(room.amenities) ? room.amenities : []).map((amenity: string) => String(amenity).toLowerCase());
+        return requiredAmenities.every(amenity => roomAmenities.includes(amenity));
+      });
+
+    const hoursByRoom = await BusinessHoursService.getRoomHours(candidateRooms.map((room: any) => room.id));
+    const roomsWithHours = candidateRooms.map((room: any) => ({ ...room, hours: hoursByRoom.get(room.id)! }));
+
+    const searchFrom = `${fromDate} ${windowStart}:00`;
+    const searchTo = `${toDate} ${windowEnd}:00`;
+    const busy = await BookingConflictService.findBusyRanges(
+      candidateRooms.map((room: any) => room.id),
+      searchFrom,
+      searchTo
+    );
+
+    const slots = findFreeSlots(roomsWithHours, busy, {
+      fromDate,
+      toDate,
+      dayStart: windowStart,
+      dayEnd: windowEnd,
+      durationMinutes,
+      stepMinutes,
+      notBefore: nowStr,
+      limit: maxResults,
+    });
+
+    res.json({
+      duration: durationMinutes,
+      from: fromDate,
+      to: toDate,
+      dayStart: windowStart,
+      dayEnd: windowEnd,
+      slots
+    });
+  } catch (error) {
+    console.error('[FreeSlots] Error searching for free slots:', error);
+    res.status(500).json({ message: 'Server Error' });
+  }
+};
+
+const MAX_TIMELINE_DAYS = 31;
+
+/**
+ * @route GET /api/rooms/timeline
+ * @desc Bookings, maintenance windows and free intervals of every room across a date range (planner grid)
+ * @access Public (with optional authentication - guests get anonymized bookings like in GET /api/rooms)
+ * @query from, to - Inclusive date range (YYYY-MM-DD; default: today and the next 6 days; max. 31 days)
+ * @query siteId, buildingId, floorId - Optional location filter
+ *
+ * Free intervals lie within each room's opening hours, start no earlier than now and are
+ * only computed for active rooms. A fixed number of queries serves all rooms.
+ */
+export const getRoomTimeline = async (req: AuthenticatedRequest, res: Response) => {
+  const { from, to } = req.query;
+  const isGuest = !req.user;
+
+  const nowStr = getCurrentNaiveDateTimeString();
+  const fromDate = (from as string | undefined) ?? nowStr.split(' ')[0];
+  if (!DATE_PATTERN.test(fromDate) || !parseTimezoneNaiveDateString(`${fromDate} 00:00:00`)) {
+    return res.status(400).json({ message: 'from must be a date in YYYY-MM-DD format' });
+  }
+  const toDate = (to as string | undefined) ?? addSecondsToNaive(`${fromDate} 00:00:00`, 6 * 24 * 60 * 60).split(' ')[0];
+  if (!DATE_PATTERN.test(toDate) || !parseTimezoneNaiveDateString(`${toDate} 00:00:00`)) {
+    return res.status(400).json({ message: 'to must be a date in YYYY-MM-DD format' });
+  }
+  const rangeDays = calculateSecondsBetweenNaive(`${fromDate} 00:00:00`, `${toDate} 00:00:00`) / (24 * 60 * 60) + 1;
+  if (rangeDays < 1 || rangeDays > MAX_TIMELINE_DAYS) {
+    return res.status(400).json({ message: `The timeline must cover 1 to ${MAX_TIMELINE_DAYS} days (from <= to)` });
+  }
+
+  let locationFilter;
+  try {
+    locationFilter = locationFilterSql(parseLocationFilter(req.query));
+  } catch (error) {
+    return res.status(400).json({ message: error instanceof Error ? error.message : 'Invalid location filter' });
+  }
+
+  const rangeStart = `${fromDate} 00:00:00`;
+  const rangeEnd = addSecondsToNaive(`${toDate} 00:00:00`, 24 * 60 * 60);
+
+  try {
+    const [roomRows] = await pool.query<any[]>(
+      `SELECT room.id, room.name, room.capacity, room.status, ${ROOM_LOCATION_COLUMNS}
+       FROM room
+       ${ROOM_LOCATION_JOINS}
+       WHERE room.archived_at IS NULL${locationFilter.sql}
+       ORDER BY room.name ASC`,
+      locationFilter.params
+    );
+    const roomIds: number[] = roomRows.map((row: any) => row.id);
+    if (roomIds.length === 0) {
+      return res.json({ from: fromDate, to: toDate, rooms: [] });
+    }
+
+    const [bookingRows] = await pool.query<any[]>(
+      `SELECT id, room_id, name AS title, start_time, end_time, comment, status
+       FROM booking
+       WHERE room_id IN (?) AND start_time < ? AND end_time > ? AND status IN (?)
+       ORDER BY start_time ASC`,
+      [roomIds, rangeEnd, rangeStart, SLOT_BLOCKING_STATUSES]
+    );
+    const [maintenanceRows] = await pool.query<any[]>(
+      `SELECT id, room_id, start_time, end_time, reason
+       FROM room_maintenance
+       WHERE room_id IN (?) AND start_time < ? AND end_time > ?
+       ORDER BY start_time ASC`,
+      [roomIds, rangeEnd, rangeStart]
+    );
+    // Busy ranges also include slots currently held for the waitlist
+    const busy = await BookingConflictService.findBusyRanges(roomIds, rangeStart, rangeEnd);
+    const hoursByRoom = await BusinessHoursService.getRoomHours(roomIds);
+
+    const rooms = roomRows.map((row: any) => {
+      const status = normalizeRoomStatus(row.status);
+      return {
+        id: row.id,
+        name: row.name,
+        capacity: row.capacity,
+        status,
+        location: row.location ?? null,
+        floor_id: row.floor_id ?? null,
+        building_id: row.building_id ?? null,
+        site_id: row.site_id ?? null,
+        bookings: bookingRows
+          .filter((booking: any) => booking.room_id === row.id)
+          .map((booking: any) => ({ ...toRoomBooking(booking, isGuest), status: booking.status })),
+        maintenance: maintenanceRows
+          .filter((window: any) => window.room_id === row.id)
+          .map((window: any) => ({
+            id: window.id,
+            start_time: window.start_time,
+            end_time: window.end_time,
+            reason: window.reason ?? null
+          })),
+        free: status === 'active'
+          ? findFreeIntervals(
+            hoursByRoom.get(row.id)!,
+            busy.filter(range => range.room_id === row.id),
+            fromDate,
+            toDate,
+            nowStr
+          )
+          : []
+      };
+    });
+
+    res.json({ from: fromDate, to: toDate, rooms });
+  } catch (error) {
+    console.error('[Timeline] Error building the room timeline:', error);
+    res.status(500).json({ message: 'Server Error' });
+  }
+};
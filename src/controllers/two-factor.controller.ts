@@ -0,0 +1,258 @@
+import { Response } from 'express';
+import pool, { withTransaction } from '../models/db';
+import { AuthenticatedRequest } from '../middleware/auth.middleware';
+import { ActivityLogService } from '../services/activity-log.service';
+import { SecondFactorInput, SecondFactorMethod, TwoFactorService } from '../services/two-factor.service';
+import { verifyPassword } from '../utils/password';
+
+type SecondFactorCheck =
+  | { ok: true; method: SecondFactorMethod; recoveryCodes?: string[] }
+  | { ok: false };
+
+/**
+ * The code or recovery code from the body, or null if neither is given.
+ */
+const readSecondFactorInput = (body: any): SecondFactorInput | null => {
+  const code = typeof body.code === 'string' ? body.code : undefined;
+  const recoveryCode = typeof body.recovery_code === 'string' ? body.recovery_code : undefined;
+  return code || recoveryCode ? { code, recoveryCode } : null;
+};
+
+/**
+ * Re-checks the password of the logged-in user before 2FA settings are changed.
+ */
+const checkPassword = async (userId: number, password: unknown): Promise<boolean> => {
+  if (!password || typeof password !== 'string') {
+    return false;
+  }
+  const [rows] = await pool.query<any[]>('SELECT password_hash FROM `user` WHERE id = ? LIMIT 1', [userId]);
+  return rows.length > 0 && verifyPassword(password, rows[0].password_hash);
+};
+
+/**
+ * Logs a wrong second factor outside of login (disable, new recovery codes).
+ */
+const logFailedSecondFactor = async (userId: number, operation: string) => {
+  await ActivityLogService.logActivity(userId, 'UPDATE', 'USER', userId, {
+    two_factor: 'failed',
+    operation
+  });
+};
+
+/**
+ * GET /api/auth/2fa
+ * Two-factor status of the logged-in user
+ */
+export const getTwoFactorStatus = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    res.json(await TwoFactorService.getStatus(req.user!.id));
+  } catch (error) {
+    console.error('Failed to fetch two-factor status:', error);
+    res.status(500).json({ message: 'Unable to fetch the two-factor status at this time.' });
+  }
+};
+
+/**
+ * POST /api/auth/2fa/setup
+ * Start enrolment: returns a new secret and its otpauth:// URI for the authenticator app
+ * Body: password
+ */
+export const setupTwoFactor = async (req: AuthenticatedRequest, res: Response) => {
+  const userId = req.user!.id;
+
+  try {
+    if (!await checkPassword(userId, req.body?.password)) {
+      return res.status(401).json({ message: 'Invalid password.' });
+    }
+
+    const status = await TwoFactorService.getStatus(userId);
+    if (status.enabled) {
+      return res.status(409).json({ message: 'Two-factor authentication is already enabled.' });
+    }
+
+    const enrolment = await TwoFactorService.startEnrolment(userId, req.user!.email);
+
+    res.json({
+      message: 'Scan the code with your authenticator app and confirm it with a code.',
+      ...enrolment
+    });
+  } catch (error) {
+    console.error('Failed to start two-factor enrolment:', error);
+    res.status(500).json({ message: 'Unable to set up two-factor authentication at this time.' });
+  }
+};
+
+/**
+ * POST /api/auth/2fa/enable
+ * Confirm enrolment with a code from the authenticator app; returns the recovery codes (shown once)
+ * Body: code
+ */
+export const enableTwoFactor = async (req: AuthenticatedRequest, res: Response) => {
+  const userId = req.user!.id;
+  const { code } = req.body ?? {};
+
+  if (!code || typeof code !== 'string') {
+    return res.status(400).json({ message: 'Please provide the code from your authenticator app.' });
+  }
+
+  try {
+    const recoveryCodes = await TwoFactorService.confirmEnrolment(userId, code);
+
+    if (!recoveryCodes) {
+      await logFailedSecondFactor(userId, 'enable');
+      return res.status(400).json({ message: 'Invalid code, or no two-factor setup was started.' });
+    }
+
+    await ActivityLogService.logActivity(userId, 'UPDATE', 'USER', userId, {
+      two_factor_enabled: true
+    });
+
+    res.json({
+      message: 'Two-factor authentication enabled. Store the recovery codes in a safe place.',
+      recovery_codes: recoveryCodes
+    });
+  } catch (error) {
+    console.error('Failed to enable two-factor authentication:', error);
+    res.status(500).json({ message: 'Unable to enable two-factor authentication at this time.' });
+  }
+};
+
+/**
+ * POST /api/auth/2fa/disable
+ * Turn two-factor authentication off (not possible where it is required)
+ * Body: password, code or recovery_code
+ */
+export const disableTwoFactor = async (req: AuthenticatedRequest, res: Response) => {
+  const userId = req.user!.id;
+  const { password } = req.body ?? {};
+  const input = readSecondFactorInput(req.body ?? {});
+
+  if (!input) {
+    return res.status(400).json({ message: 'Please provide a code or a recovery code.' });
+  }
+
+  try {
+    if (!await checkPassword(userId, password)) {
+      return res.status(401).json({ message: 'Invalid password.' });
+    }
+
+    const status = await TwoFactorService.getStatus(userId);
+    if (!status.enabled) {
+      return res.status(409).json({ message: 'Two-factor authentication is not enabled.' });
+    }
+    if (status.required) {
+      return res.status(403).json({ message: 'Two-factor authentication is required for admin accounts.' });
+    }
+
+    const check = await withTransaction(async (connection): Promise<SecondFactorCheck> => {
+      const method = await TwoFactorService.verifySecondFactor(connection, userId, input);
+      if (!method) {
+        return { ok: false };
+      }
+      await TwoFactorService.disable(userId, connection);
+      return { ok: true, method };
+    });
+
+    if (!check.ok) {
+      await logFailedSecondFactor(userId, 'disable');
+      return res.status(401).json({ message: 'Invalid authentication code.' });
+    }
+
+    await ActivityLogService.logActivity(userId, 'UPDATE', 'USER', userId, {
+      two_factor_enabled: false,
+      confirmed_with: check.method
+    });
+
+    res.json({ message: 'Two-factor authentication disabled.' });
+  } catch (error) {
+    console.error('Failed to disable two-factor authentication:', error);
+    res.status(500).json({ message: 'Unable to disable two-factor authentication at this time.' });
+  }
+};
+
+/**
+ * POST /api/auth/2fa/recovery-codes
+ * Replace the recovery codes; the old ones stop working (shown once)
+ * Body: password, code or recovery_code
+ */
+export const regenerateRecoveryCodes = async (req: AuthenticatedRequest, res: Response) => {
+  const userId = req.user!.id;
+  const { password } = req.body ?? {};
+  const input = readSecondFactorInput(req.body ?? {});
+
+  if (!input) {
+    return res.status(400).json({ message: 'Please provide a code or a recovery code.' });
+  }
+
+  try {
+    if (!await checkPassword(userId, password)) {
+      return res.status(401).json({ message: 'Invalid password.' });
+    }
+
+    const check = await withTransaction(async (connection): Promise<SecondFactorCheck> => {
+      const method = await TwoFactorService.verifySecondFactor(connection, userId, input);
+      if (!method) {
+        return { ok: false };
+      }
+      return { ok: true, method, recoveryCodes: await TwoFactorService.replaceRecoveryCodes(connection, userId) };
+    });
+
+    if (!check.ok) {
+      await logFailedSecondFactor(userId, 'recovery_codes');
+      return res.status(401).json({ message: 'Invalid authentication code.' });
+    }
+
+    await ActivityLogService.logActivity(userId, 'UPDATE', 'USER', userId, {
+      recovery_codes_regenerated: true
+    });
+
+    res.json({
+      message: 'New recovery codes created. Store them in a safe place.',
+      recovery_codes: check.recoveryCodes
+    });
+  } catch (error) {
+    console.error('Failed to create recovery codes:', error);
+    res.status(500).json({ message: 'Unable to create recovery codes at this time.' });
+  }
+};
+
+/**
+ * DELETE /api/users/:id/2fa
+ * Reset the two-factor authentication of a user who lost the authenticator and the recovery codes (admin only)
+ */
+export const resetUserTwoFactor = async (req: AuthenticatedRequest, res: Response) => {
+  const { id } = req.params;
+
+  try {
+    const [existingRows] = await pool.query<any[]>(
+      'SELECT id, email, totp_enabled_at FROM `user` WHERE id = ? LIMIT 1',
+      [id]
+    );
+
+    if (existingRows.length === 0) {
+      return res.status(404).json({ message: 'User not found.' });
+    }
+    if (!existingRows[0].totp_enabled_at) {
+      return res.status(409).json({ message: 'Two-factor authentication is not enabled for this user.' });
+    }
+
+    await TwoFactorService.disable(existingRows[0].id);
+
+    await ActivityLogService.logActivity(
+      req.user?.id ?? null,
+      'UPDATE',
+      'USER',
+      existingRows[0].id,
+      {
+        email: existingRows[0].email,
+        two_factor_enabled: false,
+        reset_by_admin: true
+      }
+    );
+
+    res.json({ message: 'Two-factor authentication successfully reset.' });
+  } catch (error) {
+    console.error('Failed to reset two-factor authentication:', error);
+    res.status(500).json({ message: 'Unable to reset two-factor authentication at this time.' });
+  }
+};
@@ -3,6 +3,8 @@ import pool from '../models/db';
 import { hashPassword } from '../utils/password';
 import { AuthenticatedRequest } from '../middleware/auth.middleware';
 import { ActivityLogService } from '../services/activity-log.service';
+import { NO_SHOW_CANCEL_REASON } from '../services/no-show.service';
+import { RefreshTokenRevokeReason, RefreshTokenService } from '../services/refresh-token.service';
 import { getCurrentTimezoneNaiveTimestamp } from '../utils/date-utils';
 
 const sanitizeEmail = (email: string): string => email.trim().toLowerCase();
@@ -21,7 +23,7 @@ const normalizeRole = (role?: string): 'user' | 'admin' => {
 export const getAllUsers = async (_req: AuthenticatedRequest, res: Response) => {
   try {
     const [rows] = await pool.query<any[]>(
-      `SELECT id, email, firstname, surname, role, is_active, created_at, updated_at
+      `SELECT id, email, firstname, surname, role, is_active, email_verified_at, created_at, updated_at
        FROM \`user\`
        ORDER BY created_at DESC`
     );
@@ -36,6 +38,56 @@ export const getAllUsers = async (_req: AuthenticatedRequest, res: Response) =>
   }
 };
 
+/**
+ * GET /api/users/no-shows
+ * No-show counts per user, highest first (admin only)
+ * Query: from/to (YYYY-MM-DD, filter by booking start), min (minimum count, default 1)
+ */
+export const getNoShowCounts = async (req: AuthenticatedRequest, res: Response) => {
+  const { from, to } = req.query;
+  const minCount = Math.max(1, parseInt(req.query.min as string) || 1);
+
+  try {
+    let query = `SELECT
+                   \`user\`.id,
+                   \`user\`.email,
+                   \`user\`.firstname,
+                   \`user\`.surname,
+                   COUNT(booking.id) AS no_show_count,
+                   MAX(booking.start_time) AS last_no_show_at
+                 FROM booking
+                 INNER JOIN \`user\` ON \`user\`.id = booking.created_by
+                 WHERE booking.status = 'canceled'
+                 AND booking.canceled_reason = ?
+                 AND booking.canceled_by IS NULL`;
+    const params: any[] = [NO_SHOW_CANCEL_REASON];
+
+    if (from) {
+      query += ' AND booking.start_time >= ?';
+      params.push(`${from} 00:00:00`);
+    }
+    if (to) {
+      query += ' AND booking.start_time <= ?';
+      params.push(`${to} 23:59:59`);
+    }
+
+    query += ` GROUP BY \`user\`.id, \`user\`.email, \`user\`.firstname, \`user\`.surname
+               HAVING no_show_count >= ?
+               ORDER BY no_show_count DESC, last_no_show_at DESC`;
+    params.push(minCount);
+
+    const [rows] = await pool.query<any[]>(query, params);
+
+    res.json({
+      message: 'No-show counts retrieved successfully.',
+      users: rows.map((row: any) => ({ ...row, no_show_count: Number(row.no_show_count) }))
+    });
+  } catch (error) {
+    console.error('Failed to fetch no-show counts:', error);
+    res.status(500).json({ message: 'Unable to fetch no-show counts at this time.' });
+  }
+};
+
 /**
  * GET /api/users/:id
  * Get single user by ID (admin only)
@@ -45,7 +97,7 @@ export const getUserById = async (req: AuthenticatedRequest, res: Response) => {
 
   try {
     const [rows] = await pool.query<any[]>(
-      `SELECT id, email, firstname, surname, role, is_active, created_at, updated_at
+      `SELECT id, email, firstname, surname, role, is_active, email_verified_at, created_at, updated_at
        FROM \`user\`
        WHERE id = ?
        LIMIT 1`,
@@ -97,12 +149,12 @@ export const createUser = async (req: AuthenticatedRequest, res: Response) => {
       });
     }
 
-    // Create user
+    // Create user (accounts created by an admin need no email confirmation)
     const now = getCurrentTimezoneNaiveTimestamp();
     const [result] = await pool.query<any>(
-      `INSERT INTO \`user\` (email, firstname, surname, password_hash, role, is_active, created_at, updated_at)
-       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
-      [normalizedEmail, firstname.trim(), surname.trim(), passwordHash, normalizedRole, activeStatus, now, now]
+      `INSERT INTO \`user\` (email, firstname, surname, password_hash, role, is_active, email_verified_at, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [normalizedEmail, firstname.trim(), surname.trim(), passwordHash, normalizedRole, activeStatus, now, now, now]
     );
 
     const userId = result.insertId;
@@ -230,9 +282,19 @@ export const updateUser = async (req: AuthenticatedRequest, res: Response) => {
       values
     );
 
+    // Existing tokens must not keep working with the old role, password or after deactivation
+    const sessionEndReason: RefreshTokenRevokeReason | null =
+      is_active === false && oldUserData.is_active ? 'ACCOUNT_DISABLED'
+        : password ? 'PASSWORD_CHANGED'
+          : role && normalizeRole(role) !== oldUserData.role ? 'ROLE_CHANGED'
+            : null;
+    if (sessionEndReason) {
+      await RefreshTokenService.endAllSessions(parseInt(id, 10), sessionEndReason);
+    }
+
     // Fetch updated user
     const [updatedRows] = await pool.query<any[]>(
-      `SELECT id, email, firstname, surname, role, is_active, created_at, updated_at
+      `SELECT id, email, firstname, surname, role, is_active, email_verified_at, created_at, updated_at
        FROM \`user\`
        WHERE id = ?
        LIMIT 1`,
@@ -247,6 +309,7 @@ export const updateUser = async (req: AuthenticatedRequest, res: Response) => {
     if (password) logDetails.password_changed = true;
     if (role) logDetails.old_role = oldUserData.role, logDetails.new_role = normalizeRole(role);
     if (typeof is_active === 'boolean') logDetails.old_is_active = oldUserData.is_active, logDetails.new_is_active = is_active;
+    if (sessionEndReason) logDetails.sessions_ended = sessionEndReason;
 
     await ActivityLogService.logActivity(
       req.user?.id ?? null,
@@ -323,3 +386,102 @@ export const deleteUser = async (req: AuthenticatedRequest, res: Response) => {
     res.status(500).json({ message: 'Unable to delete user at this time.' });
   }
 };
+
+/**
+ * GET /api/users/:id/sessions
+ * Active login sessions of a user, most recently used first (admin only)
+ */
+export const getUserSessions = async (req: AuthenticatedRequest, res: Response) => {
+  const { id } = req.params;
+
+  try {
+    const [existingRows] = await pool.query<any[]>('SELECT id FROM `user` WHERE id = ? LIMIT 1', [id]);
+
+    if (existingRows.length === 0) {
+      return res.status(404).json({ message: 'User not found.' });
+    }
+
+    const sessions = await RefreshTokenService.getSessions(existingRows[0].id);
+
+    res.json({
+      message: 'Sessions retrieved successfully.',
+      sessions
+    });
+  } catch (error) {
+    console.error('Failed to fetch sessions:', error);
+    res.status(500).json({ message: 'Unable to fetch sessions at this time.' });
+  }
+};
+
+/**
+ * DELETE /api/users/:id/sessions/:sessionId
+ * End one session of a user; its refresh and access tokens stop working immediately (admin only)
+ */
+export const revokeUserSession = async (req: AuthenticatedRequest, res: Response) => {
+  const { id, sessionId } = req.params;
+
+  try {
+    const sessions = await RefreshTokenService.getSessions(parseInt(id, 10));
+
+    if (!sessions.some(session => session.id === sessionId)) {
+      return res.status(404).json({ message: 'Session not found.' });
+    }
+
+    await RefreshTokenService.revokeFamily(sessionId, 'ADMIN_REVOKED');
+
+    await ActivityLogService.logActivity(
+      req.user?.id ?? null,
+      'LOGOUT',
+      'USER',
+      parseInt(id, 10),
+      {
+        session: sessionId,
+        revoked_by_admin: true
+      }
+    );
+
+    res.json({ message: 'Session successfully ended.' });
+  } catch (error) {
+    console.error('Failed to end session:', error);
+    res.status(500).json({ message: 'Unable to end session at this time.' });
+  }
+};
+
+/**
+ * DELETE /api/users/:id/sessions
+ * End every session of a user and invalidate all of the user's tokens (admin only)
+ */
+export const revokeUserSessions = async (req: AuthenticatedRequest, res: Response) => {
+  const { id } = req.params;
+
+  try {
+    const [existingRows] = await pool.query<any[]>('SELECT id FROM `user` WHERE id = ? LIMIT 1', [id]);
+
+    if (existingRows.length === 0) {
+      return res.status(404).json({ message: 'User not found.' });
+    }
+
+    const sessionCount = (await RefreshTokenService.getSessions(existingRows[0].id)).length;
+    await RefreshTokenService.endAllSessions(existingRows[0].id, 'ADMIN_REVOKED');
+
+    await ActivityLogService.logActivity(
+      req.user?.id ?? null,
+      'LOGOUT',
+      'USER',
+      existingRows[0].id,
+      {
+        all_sessions: true,
+        session_count: sessionCount,
+        revoked_by_admin: true
+      }
+    );
+
+    res.json({
+      message: 'All sessions successfully ended.',
+      endedSessions: sessionCount
+    });
+  } catch (error) {
+    console.error('Failed to end sessions:', error);
+    res.status(500).json({ message: 'Unable to end sessions at this time.' });
+  }
+};
@@ -0,0 +1,483 @@
+import { Response } from 'express';
+import pool, { withTransaction } from '../models/db';
+import { AuthenticatedRequest } from '../middleware/auth.middleware';
+import { ActivityLogService } from '../services/activity-log.service';
+import { BookingApprovalService } from '../services/booking-approval.service';
+import { BookingConflictService, BookingStatus } from '../services/booking-conflict.service';
+import { BusinessHoursService } from '../services/business-hours.service';
+import { BookingPolicyService } from '../services/booking-policy.service';
+import { invalidateRoomsCache } from '../services/cache.service';
+import { ACTIVE_WAITLIST_STATUSES, WaitlistService, WaitlistStatus } from '../services/waitlist.service';
+import {
+  calculateSecondsBetweenNaive,
+  getCurrentNaiveDateTimeString,
+  getCurrentTimezoneNaiveTimestamp,
+  parseTimezoneNaiveDateString
+} from '../utils/date-utils';
+import { validateAndSanitizeComment, validateAndSanitizeTitle } from '../utils/sanitize';
+
+const WAITLIST_STATUSES: WaitlistStatus[] = ['waiting', 'offered', 'fulfilled', 'expired', 'canceled'];
+
+type WaitlistWriteOutcome =
+  | { ok: true; entryId: number; bookingId?: number; bookingStatus?: BookingStatus }
+  | { ok: false; status: number; body: Record<string, any>; slotFreed?: boolean };
+
+const formatWaitlistEntry = (row: any) => ({
+  id: row.id,
+  room_id: row.room_id,
+  room_name: row.room_name,
+  user_id: row.user_id,
+  title: row.title,
+  comment: row.comment ?? null,
+  start_time: row.start_time,
+  end_time: row.end_time,
+  auto_book: row.auto_book === 1,
+  status: row.status,
+  // 1 = next in line; only meaningful while waiting
+  position: row.status === 'waiting' ? row.position : null,
+  offered_at: row.offered_at ?? null,
+  offer_expires_at: row.offer_expires_at ?? null,
+  booking_id: row.booking_id ?? null,
+  created_at: row.created_at
+});
+
+/**
+ * Parses a comma-separated ?status= filter. Returns null if it contains unknown values.
+ */
+const parseStatusFilter = (value: unknown, defaults: WaitlistStatus[]): WaitlistStatus[] | null => {
+  if (value === undefined || value === '') {
+    return defaults;
+  }
+
+  const statuses = String(value).split(',').map(status => status.trim().toLowerCase());
+  if (statuses.some(status => !WAITLIST_STATUSES.includes(status as WaitlistStatus))) {
+    return null;
+  }
+  return statuses as WaitlistStatus[];
+};
+
+// Position = 1 + earlier active entries in the same room with an overlapping range
+const WAITLIST_SELECT = `
+  SELECT
+    w.id, w.room_id, w.user_id, w.title, w.comment, w.start_time, w.end_time, w.auto_book,
+    w.status, w.offered_at, w.offer_expires_at, w.booking_id, w.created_at,
+    room.name AS room_name,
+    (SELECT COUNT(*) + 1 FROM booking_waitlist earlier
+     WHERE earlier.room_id = w.room_id
+     AND earlier.status IN ('waiting', 'offered')
+     AND earlier.start_time < w.end_time
+     AND earlier.end_time > w.start_time
+     AND (earlier.created_at < w.created_at OR (earlier.created_at = w.created_at AND earlier.id < w.id))
+    ) AS position
+  FROM booking_waitlist w
+  INNER JOIN room ON room.id = w.room_id`;
+
+/**
+ * @route POST /api/bookings/waitlist
+ * @desc Join the waitlist for a fully booked slot.
+ *       As soon as the whole range becomes free (cancellation, reschedule or no-show release),
+ *       the first waiting user either gets the booking directly (auto_book: true) or the slot is
+ *       held for them for WAITLIST_CLAIM_MINUTES and can be claimed via /waitlist/:id/claim.
+ * @body room_id, title, comment?, (start_time, end_time) or (date, startTime, endTime), auto_book?
+ * @access Private (requires authentication)
+ */
+export const joinWaitlist = async (req: AuthenticatedRequest, res: Response) => {
+  const user = req.user;
+  const { room_id, title, comment, start_time, end_time, date, startTime, endTime, auto_book } = req.body ?? {};
+
+  if (!user) {
+    return res.status(401).json({ message: 'Authentication required' });
+  }
+
+  if (!room_id) {
+    return res.status(400).json({ message: 'Room ID is required' });
+  }
+
+  let sanitizedTitle: string;
+  let sanitizedComment: string | null;
+  try {
+    sanitizedTitle = validateAndSanitizeTitle(title);
+    sanitizedComment = validateAndSanitizeComment(comment);
+  } catch (error) {
+    return res.status(400).json({ message: error instanceof Error ? error.message : 'Invalid input' });
+  }
+
+  let startTimeStr: string;
+  let endTimeStr: string;
+  if (date && startTime && endTime) {
+    startTimeStr = `${date} ${startTime}:00`;
+    endTimeStr = `${date} ${endTime}:00`;
+  } else if (start_time && end_time) {
+    startTimeStr = start_time;
+    endTimeStr = end_time;
+  } else {
+    return res.status(400).json({ message: 'Please enter all required fields (room_id, title, start_time, end_time) or (room_id, title, date, startTime, endTime)' });
+  }
+
+  if (!parseTimezoneNaiveDateString(startTimeStr) || !parseTimezoneNaiveDateString(endTimeStr)) {
+    return res.status(400).json({ message: 'Ungültiges Start- oder Enddatum.' });
+  }
+
+  if (calculateSecondsBetweenNaive(startTimeStr, endTimeStr) <= 0) {
+    return res.status(400).json({ message: 'Die Endzeit muss nach der Startzeit liegen.' });
+  }
+
+  // TIME ARCHITECTURE: String comparison works for "YYYY-MM-DD HH:mm:ss"
+  if (startTimeStr <= getCurrentNaiveDateTimeString()) {
+    return res.status(400).json({ message: 'Für vergangene Zeiträume ist keine Warteliste möglich.' });
+  }
+
+  if (auto_book !== undefined && typeof auto_book !== 'boolean') {
+    return res.status(400).json({ message: 'auto_book must be a boolean' });
+  }
+
+  try {
+    const outcome = await withTransaction(async (connection): Promise<WaitlistWriteOutcome> => {
+      const [room] = await BookingConflictService.lockRooms(connection, [room_id]);
+      const roomError = BookingConflictService.getRoomBookingError(room)
+        ?? await BusinessHoursService.getBookingHoursError(connection, room_id, startTimeStr, endTimeStr);
+      if (roomError) {
+        return { ok: false, status: roomError.status, body: { message: roomError.message } };
+      }
+
+      // The booking made from the entry later must satisfy the room's policy as well
+      const policyViolation = await BookingPolicyService.checkBooking(connection, {
+        roomId: room_id,
+        user: req.user,
+        ranges: [{ start_time: startTimeStr, end_time: endTimeStr }]
+      });
+      if (policyViolation) {
+        return { ok: false, status: policyViolation.status, body: { message: policyViolation.message, code: policyViolation.code } };
+      }
+
+      // Only fully booked slots can be waited for
+      const conflicts = await BookingConflictService.findConflicts(room_id, startTimeStr, endTimeStr, [], connection);
+      if (conflicts.length === 0) {
+        return { ok: false, status: 400, body: { message: 'Dieser Zeitraum ist frei und kann direkt gebucht werden.' } };
+      }
+
+      const [duplicates] = await connection.query<any[]>(
+        `SELECT id FROM booking_waitlist
+         WHERE user_id = ? AND room_id = ? AND status IN (?)
+         AND start_time < ? AND end_time > ?`,
+        [user.id, room_id, ACTIVE_WAITLIST_STATUSES, endTimeStr, startTimeStr]
+      );
+      if (duplicates.length > 0) {
+        return {
+          ok: false,
+          status: 409,
+          body: { message: 'Sie stehen für diesen Zeitraum bereits auf der Warteliste.', entryId: duplicates[0].id }
+        };
+      }
+
+      const now = getCurrentTimezoneNaiveTimestamp();
+      const [result] = await connection.query<any>(
+        `INSERT INTO booking_waitlist (room_id, user_id, title, comment, start_time, end_time, auto_book, status, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, 'waiting', ?, ?)`,
+        [room_id, user.id, sanitizedTitle, sanitizedComment, startTimeStr, endTimeStr, auto_book === true ? 1 : 0, now, now]
+      );
+
+      return { ok: true, entryId: result.insertId };
+    });
+
+    if (!outcome.ok) {
+      return res.status(outcome.status).json(outcome.body);
+    }
+
+    await ActivityLogService.logActivity(
+      user.id,
+      'CREATE',
+      'WAITLIST',
+      outcome.entryId,
+      {
+        room_id,
+        title: sanitizedTitle,
+        start_time: startTimeStr,
+        end_time: endTimeStr,
+        auto_book: auto_book === true
+      }
+    );
+
+    const [rows] = await pool.query<any[]>(`${WAITLIST_SELECT} WHERE w.id = ?`, [outcome.entryId]);
+    res.status(201).json({ message: 'Added to waitlist', entry: formatWaitlistEntry(rows[0]) });
+  } catch (error) {
+    console.error('Error joining waitlist:', error);
+    res.status(500).json({ message: 'Server Error' });
+  }
+};
+
+/**
+ * @route GET /api/bookings/my-bookings/waitlist?status=waiting,offered
+ * @desc Get the current user's waitlist entries (default: active entries only)
+ * @access Private (requires authentication)
+ */
+export const getMyWaitlist = async (req: AuthenticatedRequest, res: Response) => {
+  const user = req.user;
+
+  if (!user) {
+    return res.status(401).json({ message: 'Authentication required' });
+  }
+
+  const statuses = parseStatusFilter(req.query.status, ACTIVE_WAITLIST_STATUSES);
+  if (!statuses) {
+    return res.status(400).json({ message: `Status must be one of: ${WAITLIST_STATUSES.join(', ')}` });
+  }
+
+  try {
+    const [rows] = await pool.query<any[]>(
+      `${WAITLIST_SELECT}
+       WHERE w.user_id = ? AND w.status IN (?)
+       ORDER BY w.start_time ASC`,
+      [user.id, statuses]
+    );
+
+    res.json(rows.map(formatWaitlistEntry));
+  } catch (error) {
+    console.error('Error fetching user waitlist:', error);
+    res.status(500).json({ message: 'Server Error' });
+  }
+};
+
+/**
+ * @route GET /api/bookings/waitlist?status=waiting,offered&room_id=1
+ * @desc Get all waitlist entries with user details (default: active entries only)
+ * @access Private (requires admin)
+ */
+export const getAllWaitlistEntries = async (req: AuthenticatedRequest, res: Response) => {
+  const statuses = parseStatusFilter(req.query.status, ACTIVE_WAITLIST_STATUSES);
+  if (!statuses) {
+    return res.status(400).json({ message: `Status must be one of: ${WAITLIST_STATUSES.join(', ')}` });
+  }
+
+  let query = `SELECT entries.*, waiting_user.email AS user_email, waiting_user.firstname AS user_firstname, waiting_user.surname AS user_surname
+               FROM (${WAITLIST_SELECT}) entries
+               INNER JOIN \`user\` AS waiting_user ON waiting_user.id = entries.user_id
+               WHERE entries.status IN (?)`;
+  const params: any[] = [statuses];
+
+  if (req.query.room_id !== undefined) {
+    const roomId = Number(req.query.room_id);
+    if (!Number.isInteger(roomId) || roomId <= 0) {
+      return res.status(400).json({ message: 'Invalid room_id' });
+    }
+    query += ' AND entries.room_id = ?';
+    params.push(roomId);
+  }
+
+  query += ' ORDER BY entries.room_id ASC, entries.start_time ASC, entries.created_at ASC';
+
+  try {
+    const [rows] = await pool.query<any[]>(query, params);
+
+    res.json(rows.map((row: any) => ({
+      ...formatWaitlistEntry(row),
+      user_email: row.user_email,
+      user_firstname: row.user_firstname,
+      user_surname: row.user_surname
+    })));
+  } catch (error) {
+    console.error('Error fetching waitlist:', error);
+    res.status(500).json({ message: 'Server Error' });
+  }
+};
+
+/**
+ * @route POST /api/bookings/waitlist/:id/claim
+ * @desc Turn an offered waitlist slot into a booking (only while the offer is valid)
+ * @access Private (requires authentication and ownership)
+ */
+export const claimWaitlistOffer = async (req: AuthenticatedRequest, res: Response) => {
+  const { id } = req.params;
+  const user = req.user;
+
+  if (!user) {
+    return res.status(401).json({ message: 'Authentication required' });
+  }
+
+  try {
+    const [rows] = await pool.query<any[]>(
+      `SELECT room_id, user_id FROM booking_waitlist WHERE id = ?`,
+      [id]
+    );
+
+    if (rows.length === 0) {
+      return res.status(404).json({ message: 'Waitlist entry not found' });
+    }
+
+    if (rows[0].user_id !== user.id) {
+      return res.status(403).json({ message: 'You may only claim your own waitlist offers.' });
+    }
+
+    const roomId = rows[0].room_id;
+    let entry: any;
+    const outcome = await withTransaction(async (connection): Promise<WaitlistWriteOutcome> => {
+      const [room] = await BookingConflictService.lockRooms(connection, [roomId]);
+      const [entries] = await connection.query<any[]>(
+        `SELECT id, user_id, title, comment, start_time, end_time, status, offer_expires_at
+         FROM booking_waitlist WHERE id = ? FOR UPDATE`,
+        [id]
+      );
+      entry = entries[0];
+
+      if (!entry) {
+        return { ok: false, status: 404, body: { message: 'Waitlist entry not found' } };
+      }
+
+      if (entry.status !== 'offered') {
+        return { ok: false, status: 409, body: { message: `Waitlist entry is ${entry.status}, there is no offer to claim.` } };
+      }
+
+      if (entry.offer_expires_at <= getCurrentNaiveDateTimeString()) {
+        return { ok: false, status: 410, body: { message: 'Das Angebot ist abgelaufen.' } };
+      }
+
+      // An offer that cannot be claimed anymore is canceled, so its hold does not block the slot
+      const releaseOffer = async (status: number, body: Record<string, any>): Promise<WaitlistWriteOutcome> => {
+        await connection.query(
+          `UPDATE booking_waitlist SET status = 'canceled', updated_at = ? WHERE id = ?`,
+          [getCurrentTimezoneNaiveTimestamp(), entry.id]
+        );
+        return { ok: false, status, body, slotFreed: true };
+      };
+
+      // The opening hours may have changed since the user joined the waitlist
+      const roomError = BookingConflictService.getRoomBookingError(room)
+        ?? await BusinessHoursService.getBookingHoursError(connection, roomId, entry.start_time, entry.end_time);
+      if (roomError) {
+        return releaseOffer(roomError.status, { message: roomError.message });
+      }
+
+      // The policy may have changed, or the user may have booked elsewhere, since joining the waitlist
+      const policyViolation = await BookingPolicyService.checkBooking(connection, {
+        roomId,
+        user,
+        ranges: [{ start_time: entry.start_time, end_time: entry.end_time }]
+      });
+      if (policyViolation) {
+        return releaseOffer(policyViolation.status, { message: policyViolation.message, code: policyViolation.code });
+      }
+
+      // The user's own hold must not block the claim
+      const conflicts = await BookingConflictService.findConflicts(
+        roomId, entry.start_time, entry.end_time, [], connection, [entry.id]
+      );
+      if (conflicts.length > 0) {
+        return releaseOffer(409, {
+          message: 'Dieser Zeitraum ist bereits gebucht.',
+          conflict: BookingConflictService.toConflictResponse(conflicts[0])
+        });
+      }
+
+      const bookingStatus = await BookingApprovalService.getInitialStatus(connection, room, user);
+      const bookingId = await WaitlistService.insertBooking(connection, roomId, entry, bookingStatus);
+      const now = getCurrentTimezoneNaiveTimestamp();
+      await connection.query(
+        `UPDATE booking_waitlist SET status = 'fulfilled', booking_id = ?, updated_at = ? WHERE id = ?`,
+        [bookingId, now, entry.id]
+      );
+
+      return { ok: true, entryId: entry.id, bookingId, bookingStatus };
+    });
+
+    if (!outcome.ok) {
+      // An expired or canceled offer frees the slot for the next user in line
+      if (outcome.slotFreed) {
+        await ActivityLogService.logActivity(user.id, 'UPDATE', 'WAITLIST', Number(id), {
+          room_id: roomId,
+          status: 'canceled',
+          reason: outcome.body.message
+        });
+      }
+      if (outcome.status === 410 || outcome.slotFreed) {
+        WaitlistService.notifySlotFreed([roomId]);
+      }
+      return res.status(outcome.status).json(outcome.body);
+    }
+
+    await ActivityLogService.logActivity(
+      user.id,
+      'CREATE',
+      'BOOKING',
+      outcome.bookingId ?? null,
+      {
+        room_id: roomId,
+        title: entry.title,
+        start_time: entry.start_time,
+        end_time: entry.end_time,
+        status: outcome.bookingStatus,
+        waitlist_id: outcome.entryId
+      }
+    );
+
+    invalidateRoomsCache();
+    res.status(201).json({
+      message: outcome.bookingStatus === 'pending' ? 'Booking request submitted for approval' : 'Booking created successfully',
+      bookingId: outcome.bookingId,
+      status: outcome.bookingStatus
+    });
+  } catch (error) {
+    console.error('Error claiming waitlist offer:', error);
+    res.status(500).json({ message: 'Server Error' });
+  }
+};
+
+/**
+ * @route DELETE /api/bookings/waitlist/:id
+ * @desc Leave the waitlist or decline an offer; a declined slot moves on to the next user in line
+ * @access Private (requires authentication and ownership or admin role)
+ */
+export const leaveWaitlist = async (req: AuthenticatedRequest, res: Response) => {
+  const { id } = req.params;
+  const user = req.user;
+
+  if (!user) {
+    return res.status(401).json({ message: 'Authentication required' });
+  }
+
+  try {
+    const [rows] = await pool.query<any[]>(
+      `SELECT room_id, user_id, status FROM booking_waitlist WHERE id = ?`,
+      [id]
+    );
+
+    if (rows.length === 0) {
+      return res.status(404).json({ message: 'Waitlist entry not found' });
+    }
+
+    const entry = rows[0];
+    if (user.role !== 'admin' && entry.user_id !== user.id) {
+      return res.status(403).json({ message: 'You may only remove your own waitlist entries.' });
+    }
+
+    const now = getCurrentTimezoneNaiveTimestamp();
+    const [result] = await pool.query<any>(
+      `UPDATE booking_waitlist SET status = 'canceled', updated_at = ? WHERE id = ? AND status IN (?)`,
+      [now, id, ACTIVE_WAITLIST_STATUSES]
+    );
+
+    if (result.affectedRows === 0) {
+      return res.status(409).json({ message: 'Waitlist entry is no longer active' });
+    }
+
+    await ActivityLogService.logActivity(
+      user.id,
+      'CANCEL',
+      'WAITLIST',
+      parseInt(id),
+      {
+        room_id: entry.room_id,
+        owner_id: entry.user_id,
+        previous_status: entry.status
+      }
+    );
+
+    if (entry.status === 'offered') {
+      WaitlistService.notifySlotFreed([entry.room_id]);
+    }
+
+    res.json({ message: 'Removed from waitlist' });
+  } catch (error) {
+    console.error('Error leaving waitlist:', error);
+    res.status(500).json({ message: 'Server Error' });
+  }
+};
@@ -1,11 +1,62 @@
 import { NextFunction, Request, Response } from 'express';
+import pool from '../models/db';
+import { TwoFactorService } from '../services/two-factor.service';
+import { getCurrentTimezoneNaiveTimestamp } from '../utils/date-utils';
 import { verifyToken, TokenPayload } from '../utils/token';
 
+export interface AuthenticatedUser extends TokenPayload {
+  // Admin without the required second factor: treated as a regular user until 2FA is enabled
+  two_factor_setup_required?: boolean;
+}
+
 export interface AuthenticatedRequest extends Request {
-  user?: TokenPayload;
+  user?: AuthenticatedUser;
 }
 
-export const authenticate = (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+/**
+ * Verifies an access token and checks it against the database, so that deactivation,
+ * deletion, role and password changes (user.token_version) and ended sessions (sid)
+ * take effect immediately instead of when the token expires.
+ * Returns the payload with the user's current email and role, or null if the token is not valid (anymore).
+ */
+const resolveAccessToken = async (token: string): Promise<AuthenticatedUser | null> => {
+  const payload = verifyToken(token);
+  if (!payload) {
+    return null;
+  }
+
+  const [rows] = await pool.query<any[]>(
+    `SELECT \`user\`.email, \`user\`.role, \`user\`.is_active, \`user\`.token_version, \`user\`.totp_enabled_at${payload.sid ? `,
+            EXISTS (
+              SELECT 1 FROM refresh_token
+              WHERE refresh_token.family_id = ?
+              AND refresh_token.user_id = \`user\`.id
+              AND refresh_token.used_at IS NULL
+              AND refresh_token.revoked_at IS NULL
+              AND refresh_token.expires_at > ?
+            ) AS session_active` : ''}
+     FROM \`user\`
+     WHERE \`user\`.id = ?
+     LIMIT 1`,
+    [...(payload.sid ? [payload.sid, getCurrentTimezoneNaiveTimestamp()] : []), payload.id]
+  );
+
+  const user = rows[0];
+  if (!user || !user.is_active || user.token_version !== (payload.ver ?? 0)) {
+    return null;
+  }
+  if (payload.sid && !user.session_active) {
+    return null;
+  }
+
+  if (TwoFactorService.isRequiredForRole(user.role) && !user.totp_enabled_at) {
+    return { ...payload, email: user.email, role: 'user', two_factor_setup_required: true };
+  }
+
+  return { ...payload, email: user.email, role: user.role };
+};
+
+export const authenticate = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
   const authHeader = req.headers.authorization;
 
   if (!authHeader || !authHeader.startsWith('Bearer ')) {
@@ -13,7 +64,14 @@ export const authenticate = (req: AuthenticatedRequest, res: Response, next: Nex
   }
 
   const token = authHeader.slice('Bearer '.length);
-  const payload = verifyToken(token);
+
+  let payload: AuthenticatedUser | null;
+  try {
+    payload = await resolveAccessToken(token);
+  } catch (error) {
+    console.error('Token check failed:', error);
+    return res.status(500).json({ message: 'Server Error' });
+  }
 
   if (!payload) {
     return res.status(401).json({ message: 'Invalid or expired token' });
@@ -29,7 +87,7 @@ export const authenticate = (req: AuthenticatedRequest, res: Response, next: Nex
  * If a valid token is found, attaches user to req.user
  * If no token or invalid token, req.user remains undefined
  */
-export const authenticateOptional = (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+export const authenticateOptional = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
   const authHeader = req.headers.authorization;
 
   // No auth header - proceed as guest
@@ -39,9 +97,16 @@ export const authenticateOptional = (req: AuthenticatedRequest, res: Response, n
   }
 
   const token = authHeader.slice('Bearer '.length);
-  const payload = verifyToken(token);
 
-  // Invalid/expired token - proceed as guest
+  let payload: AuthenticatedUser | null;
+  try {
+    payload = await resolveAccessToken(token);
+  } catch (error) {
+    console.error('Token check failed:', error);
+    return res.status(500).json({ message: 'Server Error' });
+  }
+
+  // Invalid/expired/revoked token - proceed as guest
   if (!payload) {
     req.user = undefined;
     return next();
@@ -57,6 +122,13 @@ export const requireAdmin = (req: AuthenticatedRequest, res: Response, next: Nex
     return res.status(401).json({ message: 'Unauthorized' });
   }
 
+  if (req.user.two_factor_setup_required) {
+    return res.status(403).json({
+      message: 'Two-factor authentication must be enabled for admin accounts',
+      code: 'TWO_FACTOR_REQUIRED'
+    });
+  }
+
   if (req.user.role !== 'admin') {
     return res.status(403).json({ message: 'Admin privileges required' });
   }
@@ -1,4 +1,4 @@
-import mysql from 'mysql2/promise';
+import mysql, { PoolConnection } from 'mysql2/promise';
 import dotenv from 'dotenv';
 import fs from 'fs/promises';
 import path from 'path';
@@ -35,9 +35,11 @@ const ensureSchema = async () => {
     const sqlScript = await fs.readFile(sqlFilePath, 'utf-8');
 
     // Step 3: Split the SQL script into individual statements
-    // Remove comments and split by semicolons
+    // Remove comments (full-line and trailing "-- ...") and split by semicolons.
+    // The script has no string literals containing " -- ", so trailing comments can be cut off as text.
     const statements = sqlScript
       .split('\n')
+      .map(line => line.replace(/\s--\s.*$/, ''))
       .filter(line => !line.trim().startsWith('--') && line.trim() !== '')
       .join('\n')
       .split(';')
@@ -75,6 +77,24 @@ const pool = mysql.createPool({
   dateStrings: true // CRITICAL: Return DATETIME/DATE as strings to prevent timezone conversion
 });
 
+/**
+ * Runs the given work inside a transaction on a dedicated pool connection.
+ * Commits when the work resolves, rolls back when it throws, and always releases the connection.
+ */
+export const withTransaction = async <T>(work: (connection: PoolConnection) => Promise<T>): Promise<T> => {
+  const connection = await pool.getConnection();
+  try {
+    await connection.beginTransaction();
+    const result = await work(connection);
+    await connection.commit();
+    return result;
+  } catch (error) {
+    await connection.rollback();
+    throw error;
+  } finally {
+    connection.release();
+  }
+};
 
 // Export a promise that resolves when schema initialization is complete
 export const dbReady = ensureSchema();
@@ -0,0 +1,23 @@
+import express from 'express';
+import { getUtilisation } from '../controllers/analytics.controller';
+import { authenticate, requireAdmin } from '../middleware/auth.middleware';
+import { readLimiter } from '../middleware/rate-limiter.middleware';
+
+const router = express.Router();
+
+/**
+ * ════════════════════════════════════════════════════════════════════════════
+ * ANALYTICS ROUTES - GRANULAR RATE LIMITING
+ * ════════════════════════════════════════════════════════════════════════════
+ *
+ * GET routes: Use readLimiter (200 req/min) - Admin-only reports computed from booking history
+ */
+
+/**
+ * @route GET /api/analytics/utilisation
+ * @desc Room utilisation per room or location (JSON or CSV)
+ * @access Private (requires admin)
+ */
+router.get('/utilisation', readLimiter, authenticate, requireAdmin, getUtilisation);
+
+export default router;
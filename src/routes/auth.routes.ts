@@ -1,6 +1,26 @@
 import { Router } from 'express';
 import rateLimit from 'express-rate-limit';
-import { login, register } from '../controllers/auth.controller';
+import {
+  forgotPassword,
+  login,
+  loginWithSecondFactor,
+  logout,
+  refresh,
+  register,
+  resendVerification,
+  resetPassword,
+  verifyEmail
+} from '../controllers/auth.controller';
+import { getInvitationByToken } from '../controllers/registration.controller';
+import {
+  disableTwoFactor,
+  enableTwoFactor,
+  getTwoFactorStatus,
+  regenerateRecoveryCodes,
+  setupTwoFactor
+} from '../controllers/two-factor.controller';
+import { authenticate, authenticateOptional } from '../middleware/auth.middleware';
+import { readLimiter, writeLimiter } from '../middleware/rate-limiter.middleware';
 
 const router = Router();
 
@@ -14,7 +34,57 @@ const authLimiter = rateLimit({
   skipSuccessfulRequests: false, // Count successful requests too
 });
 
+// Refreshing runs every few minutes per open session, so it gets a looser limit than login
+const refreshLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 60, // Limit each IP to 60 refreshes per window
+  message: 'Too many token refresh requests from this IP, please try again after 15 minutes.',
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+// Password reset mails: few requests per IP, so the endpoint cannot be used to flood mailboxes
+const passwordResetLimiter = rateLimit({
+  windowMs: 60 * 60 * 1000, // 1 hour
+  max: 5, // Limit each IP to 5 requests per window
+  message: 'Too many password reset requests from this IP, please try again after an hour.',
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+// Confirmation mails: same limits as password reset mails
+const verificationLimiter = rateLimit({
+  windowMs: 60 * 60 * 1000, // 1 hour
+  max: 5, // Limit each IP to 5 requests per window
+  message: 'Too many email confirmation requests from this IP, please try again after an hour.',
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+// Second-factor codes: only failed attempts count, on top of the per-challenge attempt limit
+const twoFactorLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 10, // Limit each IP to 10 failed codes per window
+  message: 'Too many invalid authentication codes from this IP, please try again after 15 minutes.',
+  standardHeaders: true,
+  legacyHeaders: false,
+  skipSuccessfulRequests: true,
+});
+
 router.post('/register', authLimiter, register);
 router.post('/login', authLimiter, login);
+router.post('/login/2fa', twoFactorLimiter, loginWithSecondFactor);
+router.post('/refresh', refreshLimiter, refresh);
+router.post('/logout', writeLimiter, authenticateOptional, logout);
+router.post('/forgot-password', passwordResetLimiter, forgotPassword);
+router.post('/reset-password', passwordResetLimiter, resetPassword);
+router.post('/verify-email', verificationLimiter, verifyEmail);
+router.post('/resend-verification', verificationLimiter, resendVerification);
+router.get('/invitations/:token', readLimiter, getInvitationByToken);
+router.get('/2fa', readLimiter, authenticate, getTwoFactorStatus);
+router.post('/2fa/setup', twoFactorLimiter, authenticate, setupTwoFactor);
+router.post('/2fa/enable', twoFactorLimiter, authenticate, enableTwoFactor);
+router.post('/2fa/disable', twoFactorLimiter, authenticate, disableTwoFactor);
+router.post('/2fa/recovery-codes', twoFactorLimiter, authenticate, regenerateRecoveryCodes);
 
 export default router;
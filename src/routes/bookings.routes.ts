@@ -1,5 +1,34 @@
-import { Router } from 'express';
-import { getAllBookings, createBooking, deleteBooking, updateBooking, getBookingsByRoomId, checkBookingConflict, getMyBookings } from '../controllers/bookings.controller';
+import { Router, text } from 'express';
+import {
+  getAllBookings,
+  createBooking,
+  cancelBooking,
+  updateBooking,
+  getBookingsByRoomId,
+  checkBookingConflict,
+  getMyBookings,
+  getBookingSeries,
+  updateBookingSeries,
+  cancelBookingSeries,
+  getBookingGroup,
+  updateBookingGroup,
+  cancelBookingGroup,
+  getCanceledBookings,
+  restoreBooking,
+  purgeBooking,
+  checkInBooking
+} from '../controllers/bookings.controller';
+import { importBookings } from '../controllers/booking-import.controller';
+import { getApprovalQueue, approveBooking, rejectBooking } from '../controllers/booking-approval.controller';
+import {
+  joinWaitlist,
+  getMyWaitlist,
+  getAllWaitlistEntries,
+  claimWaitlistOffer,
+  leaveWaitlist
+} from '../controllers/waitlist.controller';
+import { getMyBookingsCalendar, createFeedToken, revokeFeedToken } from '../controllers/calendar.controller';
+import { getMyNotifications, markNotificationsRead } from '../controllers/notifications.controller';
 import { authenticate, authenticateOptional, requireAdmin } from '../middleware/auth.middleware';
 import { readLimiter, writeLimiter, checkConflictLimiter } from '../middleware/rate-limiter.middleware';
 
@@ -17,20 +46,56 @@ const router = Router();
 
 // Admin-only read routes - Use lenient readLimiter
 router.get('/', readLimiter, authenticate, requireAdmin, getAllBookings);
+router.get('/canceled', readLimiter, authenticate, requireAdmin, getCanceledBookings);
+router.get('/waitlist', readLimiter, authenticate, requireAdmin, getAllWaitlistEntries);
 
 // Protected read routes (authenticated users only) - Must come before public routes to avoid route conflicts
 router.get('/my-bookings', readLimiter, authenticate, getMyBookings);
+router.get('/my-bookings/waitlist', readLimiter, authenticate, getMyWaitlist);
+// Messages about changes made by others (e.g. bookings canceled or moved because their room was archived)
+router.get('/my-bookings/notifications', readLimiter, authenticate, getMyNotifications);
+router.post('/my-bookings/notifications/read', writeLimiter, authenticate, markNotificationsRead);
+// Approval queue - admins see all rooms, room managers the rooms they manage (checked in the controller)
+router.get('/approvals', readLimiter, authenticate, getApprovalQueue);
+router.post('/my-bookings/feed-token', writeLimiter, authenticate, createFeedToken);
+router.delete('/my-bookings/feed-token', writeLimiter, authenticate, revokeFeedToken);
+
+// Personal iCalendar feed - calendar clients cannot send Bearer headers, so it authenticates with ?token=<feed token>
+router.get('/my-bookings/calendar.ics', readLimiter, getMyBookingsCalendar);
+router.get('/series/:seriesId', readLimiter, authenticate, getBookingSeries);
+router.get('/groups/:groupId', readLimiter, authenticate, getBookingGroup);
 
 // Protected write routes (authenticated users only)
+// Waitlist for fully booked slots - must come before /:id routes
+router.post('/waitlist', writeLimiter, authenticate, joinWaitlist);
+router.post('/waitlist/:id/claim', writeLimiter, authenticate, claimWaitlistOffer);
+router.delete('/waitlist/:id', writeLimiter, authenticate, leaveWaitlist);
+// Series routes apply to "this and following" or "all" occurrences; /:id alone targets a single occurrence
+router.put('/:id/series', writeLimiter, authenticate, updateBookingSeries);
+router.delete('/:id/series', writeLimiter, authenticate, cancelBookingSeries);
+// Group routes apply to every room of a multi-room booking
+router.put('/:id/group', writeLimiter, authenticate, updateBookingGroup);
+router.delete('/:id/group', writeLimiter, authenticate, cancelBookingGroup);
 router.put('/:id', writeLimiter, authenticate, updateBooking);
-router.delete('/:id', writeLimiter, authenticate, deleteBooking);
+// DELETE is a soft cancellation; the booking row and its history are kept
+router.delete('/:id', writeLimiter, authenticate, cancelBooking);
+router.post('/:id/cancel', writeLimiter, authenticate, cancelBooking);
+router.post('/:id/approve', writeLimiter, authenticate, approveBooking);
+router.post('/:id/reject', writeLimiter, authenticate, rejectBooking);
+
+// Admin-only write routes
+// Import accepts the raw file body (text/calendar or text/csv) in addition to JSON
+router.post('/import', writeLimiter, authenticate, requireAdmin, text({ type: ['text/calendar', 'text/csv', 'text/plain'], limit: '5mb' }), importBookings);
+router.post('/:id/restore', writeLimiter, authenticate, requireAdmin, restoreBooking);
+router.delete('/:id/purge', writeLimiter, authenticate, requireAdmin, purgeBooking);
 
 // Public read routes (accessible to guests) - Use authenticateOptional for privacy anonymization
 // Special case: conflict check uses ultra-lenient limiter for real-time form validation
 router.get('/check-conflict/:roomId', checkConflictLimiter, authenticateOptional, checkBookingConflict);
 router.get('/room/:roomId', readLimiter, authenticateOptional, getBookingsByRoomId);
 
-// Optional authentication write route - allows both authenticated users and guests
+// Optional authentication write routes - allow both authenticated users and guests
 router.post('/', writeLimiter, authenticateOptional, createBooking);
+router.post('/:id/check-in', writeLimiter, authenticateOptional, checkInBooking);
 
 export default router;
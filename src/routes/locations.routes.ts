@@ -0,0 +1,59 @@
+import express from 'express';
+import {
+  getLocations,
+  createSite,
+  updateSite,
+  deleteSite,
+  createBuilding,
+  updateBuilding,
+  deleteBuilding,
+  createFloor,
+  updateFloor,
+  deleteFloor
+} from '../controllers/locations.controller';
+import { authenticate, requireAdmin } from '../middleware/auth.middleware';
+import { readLimiter, writeLimiter } from '../middleware/rate-limiter.middleware';
+
+const router = express.Router();
+
+/**
+ * ════════════════════════════════════════════════════════════════════════════
+ * LOCATIONS ROUTES - GRANULAR RATE LIMITING
+ * ════════════════════════════════════════════════════════════════════════════
+ *
+ * GET routes: Use readLimiter (200 req/min) - Public location tree for room pickers
+ * POST/PUT/DELETE routes: Use writeLimiter (100 req/15min) - Admin-only hierarchy management
+ */
+
+/**
+ * @route GET /api/locations
+ * @desc Get all sites with their buildings and floors
+ * @access Public
+ */
+router.get('/', readLimiter, getLocations);
+
+/**
+ * @route POST/PUT/DELETE /api/locations/sites
+ * @access Private (requires admin)
+ */
+router.post('/sites', writeLimiter, authenticate, requireAdmin, createSite);
+router.put('/sites/:id', writeLimiter, authenticate, requireAdmin, updateSite);
+router.delete('/sites/:id', writeLimiter, authenticate, requireAdmin, deleteSite);
+
+/**
+ * @route POST/PUT/DELETE /api/locations/buildings
+ * @access Private (requires admin)
+ */
+router.post('/buildings', writeLimiter, authenticate, requireAdmin, createBuilding);
+router.put('/buildings/:id', writeLimiter, authenticate, requireAdmin, updateBuilding);
+router.delete('/buildings/:id', writeLimiter, authenticate, requireAdmin, deleteBuilding);
+
+/**
+ * @route POST/PUT/DELETE /api/locations/floors
+ * @access Private (requires admin)
+ */
+router.post('/floors', writeLimiter, authenticate, requireAdmin, createFloor);
+router.put('/floors/:id', writeLimiter, authenticate, requireAdmin, updateFloor);
+router.delete('/floors/:id', writeLimiter, authenticate, requireAdmin, deleteFloor);
+
+export default router;
@@ -0,0 +1,39 @@
+import express from 'express';
+import {
+  getResources,
+  createResource,
+  updateResource,
+  deleteResource
+} from '../controllers/resources.controller';
+import { authenticate, requireAdmin } from '../middleware/auth.middleware';
+import { readLimiter, writeLimiter } from '../middleware/rate-limiter.middleware';
+
+const router = express.Router();
+
+/**
+ * ════════════════════════════════════════════════════════════════════════════
+ * RESOURCES ROUTES - GRANULAR RATE LIMITING
+ * ════════════════════════════════════════════════════════════════════════════
+ *
+ * GET routes: Use readLimiter (200 req/min) - Public catalogue for booking forms
+ * POST/PUT/DELETE routes: Use writeLimiter (100 req/15min) - Admin-only catalogue management
+ *
+ * Resources are reserved through the booking endpoints (`resources` on POST/PUT /api/bookings).
+ */
+
+/**
+ * @route GET /api/resources
+ * @desc Get the resource catalogue (with ?start_time&end_time: availability per resource)
+ * @access Public
+ */
+router.get('/', readLimiter, getResources);
+
+/**
+ * @route POST/PUT/DELETE /api/resources
+ * @access Private (requires admin)
+ */
+router.post('/', writeLimiter, authenticate, requireAdmin, createResource);
+router.put('/:id', writeLimiter, authenticate, requireAdmin, updateResource);
+router.delete('/:id', writeLimiter, authenticate, requireAdmin, deleteResource);
+
+export default router;
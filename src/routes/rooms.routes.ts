@@ -1,5 +1,38 @@
-import { Router } from 'express';
-import { getAllRooms, createRoom, updateRoom, deleteRoom, getRoomById, getAvailableRooms } from '../controllers/rooms.controller';
+import { Router, raw } from 'express';
+import {
+  getAllRooms,
+  createRoom,
+  updateRoom,
+  deleteRoom,
+  getRoomById,
+  getAvailableRooms,
+  getFreeSlots,
+  getRoomTimeline,
+  getArchivedRooms,
+  restoreRoom,
+  getRoomManagers,
+  setRoomManagers
+} from '../controllers/rooms.controller';
+import {
+  getDefaultBusinessHours,
+  setDefaultBusinessHours,
+  getRoomBusinessHours,
+  setRoomBusinessHours,
+  resetRoomBusinessHours
+} from '../controllers/business-hours.controller';
+import { getRoomPolicy, setRoomPolicy, resetRoomPolicy } from '../controllers/booking-policy.controller';
+import { getRoomCalendar } from '../controllers/calendar.controller';
+import {
+  getRoomMaintenance,
+  createMaintenanceWindow,
+  deleteMaintenanceWindow
+} from '../controllers/maintenance.controller';
+import {
+  getRoomMedia,
+  uploadRoomMedia,
+  serveRoomMedia,
+  deleteRoomMedia
+} from '../controllers/room-media.controller';
 import { authenticate, authenticateOptional, requireAdmin } from '../middleware/auth.middleware';
 import { readLimiter, writeLimiter } from '../middleware/rate-limiter.middleware';
 
@@ -22,11 +55,57 @@ router.get('/', readLimiter, authenticateOptional, getAllRooms);
 // IMPORTANT: This must come BEFORE /:id route to avoid route matching conflicts
 router.get('/available', readLimiter, getAvailableRooms);
 
+// Earliest free slots of a given length across rooms (e.g. after a 409 from POST /api/bookings)
+// IMPORTANT: This must come BEFORE /:id route as well
+router.get('/free-slots', readLimiter, getFreeSlots);
+
+// Week view for the planner grid: bookings and free intervals of every room across a date range
+// IMPORTANT: This must come BEFORE /:id route as well
+router.get('/timeline', readLimiter, authenticateOptional, getRoomTimeline);
+
+// Global default opening hours (rooms may override single weekdays via /:id/business-hours)
+// IMPORTANT: This must come BEFORE /:id route as well
+router.get('/business-hours', readLimiter, getDefaultBusinessHours);
+router.put('/business-hours', writeLimiter, authenticate, requireAdmin, setDefaultBusinessHours);
+
+// Retired rooms (hidden from every room list) - IMPORTANT: This must come BEFORE /:id route as well
+router.get('/archived', readLimiter, authenticate, requireAdmin, getArchivedRooms);
+
 router.get('/:id', readLimiter, getRoomById);
 
+// iCalendar subscription feed - anonymized for guests, full details with Bearer or ?token=<feed token>
+router.get('/:id/calendar.ics', readLimiter, authenticateOptional, getRoomCalendar);
+
 // Protected write routes (admin only) - Use stricter writeLimiter
 router.post('/', writeLimiter, authenticate, requireAdmin, createRoom);
 router.put('/:id', writeLimiter, authenticate, requireAdmin, updateRoom);
+// DELETE archives the room; upcoming bookings must be canceled or moved (?purge=true deletes rooms without bookings)
 router.delete('/:id', writeLimiter, authenticate, requireAdmin, deleteRoom);
+router.post('/:id/restore', writeLimiter, authenticate, requireAdmin, restoreRoom);
+
+// Room managers may approve or reject pending bookings for rooms that require approval
+router.get('/:id/managers', readLimiter, authenticate, requireAdmin, getRoomManagers);
+router.put('/:id/managers', writeLimiter, authenticate, requireAdmin, setRoomManagers);
+
+// Opening hours per room and weekday; bookings outside them are rejected
+router.get('/:id/business-hours', readLimiter, getRoomBusinessHours);
+router.put('/:id/business-hours', writeLimiter, authenticate, requireAdmin, setRoomBusinessHours);
+router.delete('/:id/business-hours', writeLimiter, authenticate, requireAdmin, resetRoomBusinessHours);
+
+// Booking limits per room (duration, notice, advance window, quota, guests); admins bypass them
+router.get('/:id/policy', readLimiter, getRoomPolicy);
+router.put('/:id/policy', writeLimiter, authenticate, requireAdmin, setRoomPolicy);
+router.delete('/:id/policy', writeLimiter, authenticate, requireAdmin, resetRoomPolicy);
+
+// Scheduled maintenance windows block new bookings in their range
+router.get('/:id/maintenance', readLimiter, authenticateOptional, getRoomMaintenance);
+router.post('/:id/maintenance', writeLimiter, authenticate, requireAdmin, createMaintenanceWindow);
+router.delete('/:id/maintenance/:maintenanceId', writeLimiter, authenticate, requireAdmin, deleteMaintenanceWindow);
+
+// Room photos and documents - uploads are read as a raw multipart body (largest file type plus form overhead)
+router.get('/:id/media', readLimiter, getRoomMedia);
+router.get('/:id/media/:mediaId', readLimiter, serveRoomMedia);
+router.post('/:id/media', writeLimiter, authenticate, requireAdmin, raw({ type: 'multipart/form-data', limit: '11mb' }), uploadRoomMedia);
+router.delete('/:id/media/:mediaId', writeLimiter, authenticate, requireAdmin, deleteRoomMedia);
 
 export default router;
@@ -4,8 +4,20 @@ import {
   getUserById,
   createUser,
   updateUser,
-  deleteUser
+  deleteUser,
+  getNoShowCounts,
+  getUserSessions,
+  revokeUserSession,
+  revokeUserSessions
 } from '../controllers/users.controller';
+import {
+  getRegistrationSettings,
+  updateRegistrationSettings,
+  getInvitations,
+  createInvitation,
+  revokeInvitation
+} from '../controllers/registration.controller';
+import { resetUserTwoFactor } from '../controllers/two-factor.controller';
 import { authenticate, requireAdmin } from '../middleware/auth.middleware';
 import { readLimiter, writeLimiter } from '../middleware/rate-limiter.middleware';
 
@@ -23,11 +35,22 @@ const router = Router();
 // All user management routes are admin-only
 // Read routes - Use lenient readLimiter
 router.get('/', readLimiter, authenticate, requireAdmin, getAllUsers);
+// Must come before /:id to avoid route matching conflicts
+router.get('/no-shows', readLimiter, authenticate, requireAdmin, getNoShowCounts);
+router.get('/registration-settings', readLimiter, authenticate, requireAdmin, getRegistrationSettings);
+router.get('/invitations', readLimiter, authenticate, requireAdmin, getInvitations);
 router.get('/:id', readLimiter, authenticate, requireAdmin, getUserById);
+router.get('/:id/sessions', readLimiter, authenticate, requireAdmin, getUserSessions);
 
 // Write routes - Use stricter writeLimiter
 router.post('/', writeLimiter, authenticate, requireAdmin, createUser);
+router.post('/invitations', writeLimiter, authenticate, requireAdmin, createInvitation);
+router.put('/registration-settings', writeLimiter, authenticate, requireAdmin, updateRegistrationSettings);
 router.put('/:id', writeLimiter, authenticate, requireAdmin, updateUser);
+router.delete('/invitations/:id', writeLimiter, authenticate, requireAdmin, revokeInvitation);
 router.delete('/:id', writeLimiter, authenticate, requireAdmin, deleteUser);
+router.delete('/:id/sessions', writeLimiter, authenticate, requireAdmin, revokeUserSessions);
+router.delete('/:id/sessions/:sessionId', writeLimiter, authenticate, requireAdmin, revokeUserSession);
+router.delete('/:id/2fa', writeLimiter, authenticate, requireAdmin, resetUserTwoFactor);
 
 export default router;
@@ -8,6 +8,12 @@ import bookingRoutes from './routes/bookings.routes';
 import authRoutes from './routes/auth.routes';
 import usersRoutes from './routes/users.routes';
 import logsRoutes from './routes/logs.routes';
+import locationsRoutes from './routes/locations.routes';
+import analyticsRoutes from './routes/analytics.routes';
+import resourcesRoutes from './routes/resources.routes';
+import { MailService } from './services/mail.service';
+import { NoShowService } from './services/no-show.service';
+import { WaitlistService } from './services/waitlist.service';
 
 // Load .env file only if not running in a Docker environment
 // In Docker, environment variables are injected via docker-compose.yml
@@ -49,6 +55,9 @@ app.use('/api/rooms', roomRoutes);
 app.use('/api/bookings', bookingRoutes);
 app.use('/api/users', usersRoutes);
 app.use('/api/logs', logsRoutes);
+app.use('/api/locations', locationsRoutes);
+app.use('/api/analytics', analyticsRoutes);
+app.use('/api/resources', resourcesRoutes);
 
 // Basic route for testing server status
 app.get('/', (req, res) => {
@@ -60,6 +69,14 @@ dbReady
   .then(() => {
     app.listen(PORT, () => {
     });
+
+    MailService.checkConfiguration();
+
+    // Background job: release bookings that were not checked in within the room's grace period
+    NoShowService.start();
+
+    // Background job: hand slots freed without a notification (e.g. expired offers) to waiting users
+    WaitlistService.start();
   })
   .catch((error) => {
     console.error('Failed to initialize database:', error);
@@ -1,8 +1,8 @@
 import pool from '../models/db';
 import { getCurrentTimezoneNaiveTimestamp } from '../utils/date-utils';
 
-export type ActionType = 'CREATE' | 'UPDATE' | 'DELETE' | 'LOGIN' | 'LOGOUT';
-export type EntityType = 'BOOKING' | 'ROOM' | 'USER';
+export type ActionType = 'CREATE' | 'UPDATE' | 'DELETE' | 'CANCEL' | 'RESTORE' | 'APPROVE' | 'REJECT' | 'LOGIN' | 'LOGOUT';
+export type EntityType = 'BOOKING' | 'ROOM' | 'USER' | 'WAITLIST' | 'LOCATION' | 'RESOURCE';
 
 interface ActivityLogDetails {
   [key: string]: any;
@@ -18,8 +18,8 @@ export class ActivityLogService {
    * Log an activity to the activity_log table
    *
    * @param userId - ID of the user performing the action (null for system/guest actions)
-   * @param actionType - Type of action: CREATE, UPDATE, DELETE, LOGIN, LOGOUT
-   * @param entityType - Type of entity affected: BOOKING, ROOM, USER
+   * @param actionType - Type of action: CREATE, UPDATE, DELETE, CANCEL, RESTORE, APPROVE, REJECT, LOGIN, LOGOUT
+   * @param entityType - Type of entity affected: BOOKING, ROOM, USER, WAITLIST, LOCATION, RESOURCE
    * @param entityId - ID of the affected entity
    * @param details - Additional context (stored as JSON)
    */
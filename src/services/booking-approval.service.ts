@@ -0,0 +1,64 @@
+import { PoolConnection } from 'mysql2/promise';
+import pool from '../models/db';
+import { BookingStatus, LockedRoom } from './booking-conflict.service';
+
+interface Reviewer {
+  id: number;
+  role: string;
+}
+
+/**
+ * Booking Approval Service
+ * Rooms with requires_approval only take bookings as 'pending'. Admins and the room's
+ * managers (room_manager table) review them; their own bookings are confirmed directly.
+ */
+export class BookingApprovalService {
+
+  /**
+   * Whether the user may approve or reject bookings for the given room.
+   */
+  static async canReview(
+    user: Reviewer | null | undefined,
+    roomId: number | string,
+    connection?: PoolConnection
+  ): Promise<boolean> {
+    if (!user) {
+      return false;
+    }
+    if (user.role === 'admin') {
+      return true;
+    }
+
+    const [rows] = await (connection ?? pool).query<any[]>(
+      'SELECT 1 FROM room_manager WHERE room_id = ? AND user_id = ?',
+      [roomId, user.id]
+    );
+    return rows.length > 0;
+  }
+
+  /**
+   * IDs of the rooms the user manages.
+   */
+  static async getManagedRoomIds(userId: number): Promise<number[]> {
+    const [rows] = await pool.query<any[]>(
+      'SELECT room_id FROM room_manager WHERE user_id = ? ORDER BY room_id',
+      [userId]
+    );
+    return rows.map((row: any) => row.room_id);
+  }
+
+  /**
+   * Status for a new (or moved) booking in a locked room: 'pending' if the room requires
+   * approval and the user cannot approve it themselves, otherwise 'confirmed'.
+   */
+  static async getInitialStatus(
+    connection: PoolConnection,
+    room: LockedRoom,
+    user: Reviewer | null | undefined
+  ): Promise<BookingStatus> {
+    if (!room.requires_approval) {
+      return 'confirmed';
+    }
+    return (await BookingApprovalService.canReview(user, room.id, connection)) ? 'confirmed' : 'pending';
+  }
+}
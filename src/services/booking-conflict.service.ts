@@ -0,0 +1,235 @@
+import { PoolConnection } from 'mysql2/promise';
+import pool from '../models/db';
+import { getCurrentNaiveDateTimeString } from '../utils/date-utils';
+
+export type BookingStatus = 'confirmed' | 'pending' | 'canceled' | 'rejected';
+
+// Pending bookings reserve their slot tentatively, so they block other bookings like confirmed ones
+export const SLOT_BLOCKING_STATUSES: BookingStatus[] = ['confirmed', 'pending'];
+
+export interface ConflictingBooking {
+  id: number;
+  room_id: number;
+  title: string;
+  start_time: string;
+  end_time: string;
+  // Only set for bookings
+  comment?: string | null;
+  // 'waitlist_hold' = slot is temporarily offered to a waiting user (id is the waitlist entry)
+  // 'maintenance' = scheduled maintenance window of the room (id is the window)
+  source?: 'booking' | 'waitlist_hold' | 'maintenance';
+}
+
+export interface LockedRoom {
+  id: number;
+  status: string;
+  requires_approval: number;
+  archived_at: string | null;
+}
+
+/**
+ * Centralized Booking Conflict Service
+ * Single place for the overlap rule used by every booking write path
+ *
+ * CONCURRENCY: A conflict check followed by a separate INSERT/UPDATE is racy.
+ * Write paths therefore run inside withTransaction() and call lockRooms() first.
+ * The room row lock serializes all writers for the same room, so the second of two
+ * concurrent requests only runs its check after the first one has committed and
+ * deterministically receives a 409.
+ */
+export class BookingConflictService {
+
+  /**
+   * Lock the given room rows (SELECT ... FOR UPDATE) for the rest of the transaction.
+   * Rooms are locked in ascending ID order so multi-room writers cannot deadlock.
+   *
+   * @returns The locked rooms with their current status (missing rooms are omitted)
+   */
+  static async lockRooms(connection: PoolConnection, roomIds: Array<number | string>): Promise<LockedRoom[]> {
+    const uniqueIds = Array.from(new Set(roomIds.map(Number))).sort((a, b) => a - b);
+    if (uniqueIds.length === 0) {
+      return [];
+    }
+
+    const [rows] = await connection.query<any[]>(
+      'SELECT id, status, requires_approval, archived_at FROM room WHERE id IN (?) ORDER BY id FOR UPDATE',
+      [uniqueIds]
+    );
+    return rows as LockedRoom[];
+  }
+
+  /**
+   * Returns why a (locked) room cannot take new bookings, or null if it is bookable.
+   */
+  static getRoomBookingError(room: LockedRoom | undefined): { status: number; message: string } | null {
+    if (!room) {
+      return { status: 404, message: 'Room not found' };
+    }
+
+    if (room.archived_at) {
+      return { status: 400, message: 'Dieser Raum wurde archiviert und kann nicht mehr gebucht werden.' };
+    }
+
+    const roomStatus = (room.status ?? '').toString().toLowerCase();
+    if (roomStatus === 'inactive' || roomStatus === 'maintenance') {
+      return { status: 400, message: 'Für inaktive oder gewartete Räume können keine Buchungen erstellt werden.' };
+    }
+
+    return null;
+  }
+
+  /**
+   * Find confirmed or pending bookings in a room that overlap the given time range.
+   * Active waitlist claims (slots currently offered to a waiting user) and scheduled
+   * maintenance windows count as conflicts too.
+   *
+   * A booking overlaps if:
+   * 1. It starts before the requested end time AND
+   * 2. It ends after the requested start time
+   *
+   * @param roomId - Room to check
+   * @param startTime - Requested start ("YYYY-MM-DD HH:mm:ss")
+   * @param endTime - Requested end ("YYYY-MM-DD HH:mm:ss")
+   * @param excludeBookingIds - Bookings to ignore (e.g. the booking being rescheduled)
+   * @param connection - Transaction connection; the check then reads the latest committed rows
+   * @param excludeWaitlistIds - Waitlist holds to ignore (e.g. the claim being redeemed)
+   */
+  static async findConflicts(
+    roomId: number | string,
+    startTime: string,
+    endTime: string,
+    excludeBookingIds: Array<number | string> = [],
+    connection?: PoolConnection,
+    excludeWaitlistIds: Array<number | string> = []
+  ): Promise<ConflictingBooking[]> {
+    let query = `SELECT id, room_id, name AS title, start_time, end_time, comment
+                 FROM booking
+                 WHERE room_id = ?
+                 AND start_time < ?
+                 AND end_time > ?
+                 AND status IN (?)`;
+    const params: any[] = [roomId, endTime, startTime, SLOT_BLOCKING_STATUSES];
+
+    if (excludeBookingIds.length > 0) {
+      query += ' AND id NOT IN (?)';
+      params.push(excludeBookingIds);
+    }
+
+    query += ' ORDER BY start_time ASC';
+
+    let holdQuery = `SELECT id, room_id, start_time, end_time
+                     FROM booking_waitlist
+                     WHERE room_id = ?
+                     AND start_time < ?
+                     AND end_time > ?
+                     AND status = 'offered'
+                     AND offer_expires_at > ?`;
+    const holdParams: any[] = [roomId, endTime, startTime, getCurrentNaiveDateTimeString()];
+
+    if (excludeWaitlistIds.length > 0) {
+      holdQuery += ' AND id NOT IN (?)';
+      holdParams.push(excludeWaitlistIds);
+    }
+
+    const maintenanceQuery = `SELECT id, room_id, reason, start_time, end_time
+                              FROM room_maintenance
+                              WHERE room_id = ?
+                              AND start_time < ?
+                              AND end_time > ?`;
+    const maintenanceParams: any[] = [roomId, endTime, startTime];
+
+    // Locking read inside transactions: bypasses the snapshot and sees rows committed by earlier writers
+    const executor = connection ?? pool;
+    const lockSuffix = connection ? ' FOR UPDATE' : '';
+    const [rows] = await executor.query<any[]>(query + lockSuffix, params);
+    const [holdRows] = await executor.query<any[]>(holdQuery + lockSuffix, holdParams);
+    const [maintenanceRows] = await executor.query<any[]>(maintenanceQuery + lockSuffix, maintenanceParams);
+
+    const bookings: ConflictingBooking[] = rows.map((row: any) => ({ ...row, source: 'booking' }));
+    const holds: ConflictingBooking[] = holdRows.map((row: any) => ({
+      ...row,
+      title: 'Reserviert (Warteliste)',
+      source: 'waitlist_hold'
+    }));
+    const maintenance: ConflictingBooking[] = maintenanceRows.map((row: any) => ({
+      id: row.id,
+      room_id: row.room_id,
+      title: row.reason ? `Wartung: ${row.reason}` : 'Wartung',
+      start_time: row.start_time,
+      end_time: row.end_time,
+      source: 'maintenance'
+    }));
+
+    return [...bookings, ...holds, ...maintenance].sort((a, b) => a.start_time.localeCompare(b.start_time));
+  }
+
+  /**
+   * Check a list of time ranges in one room against existing bookings with a single query.
+   * Returns, for each requested range (same order), the first overlapping booking or null.
+   */
+  static async findConflictsForRanges(
+    roomId: number | string,
+    ranges: Array<{ start_time: string; end_time: string }>,
+    excludeBookingIds: Array<number | string> = [],
+    connection?: PoolConnection
+  ): Promise<Array<ConflictingBooking | null>> {
+    if (ranges.length === 0) {
+      return [];
+    }
+
+    const earliestStart = ranges.reduce((min, r) => (r.start_time < min ? r.start_time : min), ranges[0].start_time);
+    const latestEnd = ranges.reduce((max, r) => (r.end_time > max ? r.end_time : max), ranges[0].end_time);
+    const existing = await BookingConflictService.findConflicts(
+      roomId, earliestStart, latestEnd, excludeBookingIds, connection
+    );
+
+    // TIME ARCHITECTURE: String comparison works for "YYYY-MM-DD HH:mm:ss"
+    return ranges.map(range =>
+      existing.find(booking => booking.start_time < range.end_time && booking.end_time > range.start_time) ?? null
+    );
+  }
+
+  /**
+   * All busy ranges (confirmed/pending bookings, active waitlist holds and maintenance windows) of the given rooms
+   * that overlap [from, to), ordered by room and start time. Used by slot searches.
+   */
+  static async findBusyRanges(
+    roomIds: number[],
+    from: string,
+    to: string
+  ): Promise<Array<{ room_id: number; start_time: string; end_time: string }>> {
+    if (roomIds.length === 0) {
+      return [];
+    }
+
+    const [rows] = await pool.query<any[]>(
+      `SELECT room_id, start_time, end_time
+       FROM booking
+       WHERE room_id IN (?) AND start_time < ? AND end_time > ? AND status IN (?)
+       UNION ALL
+       SELECT room_id, start_time, end_time
+       FROM booking_waitlist
+       WHERE room_id IN (?) AND start_time < ? AND end_time > ? AND status = 'offered' AND offer_expires_at > ?
+       UNION ALL
+       SELECT room_id, start_time, end_time
+       FROM room_maintenance
+       WHERE room_id IN (?) AND start_time < ? AND end_time > ?
+       ORDER BY room_id ASC, start_time ASC`,
+      [roomIds, to, from, SLOT_BLOCKING_STATUSES, roomIds, to, from, getCurrentNaiveDateTimeString(), roomIds, to, from]
+    );
+    return rows as Array<{ room_id: number; start_time: string; end_time: string }>;
+  }
+
+  /**
+   * Shape a conflicting booking for the 409 response body.
+   */
+  static toConflictResponse(conflict: ConflictingBooking) {
+    return {
+      title: conflict.title,
+      name: conflict.title,
+      start_time: conflict.start_time,
+      end_time: conflict.end_time,
+      source: conflict.source ?? 'booking'
+    };
+  }
+}
@@ -0,0 +1,105 @@
+import { PoolConnection } from 'mysql2/promise';
+import pool from '../models/db';
+import { SLOT_BLOCKING_STATUSES } from './booking-conflict.service';
+import { BookingPolicy, getPolicyViolation, PolicyViolation } from '../utils/booking-policy';
+import { getCurrentNaiveDateTimeString, getCurrentTimezoneNaiveTimestamp } from '../utils/date-utils';
+
+interface PolicyCheck {
+  roomId: number | string;
+  // Booking user (guests: none); the waitlist checks on behalf of users outside a request
+  user: { id: number; role: string } | null | undefined;
+  ranges: Array<{ start_time: string; end_time: string }>;
+  // Bookings being changed; they do not count against the user's quota
+  excludeBookingIds?: Array<number | string>;
+}
+
+const toPolicy = (row: any): BookingPolicy => ({
+  min_duration_minutes: row.min_duration_minutes ?? null,
+  max_duration_minutes: row.max_duration_minutes ?? null,
+  min_notice_minutes: row.min_notice_minutes ?? null,
+  max_advance_days: row.max_advance_days ?? null,
+  max_active_bookings_per_user: row.max_active_bookings_per_user ?? null,
+  allow_guests: row.allow_guests === 1,
+});
+
+/**
+ * Booking Policy Service
+ * Loads and stores the per-room booking limits and checks bookings against them.
+ * Admins bypass every policy.
+ */
+export class BookingPolicyService {
+
+  /**
+   * Stored policy of a room, or null if the room has no limits.
+   */
+  static async getStoredPolicy(roomId: number | string, connection?: PoolConnection): Promise<BookingPolicy | null> {
+    const [rows] = await (connection ?? pool).query<any[]>('SELECT * FROM room_booking_policy WHERE room_id = ?', [roomId]);
+    return rows.length > 0 ? toPolicy(rows[0]) : null;
+  }
+
+  static async savePolicy(roomId: number, policy: BookingPolicy, updatedBy: number | null): Promise<void> {
+    const now = getCurrentTimezoneNaiveTimestamp();
+    await pool.query(
+      `INSERT INTO room_booking_policy (room_id, min_duration_minutes, max_duration_minutes, min_notice_minutes,
+                                        max_advance_days, max_active_bookings_per_user, allow_guests, updated_by, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+       ON DUPLICATE KEY UPDATE
+         min_duration_minutes = VALUES(min_duration_minutes),
+         max_duration_minutes = VALUES(max_duration_minutes),
+         min_notice_minutes = VALUES(min_notice_minutes),
+         max_advance_days = VALUES(max_advance_days),
+         max_active_bookings_per_user = VALUES(max_active_bookings_per_user),
+         allow_guests = VALUES(allow_guests),
+         updated_by = VALUES(updated_by),
+         updated_at = VALUES(updated_at)`,
+      [
+        roomId,
+        policy.min_duration_minutes,
+        policy.max_duration_minutes,
+        policy.min_notice_minutes,
+        policy.max_advance_days,
+        policy.max_active_bookings_per_user,
+        policy.allow_guests ? 1 : 0,
+        updatedBy,
+        now,
+        now
+      ]
+    );
+  }
+
+  static async deletePolicy(roomId: number): Promise<void> {
+    await pool.query('DELETE FROM room_booking_policy WHERE room_id = ?', [roomId]);
+  }
+
+  /**
+   * Checks new or changed booking ranges in one room against the room's policy
+   * (inside the caller's transaction, after the room was locked).
+   *
+   * @returns The violation to report, or null if the booking is allowed
+   */
+  static async checkBooking(connection: PoolConnection, check: PolicyCheck): Promise<PolicyViolation | null> {
+    if (check.user?.role === 'admin') {
+      return null;
+    }
+
+    const policy = await BookingPolicyService.getStoredPolicy(check.roomId, connection);
+    if (!policy) {
+      return null;
+    }
+
+    const nowStr = getCurrentNaiveDateTimeString();
+    let activeBookings = 0;
+    if (check.user && policy.max_active_bookings_per_user !== null) {
+      const excludeIds = check.excludeBookingIds ?? [];
+      const [rows] = await connection.query<any[]>(
+        `SELECT COUNT(*) AS total
+         FROM booking
+         WHERE room_id = ? AND created_by = ? AND end_time > ? AND status IN (?)${excludeIds.length > 0 ? ' AND id NOT IN (?)' : ''}`,
+        [check.roomId, check.user.id, nowStr, SLOT_BLOCKING_STATUSES, ...(excludeIds.length > 0 ? [excludeIds] : [])]
+      );
+      activeBookings = Number(rows[0].total);
+    }
+
+    return getPolicyViolation(policy, check.ranges, nowStr, !check.user, activeBookings);
+  }
+}
@@ -0,0 +1,156 @@
+import { PoolConnection } from 'mysql2/promise';
+import pool from '../models/db';
+import { Weekday } from '../utils/recurrence';
+import {
+  DayHours,
+  DEFAULT_BUSINESS_HOURS,
+  getBusinessHoursError,
+  WEEKDAY_CODES,
+  WeeklyHours
+} from '../utils/business-hours';
+import { getCurrentTimezoneNaiveTimestamp } from '../utils/date-utils';
+
+interface StoredHours {
+  // Global default (null if none is stored, i.e. the built-in default applies)
+  defaults: Partial<WeeklyHours> | null;
+  // Per-room overrides keyed by room ID
+  overrides: Map<number, Partial<WeeklyHours>>;
+}
+
+/**
+ * Business Hours Service
+ * Loads the stored opening hours and resolves the effective hours of a room:
+ * room override for the weekday, else the global default, else the built-in default.
+ */
+export class BusinessHoursService {
+
+  /**
+   * Effective opening hours of the given rooms.
+   */
+  static async getRoomHours(
+    roomIds: Array<number | string>,
+    connection?: PoolConnection
+  ): Promise<Map<number, WeeklyHours>> {
+    const uniqueIds = Array.from(new Set(roomIds.map(Number)));
+    const stored = await BusinessHoursService.loadStoredHours(uniqueIds, connection);
+    const defaults = BusinessHoursService.resolve(stored.defaults, null);
+
+    const result = new Map<number, WeeklyHours>();
+    for (const roomId of uniqueIds) {
+      result.set(roomId, BusinessHoursService.resolve(stored.overrides.get(roomId) ?? {}, defaults));
+    }
+    return result;
+  }
+
+  /**
+   * Global default opening hours.
+   *
+   * @returns The hours and whether they are the built-in default (nothing stored yet)
+   */
+  static async getDefaultHours(connection?: PoolConnection): Promise<{ hours: WeeklyHours; isBuiltIn: boolean }> {
+    const stored = await BusinessHoursService.loadStoredHours([], connection);
+    return {
+      hours: BusinessHoursService.resolve(stored.defaults, null),
+      isBuiltIn: stored.defaults === null
+    };
+  }
+
+  /**
+   * Weekdays for which the room has its own hours (omitted weekdays use the global default).
+   */
+  static async getRoomOverrides(roomId: number | string): Promise<Partial<WeeklyHours>> {
+    const stored = await BusinessHoursService.loadStoredHours([Number(roomId)]);
+    return stored.overrides.get(Number(roomId)) ?? {};
+  }
+
+  /**
+   * Replace the stored hours of a room (roomId null = global default) inside the caller's transaction.
+   * Weekdays missing from `hours` are removed; for the global default they are closed, for a room
+   * they fall back to the default again.
+   */
+  static async replaceHours(
+    connection: PoolConnection,
+    roomId: number | null,
+    hours: Partial<WeeklyHours>
+  ): Promise<void> {
+    if (roomId === null) {
+      await connection.query('DELETE FROM business_hours WHERE room_id IS NULL');
+    } else {
+      await connection.query('DELETE FROM business_hours WHERE room_id = ?', [roomId]);
+    }
+
+    const now = getCurrentTimezoneNaiveTimestamp();
+    const values = (Object.entries(hours) as Array<[Weekday, DayHours]>).map(([weekday, day]) => [
+      roomId, weekday, day?.open ?? null, day?.close ?? null, now, now
+    ]);
+
+    // The global default is always stored for all seven days, so closed days stay closed
+    if (roomId === null) {
+      for (const weekday of WEEKDAY_CODES) {
+        if (!(weekday in hours)) {
+          values.push([null, weekday, null, null, now, now]);
+        }
+      }
+    }
+
+    if (values.length > 0) {
+      await connection.query(
+        'INSERT INTO business_hours (room_id, weekday, open_time, close_time, created_at, updated_at) VALUES ?',
+        [values]
+      );
+    }
+  }
+
+  /**
+   * Returns why a booking range lies outside the room's opening hours, or null if it fits.
+   */
+  static async getBookingHoursError(
+    connection: PoolConnection,
+    roomId: number | string,
+    startTime: string,
+    endTime: string
+  ): Promise<{ status: number; message: string } | null> {
+    const hours = (await BusinessHoursService.getRoomHours([roomId], connection)).get(Number(roomId))!;
+    const message = getBusinessHoursError(hours, startTime, endTime);
+    return message ? { status: 400, message } : null;
+  }
+
+  private static async loadStoredHours(roomIds: number[], connection?: PoolConnection): Promise<StoredHours> {
+    const [rows] = await (connection ?? pool).query<any[]>(
+      `SELECT room_id, weekday,
+              TIME_FORMAT(open_time, '%H:%i') AS open_time,
+              TIME_FORMAT(close_time, '%H:%i') AS close_time
+       FROM business_hours
+       WHERE room_id IS NULL${roomIds.length > 0 ? ' OR room_id IN (?)' : ''}`,
+      roomIds.length > 0 ? [roomIds] : []
+    );
+
+    const stored: StoredHours = { defaults: null, overrides: new Map() };
+    for (const row of rows) {
+      const day: DayHours = row.open_time && row.close_time ? { open: row.open_time, close: row.close_time } : null;
+      if (row.room_id === null) {
+        stored.defaults = { ...(stored.defaults ?? {}), [row.weekday]: day };
+      } else {
+        const roomHours = stored.overrides.get(row.room_id) ?? {};
+        roomHours[row.weekday as Weekday] = day;
+        stored.overrides.set(row.room_id, roomHours);
+      }
+    }
+    return stored;
+  }
+
+  /**
+   * Fill the missing weekdays of `hours` from `fallback` (null = built-in default, missing days closed).
+   */
+  private static resolve(hours: Partial<WeeklyHours> | null, fallback: WeeklyHours | null): WeeklyHours {
+    if (hours === null) {
+      return { ...DEFAULT_BUSINESS_HOURS };
+    }
+
+    const resolved = {} as WeeklyHours;
+    for (const weekday of WEEKDAY_CODES) {
+      resolved[weekday] = weekday in hours ? hours[weekday] ?? null : (fallback ? fallback[weekday] : null);
+    }
+    return resolved;
+  }
+}
@@ -1,3 +1,5 @@
+import { RoomMedia } from '../utils/room-media';
+
 // Defines the structure of a booking object, using string types for datetimes
 // to ensure timezone-naive handling throughout the application.
 interface Booking {
@@ -16,8 +18,17 @@ interface RoomWithBookingInfo {
   capacity: number;
   status: string;
   location: string | null;
+  floor_id: number | null;
+  floor_name: string | null;
+  building_id: number | null;
+  building_name: string | null;
+  site_id: number | null;
+  site_name: string | null;
   amenities: string[] | null;
   icon: string | null;
+  check_in_grace_minutes: number | null;
+  requires_approval: boolean;
+  media: RoomMedia[];
   currentBooking: Booking | null;
   nextBooking: Booking | null;
   allBookingsToday: Booking[];
@@ -0,0 +1,127 @@
+import pool, { withTransaction } from '../models/db';
+import { getCurrentTimezoneNaiveTimestamp } from '../utils/date-utils';
+import { buildFrontendUrl } from '../utils/frontend-url';
+import { addSecondsToNaive } from '../utils/recurrence';
+import { generateSecureToken, hashSecureToken } from '../utils/secure-token';
+import { MailService } from './mail.service';
+
+const DEFAULT_TTL_HOURS = 48;
+
+// At most one confirmation mail per account in this time, however many IPs ask for it
+const RESEND_INTERVAL_SECONDS = 5 * 60;
+
+export type EmailVerificationOutcome =
+  | { ok: true; userId: number }
+  | { ok: false };
+
+/**
+ * Email Verification Service
+ * Self-registered accounts start unverified (user.email_verified_at NULL) and cannot log in until the
+ * mailed confirmation link is opened. The token expires after EMAIL_VERIFICATION_TTL_HOURS, works once,
+ * and only its SHA-256 hash is stored.
+ */
+export class EmailVerificationService {
+
+  /**
+   * Lifetime of a confirmation link (EMAIL_VERIFICATION_TTL_HOURS, default: 48 hours).
+   */
+  static getTtlHours(): number {
+    const hours = Number(process.env.EMAIL_VERIFICATION_TTL_HOURS);
+    return Number.isInteger(hours) && hours > 0 ? hours : DEFAULT_TTL_HOURS;
+  }
+
+  /**
+   * Link to the frontend's confirmation page (EMAIL_VERIFICATION_URL, default: <FRONTEND_URL>/verify-email).
+   */
+  static buildVerificationUrl(token: string): string {
+    return buildFrontendUrl(process.env.EMAIL_VERIFICATION_URL, '/verify-email', { token });
+  }
+
+  /**
+   * Mails a new confirmation link; earlier links of the user stop working. Delivery happens in the background.
+   */
+  static async sendVerification(user: { id: number; email: string; firstname: string }): Promise<void> {
+    const now = getCurrentTimezoneNaiveTimestamp();
+    const token = generateSecureToken();
+    const ttlHours = EmailVerificationService.getTtlHours();
+
+    await pool.query('DELETE FROM email_verification_token WHERE user_id = ? AND used_at IS NULL', [user.id]);
+    await pool.query(
+      'INSERT INTO email_verification_token (user_id, token_hash, expires_at, created_at) VALUES (?, ?, ?, ?)',
+      [user.id, hashSecureToken(token), addSecondsToNaive(now, ttlHours * 60 * 60), now]
+    );
+
+    void MailService.sendQuietly({
+      to: user.email,
+      subject: 'E-Mail-Adresse bestätigen',
+      text: [
+        `Hallo ${user.firstname},`,
+        '',
+        'bitte bestätigen Sie Ihre E-Mail-Adresse, um Ihr Konto zu aktivieren:',
+        '',
+        EmailVerificationService.buildVerificationUrl(token),
+        '',
+        `Der Link ist ${ttlHours} Stunden gültig.`,
+        'Wenn Sie sich nicht registriert haben, können Sie diese E-Mail ignorieren.'
+      ].join('\n')
+    });
+  }
+
+  /**
+   * Mails a new confirmation link if the address belongs to an active, unverified account.
+   * Resolves the same way whether or not a mail was sent.
+   */
+  static async resendVerification(email: string): Promise<void> {
+    const [userRows] = await pool.query<any[]>(
+      'SELECT id, email, firstname, is_active, email_verified_at FROM `user` WHERE email = ? LIMIT 1',
+      [email]
+    );
+    const user = userRows[0];
+    if (!user || !user.is_active || user.email_verified_at) {
+      return;
+    }
+
+    const [recentRows] = await pool.query<any[]>(
+      'SELECT id FROM email_verification_token WHERE user_id = ? AND used_at IS NULL AND created_at > ? LIMIT 1',
+      [user.id, addSecondsToNaive(getCurrentTimezoneNaiveTimestamp(), -RESEND_INTERVAL_SECONDS)]
+    );
+    if (recentRows.length > 0) {
+      return;
+    }
+
+    await EmailVerificationService.sendVerification(user);
+  }
+
+  /**
+   * Confirms the address of the token's user and consumes the token.
+   */
+  static async verify(token: string): Promise<EmailVerificationOutcome> {
+    return withTransaction(async (connection): Promise<EmailVerificationOutcome> => {
+      const [rows] = await connection.query<any[]>(
+        `SELECT id, user_id, expires_at, used_at
+         FROM email_verification_token
+         WHERE token_hash = ?
+         FOR UPDATE`,
+        [hashSecureToken(token)]
+      );
+
+      const now = getCurrentTimezoneNaiveTimestamp();
+      const row = rows[0];
+      if (!row || row.used_at || row.expires_at <= now) {
+        return { ok: false };
+      }
+
+      await connection.query(
+        'UPDATE `user` SET email_verified_at = COALESCE(email_verified_at, ?), updated_at = ? WHERE id = ?',
+        [now, now, row.user_id]
+      );
+      await connection.query('UPDATE email_verification_token SET used_at = ? WHERE id = ?', [now, row.id]);
+      await connection.query(
+        'DELETE FROM email_verification_token WHERE user_id = ? AND used_at IS NULL',
+        [row.user_id]
+      );
+
+      return { ok: true, userId: row.user_id };
+    });
+  }
+}
@@ -0,0 +1,290 @@
+import { randomBytes } from 'crypto';
+import { promises as fs } from 'fs';
+import net from 'net';
+import os from 'os';
+import path from 'path';
+import tls from 'tls';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+/**
+ * Delivery backend for outgoing mail. Messages are plain text (UTF-8).
+ */
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+const SMTP_TIMEOUT_MS = 30_000;
+
+const getSender = (): string => process.env.MAIL_FROM || 'no-reply@13rooms.local';
+
+/**
+ * Builds an RFC 5322 message. The body is base64-encoded, so no line needs dot-stuffing.
+ */
+const buildMimeMessage = (from: string, message: MailMessage): string => {
+  for (const value of [from, message.to, message.subject]) {
+    if (/[\r\n]/.test(value)) {
+      throw new Error('Mail headers must not contain line breaks');
+    }
+  }
+
+  const subject = /^[\x20-\x7e]*$/.test(message.subject)
+    ? message.subject
+    : `=?UTF-8?B?${Buffer.from(message.subject, 'utf8').toString('base64')}?=`;
+  const body = Buffer.from(message.text, 'utf8').toString('base64').replace(/.{76}/g, '$&\r\n');
+  const domain = from.split('@')[1] || 'localhost';
+
+  return [
+    `From: ${from}`,
+    `To: ${message.to}`,
+    `Subject: ${subject}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${randomBytes(16).toString('hex')}@${domain}>`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    body
+  ].join('\r\n');
+};
+
+/**
+ * Development backend: prints every message to the console.
+ */
+export class ConsoleMailTransport implements MailTransport {
+  async send(message: MailMessage): Promise<void> {
+    console.log(`[MAIL] To: ${message.to}\n[MAIL] Subject: ${message.subject}\n${message.text}`);
+  }
+}
+
+/**
+ * Development backend: writes every message as an .eml file below MAIL_FILE_DIR (default ./mail-outbox).
+ */
+export class FileMailTransport implements MailTransport {
+  constructor(private readonly dir: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await fs.mkdir(this.dir, { recursive: true });
+    const fileName = `${Date.now()}-${randomBytes(4).toString('hex')}.eml`;
+    await fs.writeFile(path.join(this.dir, fileName), buildMimeMessage(getSender(), message));
+  }
+}
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  // true = TLS from the start (port 465); otherwise STARTTLS is used when the server offers it
+  secure: boolean;
+  user?: string;
+  password?: string;
+}
+
+interface SmtpResponse {
+  code: number;
+  text: string;
+}
+
+/**
+ * Minimal SMTP client for one message per connection (EHLO, STARTTLS, AUTH PLAIN, MAIL, RCPT, DATA).
+ */
+class SmtpConnection {
+  private socket: net.Socket | null = null;
+  private buffer = '';
+  private lines: string[] = [];
+  private responses: SmtpResponse[] = [];
+  private waiting: Array<{ resolve: (response: SmtpResponse) => void; reject: (error: Error) => void }> = [];
+  private failure: Error | null = null;
+
+  constructor(private readonly options: SmtpOptions) {}
+
+  private onData = (chunk: Buffer) => {
+    this.buffer += chunk.toString('utf8');
+    let index: number;
+    while ((index = this.buffer.indexOf('\r\n')) >= 0) {
+      const line = this.buffer.slice(0, index);
+      this.buffer = this.buffer.slice(index + 2);
+      this.lines.push(line.slice(4));
+
+      // "250-..." continues a multi-line response, "250 ..." ends it
+      if (line[3] !== '-') {
+        const response = { code: parseInt(line.slice(0, 3), 10), text: this.lines.join('\n') };
+        this.lines = [];
+        const waiter = this.waiting.shift();
+        if (waiter) {
+          waiter.resolve(response);
+        } else {
+          this.responses.push(response);
+        }
+      }
+    }
+  };
+
+  private onFailure = (error: Error) => {
+    this.failure = this.failure ?? error;
+    for (const waiter of this.waiting.splice(0)) {
+      waiter.reject(this.failure);
+    }
+  };
+
+  private attach(socket: net.Socket): void {
+    this.socket = socket;
+    socket.setTimeout(SMTP_TIMEOUT_MS);
+    socket.on('data', this.onData);
+    socket.on('timeout', () => socket.destroy(new Error('SMTP connection timed out')));
+    socket.on('error', this.onFailure);
+    socket.on('close', () => this.onFailure(new Error('SMTP connection closed')));
+  }
+
+  private read(): Promise<SmtpResponse> {
+    const response = this.responses.shift();
+    if (response) {
+      return Promise.resolve(response);
+    }
+    if (this.failure) {
+      return Promise.reject(this.failure);
+    }
+    return new Promise((resolve, reject) => this.waiting.push({ resolve, reject }));
+  }
+
+  /**
+   * Sends a command and checks the reply code. The label names the step in errors (never the credentials).
+   */
+  private async command(line: string, expected: number[], label = line): Promise<SmtpResponse> {
+    this.socket!.write(`${line}\r\n`);
+    return this.expect(expected, label);
+  }
+
+  private async expect(expected: number[], label: string): Promise<SmtpResponse> {
+    const response = await this.read();
+    if (!expected.includes(response.code)) {
+      throw new Error(`SMTP ${label} failed: ${response.code} ${response.text}`);
+    }
+    return response;
+  }
+
+  async send(from: string, to: string, data: string): Promise<void> {
+    const { host, port, secure, user, password } = this.options;
+    this.attach(secure ? tls.connect({ host, port, servername: host }) : net.connect({ host, port }));
+
+    try {
+      await this.expect([220], 'greeting');
+      let ehlo = await this.command(`EHLO ${os.hostname() || 'localhost'}`, [250], 'EHLO');
+      let encrypted = secure;
+
+      if (!secure && /^STARTTLS$/im.test(ehlo.text)) {
+        await this.command('STARTTLS', [220]);
+        const plainSocket = this.socket!;
+        plainSocket.removeListener('data', this.onData);
+        this.attach(tls.connect({ socket: plainSocket, servername: host }));
+        ehlo = await this.command(`EHLO ${os.hostname() || 'localhost'}`, [250], 'EHLO');
+        encrypted = true;
+      }
+
+      if (user) {
+        if (!encrypted) {
+          throw new Error('SMTP server does not offer STARTTLS; refusing to send credentials unencrypted');
+        }
+        const credentials = Buffer.from(`\0${user}\0${password ?? ''}`, 'utf8').toString('base64');
+        await this.command(`AUTH PLAIN ${credentials}`, [235], 'AUTH');
+      }
+
+      await this.command(`MAIL FROM:<${from}>`, [250], 'MAIL FROM');
+      await this.command(`RCPT TO:<${to}>`, [250, 251], 'RCPT TO');
+      await this.command('DATA', [354]);
+      await this.command(`${data}\r\n.`, [250], 'message transfer');
+      await this.command('QUIT', [221]).catch(() => undefined);
+    } finally {
+      this.socket?.end();
+    }
+  }
+}
+
+/**
+ * Production backend: delivers through an SMTP server (SMTP_HOST, SMTP_PORT, SMTP_SECURE, SMTP_USER, SMTP_PASSWORD).
+ */
+export class SmtpMailTransport implements MailTransport {
+  constructor(private readonly options: SmtpOptions) {}
+
+  async send(message: MailMessage): Promise<void> {
+    const from = getSender();
+    await new SmtpConnection(this.options).send(from, message.to, buildMimeMessage(from, message));
+  }
+}
+
+type MailTransportFactory = () => MailTransport;
+
+/**
+ * Mail Service
+ * Selects the mail transport by the MAIL_TRANSPORT environment variable (default: console).
+ * In production MAIL_TRANSPORT must be set: the console transport would print password reset and
+ * confirmation links, which work like credentials, to the server log.
+ * Further transports (e.g. a mail API) are added with register() before the first message.
+ */
+export class MailService {
+  private static factories: Record<string, MailTransportFactory> = {
+    console: () => new ConsoleMailTransport(),
+    file: () => new FileMailTransport(process.env.MAIL_FILE_DIR || path.join(process.cwd(), 'mail-outbox')),
+    smtp: () => {
+      if (!process.env.SMTP_HOST) {
+        throw new Error('SMTP_HOST must be set for the smtp mail transport');
+      }
+      const secure = process.env.SMTP_SECURE === 'true';
+      return new SmtpMailTransport({
+        host: process.env.SMTP_HOST,
+        port: Number(process.env.SMTP_PORT) || (secure ? 465 : 587),
+        secure,
+        user: process.env.SMTP_USER || undefined,
+        password: process.env.SMTP_PASSWORD || undefined
+      });
+    },
+  };
+  private static transport: MailTransport | null = null;
+
+  static register(name: string, factory: MailTransportFactory): void {
+    this.factories[name] = factory;
+    this.transport = null;
+  }
+
+  /**
+   * Warns at startup when no transport is configured in production (mails are not sent then).
+   */
+  static checkConfiguration(): void {
+    if (process.env.NODE_ENV === 'production' && !process.env.MAIL_TRANSPORT) {
+      console.warn('[MAIL] MAIL_TRANSPORT is not set - no mails (password reset, email confirmation, invitations) will be sent.');
+    }
+  }
+
+  static getTransport(): MailTransport {
+    if (!this.transport) {
+      if (process.env.NODE_ENV === 'production' && !process.env.MAIL_TRANSPORT) {
+        throw new Error('MAIL_TRANSPORT must be set in production');
+      }
+      const name = process.env.MAIL_TRANSPORT || 'console';
+      const factory = this.factories[name];
+      if (!factory) {
+        throw new Error(`Unknown mail transport: ${name}`);
+      }
+      this.transport = factory();
+    }
+    return this.transport;
+  }
+
+  static async send(message: MailMessage): Promise<void> {
+    await this.getTransport().send(message);
+  }
+
+  /**
+   * Sends a message without failing the calling request; delivery errors are only logged.
+   */
+  static async sendQuietly(message: MailMessage): Promise<void> {
+    try {
+      await this.send(message);
+    } catch (error) {
+      console.error(`[MAIL] Failed to send "${message.subject}":`, error);
+    }
+  }
+}
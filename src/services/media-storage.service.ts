@@ -0,0 +1,95 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+/**
+ * Storage backend for uploaded room media.
+ * Keys are generated by the API ("<roomId>/<random>.<ext>"); backends only store and return bytes.
+ */
+export interface MediaStorage {
+  save(key: string, data: Buffer): Promise<void>;
+  // Resolves to null if the file does not exist
+  read(key: string): Promise<Buffer | null>;
+  // Removing a missing file is not an error
+  remove(key: string): Promise<void>;
+}
+
+/**
+ * Default backend: files on the local filesystem below MEDIA_STORAGE_DIR (default ./uploads/room-media).
+ */
+export class LocalMediaStorage implements MediaStorage {
+  constructor(private readonly baseDir: string) {}
+
+  private resolve(key: string): string {
+    const filePath = path.resolve(this.baseDir, key);
+    // Keys never leave the storage directory
+    if (!filePath.startsWith(path.resolve(this.baseDir) + path.sep)) {
+      throw new Error(`Invalid media storage key: ${key}`);
+    }
+    return filePath;
+  }
+
+  async save(key: string, data: Buffer): Promise<void> {
+    const filePath = this.resolve(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, data);
+  }
+
+  async read(key: string): Promise<Buffer | null> {
+    try {
+      return await fs.readFile(this.resolve(key));
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async remove(key: string): Promise<void> {
+    await fs.rm(this.resolve(key), { force: true });
+  }
+}
+
+type MediaStorageFactory = () => MediaStorage;
+
+/**
+ * Media Storage Service
+ * Selects the storage backend for room media by the MEDIA_STORAGE environment variable (default: local).
+ * Further backends (e.g. an object store) are added with register() before the first upload.
+ */
+export class MediaStorageService {
+  private static factories: Record<string, MediaStorageFactory> = {
+    local: () => new LocalMediaStorage(process.env.MEDIA_STORAGE_DIR || path.join(process.cwd(), 'uploads', 'room-media')),
+  };
+  private static backend: MediaStorage | null = null;
+
+  static register(name: string, factory: MediaStorageFactory): void {
+    this.factories[name] = factory;
+    this.backend = null;
+  }
+
+  static getBackend(): MediaStorage {
+    if (!this.backend) {
+      const name = process.env.MEDIA_STORAGE || 'local';
+      const factory = this.factories[name];
+      if (!factory) {
+        throw new Error(`Unknown media storage backend: ${name}`);
+      }
+      this.backend = factory();
+    }
+    return this.backend;
+  }
+
+  /**
+   * Removes stored files without failing the calling request (e.g. after their rows were deleted).
+   */
+  static async removeQuietly(keys: string[]): Promise<void> {
+    for (const key of keys) {
+      try {
+        await this.getBackend().remove(key);
+      } catch (error) {
+        console.error(`[MEDIA STORAGE] Failed to remove ${key}:`, error);
+      }
+    }
+  }
+}
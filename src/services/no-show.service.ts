@@ -0,0 +1,128 @@
+import pool from '../models/db';
+import { ActivityLogService } from './activity-log.service';
+import { invalidateRoomsCache } from './cache.service';
+import { WaitlistService } from './waitlist.service';
+import { getCurrentNaiveDateTimeString, getCurrentTimezoneNaiveTimestamp } from '../utils/date-utils';
+
+// System cancellation reason for released no-show bookings (also used to count no-shows per user).
+// Users can enter any cancel reason, so only system cancellations (canceled_by NULL) count as no-shows.
+export const NO_SHOW_CANCEL_REASON = 'NO_SHOW';
+
+const DEFAULT_INTERVAL_MS = 60 * 1000;
+
+/**
+ * No-Show Release Service
+ * Background job that cancels bookings which were not checked in within their room's grace period,
+ * so rooms that were booked but never used show up as free again.
+ *
+ * Only rooms with a check_in_grace_minutes value take part. Bookings that have already ended
+ * are left alone - releasing them would not free anything.
+ */
+export class NoShowService {
+  private static timer: NodeJS.Timeout | null = null;
+  private static running = false;
+
+  /**
+   * Start the periodic release job (idempotent).
+   * Interval can be configured with NO_SHOW_CHECK_INTERVAL_MS (default: 60 seconds).
+   */
+  static start(): void {
+    if (NoShowService.timer) {
+      return;
+    }
+
+    const intervalMs = Number(process.env.NO_SHOW_CHECK_INTERVAL_MS) || DEFAULT_INTERVAL_MS;
+    NoShowService.timer = setInterval(() => {
+      void NoShowService.releaseNoShows();
+    }, intervalMs);
+    console.log(`[NoShow] Release job started (interval: ${Math.round(intervalMs / 1000)}s)`);
+  }
+
+  static stop(): void {
+    if (NoShowService.timer) {
+      clearInterval(NoShowService.timer);
+      NoShowService.timer = null;
+    }
+  }
+
+  /**
+   * Cancel every confirmed, unchecked booking whose grace period has passed.
+   *
+   * @returns Number of released bookings
+   */
+  static async releaseNoShows(): Promise<number> {
+    // Skip if the previous run is still in progress
+    if (NoShowService.running) {
+      return 0;
+    }
+    NoShowService.running = true;
+
+    try {
+      // TIME ARCHITECTURE: Compare against a timezone-naive "now" string
+      const nowStr = getCurrentNaiveDateTimeString();
+
+      const [rows] = await pool.query<any[]>(
+        `SELECT booking.id, booking.room_id, booking.name, booking.start_time, booking.end_time,
+                booking.created_by, room.check_in_grace_minutes
+         FROM booking
+         INNER JOIN room ON room.id = booking.room_id
+         WHERE booking.status = 'confirmed'
+         AND booking.checked_in_at IS NULL
+         AND room.check_in_grace_minutes IS NOT NULL
+         AND booking.start_time <= DATE_SUB(?, INTERVAL room.check_in_grace_minutes MINUTE)
+         AND booking.end_time > ?`,
+        [nowStr, nowStr]
+      );
+
+      let released = 0;
+      const releasedRoomIds: number[] = [];
+      for (const booking of rows) {
+        const canceledAt = getCurrentTimezoneNaiveTimestamp();
+        const [result] = await pool.query<any>(
+          `UPDATE booking
+           SET status = 'canceled', canceled_by = NULL, canceled_reason = ?, canceled_at = ?, updated_at = ?
+           WHERE id = ? AND status = 'confirmed' AND checked_in_at IS NULL`,
+          [NO_SHOW_CANCEL_REASON, canceledAt, canceledAt, booking.id]
+        );
+
+        // Checked in or canceled between the SELECT and the UPDATE
+        if (result.affectedRows === 0) {
+          continue;
+        }
+
+        released++;
+        releasedRoomIds.push(booking.room_id);
+        await ActivityLogService.logActivity(
+          null,
+          'CANCEL',
+          'BOOKING',
+          booking.id,
+          {
+            room_id: booking.room_id,
+            title: booking.name,
+            start_time: booking.start_time,
+            end_time: booking.end_time,
+            owner_id: booking.created_by,
+            reason: NO_SHOW_CANCEL_REASON,
+            grace_minutes: booking.check_in_grace_minutes,
+            auto_release: true
+          }
+        );
+      }
+
+      if (released > 0) {
+        console.log(`[NoShow] Released ${released} unchecked booking(s)`);
+        invalidateRoomsCache();
+        WaitlistService.notifySlotFreed(releasedRoomIds);
+      }
+
+      return released;
+    } catch (error) {
+      // Log the error but keep the job alive for the next run
+      console.error('[NoShow] Failed to release no-show bookings:', error);
+      return 0;
+    } finally {
+      NoShowService.running = false;
+    }
+  }
+}
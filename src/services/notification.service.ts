@@ -0,0 +1,81 @@
+import { PoolConnection } from 'mysql2/promise';
+import pool from '../models/db';
+import { getCurrentTimezoneNaiveTimestamp } from '../utils/date-utils';
+
+export type NotificationType = 'BOOKING_CANCELED' | 'BOOKING_MOVED' | 'WAITLIST_OFFERED' | 'WAITLIST_BOOKED';
+
+export interface NewNotification {
+  userId: number;
+  type: NotificationType;
+  message: string;
+  bookingId?: number | null;
+}
+
+export interface UserNotification {
+  id: number;
+  type: NotificationType;
+  message: string;
+  booking_id: number | null;
+  read_at: string | null;
+  created_at: string;
+}
+
+/**
+ * Notification Service
+ * In-app messages for users about changes they did not make themselves
+ * (e.g. bookings canceled or moved because their room was archived, or a waitlist slot that became free).
+ * Users read them via GET /api/bookings/my-bookings/notifications.
+ */
+export class NotificationService {
+
+  /**
+   * Stores notifications, inside the caller's transaction if a connection is given.
+   */
+  static async notify(notifications: NewNotification[], connection?: PoolConnection): Promise<void> {
+    if (notifications.length === 0) {
+      return;
+    }
+
+    const now = getCurrentTimezoneNaiveTimestamp();
+    await (connection ?? pool).query(
+      'INSERT INTO user_notification (user_id, type, message, booking_id, created_at) VALUES ?',
+      [notifications.map(notification => [
+        notification.userId,
+        notification.type,
+        notification.message.slice(0, 500),
+        notification.bookingId ?? null,
+        now
+      ])]
+    );
+  }
+
+  /**
+   * Newest notifications of a user first.
+   */
+  static async getForUser(userId: number, unreadOnly: boolean, limit: number): Promise<UserNotification[]> {
+    const [rows] = await pool.query<any[]>(
+      `SELECT id, type, message, booking_id, read_at, created_at
+       FROM user_notification
+       WHERE user_id = ?${unreadOnly ? ' AND read_at IS NULL' : ''}
+       ORDER BY created_at DESC, id DESC
+       LIMIT ?`,
+      [userId, limit]
+    );
+    return rows as UserNotification[];
+  }
+
+  /**
+   * Marks the given notifications (or all of them) of a user as read.
+   *
+   * @returns Number of notifications that were unread before
+   */
+  static async markAsRead(userId: number, ids: number[] | null): Promise<number> {
+    const [result] = await pool.query<any>(
+      `UPDATE user_notification
+       SET read_at = ?
+       WHERE user_id = ? AND read_at IS NULL${ids ? ' AND id IN (?)' : ''}`,
+      [getCurrentTimezoneNaiveTimestamp(), userId, ...(ids ? [ids] : [])]
+    );
+    return result.affectedRows;
+  }
+}
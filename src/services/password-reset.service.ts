@@ -0,0 +1,127 @@
+import pool, { withTransaction } from '../models/db';
+import { getCurrentTimezoneNaiveTimestamp } from '../utils/date-utils';
+import { buildFrontendUrl } from '../utils/frontend-url';
+import { addSecondsToNaive } from '../utils/recurrence';
+import { generateSecureToken, hashSecureToken } from '../utils/secure-token';
+import { MailService } from './mail.service';
+import { RefreshTokenService } from './refresh-token.service';
+
+const DEFAULT_TTL_MINUTES = 60;
+
+// At most one reset mail per account in this time, however many IPs ask for it
+const RESEND_INTERVAL_SECONDS = 5 * 60;
+
+export type PasswordResetOutcome =
+  | { ok: true; userId: number }
+  | { ok: false };
+
+/**
+ * Password Reset Service
+ * "Forgot password" flow: a reset link with a random token is mailed to the account's address.
+ * The token expires after PASSWORD_RESET_TTL_MINUTES, works once, and only its SHA-256 hash is stored.
+ * Resetting the password ends every session of the user.
+ */
+export class PasswordResetService {
+
+  /**
+   * Lifetime of a reset link (PASSWORD_RESET_TTL_MINUTES, default: 60 minutes).
+   */
+  static getTtlMinutes(): number {
+    const minutes = Number(process.env.PASSWORD_RESET_TTL_MINUTES);
+    return Number.isInteger(minutes) && minutes > 0 ? minutes : DEFAULT_TTL_MINUTES;
+  }
+
+  /**
+   * Link to the frontend's reset page (PASSWORD_RESET_URL, default: <FRONTEND_URL>/reset-password).
+   */
+  static buildResetUrl(token: string): string {
+    return buildFrontendUrl(process.env.PASSWORD_RESET_URL, '/reset-password', { token });
+  }
+
+  /**
+   * Mails a reset link if the address belongs to an active account.
+   * Resolves the same way whether or not a mail was sent; delivery happens in the background.
+   */
+  static async requestReset(email: string): Promise<void> {
+    const [userRows] = await pool.query<any[]>(
+      'SELECT id, email, firstname, is_active FROM `user` WHERE email = ? LIMIT 1',
+      [email]
+    );
+    const user = userRows[0];
+    if (!user || !user.is_active) {
+      return;
+    }
+
+    const now = getCurrentTimezoneNaiveTimestamp();
+    const [recentRows] = await pool.query<any[]>(
+      'SELECT id FROM password_reset_token WHERE user_id = ? AND used_at IS NULL AND created_at > ? LIMIT 1',
+      [user.id, addSecondsToNaive(now, -RESEND_INTERVAL_SECONDS)]
+    );
+    if (recentRows.length > 0) {
+      return;
+    }
+
+    // Only the newest link works
+    await pool.query('DELETE FROM password_reset_token WHERE user_id = ? AND used_at IS NULL', [user.id]);
+
+    const token = generateSecureToken();
+    const ttlMinutes = PasswordResetService.getTtlMinutes();
+    await pool.query(
+      'INSERT INTO password_reset_token (user_id, token_hash, expires_at, created_at) VALUES (?, ?, ?, ?)',
+      [user.id, hashSecureToken(token), addSecondsToNaive(now, ttlMinutes * 60), now]
+    );
+
+    void MailService.sendQuietly({
+      to: user.email,
+      subject: 'Passwort zurücksetzen',
+      text: [
+        `Hallo ${user.firstname},`,
+        '',
+        'für Ihr Konto wurde das Zurücksetzen des Passworts angefordert. Über diesen Link können Sie ein neues Passwort festlegen:',
+        '',
+        PasswordResetService.buildResetUrl(token),
+        '',
+        `Der Link ist ${ttlMinutes} Minuten gültig und kann nur einmal verwendet werden.`,
+        'Wenn Sie das nicht angefordert haben, können Sie diese E-Mail ignorieren; Ihr Passwort bleibt unverändert.'
+      ].join('\n')
+    });
+  }
+
+  /**
+   * Sets a new password with a reset token (the password hash is computed, and validated, by the caller).
+   * Consumes the token, drops the user's other reset links and ends all of the user's sessions.
+   */
+  static async resetPassword(token: string, passwordHash: string): Promise<PasswordResetOutcome> {
+    return withTransaction(async (connection): Promise<PasswordResetOutcome> => {
+      const [rows] = await connection.query<any[]>(
+        `SELECT password_reset_token.id, password_reset_token.user_id, password_reset_token.expires_at,
+                password_reset_token.used_at, \`user\`.is_active
+         FROM password_reset_token
+         INNER JOIN \`user\` ON \`user\`.id = password_reset_token.user_id
+         WHERE password_reset_token.token_hash = ?
+         FOR UPDATE`,
+        [hashSecureToken(token)]
+      );
+
+      const now = getCurrentTimezoneNaiveTimestamp();
+      const row = rows[0];
+      if (!row || row.used_at || row.expires_at <= now || !row.is_active) {
+        return { ok: false };
+      }
+
+      // The link reached the account's mailbox, which also confirms the address
+      await connection.query(
+        'UPDATE `user` SET password_hash = ?, email_verified_at = COALESCE(email_verified_at, ?), updated_at = ? WHERE id = ?',
+        [passwordHash, now, now, row.user_id]
+      );
+      await connection.query('UPDATE password_reset_token SET used_at = ? WHERE id = ?', [now, row.id]);
+      await connection.query(
+        'DELETE FROM password_reset_token WHERE user_id = ? AND used_at IS NULL',
+        [row.user_id]
+      );
+      await RefreshTokenService.endAllSessions(row.user_id, 'PASSWORD_CHANGED', connection);
+
+      return { ok: true, userId: row.user_id };
+    });
+  }
+}
@@ -0,0 +1,224 @@
+import { randomUUID } from 'crypto';
+import { PoolConnection } from 'mysql2/promise';
+import pool, { withTransaction } from '../models/db';
+import { getCurrentTimezoneNaiveTimestamp } from '../utils/date-utils';
+import { addSecondsToNaive } from '../utils/recurrence';
+import { generateSecureToken, hashSecureToken } from '../utils/secure-token';
+
+const DEFAULT_TTL_DAYS = 30;
+
+export type RefreshTokenRevokeReason =
+  | 'LOGOUT'
+  | 'REUSE_DETECTED'
+  | 'ACCOUNT_DISABLED'
+  | 'ROLE_CHANGED'
+  | 'PASSWORD_CHANGED'
+  | 'ADMIN_REVOKED';
+
+// Client of a login or refresh request (shown in the session list)
+export interface ClientInfo {
+  userAgent: string | null;
+  ipAddress: string | null;
+}
+
+export interface IssuedRefreshToken {
+  token: string;
+  familyId: string;
+  expiresAt: string;
+}
+
+export interface RefreshTokenOwner {
+  userId: number;
+  familyId: string;
+}
+
+export interface UserSession {
+  id: string; // family_id, also the sid claim of the session's access tokens
+  created_at: string | null; // Login time
+  last_refreshed_at: string;
+  expires_at: string;
+  user_agent: string | null;
+  ip_address: string | null;
+}
+
+export type RefreshOutcome =
+  | {
+    ok: true;
+    user: { id: number; email: string; role: 'user' | 'admin'; tokenVersion: number };
+    refreshToken: IssuedRefreshToken;
+  }
+  | {
+    ok: false;
+    reason: 'INVALID' | 'EXPIRED' | 'REVOKED' | 'REUSED' | 'ACCOUNT_DISABLED';
+    owner?: RefreshTokenOwner;
+  };
+
+/**
+ * Refresh Token Service
+ * Every login starts a token family (family_id). A refresh token can be exchanged exactly once:
+ * rotating marks it as used and issues its successor in the same family. Presenting a used token
+ * again means it was copied, so the whole family is revoked and the session has to log in again.
+ *
+ * A family is an active session while it holds a token that is neither used, revoked nor expired.
+ * Access tokens carry their family (sid) and are rejected as soon as the session ends
+ * (see middleware/auth.middleware.ts).
+ *
+ * Only the SHA-256 hash of a refresh token is stored (see utils/secure-token.ts).
+ */
+export class RefreshTokenService {
+
+  /**
+   * Lifetime of a refresh token (REFRESH_TOKEN_TTL_DAYS, default: 30 days).
+   * Every rotation starts a new lifetime, so active sessions stay logged in.
+   */
+  static getTtlDays(): number {
+    const days = Number(process.env.REFRESH_TOKEN_TTL_DAYS);
+    return Number.isInteger(days) && days > 0 ? days : DEFAULT_TTL_DAYS;
+  }
+
+  /**
+   * Issues a refresh token, inside the caller's transaction if a connection is given.
+   * Without a familyId a new family (= new login session) is started.
+   */
+  static async issue(
+    userId: number,
+    client: ClientInfo,
+    familyId: string = randomUUID(),
+    connection?: PoolConnection
+  ): Promise<IssuedRefreshToken> {
+    const db = connection ?? pool;
+    const now = getCurrentTimezoneNaiveTimestamp();
+    const expiresAt = addSecondsToNaive(now, RefreshTokenService.getTtlDays() * 24 * 60 * 60);
+    const token = generateSecureToken();
+
+    // Housekeeping: expired tokens of the user are useless, also for reuse detection
+    await db.query('DELETE FROM refresh_token WHERE user_id = ? AND expires_at < ?', [userId, now]);
+
+    await db.query(
+      `INSERT INTO refresh_token (user_id, family_id, token_hash, expires_at, user_agent, ip_address, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      [userId, familyId, hashSecureToken(token), expiresAt, client.userAgent?.slice(0, 255) ?? null, client.ipAddress, now]
+    );
+
+    return { token, familyId, expiresAt };
+  }
+
+  /**
+   * Exchanges a refresh token for its successor. The user is read fresh from the database,
+   * so role changes apply with the next access token.
+   */
+  static async rotate(token: string, client: ClientInfo): Promise<RefreshOutcome> {
+    return withTransaction(async (connection): Promise<RefreshOutcome> => {
+      const [rows] = await connection.query<any[]>(
+        `SELECT refresh_token.id, refresh_token.user_id, refresh_token.family_id, refresh_token.expires_at,
+                refresh_token.used_at, refresh_token.revoked_at,
+                \`user\`.email, \`user\`.role, \`user\`.is_active, \`user\`.token_version
+         FROM refresh_token
+         INNER JOIN \`user\` ON \`user\`.id = refresh_token.user_id
+         WHERE refresh_token.token_hash = ?
+         FOR UPDATE`,
+        [hashSecureToken(token)]
+      );
+
+      if (rows.length === 0) {
+        return { ok: false, reason: 'INVALID' };
+      }
+
+      const row = rows[0];
+      const owner: RefreshTokenOwner = { userId: row.user_id, familyId: row.family_id };
+      const now = getCurrentTimezoneNaiveTimestamp();
+
+      if (row.revoked_at) {
+        return { ok: false, reason: 'REVOKED', owner };
+      }
+      if (row.used_at) {
+        await RefreshTokenService.revokeFamily(row.family_id, 'REUSE_DETECTED', connection);
+        return { ok: false, reason: 'REUSED', owner };
+      }
+      if (row.expires_at <= now) {
+        return { ok: false, reason: 'EXPIRED', owner };
+      }
+      if (!row.is_active) {
+        await RefreshTokenService.revokeFamily(row.family_id, 'ACCOUNT_DISABLED', connection);
+        return { ok: false, reason: 'ACCOUNT_DISABLED', owner };
+      }
+
+      await connection.query('UPDATE refresh_token SET used_at = ? WHERE id = ?', [now, row.id]);
+      const refreshToken = await RefreshTokenService.issue(row.user_id, client, row.family_id, connection);
+
+      return {
+        ok: true,
+        user: { id: row.user_id, email: row.email, role: row.role, tokenVersion: row.token_version },
+        refreshToken
+      };
+    });
+  }
+
+  /**
+   * Owner and family of a refresh token (also used, revoked or expired ones), or null if unknown.
+   */
+  static async findOwner(token: string): Promise<RefreshTokenOwner | null> {
+    const [rows] = await pool.query<any[]>(
+      'SELECT user_id, family_id FROM refresh_token WHERE token_hash = ? LIMIT 1',
+      [hashSecureToken(token)]
+    );
+    return rows.length > 0 ? { userId: rows[0].user_id, familyId: rows[0].family_id } : null;
+  }
+
+  /**
+   * Revokes every token of a family that is not revoked yet.
+   *
+   * @returns Number of tokens revoked
+   */
+  static async revokeFamily(familyId: string, reason: RefreshTokenRevokeReason, connection?: PoolConnection): Promise<number> {
+    const [result] = await (connection ?? pool).query<any>(
+      'UPDATE refresh_token SET revoked_at = ?, revoked_reason = ? WHERE family_id = ? AND revoked_at IS NULL',
+      [getCurrentTimezoneNaiveTimestamp(), reason, familyId]
+    );
+    return result.affectedRows;
+  }
+
+  /**
+   * Revokes the tokens of every session of a user.
+   *
+   * @returns Number of tokens revoked
+   */
+  static async revokeAllForUser(userId: number, reason: RefreshTokenRevokeReason, connection?: PoolConnection): Promise<number> {
+    const [result] = await (connection ?? pool).query<any>(
+      'UPDATE refresh_token SET revoked_at = ?, revoked_reason = ? WHERE user_id = ? AND revoked_at IS NULL',
+      [getCurrentTimezoneNaiveTimestamp(), reason, userId]
+    );
+    return result.affectedRows;
+  }
+
+  /**
+   * Active sessions of a user, most recently refreshed first.
+   */
+  static async getSessions(userId: number): Promise<UserSession[]> {
+    const [rows] = await pool.query<any[]>(
+      `SELECT refresh_token.family_id AS id,
+              (SELECT MIN(family.created_at) FROM refresh_token family WHERE family.family_id = refresh_token.family_id) AS created_at,
+              refresh_token.created_at AS last_refreshed_at,
+              refresh_token.expires_at, refresh_token.user_agent, refresh_token.ip_address
+       FROM refresh_token
+       WHERE refresh_token.user_id = ?
+       AND refresh_token.used_at IS NULL
+       AND refresh_token.revoked_at IS NULL
+       AND refresh_token.expires_at > ?
+       ORDER BY refresh_token.created_at DESC, refresh_token.id DESC`,
+      [userId, getCurrentTimezoneNaiveTimestamp()]
+    );
+    return rows;
+  }
+
+  /**
+   * Ends every session of a user and invalidates all access tokens issued so far
+   * (also those without a session) by raising user.token_version.
+   *
+   * @returns Number of refresh tokens revoked
+   */
+  static async endAllSessions(userId: number, reason: RefreshTokenRevokeReason, connection?: PoolConnection): Promise<number> {
+    await (connection ?? pool).query('UPDATE `user` SET token_version = token_version + 1 WHERE id = ?', [userId]);
+    return RefreshTokenService.revokeAllForUser(userId, reason, connection);
+  }
+}
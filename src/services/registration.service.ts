@@ -0,0 +1,188 @@
+import { PoolConnection } from 'mysql2/promise';
+import pool from '../models/db';
+import { getCurrentTimezoneNaiveTimestamp } from '../utils/date-utils';
+import { buildFrontendUrl } from '../utils/frontend-url';
+import { addSecondsToNaive } from '../utils/recurrence';
+import { generateSecureToken, hashSecureToken } from '../utils/secure-token';
+import { MailService } from './mail.service';
+
+const DEFAULT_INVITATION_TTL_DAYS = 7;
+
+export type RegistrationMode = 'open' | 'domains' | 'invite_only';
+
+export const REGISTRATION_MODES: RegistrationMode[] = ['open', 'domains', 'invite_only'];
+
+export interface RegistrationSettings {
+  mode: RegistrationMode;
+  allowed_domains: string[];
+}
+
+export interface NewInvitation {
+  email: string;
+  firstname: string | null;
+  surname: string | null;
+  role: 'user' | 'admin';
+}
+
+export interface PendingInvitation extends NewInvitation {
+  id: number;
+  expires_at: string;
+}
+
+// Built-in default while no settings were saved
+const DEFAULT_SETTINGS: RegistrationSettings = { mode: 'open', allowed_domains: [] };
+
+/**
+ * Registration Service
+ * Decides who may create an account themselves (registration_settings) and manages invitations.
+ * Invitations are mailed as a link with a random token (only its SHA-256 hash is stored); registering
+ * with the token creates a verified account with the invited email and role, in every mode.
+ */
+export class RegistrationService {
+
+  static async getSettings(): Promise<RegistrationSettings> {
+    const [rows] = await pool.query<any[]>('SELECT mode, allowed_domains FROM registration_settings WHERE id = 1');
+    if (rows.length === 0) {
+      return { ...DEFAULT_SETTINGS };
+    }
+
+    const domains = typeof rows[0].allowed_domains === 'string'
+      ? JSON.parse(rows[0].allowed_domains)
+      : rows[0].allowed_domains;
+    return { mode: rows[0].mode, allowed_domains: Array.isArray(domains) ? domains : [] };
+  }
+
+  static async saveSettings(settings: RegistrationSettings): Promise<void> {
+    await pool.query(
+      `INSERT INTO registration_settings (id, mode, allowed_domains, updated_at) VALUES (1, ?, ?, ?)
+       ON DUPLICATE KEY UPDATE mode = VALUES(mode), allowed_domains = VALUES(allowed_domains), updated_at = VALUES(updated_at)`,
+      [settings.mode, JSON.stringify(settings.allowed_domains), getCurrentTimezoneNaiveTimestamp()]
+    );
+  }
+
+  /**
+   * Why the email may not register itself under the given settings, or null if it may.
+   */
+  static getSelfRegistrationError(settings: RegistrationSettings, email: string): string | null {
+    if (settings.mode === 'invite_only') {
+      return 'Registration is by invitation only.';
+    }
+    if (settings.mode === 'domains') {
+      const domain = email.slice(email.lastIndexOf('@') + 1);
+      if (!settings.allowed_domains.includes(domain)) {
+        return 'Registration is not available for this email domain.';
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Lifetime of an invitation (INVITATION_TTL_DAYS, default: 7 days).
+   */
+  static getInvitationTtlDays(): number {
+    const days = Number(process.env.INVITATION_TTL_DAYS);
+    return Number.isInteger(days) && days > 0 ? days : DEFAULT_INVITATION_TTL_DAYS;
+  }
+
+  /**
+   * Link to the frontend's registration page (INVITATION_URL, default: <FRONTEND_URL>/register).
+   */
+  static buildInvitationUrl(token: string): string {
+    return buildFrontendUrl(process.env.INVITATION_URL, '/register', { invite: token });
+  }
+
+  /**
+   * Stores an invitation and mails the link (delivery happens in the background).
+   * Earlier pending invitations for the same email are revoked.
+   */
+  static async createInvitation(invitation: NewInvitation, invitedBy: number | null): Promise<PendingInvitation> {
+    const now = getCurrentTimezoneNaiveTimestamp();
+    const ttlDays = RegistrationService.getInvitationTtlDays();
+    const expiresAt = addSecondsToNaive(now, ttlDays * 24 * 60 * 60);
+    const token = generateSecureToken();
+
+    await pool.query(
+      'UPDATE user_invitation SET revoked_at = ? WHERE email = ? AND accepted_at IS NULL AND revoked_at IS NULL',
+      [now, invitation.email]
+    );
+    const [result] = await pool.query<any>(
+      `INSERT INTO user_invitation (email, firstname, surname, role, token_hash, invited_by, expires_at, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      [invitation.email, invitation.firstname, invitation.surname, invitation.role, hashSecureToken(token), invitedBy, expiresAt, now]
+    );
+
+    void MailService.sendQuietly({
+      to: invitation.email,
+      subject: 'Einladung zu 13Rooms',
+      text: [
+        invitation.firstname ? `Hallo ${invitation.firstname},` : 'Hallo,',
+        '',
+        'Sie wurden eingeladen, ein Konto für die Raumbuchung anzulegen. Über diesen Link können Sie sich registrieren:',
+        '',
+        RegistrationService.buildInvitationUrl(token),
+        '',
+        `Die Einladung ist ${ttlDays} Tage gültig.`
+      ].join('\n')
+    });
+
+    return { id: result.insertId, ...invitation, expires_at: expiresAt };
+  }
+
+  /**
+   * All invitations, newest first, with their status (pending, accepted, revoked or expired).
+   */
+  static async getInvitations(): Promise<any[]> {
+    const [rows] = await pool.query<any[]>(
+      `SELECT id, email, firstname, surname, role, invited_by, expires_at, accepted_at, accepted_user_id, revoked_at, created_at,
+              CASE
+                WHEN accepted_at IS NOT NULL THEN 'accepted'
+                WHEN revoked_at IS NOT NULL THEN 'revoked'
+                WHEN expires_at <= ? THEN 'expired'
+                ELSE 'pending'
+              END AS status
+       FROM user_invitation
+       ORDER BY created_at DESC, id DESC`,
+      [getCurrentTimezoneNaiveTimestamp()]
+    );
+    return rows;
+  }
+
+  /**
+   * Revokes a pending invitation.
+   *
+   * @returns The revoked invitation, or null if there is no pending invitation with this ID
+   */
+  static async revokeInvitation(id: number): Promise<PendingInvitation | null> {
+    const [rows] = await pool.query<any[]>(
+      `SELECT id, email, firstname, surname, role, expires_at FROM user_invitation
+       WHERE id = ? AND accepted_at IS NULL AND revoked_at IS NULL`,
+      [id]
+    );
+    if (rows.length === 0) {
+      return null;
+    }
+
+    await pool.query('UPDATE user_invitation SET revoked_at = ? WHERE id = ?', [getCurrentTimezoneNaiveTimestamp(), id]);
+    return rows[0];
+  }
+
+  /**
+   * The pending (not accepted, revoked or expired) invitation of a token, or null.
+   * Inside a transaction the invitation is locked until it is accepted.
+   */
+  static async findPendingInvitation(token: string, connection?: PoolConnection): Promise<PendingInvitation | null> {
+    const [rows] = await (connection ?? pool).query<any[]>(
+      `SELECT id, email, firstname, surname, role, expires_at FROM user_invitation
+       WHERE token_hash = ? AND accepted_at IS NULL AND revoked_at IS NULL AND expires_at > ?${connection ? ' FOR UPDATE' : ''}`,
+      [hashSecureToken(token), getCurrentTimezoneNaiveTimestamp()]
+    );
+    return rows[0] ?? null;
+  }
+
+  static async markAccepted(connection: PoolConnection, invitationId: number, userId: number): Promise<void> {
+    await connection.query(
+      'UPDATE user_invitation SET accepted_at = ?, accepted_user_id = ? WHERE id = ?',
+      [getCurrentTimezoneNaiveTimestamp(), userId, invitationId]
+    );
+  }
+}
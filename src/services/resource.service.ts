@@ -0,0 +1,114 @@
+import { PoolConnection } from 'mysql2/promise';
+import pool from '../models/db';
+import { SLOT_BLOCKING_STATUSES } from './booking-conflict.service';
+import { findResourceShortages, ResourceRange, ResourceRequest, ResourceShortage } from '../utils/resources';
+
+export interface BookingResource {
+  resource_id: number;
+  name: string;
+  quantity: number;
+}
+
+export interface ResourceCheck {
+  // Requested resource IDs that are not in the catalogue
+  unknownIds: number[];
+  // Per range: the first resource that is short, or null
+  shortages: Array<ResourceShortage | null>;
+}
+
+/**
+ * Resource Service
+ * Reserves catalogue items (see utils/resources.ts) for bookings.
+ *
+ * CONCURRENCY: Like rooms, the resource rows are locked (SELECT ... FOR UPDATE, ascending ID order)
+ * before availability is checked, so concurrent bookings cannot reserve the same last item.
+ * Writers lock their rooms first and their resources second.
+ */
+export class ResourceService {
+
+  /**
+   * Checks requested ranges against the catalogue and the reservations of other bookings
+   * (inside the caller's transaction; locks the requested resources).
+   *
+   * @param excludeBookingIds - Bookings being changed; their own reservations do not count
+   */
+  static async checkAvailability(
+    connection: PoolConnection,
+    ranges: ResourceRange[],
+    excludeBookingIds: Array<number | string> = []
+  ): Promise<ResourceCheck> {
+    const resourceIds = Array.from(new Set(ranges.flatMap(range => range.resources.map(request => request.resource_id))))
+      .sort((a, b) => a - b);
+    if (resourceIds.length === 0) {
+      return { unknownIds: [], shortages: ranges.map(() => null) };
+    }
+
+    const [resourceRows] = await connection.query<any[]>(
+      'SELECT id, name, quantity FROM resource WHERE id IN (?) ORDER BY id FOR UPDATE',
+      [resourceIds]
+    );
+    const quantities = new Map<number, { name: string; quantity: number }>(
+      resourceRows.map((row: any) => [row.id, { name: row.name, quantity: row.quantity }])
+    );
+    const unknownIds = resourceIds.filter(resourceId => !quantities.has(resourceId));
+    if (unknownIds.length > 0) {
+      return { unknownIds, shortages: ranges.map(() => null) };
+    }
+
+    const windowStart = ranges.reduce((min, range) => range.start_time < min ? range.start_time : min, ranges[0].start_time);
+    const windowEnd = ranges.reduce((max, range) => range.end_time > max ? range.end_time : max, ranges[0].end_time);
+    const [reservationRows] = await connection.query<any[]>(
+      `SELECT booking_resource.resource_id, booking_resource.quantity, booking.start_time, booking.end_time
+       FROM booking_resource
+       INNER JOIN booking ON booking.id = booking_resource.booking_id
+       WHERE booking_resource.resource_id IN (?)
+       AND booking.start_time < ?
+       AND booking.end_time > ?
+       AND booking.status IN (?)${excludeBookingIds.length > 0 ? ' AND booking.id NOT IN (?)' : ''}`,
+      [resourceIds, windowEnd, windowStart, SLOT_BLOCKING_STATUSES, ...(excludeBookingIds.length > 0 ? [excludeBookingIds] : [])]
+    );
+
+    return { unknownIds: [], shortages: findResourceShortages(quantities, reservationRows, ranges) };
+  }
+
+  /**
+   * Reserved resources per booking (with the resource name).
+   */
+  static async getReservations(
+    bookingIds: Array<number | string>,
+    connection?: PoolConnection
+  ): Promise<Map<number, BookingResource[]>> {
+    const byBooking = new Map<number, BookingResource[]>();
+    if (bookingIds.length === 0) {
+      return byBooking;
+    }
+
+    const [rows] = await (connection ?? pool).query<any[]>(
+      `SELECT booking_resource.booking_id, booking_resource.resource_id, resource.name, booking_resource.quantity
+       FROM booking_resource
+       INNER JOIN resource ON resource.id = booking_resource.resource_id
+       WHERE booking_resource.booking_id IN (?)
+       ORDER BY resource.name ASC`,
+      [bookingIds]
+    );
+    for (const row of rows) {
+      const list = byBooking.get(row.booking_id) ?? [];
+      list.push({ resource_id: row.resource_id, name: row.name, quantity: row.quantity });
+      byBooking.set(row.booking_id, list);
+    }
+    return byBooking;
+  }
+
+  /**
+   * Replaces the reservations of a booking (inside the caller's transaction).
+   */
+  static async saveReservations(connection: PoolConnection, bookingId: number, resources: ResourceRequest[]): Promise<void> {
+    await connection.query('DELETE FROM booking_resource WHERE booking_id = ?', [bookingId]);
+    if (resources.length > 0) {
+      await connection.query(
+        'INSERT INTO booking_resource (booking_id, resource_id, quantity) VALUES ?',
+        [resources.map(request => [bookingId, request.resource_id, request.quantity])]
+      );
+    }
+  }
+}
@@ -0,0 +1,262 @@
+import { PoolConnection } from 'mysql2/promise';
+import pool, { withTransaction } from '../models/db';
+import { getCurrentTimezoneNaiveTimestamp } from '../utils/date-utils';
+import { addSecondsToNaive } from '../utils/recurrence';
+import { generateSecureToken, hashSecureToken } from '../utils/secure-token';
+import {
+  buildOtpauthUri,
+  generateRecoveryCodes,
+  generateTotpSecret,
+  normalizeRecoveryCode,
+  verifyTotp
+} from '../utils/totp';
+
+const RECOVERY_CODE_COUNT = 10;
+const CHALLENGE_TTL_SECONDS = 5 * 60;
+
+// Wrong codes per login challenge before the user has to enter the password again
+export const MAX_CHALLENGE_ATTEMPTS = 5;
+
+export type SecondFactorMethod = 'totp' | 'recovery_code';
+
+export interface SecondFactorInput {
+  code?: string;
+  recoveryCode?: string;
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  enabled_at: string | null;
+  recovery_codes_remaining: number;
+  required: boolean;
+}
+
+export type ChallengeOutcome =
+  | {
+    ok: true;
+    method: SecondFactorMethod;
+    user: { id: number; email: string; firstname: string; surname: string; role: 'user' | 'admin'; token_version: number };
+  }
+  | { ok: false; reason: 'INVALID_CHALLENGE' }
+  | { ok: false; reason: 'INVALID_CODE'; userId: number; attemptsLeft: number };
+
+/**
+ * Two-Factor Service
+ * Optional TOTP second factor (see utils/totp.ts). Enrolment stores a pending secret that becomes active
+ * once the user confirms it with a code; enabling also issues one-time recovery codes (stored hashed).
+ * With REQUIRE_ADMIN_2FA=true admins keep only user rights until they have enabled it
+ * (see middleware/auth.middleware.ts).
+ *
+ * With 2FA enabled, login is a two-step exchange: the password check returns a short-lived challenge
+ * token, which is exchanged together with a code for the session.
+ */
+export class TwoFactorService {
+
+  static isRequiredForRole(role: 'user' | 'admin'): boolean {
+    return role === 'admin' && process.env.REQUIRE_ADMIN_2FA === 'true';
+  }
+
+  static async getStatus(userId: number): Promise<TwoFactorStatus> {
+    const [rows] = await pool.query<any[]>(
+      `SELECT \`user\`.role, \`user\`.totp_enabled_at,
+              (SELECT COUNT(*) FROM user_recovery_code
+               WHERE user_recovery_code.user_id = \`user\`.id AND user_recovery_code.used_at IS NULL) AS recovery_codes_remaining
+       FROM \`user\`
+       WHERE \`user\`.id = ?`,
+      [userId]
+    );
+
+    return {
+      enabled: Boolean(rows[0]?.totp_enabled_at),
+      enabled_at: rows[0]?.totp_enabled_at ?? null,
+      recovery_codes_remaining: Number(rows[0]?.recovery_codes_remaining ?? 0),
+      required: Boolean(rows[0]) && TwoFactorService.isRequiredForRole(rows[0].role)
+    };
+  }
+
+  /**
+   * Starts (or restarts) enrolment with a new pending secret.
+   */
+  static async startEnrolment(userId: number, email: string): Promise<{ secret: string; otpauth_uri: string }> {
+    const secret = generateTotpSecret();
+    await pool.query('UPDATE `user` SET totp_pending_secret = ? WHERE id = ?', [secret, userId]);
+    return { secret, otpauth_uri: buildOtpauthUri(secret, email) };
+  }
+
+  /**
+   * Activates the pending secret if the code matches it.
+   *
+   * @returns The new recovery codes (shown once), or null if there is no pending enrolment or the code is wrong
+   */
+  static async confirmEnrolment(userId: number, code: string): Promise<string[] | null> {
+    return withTransaction(async (connection): Promise<string[] | null> => {
+      const [rows] = await connection.query<any[]>(
+        'SELECT totp_pending_secret FROM `user` WHERE id = ? FOR UPDATE',
+        [userId]
+      );
+      const secret = rows[0]?.totp_pending_secret;
+      const step = secret ? verifyTotp(secret, code) : null;
+      if (step === null) {
+        return null;
+      }
+
+      await connection.query(
+        `UPDATE \`user\`
+         SET totp_secret = ?, totp_pending_secret = NULL, totp_enabled_at = ?, totp_last_used_step = ?
+         WHERE id = ?`,
+        [secret, getCurrentTimezoneNaiveTimestamp(), step, userId]
+      );
+      return TwoFactorService.replaceRecoveryCodes(connection, userId);
+    });
+  }
+
+  /**
+   * Checks a TOTP code (each time step is accepted once) or consumes a recovery code
+   * (inside the caller's transaction; locks the user row).
+   */
+  static async verifySecondFactor(
+    connection: PoolConnection,
+    userId: number,
+    input: SecondFactorInput
+  ): Promise<SecondFactorMethod | null> {
+    const [rows] = await connection.query<any[]>(
+      'SELECT totp_secret, totp_last_used_step FROM `user` WHERE id = ? FOR UPDATE',
+      [userId]
+    );
+    const user = rows[0];
+    if (!user?.totp_secret) {
+      return null;
+    }
+
+    if (input.code) {
+      const lastStep = user.totp_last_used_step === null ? null : Number(user.totp_last_used_step);
+      const step = verifyTotp(user.totp_secret, input.code, lastStep);
+      if (step !== null) {
+        await connection.query('UPDATE `user` SET totp_last_used_step = ? WHERE id = ?', [step, userId]);
+        return 'totp';
+      }
+    }
+
+    if (input.recoveryCode) {
+      const [result] = await connection.query<any>(
+        `UPDATE user_recovery_code SET used_at = ?
+         WHERE user_id = ? AND code_hash = ? AND used_at IS NULL
+         LIMIT 1`,
+        [getCurrentTimezoneNaiveTimestamp(), userId, hashSecureToken(normalizeRecoveryCode(input.recoveryCode))]
+      );
+      if (result.affectedRows > 0) {
+        return 'recovery_code';
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Replaces all recovery codes of a user (inside the caller's transaction).
+   *
+   * @returns The new codes in plain text (shown once)
+   */
+  static async replaceRecoveryCodes(connection: PoolConnection, userId: number): Promise<string[]> {
+    const codes = generateRecoveryCodes(RECOVERY_CODE_COUNT);
+    const now = getCurrentTimezoneNaiveTimestamp();
+
+    await connection.query('DELETE FROM user_recovery_code WHERE user_id = ?', [userId]);
+    await connection.query(
+      'INSERT INTO user_recovery_code (user_id, code_hash, created_at) VALUES ?',
+      [codes.map(code => [userId, hashSecureToken(normalizeRecoveryCode(code)), now])]
+    );
+    return codes;
+  }
+
+  /**
+   * Turns 2FA off and removes secret, recovery codes and open login challenges.
+   */
+  static async disable(userId: number, connection?: PoolConnection): Promise<void> {
+    const db = connection ?? pool;
+    await db.query(
+      `UPDATE \`user\`
+       SET totp_secret = NULL, totp_pending_secret = NULL, totp_enabled_at = NULL, totp_last_used_step = NULL
+       WHERE id = ?`,
+      [userId]
+    );
+    await db.query('DELETE FROM user_recovery_code WHERE user_id = ?', [userId]);
+    await db.query('DELETE FROM two_factor_challenge WHERE user_id = ?', [userId]);
+  }
+
+  /**
+   * Starts the second login step after a successful password check.
+   */
+  static async createChallenge(userId: number): Promise<{ token: string; expiresIn: number }> {
+    const now = getCurrentTimezoneNaiveTimestamp();
+    const token = generateSecureToken();
+
+    // Housekeeping: finished and expired challenges of the user
+    await pool.query(
+      'DELETE FROM two_factor_challenge WHERE user_id = ? AND (expires_at < ? OR used_at IS NOT NULL)',
+      [userId, now]
+    );
+    await pool.query(
+      'INSERT INTO two_factor_challenge (user_id, token_hash, expires_at, created_at) VALUES (?, ?, ?, ?)',
+      [userId, hashSecureToken(token), addSecondsToNaive(now, CHALLENGE_TTL_SECONDS), now]
+    );
+
+    return { token, expiresIn: CHALLENGE_TTL_SECONDS };
+  }
+
+  /**
+   * Completes the second login step. Wrong codes count against the challenge;
+   * after MAX_CHALLENGE_ATTEMPTS the challenge is void.
+   */
+  static async completeChallenge(token: string, input: SecondFactorInput): Promise<ChallengeOutcome> {
+    return withTransaction(async (connection): Promise<ChallengeOutcome> => {
+      const [rows] = await connection.query<any[]>(
+        `SELECT two_factor_challenge.id, two_factor_challenge.user_id, two_factor_challenge.failed_attempts,
+                two_factor_challenge.expires_at, two_factor_challenge.used_at,
+                \`user\`.email, \`user\`.firstname, \`user\`.surname, \`user\`.role, \`user\`.is_active,
+                \`user\`.token_version, \`user\`.email_verified_at
+         FROM two_factor_challenge
+         INNER JOIN \`user\` ON \`user\`.id = two_factor_challenge.user_id
+         WHERE two_factor_challenge.token_hash = ?
+         FOR UPDATE`,
+        [hashSecureToken(token)]
+      );
+
+      const now = getCurrentTimezoneNaiveTimestamp();
+      const row = rows[0];
+      if (!row || row.used_at || row.expires_at <= now || row.failed_attempts >= MAX_CHALLENGE_ATTEMPTS
+        || !row.is_active || !row.email_verified_at) {
+        return { ok: false, reason: 'INVALID_CHALLENGE' };
+      }
+
+      const method = await TwoFactorService.verifySecondFactor(connection, row.user_id, input);
+      if (!method) {
+        await connection.query(
+          'UPDATE two_factor_challenge SET failed_attempts = failed_attempts + 1 WHERE id = ?',
+          [row.id]
+        );
+        return {
+          ok: false,
+          reason: 'INVALID_CODE',
+          userId: row.user_id,
+          attemptsLeft: MAX_CHALLENGE_ATTEMPTS - row.failed_attempts - 1
+        };
+      }
+
+      await connection.query('UPDATE two_factor_challenge SET used_at = ? WHERE id = ?', [now, row.id]);
+
+      return {
+        ok: true,
+        method,
+        user: {
+          id: row.user_id,
+          email: row.email,
+          firstname: row.firstname,
+          surname: row.surname,
+          role: row.role,
+          token_version: row.token_version
+        }
+      };
+    });
+  }
+}
@@ -0,0 +1,366 @@
+import { PoolConnection } from 'mysql2/promise';
+import pool, { withTransaction } from '../models/db';
+import { ActivityLogService } from './activity-log.service';
+import { BookingApprovalService } from './booking-approval.service';
+import { BookingConflictService, BookingStatus } from './booking-conflict.service';
+import { BookingPolicyService } from './booking-policy.service';
+import { BusinessHoursService } from './business-hours.service';
+import { invalidateRoomsCache } from './cache.service';
+import { MailService } from './mail.service';
+import { NewNotification, NotificationService } from './notification.service';
+import { getBusinessHoursError } from '../utils/business-hours';
+import { getCurrentNaiveDateTimeString, getCurrentTimezoneNaiveTimestamp } from '../utils/date-utils';
+import { buildFrontendUrl } from '../utils/frontend-url';
+import { addSecondsToNaive } from '../utils/recurrence';
+
+export type WaitlistStatus = 'waiting' | 'offered' | 'fulfilled' | 'expired' | 'canceled';
+
+// Entries in these states still take part in the queue
+export const ACTIVE_WAITLIST_STATUSES: WaitlistStatus[] = ['waiting', 'offered'];
+
+const DEFAULT_INTERVAL_MS = 60 * 1000;
+const DEFAULT_CLAIM_MINUTES = 30;
+
+interface WaitlistResult {
+  entryId: number;
+  userId: number;
+  userEmail: string;
+  userFirstname: string;
+  roomId: number;
+  roomName: string;
+  title: string;
+  start_time: string;
+  end_time: string;
+  // Set when the slot was booked automatically
+  bookingId?: number;
+  bookingStatus?: BookingStatus;
+  // Set when the slot is held for the user to claim
+  offerExpiresAt?: string;
+}
+
+/**
+ * Waitlist Service
+ * Hands freed slots to waiting users, first come first served per room.
+ *
+ * When a booking is canceled, moved away or released, the room's waiting entries are checked in
+ * creation order. An entry whose whole range is free again is either booked directly (auto_book)
+ * or offered: the slot is then held for that user until offer_expires_at and blocks everyone else
+ * (see BookingConflictService.findConflicts). Unclaimed offers expire and the slot moves on to the
+ * next entry. A periodic job catches slots freed by paths that do not notify the service.
+ * Users are told about offers and automatic bookings in-app and by mail.
+ */
+export class WaitlistService {
+  private static timer: NodeJS.Timeout | null = null;
+  private static running = false;
+
+  /**
+   * How long an offered slot is held (WAITLIST_CLAIM_MINUTES, default: 30 minutes).
+   */
+  static getClaimMinutes(): number {
+    const minutes = Number(process.env.WAITLIST_CLAIM_MINUTES);
+    return Number.isInteger(minutes) && minutes > 0 ? minutes : DEFAULT_CLAIM_MINUTES;
+  }
+
+  /**
+   * Start the periodic waitlist job (idempotent).
+   * Interval can be configured with WAITLIST_CHECK_INTERVAL_MS (default: 60 seconds).
+   */
+  static start(): void {
+    if (WaitlistService.timer) {
+      return;
+    }
+
+    const intervalMs = Number(process.env.WAITLIST_CHECK_INTERVAL_MS) || DEFAULT_INTERVAL_MS;
+    WaitlistService.timer = setInterval(() => {
+      void WaitlistService.processAll();
+    }, intervalMs);
+    console.log(`[Waitlist] Job started (interval: ${Math.round(intervalMs / 1000)}s)`);
+  }
+
+  /**
+   * Link to the frontend's waitlist page for an entry (WAITLIST_CLAIM_URL, default: <FRONTEND_URL>/waitlist).
+   */
+  static buildClaimUrl(entryId: number): string {
+    return buildFrontendUrl(process.env.WAITLIST_CLAIM_URL, '/waitlist', { entry: String(entryId) });
+  }
+
+  static stop(): void {
+    if (WaitlistService.timer) {
+      clearInterval(WaitlistService.timer);
+      WaitlistService.timer = null;
+    }
+  }
+
+  /**
+   * Notify the waitlist that slots in the given rooms may have become free.
+   * Runs in the background so the calling request is not delayed; errors are only logged.
+   */
+  static notifySlotFreed(roomIds: Array<number | string>): void {
+    const uniqueIds = Array.from(new Set(roomIds.map(Number)));
+    void (async () => {
+      for (const roomId of uniqueIds) {
+        try {
+          await WaitlistService.processRoom(roomId);
+        } catch (error) {
+          console.error(`[Waitlist] Failed to process room ${roomId}:`, error);
+        }
+      }
+    })();
+  }
+
+  /**
+   * Process every room that has active waitlist entries.
+   */
+  static async processAll(): Promise<void> {
+    // Skip if the previous run is still in progress
+    if (WaitlistService.running) {
+      return;
+    }
+    WaitlistService.running = true;
+
+    try {
+      const [rows] = await pool.query<any[]>(
+        `SELECT DISTINCT room_id FROM booking_waitlist WHERE status IN (?)`,
+        [ACTIVE_WAITLIST_STATUSES]
+      );
+
+      for (const row of rows) {
+        await WaitlistService.processRoom(row.room_id);
+      }
+    } catch (error) {
+      // Log the error but keep the job alive for the next run
+      console.error('[Waitlist] Failed to process waitlist:', error);
+    } finally {
+      WaitlistService.running = false;
+    }
+  }
+
+  /**
+   * Expire stale entries of one room and hand free slots to the next waiting users.
+   *
+   * @returns The entries that were booked or offered in this run
+   */
+  static async processRoom(roomId: number): Promise<WaitlistResult[]> {
+    const results = await withTransaction(async (connection) => {
+      // Same room lock as every booking write path, so the freed slot cannot be taken in between
+      const [room] = await BookingConflictService.lockRooms(connection, [roomId]);
+      await WaitlistService.expireEntries(connection, roomId);
+
+      if (BookingConflictService.getRoomBookingError(room)) {
+        return [];
+      }
+
+      const [entries] = await connection.query<any[]>(
+        `SELECT w.id, w.user_id, w.title, w.comment, w.start_time, w.end_time, w.auto_book,
+                waiting_user.role AS user_role, waiting_user.email AS user_email, waiting_user.firstname AS user_firstname
+         FROM booking_waitlist w
+         INNER JOIN \`user\` AS waiting_user ON waiting_user.id = w.user_id
+         WHERE w.room_id = ? AND w.status = 'waiting'
+         ORDER BY w.created_at ASC, w.id ASC
+         FOR UPDATE OF w`,
+        [roomId]
+      );
+
+      const hours = (await BusinessHoursService.getRoomHours([roomId], connection)).get(roomId)!;
+      const [roomRows] = await connection.query<any[]>('SELECT name FROM room WHERE id = ?', [roomId]);
+      const roomName: string = roomRows[0]?.name ?? '';
+      const handled: WaitlistResult[] = [];
+      for (const entry of entries) {
+        // Entries outside changed opening hours wait until they expire
+        if (getBusinessHoursError(hours, entry.start_time, entry.end_time)) {
+          continue;
+        }
+
+        // Offers made earlier in this loop are holds and block later, overlapping entries
+        const conflicts = await BookingConflictService.findConflicts(
+          roomId, entry.start_time, entry.end_time, [], connection
+        );
+        if (conflicts.length > 0) {
+          continue;
+        }
+
+        // Same limits as a direct booking (the user may have booked elsewhere or the policy changed);
+        // entries the user may not book now wait until they expire
+        const policyViolation = await BookingPolicyService.checkBooking(connection, {
+          roomId,
+          user: { id: entry.user_id, role: entry.user_role },
+          ranges: [{ start_time: entry.start_time, end_time: entry.end_time }]
+        });
+        if (policyViolation) {
+          continue;
+        }
+
+        const now = getCurrentTimezoneNaiveTimestamp();
+        const base = {
+          entryId: entry.id,
+          userId: entry.user_id,
+          userEmail: entry.user_email,
+          userFirstname: entry.user_firstname,
+          roomId,
+          roomName,
+          title: entry.title,
+          start_time: entry.start_time,
+          end_time: entry.end_time
+        };
+
+        if (entry.auto_book) {
+          // Restricted rooms: the automatic booking still has to be approved
+          const bookingStatus = await BookingApprovalService.getInitialStatus(
+            connection, room, { id: entry.user_id, role: entry.user_role }
+          );
+          const bookingId = await WaitlistService.insertBooking(connection, roomId, entry, bookingStatus);
+          await connection.query(
+            `UPDATE booking_waitlist SET status = 'fulfilled', booking_id = ?, updated_at = ? WHERE id = ?`,
+            [bookingId, now, entry.id]
+          );
+          handled.push({ ...base, bookingId, bookingStatus });
+          continue;
+        }
+
+        // The hold never outlasts the start of the slot
+        const claimUntil = addSecondsToNaive(now, WaitlistService.getClaimMinutes() * 60);
+        const offerExpiresAt = claimUntil < entry.start_time ? claimUntil : entry.start_time;
+        await connection.query(
+          `UPDATE booking_waitlist SET status = 'offered', offered_at = ?, offer_expires_at = ?, updated_at = ? WHERE id = ?`,
+          [now, offerExpiresAt, now, entry.id]
+        );
+        handled.push({ ...base, offerExpiresAt });
+      }
+
+      await NotificationService.notify(handled.map(WaitlistService.toNotification), connection);
+
+      return handled;
+    });
+
+    // Log the activity (after commit)
+    for (const result of results) {
+      if (result.bookingId !== undefined) {
+        await ActivityLogService.logActivity(
+          result.userId,
+          'CREATE',
+          'BOOKING',
+          result.bookingId,
+          {
+            room_id: result.roomId,
+            title: result.title,
+            start_time: result.start_time,
+            end_time: result.end_time,
+            status: result.bookingStatus,
+            waitlist_id: result.entryId
+          }
+        );
+      } else {
+        await ActivityLogService.logActivity(
+          null,
+          'UPDATE',
+          'WAITLIST',
+          result.entryId,
+          {
+            room_id: result.roomId,
+            user_id: result.userId,
+            status: 'offered',
+            offer_expires_at: result.offerExpiresAt
+          }
+        );
+      }
+    }
+
+    for (const result of results) {
+      WaitlistService.sendResultMail(result);
+    }
+
+    if (results.length > 0) {
+      console.log(`[Waitlist] Room ${roomId}: ${results.length} waitlist entr${results.length === 1 ? 'y' : 'ies'} served`);
+      invalidateRoomsCache();
+    }
+
+    return results;
+  }
+
+  private static toNotification(result: WaitlistResult): NewNotification {
+    const slot = `im Raum "${result.roomName}" vom ${result.start_time.slice(0, 16)} bis ${result.end_time.slice(0, 16)}`;
+    if (result.bookingId !== undefined) {
+      return {
+        userId: result.userId,
+        type: 'WAITLIST_BOOKED',
+        bookingId: result.bookingId,
+        message: result.bookingStatus === 'pending'
+          ? `Der Zeitraum ${slot} ist frei geworden und wurde für Sie gebucht. Die Buchung muss noch genehmigt werden.`
+          : `Der Zeitraum ${slot} ist frei geworden und wurde für Sie gebucht.`
+      };
+    }
+    return {
+      userId: result.userId,
+      type: 'WAITLIST_OFFERED',
+      message: `Der Zeitraum ${slot} ist frei geworden. Sie können ihn bis ${result.offerExpiresAt!.slice(0, 16)} buchen: `
+        + WaitlistService.buildClaimUrl(result.entryId)
+    };
+  }
+
+  /**
+   * Mails the user about an offer or automatic booking (delivery happens in the background).
+   */
+  private static sendResultMail(result: WaitlistResult): void {
+    const slot = `${result.title} im Raum "${result.roomName}" vom ${result.start_time.slice(0, 16)} bis ${result.end_time.slice(0, 16)}`;
+    const lines = result.bookingId !== undefined
+      ? [
+        'ein Zeitraum, für den Sie auf der Warteliste stehen, ist frei geworden und wurde automatisch für Sie gebucht:',
+        '',
+        slot,
+        ...(result.bookingStatus === 'pending' ? ['', 'Die Buchung muss noch genehmigt werden.'] : [])
+      ]
+      : [
+        'ein Zeitraum, für den Sie auf der Warteliste stehen, ist frei geworden:',
+        '',
+        slot,
+        '',
+        `Er ist bis ${result.offerExpiresAt!.slice(0, 16)} für Sie reserviert. Über diesen Link können Sie ihn buchen:`,
+        '',
+        WaitlistService.buildClaimUrl(result.entryId),
+        '',
+        'Danach geht das Angebot an den nächsten Interessenten.'
+      ];
+
+    void MailService.sendQuietly({
+      to: result.userEmail,
+      subject: result.bookingId !== undefined ? 'Warteliste: Raum für Sie gebucht' : 'Warteliste: Raum frei geworden',
+      text: [`Hallo ${result.userFirstname},`, '', ...lines].join('\n')
+    });
+  }
+
+  /**
+   * Insert the booking for a waitlist entry (room must be locked and the range checked).
+   *
+   * @returns The new booking ID
+   */
+  static async insertBooking(
+    connection: PoolConnection,
+    roomId: number,
+    entry: { user_id: number; title: string; comment: string | null; start_time: string; end_time: string },
+    status: BookingStatus
+  ): Promise<number> {
+    const now = getCurrentTimezoneNaiveTimestamp();
+    const [result] = await connection.query<any>(
+      `INSERT INTO booking (room_id, name, start_time, end_time, comment, created_by, status, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [roomId, entry.title, entry.start_time, entry.end_time, entry.comment ?? null, entry.user_id, status, now, now]
+    );
+    return result.insertId;
+  }
+
+  /**
+   * Expire offers that were not claimed in time and entries whose slot has already started.
+   */
+  private static async expireEntries(connection: PoolConnection, roomId: number): Promise<void> {
+    // TIME ARCHITECTURE: Compare against a timezone-naive "now" string
+    const nowStr = getCurrentNaiveDateTimeString();
+    await connection.query(
+      `UPDATE booking_waitlist
+       SET status = 'expired', updated_at = ?
+       WHERE room_id = ?
+       AND status IN (?)
+       AND (start_time <= ? OR (status = 'offered' AND offer_expires_at <= ?))`,
+      [getCurrentTimezoneNaiveTimestamp(), roomId, ACTIVE_WAITLIST_STATUSES, nowStr, nowStr]
+    );
+  }
+}
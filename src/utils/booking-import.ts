@@ -0,0 +1,294 @@
+import { formatToTimezoneNaiveString } from './date-utils';
+import { addSecondsToNaive } from './recurrence';
+
+/**
+ * BOOKING IMPORT PARSERS (ICALENDAR + CSV)
+ *
+ * Turn an uploaded file into raw import rows. Parsers never touch the database and
+ * never reject the whole file for one bad entry: each row either carries its raw
+ * values or a parse error, and the controller decides per row what to do.
+ *
+ * TIME ARCHITECTURE: Parsed times are timezone-naive strings ("YYYY-MM-DD HH:mm:ss").
+ * UTC values ("...Z") are converted to server local time; floating and TZID values
+ * are taken as-is (assumed to be in the server's timezone).
+ */
+
+export type ImportFormat = 'ics' | 'csv';
+
+export interface ImportRow {
+  // 1-based position in the file (event number for .ics, line number for CSV)
+  row: number;
+  room: string | null;
+  title: string | null;
+  start_time: string | null;
+  end_time: string | null;
+  comment: string | null;
+  error: string | null;
+}
+
+export const MAX_IMPORT_ROWS = 1000;
+
+/**
+ * Detects the file format from the Content-Type header or, failing that, the content itself.
+ */
+export const detectImportFormat = (contentType: string | undefined, content: string): ImportFormat => {
+  if (contentType?.includes('text/calendar') || /^\s*BEGIN:VCALENDAR/i.test(content)) {
+    return 'ics';
+  }
+  return 'csv';
+};
+
+// ─── iCalendar ──────────────────────────────────────────────────────────────
+
+const unescapeICalText = (value: string): string =>
+  value
+    .replace(/\\n/gi, '\n')
+    .replace(/\\,/g, ',')
+    .replace(/\\;/g, ';')
+    .replace(/\\\\/g, '\\');
+
+/**
+ * Converts an iCalendar DATE-TIME value into a timezone-naive string.
+ * Returns null for DATE-only (all-day) values and anything unparseable.
+ */
+const parseICalDateTime = (value: string): string | null => {
+  const match = /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})(Z?)$/.exec(value.trim());
+  if (!match) {
+    return null;
+  }
+
+  const [, year, month, day, hours, minutes, seconds, utc] = match;
+  if (utc) {
+    return formatToTimezoneNaiveString(new Date(Date.UTC(
+      Number(year), Number(month) - 1, Number(day), Number(hours), Number(minutes), Number(seconds)
+    )));
+  }
+  return `${year}-${month}-${day} ${hours}:${minutes}:${seconds}`;
+};
+
+/**
+ * Parses an iCalendar DURATION ("PT1H30M", "P1D") into seconds.
+ */
+const parseICalDuration = (value: string): number | null => {
+  const match = /^P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(value.trim());
+  if (!match) {
+    return null;
+  }
+  const [, weeks, days, hours, minutes, seconds] = match.map(part => Number(part ?? 0));
+  return (((weeks * 7 + days) * 24 + hours) * 60 + minutes) * 60 + seconds;
+};
+
+/**
+ * Parses VEVENT components of an iCalendar file into import rows.
+ * The room is taken from LOCATION (room name or ID).
+ */
+export const parseICalendarImport = (content: string): ImportRow[] => {
+  // Unfold continuation lines (RFC 5545, section 3.1)
+  const lines = content.replace(/\r\n/g, '\n').replace(/\n[ \t]/g, '').split('\n');
+
+  const rows: ImportRow[] = [];
+  let current: Record<string, { params: string; value: string }> | null = null;
+
+  for (const line of lines) {
+    if (/^BEGIN:VEVENT$/i.test(line.trim())) {
+      current = {};
+      continue;
+    }
+
+    if (/^END:VEVENT$/i.test(line.trim())) {
+      if (current) {
+        rows.push(toICalImportRow(rows.length + 1, current));
+      }
+      current = null;
+      continue;
+    }
+
+    if (!current) {
+      continue;
+    }
+
+    const separator = line.indexOf(':');
+    if (separator <= 0) {
+      continue;
+    }
+    const [name, ...params] = line.slice(0, separator).split(';');
+    current[name.toUpperCase()] = { params: params.join(';').toUpperCase(), value: line.slice(separator + 1) };
+  }
+
+  return rows;
+};
+
+const toICalImportRow = (row: number, event: Record<string, { params: string; value: string }>): ImportRow => {
+  const result: ImportRow = {
+    row,
+    room: event.LOCATION ? unescapeICalText(event.LOCATION.value).trim() : null,
+    title: event.SUMMARY ? unescapeICalText(event.SUMMARY.value) : null,
+    start_time: null,
+    end_time: null,
+    comment: event.DESCRIPTION ? unescapeICalText(event.DESCRIPTION.value) : null,
+    error: null,
+  };
+
+  if (event.RRULE) {
+    return { ...result, error: 'Recurring events (RRULE) are not supported. Export individual occurrences.' };
+  }
+  if (event.STATUS && event.STATUS.value.trim().toUpperCase() === 'CANCELLED') {
+    return { ...result, error: 'Event is cancelled.' };
+  }
+  if (!event.DTSTART) {
+    return { ...result, error: 'DTSTART is missing.' };
+  }
+  if (event.DTSTART.params.includes('VALUE=DATE') && !event.DTSTART.params.includes('VALUE=DATE-TIME')) {
+    return { ...result, error: 'All-day events are not supported.' };
+  }
+
+  const start = parseICalDateTime(event.DTSTART.value);
+  if (!start) {
+    return { ...result, error: `Invalid DTSTART: ${event.DTSTART.value}` };
+  }
+
+  let end: string | null = null;
+  if (event.DTEND) {
+    end = parseICalDateTime(event.DTEND.value);
+  } else if (event.DURATION) {
+    const seconds = parseICalDuration(event.DURATION.value);
+    end = seconds !== null ? addSecondsToNaive(start, seconds) : null;
+  }
+  if (!end) {
+    return { ...result, start_time: start, error: 'DTEND or DURATION is missing or invalid.' };
+  }
+
+  return { ...result, start_time: start, end_time: end };
+};
+
+// ─── CSV ────────────────────────────────────────────────────────────────────
+
+/**
+ * Splits CSV text into records (RFC 4180: quoted fields, escaped quotes, newlines in quotes).
+ * Returns each record with the line number it started on.
+ */
+const parseCsvRecords = (content: string, delimiter: string): Array<{ line: number; fields: string[] }> => {
+  const records: Array<{ line: number; fields: string[] }> = [];
+  let fields: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1;
+  let recordLine = 1;
+
+  const text = content.replace(/^\uFEFF/, '');
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        if (char === '\n') line++;
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      fields.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      fields.push(field);
+      if (fields.some(value => value.trim() !== '')) {
+        records.push({ line: recordLine, fields });
+      }
+      fields = [];
+      field = '';
+      line++;
+      recordLine = line;
+    } else {
+      field += char;
+    }
+  }
+
+  fields.push(field);
+  if (fields.some(value => value.trim() !== '')) {
+    records.push({ line: recordLine, fields });
+  }
+
+  return records;
+};
+
+const CSV_COLUMN_ALIASES: Record<string, string[]> = {
+  room: ['room', 'room_id', 'room_name', 'raum'],
+  title: ['title', 'name', 'titel'],
+  start_time: ['start_time', 'start', 'beginn'],
+  end_time: ['end_time', 'end', 'ende'],
+  date: ['date', 'datum'],
+  startTime: ['starttime', 'von'],
+  endTime: ['endtime', 'bis'],
+  comment: ['comment', 'kommentar', 'description'],
+};
+
+/**
+ * Parses a CSV file with a header row into import rows.
+ *
+ * Supported columns (case-insensitive): room (name or ID), title, comment and either
+ * start_time/end_time ("YYYY-MM-DD HH:mm[:ss]") or date/startTime/endTime.
+ * Comma and semicolon delimiters are detected from the header.
+ *
+ * @throws Error if the header is missing required columns
+ */
+export const parseCsvImport = (content: string): ImportRow[] => {
+  const firstLine = content.split(/\r?\n/, 1)[0] ?? '';
+  const delimiter = (firstLine.match(/;/g)?.length ?? 0) > (firstLine.match(/,/g)?.length ?? 0) ? ';' : ',';
+  const records = parseCsvRecords(content, delimiter);
+
+  if (records.length === 0) {
+    return [];
+  }
+
+  const header = records[0].fields.map(name => name.trim().toLowerCase());
+  const columnIndex = (key: string): number => header.findIndex(name => CSV_COLUMN_ALIASES[key].includes(name));
+  const columns = Object.fromEntries(Object.keys(CSV_COLUMN_ALIASES).map(key => [key, columnIndex(key)]));
+
+  const hasCombined = columns.start_time >= 0 && columns.end_time >= 0;
+  const hasSeparate = columns.date >= 0 && columns.startTime >= 0 && columns.endTime >= 0;
+  if (columns.room < 0 || columns.title < 0 || (!hasCombined && !hasSeparate)) {
+    throw new Error('CSV header must contain room, title and start_time/end_time (or date/startTime/endTime) columns.');
+  }
+
+  const normalizeTime = (value: string): string | null => {
+    const match = /^(\d{4}-\d{2}-\d{2})[ T](\d{2}:\d{2})(:\d{2})?$/.exec(value.trim());
+    return match ? `${match[1]} ${match[2]}${match[3] ?? ':00'}` : null;
+  };
+
+  return records.slice(1).map(({ line, fields }) => {
+    const get = (key: string): string | null => {
+      const index = columns[key];
+      const value = index >= 0 ? fields[index]?.trim() : undefined;
+      return value ? value : null;
+    };
+
+    let start: string | null;
+    let end: string | null;
+    if (hasCombined && get('start_time')) {
+      start = normalizeTime(get('start_time') ?? '');
+      end = normalizeTime(get('end_time') ?? '');
+    } else {
+      start = normalizeTime(`${get('date') ?? ''} ${get('startTime') ?? ''}`);
+      end = normalizeTime(`${get('date') ?? ''} ${get('endTime') ?? ''}`);
+    }
+
+    return {
+      row: line,
+      room: get('room'),
+      title: get('title'),
+      start_time: start,
+      end_time: end,
+      comment: get('comment'),
+      error: start && end ? null : 'Invalid or missing start/end time.',
+    };
+  });
+};
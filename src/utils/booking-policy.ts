@@ -0,0 +1,164 @@
+import { calculateSecondsBetweenNaive } from './date-utils';
+import { addSecondsToNaive } from './recurrence';
+
+/**
+ * BOOKING POLICIES
+ *
+ * Optional limits per room (room_booking_policy table): booking length, minimum notice,
+ * how far ahead bookings may start, how many upcoming bookings one user may hold in the
+ * room, and whether guests may book at all. A null limit means "no limit".
+ * Admins are never limited; the controllers skip the check for them.
+ *
+ * TIME ARCHITECTURE: Compared against a timezone-naive "now" string.
+ */
+
+export interface BookingPolicy {
+  min_duration_minutes: number | null;
+  max_duration_minutes: number | null;
+  min_notice_minutes: number | null;
+  max_advance_days: number | null;
+  max_active_bookings_per_user: number | null;
+  allow_guests: boolean;
+}
+
+// Rooms without a stored policy
+export const DEFAULT_BOOKING_POLICY: BookingPolicy = {
+  min_duration_minutes: null,
+  max_duration_minutes: null,
+  min_notice_minutes: null,
+  max_advance_days: null,
+  max_active_bookings_per_user: null,
+  allow_guests: true,
+};
+
+// Machine-readable reason sent as `code` with the error response
+export type PolicyViolationCode =
+  | 'POLICY_GUESTS_NOT_ALLOWED'
+  | 'POLICY_DURATION_TOO_SHORT'
+  | 'POLICY_DURATION_TOO_LONG'
+  | 'POLICY_NOTICE_TOO_SHORT'
+  | 'POLICY_TOO_FAR_IN_ADVANCE'
+  | 'POLICY_BOOKING_LIMIT_REACHED';
+
+export interface PolicyViolation {
+  status: number;
+  code: PolicyViolationCode;
+  message: string;
+}
+
+const LIMITS: Record<Exclude<keyof BookingPolicy, 'allow_guests'>, number> = {
+  min_duration_minutes: 24 * 60,
+  max_duration_minutes: 31 * 24 * 60,
+  min_notice_minutes: 30 * 24 * 60,
+  max_advance_days: 3 * 365,
+  max_active_bookings_per_user: 1000,
+};
+
+/**
+ * Validates a policy from a request body. Omitted limits are stored as "no limit".
+ *
+ * @throws Error with a user-facing message
+ */
+export const parseBookingPolicy = (body: any): BookingPolicy => {
+  if (!body || typeof body !== 'object') {
+    throw new Error('A policy object is required');
+  }
+
+  const policy: BookingPolicy = { ...DEFAULT_BOOKING_POLICY };
+  for (const [field, max] of Object.entries(LIMITS) as Array<[keyof typeof LIMITS, number]>) {
+    const value = body[field];
+    if (value === undefined || value === null) {
+      continue;
+    }
+    if (!Number.isInteger(value) || value < 1 || value > max) {
+      throw new Error(`${field} must be an integer between 1 and ${max} (or null for no limit)`);
+    }
+    policy[field] = value;
+  }
+
+  if (body.allow_guests !== undefined) {
+    if (typeof body.allow_guests !== 'boolean') {
+      throw new Error('allow_guests must be a boolean');
+    }
+    policy.allow_guests = body.allow_guests;
+  }
+
+  if (policy.min_duration_minutes !== null && policy.max_duration_minutes !== null
+    && policy.min_duration_minutes > policy.max_duration_minutes) {
+    throw new Error('min_duration_minutes must not be greater than max_duration_minutes');
+  }
+
+  return policy;
+};
+
+const formatMinutes = (minutes: number): string =>
+  minutes % 60 === 0 ? `${minutes / 60} Stunde(n)` : `${minutes} Minuten`;
+
+/**
+ * Checks booking ranges (one, or all occurrences of a series) against a room's policy.
+ *
+ * @param isGuest - Booking without an account
+ * @param activeBookings - Upcoming bookings the user already holds in the room (excluding the one being changed)
+ * @returns The first violation, or null if the booking is allowed
+ */
+export const getPolicyViolation = (
+  policy: BookingPolicy,
+  ranges: Array<{ start_time: string; end_time: string }>,
+  nowStr: string,
+  isGuest: boolean,
+  activeBookings: number
+): PolicyViolation | null => {
+  if (isGuest && !policy.allow_guests) {
+    return {
+      status: 401,
+      code: 'POLICY_GUESTS_NOT_ALLOWED',
+      message: 'Dieser Raum kann nur von angemeldeten Benutzern gebucht werden.'
+    };
+  }
+
+  for (const range of ranges) {
+    const durationMinutes = calculateSecondsBetweenNaive(range.start_time, range.end_time) / 60;
+    if (policy.min_duration_minutes !== null && durationMinutes < policy.min_duration_minutes) {
+      return {
+        status: 400,
+        code: 'POLICY_DURATION_TOO_SHORT',
+        message: `Buchungen in diesem Raum müssen mindestens ${formatMinutes(policy.min_duration_minutes)} dauern.`
+      };
+    }
+    if (policy.max_duration_minutes !== null && durationMinutes > policy.max_duration_minutes) {
+      return {
+        status: 400,
+        code: 'POLICY_DURATION_TOO_LONG',
+        message: `Buchungen in diesem Raum dürfen höchstens ${formatMinutes(policy.max_duration_minutes)} dauern.`
+      };
+    }
+    if (policy.min_notice_minutes !== null
+      && range.start_time < addSecondsToNaive(nowStr, policy.min_notice_minutes * 60)) {
+      return {
+        status: 400,
+        code: 'POLICY_NOTICE_TOO_SHORT',
+        message: `Dieser Raum muss mindestens ${formatMinutes(policy.min_notice_minutes)} im Voraus gebucht werden.`
+      };
+    }
+    if (policy.max_advance_days !== null
+      && range.start_time > addSecondsToNaive(nowStr, policy.max_advance_days * 24 * 60 * 60)) {
+      return {
+        status: 400,
+        code: 'POLICY_TOO_FAR_IN_ADVANCE',
+        message: `Dieser Raum kann höchstens ${policy.max_advance_days} Tag(e) im Voraus gebucht werden.`
+      };
+    }
+  }
+
+  // Guests have no account the quota could be counted against
+  if (!isGuest && policy.max_active_bookings_per_user !== null
+    && activeBookings + ranges.length > policy.max_active_bookings_per_user) {
+    return {
+      status: 409,
+      code: 'POLICY_BOOKING_LIMIT_REACHED',
+      message: `Sie können in diesem Raum höchstens ${policy.max_active_bookings_per_user} anstehende Buchung(en) haben.`
+    };
+  }
+
+  return null;
+};
@@ -0,0 +1,115 @@
+import { getWeekdayOfNaive, Weekday } from './recurrence';
+
+/**
+ * BUSINESS HOURS
+ *
+ * Rooms can only be booked within their opening hours. Hours are stored per weekday
+ * (business_hours table): a global default plus optional per-room overrides for single
+ * weekdays. Outside of the hours rooms are shown in "night_rest" and slot searches skip them.
+ *
+ * TIME ARCHITECTURE: Times are "HH:mm" strings and compared against the time part of
+ * timezone-naive "YYYY-MM-DD HH:mm:ss" strings, so no timezone conversion happens.
+ */
+
+// Opening hours of one day; null = closed
+export type DayHours = { open: string; close: string } | null;
+
+export type WeeklyHours = Record<Weekday, DayHours>;
+
+export const WEEKDAY_CODES: Weekday[] = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'];
+
+// Applies as long as no global hours are stored
+export const DEFAULT_BUSINESS_HOURS: WeeklyHours = {
+  MO: { open: '08:00', close: '20:00' },
+  TU: { open: '08:00', close: '20:00' },
+  WE: { open: '08:00', close: '20:00' },
+  TH: { open: '08:00', close: '20:00' },
+  FR: { open: '08:00', close: '20:00' },
+  SA: null,
+  SU: null,
+};
+
+export const TIME_OF_DAY_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+const WEEKDAY_LABELS: Record<Weekday, string> = {
+  MO: 'Montag',
+  TU: 'Dienstag',
+  WE: 'Mittwoch',
+  TH: 'Donnerstag',
+  FR: 'Freitag',
+  SA: 'Samstag',
+  SU: 'Sonntag',
+};
+
+/**
+ * Opening hours on the day of a timezone-naive date or datetime.
+ */
+export const getHoursOn = (hours: WeeklyHours, datetime: string): DayHours => hours[getWeekdayOfNaive(datetime)];
+
+/**
+ * Whether a timezone-naive datetime lies outside the opening hours.
+ */
+export const isOutsideBusinessHours = (hours: WeeklyHours, datetime: string): boolean => {
+  const day = getHoursOn(hours, datetime);
+  if (!day) {
+    return true;
+  }
+  const time = datetime.split(' ')[1].slice(0, 5);
+  return time < day.open || time >= day.close;
+};
+
+/**
+ * Returns why a booking range lies outside the opening hours, or null if it fits.
+ * A booking has to start and end within the opening hours of its start day.
+ */
+export const getBusinessHoursError = (hours: WeeklyHours, startTime: string, endTime: string): string | null => {
+  const weekday = getWeekdayOfNaive(startTime);
+  const day = hours[weekday];
+  if (!day) {
+    return `Der Raum ist am ${WEEKDAY_LABELS[weekday]} geschlossen.`;
+  }
+
+  const date = startTime.split(' ')[0];
+  if (startTime < `${date} ${day.open}:00` || endTime > `${date} ${day.close}:00`) {
+    return `Buchungen sind am ${WEEKDAY_LABELS[weekday]} nur zwischen ${day.open} und ${day.close} Uhr möglich.`;
+  }
+
+  return null;
+};
+
+/**
+ * Validates opening hours from a request body: { MO: { open: "08:00", close: "18:00" }, SA: null, ... }.
+ * Only the given weekdays are returned; null marks a closed day.
+ *
+ * @throws Error with a user-facing message
+ */
+export const parseWeeklyHours = (value: unknown): Partial<WeeklyHours> => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error('hours must be an object keyed by weekday (MO-SU)');
+  }
+
+  const parsed: Partial<WeeklyHours> = {};
+  for (const [key, day] of Object.entries(value as Record<string, unknown>)) {
+    const weekday = key.toUpperCase() as Weekday;
+    if (!WEEKDAY_CODES.includes(weekday)) {
+      throw new Error(`Invalid weekday: ${key} (expected MO, TU, WE, TH, FR, SA or SU)`);
+    }
+
+    if (day === null) {
+      parsed[weekday] = null;
+      continue;
+    }
+
+    const { open, close } = (day ?? {}) as { open?: unknown; close?: unknown };
+    if (typeof open !== 'string' || typeof close !== 'string' ||
+        !TIME_OF_DAY_PATTERN.test(open) || !TIME_OF_DAY_PATTERN.test(close)) {
+      throw new Error(`${weekday}: open and close must be in HH:mm format (or null for closed)`);
+    }
+    if (close <= open) {
+      throw new Error(`${weekday}: close must be after open`);
+    }
+    parsed[weekday] = { open, close };
+  }
+
+  return parsed;
+};
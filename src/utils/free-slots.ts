@@ -0,0 +1,197 @@
+import { getHoursOn, WeeklyHours } from './business-hours';
+import { calculateSecondsBetweenNaive } from './date-utils';
+import { addSecondsToNaive } from './recurrence';
+
+/**
+ * FREE SLOT SEARCH
+ *
+ * Finds the earliest free slots of a given duration across rooms, inside a daily time
+ * window over a range of days. The window is narrowed to each room's opening hours; closed
+ * days are skipped. Pure function: the caller loads rooms, their hours and busy ranges.
+ *
+ * For every room and day, each gap between busy ranges yields at most one slot (its
+ * earliest start), so the result lists distinct options instead of the same gap shifted
+ * by a few minutes. Slots are ranked by start time, then by the smallest room that fits.
+ *
+ * TIME ARCHITECTURE: All values are timezone-naive strings ("YYYY-MM-DD HH:mm:ss"),
+ * compared as strings and shifted with addSecondsToNaive().
+ */
+
+export interface FreeSlotRoom {
+  id: number;
+  name: string;
+  capacity: number;
+  location?: string | null;
+  // Effective opening hours of the room
+  hours: WeeklyHours;
+}
+
+export interface BusyRange {
+  room_id: number;
+  start_time: string;
+  end_time: string;
+}
+
+export interface FreeSlotSearch {
+  // Inclusive date range ("YYYY-MM-DD")
+  fromDate: string;
+  toDate: string;
+  // Daily window ("HH:mm")
+  dayStart: string;
+  dayEnd: string;
+  durationMinutes: number;
+  // Slot starts are aligned to this grid, counted from dayStart
+  stepMinutes: number;
+  // Slots never start before this moment (usually "now")
+  notBefore: string;
+  limit: number;
+}
+
+export interface FreeSlot {
+  room_id: number;
+  room_name: string;
+  capacity: number;
+  location: string | null;
+  start_time: string;
+  end_time: string;
+  // End of the free gap the slot lies in (the slot could be extended up to here)
+  free_until: string;
+}
+
+const SECONDS_PER_DAY = 24 * 60 * 60;
+
+/**
+ * Rounds a datetime up to the next step boundary counted from windowStart.
+ */
+const alignUp = (datetime: string, windowStart: string, stepSeconds: number): string => {
+  const offset = calculateSecondsBetweenNaive(windowStart, datetime);
+  if (offset <= 0) {
+    return windowStart;
+  }
+  return addSecondsToNaive(windowStart, Math.ceil(offset / stepSeconds) * stepSeconds);
+};
+
+export const findFreeSlots = (rooms: FreeSlotRoom[], busy: BusyRange[], search: FreeSlotSearch): FreeSlot[] => {
+  const durationSeconds = search.durationMinutes * 60;
+  const stepSeconds = search.stepMinutes * 60;
+  const slots: FreeSlot[] = [];
+
+  const busyByRoom = new Map<number, BusyRange[]>();
+  for (const range of busy) {
+    const list = busyByRoom.get(range.room_id) ?? [];
+    list.push(range);
+    busyByRoom.set(range.room_id, list);
+  }
+
+  for (const room of rooms) {
+    const roomBusy = (busyByRoom.get(room.id) ?? []).sort((a, b) => a.start_time.localeCompare(b.start_time));
+
+    for (
+      let day = `${search.fromDate} 00:00:00`;
+      day.split(' ')[0] <= search.toDate;
+      day = addSecondsToNaive(day, SECONDS_PER_DAY)
+    ) {
+      const date = day.split(' ')[0];
+      const openingHours = getHoursOn(room.hours, day);
+      if (!openingHours) {
+        continue;
+      }
+
+      // Requested daily window, limited to the room's opening hours
+      const windowStart = `${date} ${search.dayStart > openingHours.open ? search.dayStart : openingHours.open}:00`;
+      const windowEnd = `${date} ${search.dayEnd < openingHours.close ? search.dayEnd : openingHours.close}:00`;
+      if (windowStart >= windowEnd || search.notBefore >= windowEnd) {
+        continue;
+      }
+
+      const pushSlot = (start: string, gapEnd: string) => {
+        if (calculateSecondsBetweenNaive(start, gapEnd) >= durationSeconds) {
+          slots.push({
+            room_id: room.id,
+            room_name: room.name,
+            capacity: room.capacity,
+            location: room.location ?? null,
+            start_time: start,
+            end_time: addSecondsToNaive(start, durationSeconds),
+            free_until: gapEnd
+          });
+        }
+      };
+
+      let cursor = alignUp(search.notBefore > windowStart ? search.notBefore : windowStart, windowStart, stepSeconds);
+      for (const range of roomBusy) {
+        if (range.end_time <= cursor || range.start_time >= windowEnd) {
+          continue;
+        }
+        if (range.start_time > cursor) {
+          pushSlot(cursor, range.start_time);
+        }
+        cursor = alignUp(range.end_time, windowStart, stepSeconds);
+        if (cursor >= windowEnd) {
+          break;
+        }
+      }
+      if (cursor < windowEnd) {
+        pushSlot(cursor, windowEnd);
+      }
+    }
+  }
+
+  return slots
+    .sort((a, b) =>
+      a.start_time.localeCompare(b.start_time) ||
+      a.capacity - b.capacity ||
+      a.room_id - b.room_id
+    )
+    .slice(0, search.limit);
+};
+
+export interface FreeInterval {
+  start_time: string;
+  end_time: string;
+}
+
+/**
+ * Free intervals of one room: its opening hours on every day of the inclusive date range
+ * minus the room's busy ranges, never starting before notBefore.
+ */
+export const findFreeIntervals = (
+  hours: WeeklyHours,
+  busy: BusyRange[],
+  fromDate: string,
+  toDate: string,
+  notBefore: string
+): FreeInterval[] => {
+  const sortedBusy = [...busy].sort((a, b) => a.start_time.localeCompare(b.start_time));
+  const intervals: FreeInterval[] = [];
+
+  for (let day = `${fromDate} 00:00:00`; day.split(' ')[0] <= toDate; day = addSecondsToNaive(day, SECONDS_PER_DAY)) {
+    const date = day.split(' ')[0];
+    const openingHours = getHoursOn(hours, day);
+    if (!openingHours) {
+      continue;
+    }
+
+    const windowStart = `${date} ${openingHours.open}:00`;
+    const windowEnd = `${date} ${openingHours.close}:00`;
+    let cursor = notBefore > windowStart ? notBefore : windowStart;
+
+    for (const range of sortedBusy) {
+      if (cursor >= windowEnd) {
+        break;
+      }
+      if (range.end_time <= cursor || range.start_time >= windowEnd) {
+        continue;
+      }
+      if (range.start_time > cursor) {
+        intervals.push({ start_time: cursor, end_time: range.start_time });
+      }
+      cursor = range.end_time;
+    }
+    if (cursor < windowEnd) {
+      intervals.push({ start_time: cursor, end_time: windowEnd });
+    }
+  }
+
+  return intervals;
+};
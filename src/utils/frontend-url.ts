@@ -0,0 +1,8 @@
+/**
+ * Link to a frontend page that users open from a mail (reset password, confirm email, invitation).
+ * Each link can point to its own page (e.g. PASSWORD_RESET_URL); otherwise it is <FRONTEND_URL><defaultPath>.
+ */
+export const buildFrontendUrl = (override: string | undefined, defaultPath: string, params: Record<string, string>): string => {
+  const baseUrl = override || `${process.env.FRONTEND_URL || 'http://localhost:4200'}${defaultPath}`;
+  return `${baseUrl}${baseUrl.includes('?') ? '&' : '?'}${new URLSearchParams(params).toString()}`;
+};
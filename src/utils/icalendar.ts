@@ -0,0 +1,141 @@
+import validator from 'validator';
+import { parseTimezoneNaiveDateString } from './date-utils';
+
+/**
+ * ICALENDAR (RFC 5545) SERIALIZATION
+ *
+ * Builds VCALENDAR documents for calendar subscription feeds.
+ *
+ * TIME ARCHITECTURE: Bookings are stored as timezone-naive server-local strings.
+ * They are parsed with parseTimezoneNaiveDateString() (server local time) and written
+ * as UTC ("...Z"), so every client renders them in its own timezone without needing
+ * a VTIMEZONE definition.
+ */
+
+export interface CalendarEvent {
+  // Stable, globally unique identifier (must not change between feed refreshes)
+  uid: string;
+  summary: string;
+  start_time: string;
+  end_time: string;
+  status: 'confirmed' | 'pending' | 'canceled' | 'rejected';
+  description?: string | null;
+  location?: string | null;
+  // Used for SEQUENCE / LAST-MODIFIED so clients pick up changes
+  updated_at?: string | null;
+}
+
+const CRLF = '\r\n';
+const PRODID = '-//13Rooms//Room Booking API//DE';
+
+// Pending bookings are tentative until approved; rejected ones are gone like canceled ones
+const ICAL_STATUS: Record<CalendarEvent['status'], string> = {
+  confirmed: 'CONFIRMED',
+  pending: 'TENTATIVE',
+  canceled: 'CANCELLED',
+  rejected: 'CANCELLED',
+};
+
+/**
+ * Escapes TEXT values (RFC 5545, section 3.3.11).
+ * Stored titles/comments are HTML-escaped, so they are unescaped first.
+ */
+const escapeText = (value: string): string =>
+  validator.unescape(value)
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+
+/**
+ * Folds content lines longer than 75 octets (RFC 5545, section 3.1).
+ * Never splits a multi-byte UTF-8 character.
+ */
+const foldLine = (line: string): string => {
+  if (Buffer.byteLength(line, 'utf8') <= 75) {
+    return line;
+  }
+
+  const parts: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+  // Continuation lines start with a space, which counts towards the limit
+  let limit = 75;
+
+  for (const char of line) {
+    const charBytes = Buffer.byteLength(char, 'utf8');
+    if (currentBytes + charBytes > limit) {
+      parts.push(current);
+      current = '';
+      currentBytes = 0;
+      limit = 74;
+    }
+    current += char;
+    currentBytes += charBytes;
+  }
+  parts.push(current);
+
+  return parts.join(`${CRLF} `);
+};
+
+/**
+ * Formats a timezone-naive datetime string as an iCalendar UTC DATE-TIME ("YYYYMMDDTHHMMSSZ").
+ */
+export const formatICalDateTime = (naive: string): string => {
+  const date = parseTimezoneNaiveDateString(naive) ?? new Date(0);
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+};
+
+/**
+ * Builds a complete VCALENDAR document.
+ *
+ * @param calendarName - Display name shown by calendar clients (X-WR-CALNAME)
+ * @param events - Events to include
+ * @returns iCalendar text with CRLF line endings
+ */
+export const buildCalendar = (calendarName: string, events: CalendarEvent[]): string => {
+  const dtstamp = new Date().toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+  const lines: string[] = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(calendarName)}`,
+  ];
+
+  for (const event of events) {
+    const lastModified = event.updated_at ? parseTimezoneNaiveDateString(event.updated_at) : null;
+
+    lines.push('BEGIN:VEVENT');
+    lines.push(`UID:${event.uid}`);
+    lines.push(`DTSTAMP:${dtstamp}`);
+    lines.push(`DTSTART:${formatICalDateTime(event.start_time)}`);
+    lines.push(`DTEND:${formatICalDateTime(event.end_time)}`);
+    lines.push(`SUMMARY:${escapeText(event.summary)}`);
+    if (event.location) {
+      lines.push(`LOCATION:${escapeText(event.location)}`);
+    }
+    if (event.description) {
+      lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+    }
+    lines.push(`STATUS:${ICAL_STATUS[event.status] ?? 'CONFIRMED'}`);
+    if (lastModified && event.updated_at) {
+      // Seconds since epoch only ever grow, which is all SEQUENCE requires
+      lines.push(`SEQUENCE:${Math.floor(lastModified.getTime() / 1000)}`);
+      lines.push(`LAST-MODIFIED:${formatICalDateTime(event.updated_at)}`);
+    }
+    lines.push('TRANSP:OPAQUE');
+    lines.push('END:VEVENT');
+  }
+
+  lines.push('END:VCALENDAR');
+
+  return lines.map(foldLine).join(CRLF) + CRLF;
+};
+
+/**
+ * Stable UID for a booking. Booking IDs never change, so neither does the UID.
+ */
+export const bookingUid = (bookingId: number): string => `booking-${bookingId}@13rooms`;
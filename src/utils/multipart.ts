@@ -0,0 +1,111 @@
+/**
+ * MULTIPART/FORM-DATA PARSER
+ *
+ * Minimal parser for file uploads. The route reads the whole body into a Buffer first
+ * (express.raw with a size limit), so this works on a complete, bounded body.
+ */
+
+export interface MultipartFile {
+  fieldName: string;
+  fileName: string;
+  // As declared by the client; never trust it without checking the content
+  mimeType: string;
+  data: Buffer;
+}
+
+export interface MultipartBody {
+  fields: Record<string, string>;
+  files: MultipartFile[];
+}
+
+const HEADER_SEPARATOR = Buffer.from('\r\n\r\n');
+
+/**
+ * Extracts the boundary from a Content-Type header ("multipart/form-data; boundary=...").
+ */
+export const getMultipartBoundary = (contentType: string | undefined): string | null => {
+  if (!contentType || !/^multipart\/form-data/i.test(contentType)) {
+    return null;
+  }
+  const match = contentType.match(/boundary=(?:"([^"]+)"|([^;]+))/i);
+  return match ? (match[1] ?? match[2]).trim() : null;
+};
+
+const parsePartHeaders = (raw: string): { name: string | null; fileName: string | null; contentType: string } => {
+  let name: string | null = null;
+  let fileName: string | null = null;
+  let contentType = 'application/octet-stream';
+
+  for (const line of raw.split('\r\n')) {
+    const separator = line.indexOf(':');
+    if (separator === -1) {
+      continue;
+    }
+    const header = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (header === 'content-disposition') {
+      name = value.match(/;\s*name="([^"]*)"/i)?.[1] ?? null;
+      const fileNameMatch = value.match(/;\s*filename="([^"]*)"/i);
+      fileName = fileNameMatch ? fileNameMatch[1] : null;
+    } else if (header === 'content-type') {
+      contentType = value.toLowerCase();
+    }
+  }
+
+  return { name, fileName, contentType };
+};
+
+/**
+ * Splits a multipart body into text fields and files.
+ *
+ * @throws Error if the body is not valid multipart/form-data
+ */
+export const parseMultipart = (body: Buffer, boundary: string): MultipartBody => {
+  const delimiter = Buffer.from(`--${boundary}`);
+  const result: MultipartBody = { fields: {}, files: [] };
+
+  let position = body.indexOf(delimiter);
+  if (position === -1) {
+    throw new Error('Malformed multipart body: boundary not found');
+  }
+
+  while (true) {
+    position += delimiter.length;
+
+    // "--" after the delimiter marks the end of the body
+    if (body[position] === 0x2d && body[position + 1] === 0x2d) {
+      return result;
+    }
+
+    const headersStart = position + 2; // Skip CRLF after the delimiter
+    const headersEnd = body.indexOf(HEADER_SEPARATOR, headersStart);
+    if (headersEnd === -1) {
+      throw new Error('Malformed multipart body: missing part headers');
+    }
+
+    const contentStart = headersEnd + HEADER_SEPARATOR.length;
+    const nextDelimiter = body.indexOf(Buffer.concat([Buffer.from('\r\n'), delimiter]), contentStart);
+    if (nextDelimiter === -1) {
+      throw new Error('Malformed multipart body: unterminated part');
+    }
+
+    const headers = parsePartHeaders(body.subarray(headersStart, headersEnd).toString('utf8'));
+    const content = body.subarray(contentStart, nextDelimiter);
+
+    if (headers.name !== null) {
+      if (headers.fileName !== null) {
+        result.files.push({
+          fieldName: headers.name,
+          fileName: headers.fileName,
+          mimeType: headers.contentType,
+          data: Buffer.from(content)
+        });
+      } else {
+        result.fields[headers.name] = content.toString('utf8');
+      }
+    }
+
+    position = nextDelimiter + 2; // Continue at the delimiter (after the CRLF)
+  }
+};
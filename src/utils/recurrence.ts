@@ -0,0 +1,251 @@
+/**
+ * RECURRENCE RULE UTILITIES (RRULE SUBSET)
+ *
+ * Parses and expands the subset of RFC 5545 recurrence rules that the booking
+ * API supports: FREQ (DAILY/WEEKLY/MONTHLY), INTERVAL, BYDAY, COUNT and UNTIL.
+ *
+ * TIME ARCHITECTURE: All inputs and outputs are timezone-naive strings
+ * ("YYYY-MM-DD HH:mm:ss"). Calendar arithmetic is done on Date.UTC timestamps,
+ * which never observe DST shifts, so a 09:00 meeting stays at 09:00 all year.
+ */
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly';
+export type Weekday = 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA' | 'SU';
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval: number;
+  byWeekday: Weekday[];
+  count: number | null;
+  // Inclusive last date in "YYYY-MM-DD" format
+  until: string | null;
+}
+
+export interface Occurrence {
+  start_time: string;
+  end_time: string;
+}
+
+// Hard upper bound to keep a single request from creating thousands of rows
+export const MAX_OCCURRENCES = 200;
+
+// Index matches Date.getUTCDay() (0 = Sunday)
+const WEEKDAYS: Weekday[] = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const SECONDS_PER_DAY = 24 * 60 * 60;
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+const toUtcSeconds = (naive: string): number => {
+  const [datePart, timePart = '00:00:00'] = naive.trim().split(' ');
+  const [year, month, day] = datePart.split('-').map(Number);
+  const [hours, minutes, seconds = 0] = timePart.split(':').map(Number);
+  return Date.UTC(year, month - 1, day, hours, minutes, seconds) / 1000;
+};
+
+const fromUtcSeconds = (utcSeconds: number): string => {
+  const date = new Date(utcSeconds * 1000);
+  return `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())} ` +
+    `${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}:${pad(date.getUTCSeconds())}`;
+};
+
+const isValidDateOnly = (value: string): boolean => {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return false;
+  }
+  const [year, month, day] = value.split('-').map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+};
+
+/**
+ * Adds a number of seconds to a timezone-naive datetime string.
+ *
+ * @example
+ * addSecondsToNaive("2025-11-13 14:00:00", 5400) // Returns "2025-11-13 15:30:00"
+ */
+export function addSecondsToNaive(datetime: string, seconds: number): string {
+  return fromUtcSeconds(toUtcSeconds(datetime) + seconds);
+}
+
+/**
+ * Returns the RRULE weekday code ("MO".."SU") for a timezone-naive date or datetime string.
+ */
+export function getWeekdayOfNaive(datetime: string): Weekday {
+  return WEEKDAYS[new Date(toUtcSeconds(datetime) * 1000).getUTCDay()];
+}
+
+/**
+ * Normalizes a recurrence rule from the request body.
+ *
+ * Accepts either an RRULE string ("FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE;COUNT=10")
+ * or an object ({ frequency, interval, byWeekday, count, until }).
+ *
+ * @throws Error with a user-facing validation message
+ */
+export function parseRecurrenceRule(input: unknown): RecurrenceRule {
+  let raw: Record<string, any>;
+
+  if (typeof input === 'string') {
+    raw = {};
+    const body = input.trim().replace(/^RRULE:/i, '');
+    for (const part of body.split(';')) {
+      const [key, value] = part.split('=');
+      if (!key || value === undefined) {
+        continue;
+      }
+      switch (key.trim().toUpperCase()) {
+        case 'FREQ': raw.frequency = value; break;
+        case 'INTERVAL': raw.interval = value; break;
+        case 'BYDAY': raw.byWeekday = value.split(','); break;
+        case 'COUNT': raw.count = value; break;
+        case 'UNTIL':
+          // RRULE UNTIL is "YYYYMMDD" or "YYYYMMDDTHHMMSS"
+          raw.until = /^\d{8}/.test(value)
+            ? `${value.slice(0, 4)}-${value.slice(4, 6)}-${value.slice(6, 8)}`
+            : value;
+          break;
+        default:
+          throw new Error(`Nicht unterstützte Wiederholungsregel: ${key}`);
+      }
+    }
+  } else if (input && typeof input === 'object') {
+    raw = input as Record<string, any>;
+  } else {
+    throw new Error('Ungültige Wiederholungsregel.');
+  }
+
+  const frequency = String(raw.frequency ?? '').toLowerCase();
+  if (frequency !== 'daily' && frequency !== 'weekly' && frequency !== 'monthly') {
+    throw new Error('Die Wiederholung muss täglich, wöchentlich oder monatlich sein.');
+  }
+
+  const interval = raw.interval === undefined || raw.interval === null ? 1 : Number(raw.interval);
+  if (!Number.isInteger(interval) || interval < 1 || interval > 52) {
+    throw new Error('Das Wiederholungsintervall muss zwischen 1 und 52 liegen.');
+  }
+
+  const byWeekdayInput: unknown[] = Array.isArray(raw.byWeekday) ? raw.byWeekday : [];
+  const byWeekday: Weekday[] = [];
+  for (const day of byWeekdayInput) {
+    const code = String(day).trim().toUpperCase() as Weekday;
+    if (!WEEKDAYS.includes(code)) {
+      throw new Error(`Ungültiger Wochentag: ${day}`);
+    }
+    if (!byWeekday.includes(code)) {
+      byWeekday.push(code);
+    }
+  }
+
+  const count = raw.count === undefined || raw.count === null ? null : Number(raw.count);
+  if (count !== null && (!Number.isInteger(count) || count < 1 || count > MAX_OCCURRENCES)) {
+    throw new Error(`Die Anzahl der Termine muss zwischen 1 und ${MAX_OCCURRENCES} liegen.`);
+  }
+
+  const until = raw.until === undefined || raw.until === null ? null : String(raw.until).slice(0, 10);
+  if (until !== null && !isValidDateOnly(until)) {
+    throw new Error('Ungültiges Enddatum der Wiederholung.');
+  }
+
+  if (count === null && until === null) {
+    throw new Error('Die Wiederholung benötigt eine Anzahl (count) oder ein Enddatum (until).');
+  }
+
+  return { frequency, interval, byWeekday, count, until };
+}
+
+/**
+ * Serializes a normalized rule back into an RRULE string for storage.
+ */
+export function formatRecurrenceRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.frequency.toUpperCase()}`, `INTERVAL=${rule.interval}`];
+  if (rule.byWeekday.length > 0) {
+    parts.push(`BYDAY=${rule.byWeekday.join(',')}`);
+  }
+  if (rule.count !== null) {
+    parts.push(`COUNT=${rule.count}`);
+  }
+  if (rule.until !== null) {
+    parts.push(`UNTIL=${rule.until.replace(/-/g, '')}`);
+  }
+  return parts.join(';');
+}
+
+/**
+ * Expands a recurrence rule into concrete occurrences.
+ *
+ * The first occurrence is always the given start/end pair (if it matches BYDAY),
+ * and every following occurrence keeps the same time of day and duration.
+ *
+ * @param startTime - First occurrence start ("YYYY-MM-DD HH:mm:ss")
+ * @param endTime - First occurrence end ("YYYY-MM-DD HH:mm:ss")
+ * @param rule - Normalized recurrence rule
+ * @throws Error if the rule would produce more than MAX_OCCURRENCES occurrences
+ */
+export function expandRecurrence(startTime: string, endTime: string, rule: RecurrenceRule): Occurrence[] {
+  const durationSeconds = toUtcSeconds(endTime) - toUtcSeconds(startTime);
+  const [startDate, startClock] = startTime.split(' ');
+  const firstDay = toUtcSeconds(`${startDate} 00:00:00`) / SECONDS_PER_DAY;
+  const lastDay = rule.until ? toUtcSeconds(`${rule.until} 00:00:00`) / SECONDS_PER_DAY : Infinity;
+  const limit = rule.count ?? Infinity;
+
+  const occurrences: Occurrence[] = [];
+
+  const push = (day: number): boolean => {
+    if (day < firstDay) {
+      return true;
+    }
+    if (day > lastDay || occurrences.length >= limit) {
+      return false;
+    }
+    if (occurrences.length >= MAX_OCCURRENCES) {
+      throw new Error(`Eine Serie darf maximal ${MAX_OCCURRENCES} Termine enthalten.`);
+    }
+    const start = fromUtcSeconds(day * SECONDS_PER_DAY).split(' ')[0] + ` ${startClock}`;
+    occurrences.push({ start_time: start, end_time: addSecondsToNaive(start, durationSeconds) });
+    return true;
+  };
+
+  const matchesWeekday = (day: number): boolean =>
+    rule.byWeekday.length === 0 || rule.byWeekday.includes(WEEKDAYS[new Date(day * SECONDS_PER_DAY * 1000).getUTCDay()]);
+
+  // Safety bound for the iteration itself (e.g. BYDAY filters that rarely match)
+  const maxIterations = MAX_OCCURRENCES * 31;
+
+  if (rule.frequency === 'daily') {
+    for (let i = 0, day = firstDay; i < maxIterations; i++, day += rule.interval) {
+      if (matchesWeekday(day) && !push(day)) {
+        break;
+      }
+    }
+  } else if (rule.frequency === 'weekly') {
+    // Weeks start on Monday; expand every BYDAY within each matching week
+    const weekdays = rule.byWeekday.length > 0 ? rule.byWeekday : [getWeekdayOfNaive(startTime)];
+    const offsets = weekdays.map(code => (WEEKDAYS.indexOf(code) + 6) % 7).sort((a, b) => a - b);
+    const firstWeekday = (new Date(firstDay * SECONDS_PER_DAY * 1000).getUTCDay() + 6) % 7;
+    const weekStart = firstDay - firstWeekday;
+    let running = true;
+    for (let week = 0; running && week < maxIterations; week += rule.interval) {
+      for (const offset of offsets) {
+        if (!push(weekStart + week * 7 + offset)) {
+          running = false;
+          break;
+        }
+      }
+    }
+  } else {
+    // Monthly on the same day of month; months without that day are skipped (RFC 5545)
+    const [year, month, dayOfMonth] = startDate.split('-').map(Number);
+    for (let i = 0; i < maxIterations; i += rule.interval) {
+      const candidate = new Date(Date.UTC(year, month - 1 + i, dayOfMonth));
+      if (candidate.getUTCDate() !== dayOfMonth) {
+        continue;
+      }
+      const day = candidate.getTime() / 1000 / SECONDS_PER_DAY;
+      if (matchesWeekday(day) && !push(day)) {
+        break;
+      }
+    }
+  }
+
+  return occurrences;
+}
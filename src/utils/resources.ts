@@ -0,0 +1,149 @@
+/**
+ * BOOKABLE RESOURCES
+ *
+ * Shared equipment (projectors, conference cams, whiteboards, ...) is kept in a catalogue with
+ * a quantity per item and reserved as part of a booking (booking_resource table). A reservation
+ * only holds its items while the booking blocks its slot (confirmed or pending).
+ *
+ * Availability is the catalogue quantity minus the peak number of items reserved at the same
+ * time: two reservations that overlap the requested range but not each other never add up.
+ *
+ * TIME ARCHITECTURE: All times are timezone-naive "YYYY-MM-DD HH:mm:ss" strings.
+ */
+
+// Upper bound for one item in one booking
+export const MAX_RESOURCE_QUANTITY = 1000;
+
+export interface ResourceRequest {
+  resource_id: number;
+  quantity: number;
+}
+
+// Requested resources for one time range (a booking, or one occurrence of a series)
+export interface ResourceRange {
+  start_time: string;
+  end_time: string;
+  resources: ResourceRequest[];
+}
+
+export interface ResourceReservation {
+  resource_id: number;
+  start_time: string;
+  end_time: string;
+  quantity: number;
+}
+
+export interface ResourceShortage {
+  resource_id: number;
+  name: string;
+  requested: number;
+  available: number;
+}
+
+/**
+ * Validates the resources of a booking request: [{ resource_id, quantity? }] (quantity defaults to 1).
+ * undefined = not sent (keep existing reservations), [] = no resources.
+ *
+ * @throws Error with a user-facing message
+ */
+export const parseResourceRequests = (value: unknown): ResourceRequest[] | undefined => {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (value === null) {
+    return [];
+  }
+  if (!Array.isArray(value)) {
+    throw new Error('resources muss eine Liste von { resource_id, quantity } sein.');
+  }
+
+  const byId = new Map<number, number>();
+  for (const entry of value) {
+    const resourceId = Number(entry?.resource_id);
+    const quantity = entry?.quantity === undefined ? 1 : Number(entry.quantity);
+    if (!Number.isInteger(resourceId) || resourceId <= 0) {
+      throw new Error('Jede Ausstattung benötigt eine gültige resource_id.');
+    }
+    if (!Number.isInteger(quantity) || quantity < 1 || quantity > MAX_RESOURCE_QUANTITY) {
+      throw new Error(`Die Anzahl muss eine ganze Zahl zwischen 1 und ${MAX_RESOURCE_QUANTITY} sein.`);
+    }
+    if (byId.has(resourceId)) {
+      throw new Error(`Die Ausstattung ${resourceId} ist mehrfach angegeben.`);
+    }
+    byId.set(resourceId, quantity);
+  }
+
+  return Array.from(byId, ([resource_id, quantity]) => ({ resource_id, quantity }));
+};
+
+/**
+ * Highest number of items reserved at the same moment within [start, end).
+ */
+export const getPeakUsage = (reservations: ResourceReservation[], start: string, end: string): number => {
+  const events: Array<{ time: string; delta: number }> = [];
+  for (const reservation of reservations) {
+    if (reservation.start_time < end && reservation.end_time > start) {
+      events.push({ time: reservation.start_time > start ? reservation.start_time : start, delta: reservation.quantity });
+      events.push({ time: reservation.end_time < end ? reservation.end_time : end, delta: -reservation.quantity });
+    }
+  }
+
+  // Ends sort before starts at the same time: back-to-back reservations do not overlap
+  events.sort((a, b) => a.time.localeCompare(b.time) || a.delta - b.delta);
+
+  let current = 0;
+  let peak = 0;
+  for (const event of events) {
+    current += event.delta;
+    peak = Math.max(peak, current);
+  }
+  return peak;
+};
+
+/**
+ * Checks requested ranges against the catalogue and the existing reservations.
+ * Ranges are taken in order; a range that fits counts against the following ones
+ * (e.g. occurrences of a series), a range that does not fit is left out.
+ *
+ * @param quantities - Catalogue quantity and name per resource
+ * @returns Per range the first resource that is short, or null if everything fits
+ */
+export const findResourceShortages = (
+  quantities: Map<number, { name: string; quantity: number }>,
+  existing: ResourceReservation[],
+  ranges: ResourceRange[]
+): Array<ResourceShortage | null> => {
+  const reservations = [...existing];
+
+  return ranges.map(range => {
+    for (const request of range.resources) {
+      const resource = quantities.get(request.resource_id);
+      const available = resource
+        ? resource.quantity - getPeakUsage(
+          reservations.filter(reservation => reservation.resource_id === request.resource_id),
+          range.start_time,
+          range.end_time
+        )
+        : 0;
+      if (request.quantity > available) {
+        return {
+          resource_id: request.resource_id,
+          name: resource?.name ?? '',
+          requested: request.quantity,
+          available: Math.max(0, available)
+        };
+      }
+    }
+
+    for (const request of range.resources) {
+      reservations.push({ ...request, start_time: range.start_time, end_time: range.end_time });
+    }
+    return null;
+  });
+};
+
+/**
+ * User-facing message for a resource that is short in the requested range.
+ */
+export const formatResourceShortage = (shortage: ResourceShortage): string =>
+  `Von "${shortage.name}" sind in diesem Zeitraum nur ${shortage.available} verfügbar (angefragt: ${shortage.requested}).`;
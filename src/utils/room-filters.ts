@@ -0,0 +1,175 @@
+import { LocationFilter, matchesLocationFilter, parseLocationFilter } from './room-location';
+
+/**
+ * ROOM SEARCH FILTERS (GET /api/rooms)
+ *
+ * Filters, sorting and pagination are applied in memory to the room list, so filtered
+ * requests are served from the same rooms cache as unfiltered ones.
+ *
+ * TIME ARCHITECTURE: "free now" is evaluated against a timezone-naive "now" string.
+ */
+
+export type RoomSortField = 'name' | 'capacity' | 'location' | 'status';
+
+export interface RoomFilters {
+  minCapacity: number | null;
+  // Lowercased; a room must have every amenity
+  amenities: string[];
+  // Case-insensitive substring match on the derived location string
+  location: string | null;
+  // Site, building and/or floor
+  locationLevels: LocationFilter;
+  statuses: string[];
+  freeNow: boolean;
+  // Free from now for at least this many minutes (implies freeNow)
+  freeForMinutes: number | null;
+  sort: RoomSortField | null;
+  order: 'asc' | 'desc';
+  // Set when the client asked for pagination (page and/or limit)
+  page: number | null;
+  limit: number | null;
+}
+
+// Minimal room shape the filters work on (see RoomWithBookingInfo in cache.service.ts)
+export interface FilterableRoom {
+  id: number;
+  name: string;
+  capacity: number;
+  status: string;
+  location: string | null;
+  floor_id: number | null;
+  building_id: number | null;
+  site_id: number | null;
+  amenities: string[] | null;
+  allBookingsToday: Array<{ start_time: string; end_time: string }>;
+}
+
+const ROOM_STATUSES = ['active', 'maintenance', 'inactive', 'night_rest'];
+const SORT_FIELDS: RoomSortField[] = ['name', 'capacity', 'location', 'status'];
+const MAX_PAGE_SIZE = 100;
+const MAX_FREE_FOR_MINUTES = 24 * 60;
+
+const parseList = (value: unknown): string[] =>
+  typeof value === 'string'
+    ? value.split(',').map(item => item.trim().toLowerCase()).filter(Boolean)
+    : [];
+
+const parsePositiveInteger = (value: unknown, name: string, max?: number): number | null => {
+  if (value === undefined || value === '') {
+    return null;
+  }
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < 1 || (max !== undefined && number > max)) {
+    throw new Error(`${name} must be a positive integer${max !== undefined ? ` (max. ${max})` : ''}`);
+  }
+  return number;
+};
+
+/**
+ * Whether the request uses any search parameter (otherwise the plain room list is returned).
+ */
+export const hasRoomFilters = (query: Record<string, unknown>): boolean =>
+  ['minCapacity', 'amenities', 'location', 'siteId', 'buildingId', 'floorId', 'status', 'freeNow', 'freeFor', 'sort', 'order', 'page', 'limit']
+    .some(key => query[key] !== undefined);
+
+/**
+ * Validates the search parameters of GET /api/rooms.
+ *
+ * @throws Error with a user-facing message
+ */
+export const parseRoomFilters = (query: Record<string, unknown>): RoomFilters => {
+  const statuses = parseList(query.status);
+  const unknownStatus = statuses.find(status => !ROOM_STATUSES.includes(status));
+  if (unknownStatus) {
+    throw new Error(`Invalid status: ${unknownStatus} (expected ${ROOM_STATUSES.join(', ')})`);
+  }
+
+  if (query.freeNow !== undefined && query.freeNow !== 'true' && query.freeNow !== 'false') {
+    throw new Error('freeNow must be true or false');
+  }
+
+  const sort = query.sort !== undefined ? String(query.sort).toLowerCase() as RoomSortField : null;
+  if (sort !== null && !SORT_FIELDS.includes(sort)) {
+    throw new Error(`sort must be one of ${SORT_FIELDS.join(', ')}`);
+  }
+
+  const order = query.order !== undefined ? String(query.order).toLowerCase() : 'asc';
+  if (order !== 'asc' && order !== 'desc') {
+    throw new Error('order must be asc or desc');
+  }
+
+  const location = typeof query.location === 'string' && query.location.trim() ? query.location.trim().toLowerCase() : null;
+  const page = parsePositiveInteger(query.page, 'page');
+  const limit = parsePositiveInteger(query.limit, 'limit', MAX_PAGE_SIZE);
+
+  return {
+    minCapacity: parsePositiveInteger(query.minCapacity, 'minCapacity'),
+    amenities: parseList(query.amenities),
+    location,
+    locationLevels: parseLocationFilter(query),
+    statuses,
+    freeNow: query.freeNow === 'true',
+    freeForMinutes: parsePositiveInteger(query.freeFor, 'freeFor', MAX_FREE_FOR_MINUTES),
+    sort,
+    order,
+    page: page ?? (limit !== null ? 1 : null),
+    limit: limit ?? (page !== null ? 20 : null),
+  };
+};
+
+/**
+ * Applies the capacity, amenity, location (text and hierarchy), status and "free now" filters.
+ */
+export const filterRooms = <T extends FilterableRoom>(rooms: T[], filters: RoomFilters, nowStr: string): T[] =>
+  rooms.filter(room => {
+    if (filters.minCapacity !== null && room.capacity < filters.minCapacity) {
+      return false;
+    }
+
+    if (filters.amenities.length > 0) {
+      const roomAmenities = (room.amenities ?? []).map(amenity => String(amenity).toLowerCase());
+      if (!filters.amenities.every(amenity => roomAmenities.includes(amenity))) {
+        return false;
+      }
+    }
+
+    if (filters.location !== null && !(room.location ?? '').toLowerCase().includes(filters.location)) {
+      return false;
+    }
+
+    if (!matchesLocationFilter(room, filters.locationLevels)) {
+      return false;
+    }
+
+    if (filters.statuses.length > 0 && !filters.statuses.includes(room.status)) {
+      return false;
+    }
+
+    // The cached list may be a few seconds old, so "now" is re-evaluated against today's bookings
+    if (filters.freeNow || filters.freeForMinutes !== null) {
+      const isOccupied = room.allBookingsToday.some(booking => booking.start_time <= nowStr && booking.end_time > nowStr);
+      if (room.status !== 'active' || isOccupied) {
+        return false;
+      }
+    }
+
+    return true;
+  });
+
+/**
+ * Sorts rooms by the requested field (ties broken by name); without sort the list order is kept.
+ */
+export const sortRooms = <T extends FilterableRoom>(rooms: T[], filters: RoomFilters): T[] => {
+  if (filters.sort === null) {
+    return rooms;
+  }
+
+  const field = filters.sort;
+  const direction = filters.order === 'desc' ? -1 : 1;
+  return [...rooms].sort((a, b) => {
+    const primary = field === 'capacity'
+      ? a.capacity - b.capacity
+      : String(a[field] ?? '').localeCompare(String(b[field] ?? ''), 'de', { sensitivity: 'base' });
+    return direction * (primary || a.name.localeCompare(b.name, 'de', { sensitivity: 'base' }));
+  });
+};
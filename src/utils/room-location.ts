@@ -0,0 +1,94 @@
+/**
+ * ROOM LOCATIONS
+ *
+ * Rooms reference a floor; floors belong to a building and buildings to a site.
+ * Queries join the hierarchy with ROOM_LOCATION_JOINS and select ROOM_LOCATION_COLUMNS,
+ * which also derive the display string `location` ("Site, Building, Floor").
+ */
+
+// Requires the room table to be selected as `room`
+export const ROOM_LOCATION_JOINS = `LEFT JOIN floor ON floor.id = room.floor_id
+       LEFT JOIN building ON building.id = floor.building_id
+       LEFT JOIN site ON site.id = building.site_id`;
+
+export const ROOM_LOCATION_COLUMNS = `room.floor_id,
+       floor.name AS floor_name,
+       building.id AS building_id,
+       building.name AS building_name,
+       site.id AS site_id,
+       site.name AS site_name,
+       NULLIF(CONCAT_WS(', ', site.name, building.name, floor.name), '') AS location`;
+
+export interface RoomLocationFields {
+  floor_id: number | null;
+  floor_name: string | null;
+  building_id: number | null;
+  building_name: string | null;
+  site_id: number | null;
+  site_name: string | null;
+  location: string | null;
+}
+
+// Filter by any level of the hierarchy (all given levels must match)
+export interface LocationFilter {
+  siteId: number | null;
+  buildingId: number | null;
+  floorId: number | null;
+}
+
+const parseId = (value: unknown, name: string): number | null => {
+  if (value === undefined || value === '') {
+    return null;
+  }
+  const id = Number(value);
+  if (!Number.isInteger(id) || id <= 0) {
+    throw new Error(`${name} must be a positive integer`);
+  }
+  return id;
+};
+
+/**
+ * Reads siteId, buildingId and floorId from the query string.
+ *
+ * @throws Error with a user-facing message
+ */
+export const parseLocationFilter = (query: Record<string, unknown>): LocationFilter => ({
+  siteId: parseId(query.siteId, 'siteId'),
+  buildingId: parseId(query.buildingId, 'buildingId'),
+  floorId: parseId(query.floorId, 'floorId'),
+});
+
+export const hasLocationFilter = (filter: LocationFilter): boolean =>
+  filter.siteId !== null || filter.buildingId !== null || filter.floorId !== null;
+
+/**
+ * In-memory check for rooms that carry the location fields (e.g. the cached room list).
+ */
+export const matchesLocationFilter = (
+  room: Pick<RoomLocationFields, 'site_id' | 'building_id' | 'floor_id'>,
+  filter: LocationFilter
+): boolean =>
+  (filter.siteId === null || room.site_id === filter.siteId) &&
+  (filter.buildingId === null || room.building_id === filter.buildingId) &&
+  (filter.floorId === null || room.floor_id === filter.floorId);
+
+/**
+ * SQL conditions (" AND ...") for queries that use ROOM_LOCATION_JOINS.
+ */
+export const locationFilterSql = (filter: LocationFilter): { sql: string; params: number[] } => {
+  let sql = '';
+  const params: number[] = [];
+  if (filter.siteId !== null) {
+    sql += ' AND site.id = ?';
+    params.push(filter.siteId);
+  }
+  if (filter.buildingId !== null) {
+    sql += ' AND building.id = ?';
+    params.push(filter.buildingId);
+  }
+  if (filter.floorId !== null) {
+    sql += ' AND room.floor_id = ?';
+    params.push(filter.floorId);
+  }
+  return { sql, params };
+};
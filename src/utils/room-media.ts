@@ -0,0 +1,119 @@
+/**
+ * ROOM MEDIA (PHOTOS + DOCUMENTS)
+ *
+ * Uploads are accepted by content, not by the declared Content-Type: the file signature
+ * decides the type, and only the types below are stored.
+ */
+
+export type MediaKind = 'photo' | 'document';
+
+interface MediaType {
+  kind: MediaKind;
+  extension: string;
+  matches: (data: Buffer) => boolean;
+}
+
+const MEDIA_TYPES: Record<string, MediaType> = {
+  'image/jpeg': {
+    kind: 'photo', extension: 'jpg',
+    matches: data => data.length > 3 && data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff
+  },
+  'image/png': {
+    kind: 'photo', extension: 'png',
+    matches: data => data.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))
+  },
+  'image/webp': {
+    kind: 'photo', extension: 'webp',
+    matches: data => data.subarray(0, 4).toString('latin1') === 'RIFF' && data.subarray(8, 12).toString('latin1') === 'WEBP'
+  },
+  'application/pdf': {
+    kind: 'document', extension: 'pdf',
+    matches: data => data.subarray(0, 5).toString('latin1') === '%PDF-'
+  },
+};
+
+export const ALLOWED_MEDIA_TYPES = Object.keys(MEDIA_TYPES);
+
+export const MAX_MEDIA_BYTES: Record<MediaKind, number> = {
+  photo: 5 * 1024 * 1024,
+  document: 10 * 1024 * 1024,
+};
+
+// Per room, to keep room responses small
+export const MAX_MEDIA_PER_ROOM = 20;
+
+export interface RoomMediaRow {
+  id: number;
+  room_id: number;
+  kind: MediaKind;
+  file_name: string;
+  mime_type: string;
+  size_bytes: number;
+  caption: string | null;
+  created_at: string;
+}
+
+export interface RoomMedia {
+  id: number;
+  kind: MediaKind;
+  file_name: string;
+  mime_type: string;
+  size_bytes: number;
+  caption: string | null;
+  url: string;
+  created_at: string;
+}
+
+/**
+ * Detects the media type of an upload from its content.
+ * Returns null for unsupported files.
+ */
+export const detectMediaType = (data: Buffer): { mimeType: string; kind: MediaKind; extension: string } | null => {
+  for (const [mimeType, type] of Object.entries(MEDIA_TYPES)) {
+    if (type.matches(data)) {
+      return { mimeType, kind: type.kind, extension: type.extension };
+    }
+  }
+  return null;
+};
+
+/**
+ * Reduces a client file name to something safe for Content-Disposition headers and logs.
+ */
+export const sanitizeFileName = (fileName: string): string => {
+  const baseName = fileName.split(/[\\/]/).pop() ?? '';
+  const cleaned = baseName.replace(/[^\p{L}\p{N}._ -]/gu, '_').trim().slice(0, 200);
+  return cleaned || 'file';
+};
+
+export const getRoomMediaUrl = (roomId: number, mediaId: number): string =>
+  `/api/rooms/${roomId}/media/${mediaId}`;
+
+export const toRoomMedia = (row: RoomMediaRow): RoomMedia => ({
+  id: row.id,
+  kind: row.kind,
+  file_name: row.file_name,
+  mime_type: row.mime_type,
+  size_bytes: row.size_bytes,
+  caption: row.caption ?? null,
+  url: getRoomMediaUrl(row.room_id, row.id),
+  created_at: row.created_at,
+});
+
+/**
+ * Groups media rows by room (photos first, then documents, each in upload order).
+ */
+export const groupMediaByRoom = (rows: RoomMediaRow[]): Map<number, RoomMedia[]> => {
+  const byRoom = new Map<number, RoomMedia[]>();
+  const sorted = [...rows].sort((a, b) =>
+    a.kind === b.kind ? a.id - b.id : (a.kind === 'photo' ? -1 : 1)
+  );
+  for (const row of sorted) {
+    const list = byRoom.get(row.room_id) ?? [];
+    list.push(toRoomMedia(row));
+    byRoom.set(row.room_id, list);
+  }
+  return byRoom;
+};
+
+export const ROOM_MEDIA_COLUMNS = 'id, room_id, kind, file_name, mime_type, size_bytes, caption, created_at';
@@ -0,0 +1,82 @@
+import validator from 'validator';
+
+/**
+ * SHARED INPUT SANITIZATION FOR BOOKINGS
+ *
+ * Every path that writes booking text (single bookings, series, imports) must use
+ * these helpers so titles and comments are validated and escaped the same way.
+ */
+
+/**
+ * Sanitizes user input to prevent XSS attacks.
+ * Escapes HTML entities and trims whitespace.
+ */
+export const sanitizeInput = (input: string | undefined | null): string | null => {
+  if (!input || typeof input !== 'string') {
+    return null;
+  }
+  const trimmed = input.trim();
+  if (!trimmed) {
+    return null;
+  }
+  // Escape HTML entities to prevent XSS
+  return validator.escape(trimmed);
+};
+
+/**
+ * Validates and sanitizes a title field.
+ * Ensures minimum length after sanitization.
+ */
+export const validateAndSanitizeTitle = (title: string | undefined | null): string => {
+  const sanitized = sanitizeInput(title);
+  if (!sanitized || sanitized.length < 2) {
+    throw new Error('Der Titel muss mindestens 2 Zeichen lang sein.');
+  }
+  if (sanitized.length > 200) {
+    throw new Error('Der Titel darf maximal 200 Zeichen lang sein.');
+  }
+  return sanitized;
+};
+
+/**
+ * Validates and sanitizes a comment field.
+ */
+export const validateAndSanitizeComment = (comment: string | undefined | null): string | null => {
+  const sanitized = sanitizeInput(comment);
+  if (sanitized && sanitized.length > 2500) {
+    throw new Error('Der Kommentar darf maximal 2500 Zeichen lang sein.');
+  }
+  return sanitized;
+};
+
+/**
+ * Validates and sanitizes an optional cancellation reason.
+ */
+export const validateAndSanitizeReason = (reason: string | undefined | null): string | null => {
+  const sanitized = sanitizeInput(reason);
+  if (sanitized && sanitized.length > 255) {
+    throw new Error('Der Stornierungsgrund darf maximal 255 Zeichen lang sein.');
+  }
+  return sanitized;
+};
+
+// Upper bound for the attendee count of a single booking
+export const MAX_ATTENDEES = 1000;
+
+/**
+ * Validates the optional number of attendees of a booking.
+ * Returns undefined if the field was not sent (keep the stored value) and null to clear it.
+ */
+export const validateAttendees = (attendees: unknown): number | null | undefined => {
+  if (attendees === undefined) {
+    return undefined;
+  }
+  if (attendees === null || attendees === '') {
+    return null;
+  }
+  const count = Number(attendees);
+  if (!Number.isInteger(count) || count < 1 || count > MAX_ATTENDEES) {
+    throw new Error(`Die Teilnehmerzahl muss eine ganze Zahl zwischen 1 und ${MAX_ATTENDEES} sein.`);
+  }
+  return count;
+};
@@ -0,0 +1,15 @@
+import { createHash, randomBytes } from 'crypto';
+
+/**
+ * Generates an opaque, URL-safe random token (e.g. for calendar feed URLs).
+ * Only the hash of the token may be stored - the plain value is shown to the user once.
+ */
+export const generateSecureToken = (bytes = 32): string =>
+  randomBytes(bytes).toString('base64').replace(/=/g, '').replace(/\+/g, '-').replace(/\//g, '_');
+
+/**
+ * Hashes an opaque token for storage and lookup (SHA-256, hex encoded).
+ * Tokens are high-entropy random values, so a fast unsalted hash is sufficient.
+ */
+export const hashSecureToken = (token: string): string =>
+  createHash('sha256').update(token).digest('hex');
@@ -13,9 +13,22 @@ interface TokenPayload {
   id: number;
   email: string;
   role: 'user' | 'admin';
+  sid?: string; // Login session (refresh token family, see RefreshTokenService)
+  ver?: number; // user.token_version at issue time
   exp: number;
 }
 
+const DEFAULT_ACCESS_TOKEN_TTL_SECONDS = 15 * 60;
+
+/**
+ * Lifetime of an access token (ACCESS_TOKEN_TTL_SECONDS, default: 15 minutes).
+ * Clients renew expired access tokens via POST /api/auth/refresh.
+ */
+export const getAccessTokenTtlSeconds = (): number => {
+  const seconds = Number(process.env.ACCESS_TOKEN_TTL_SECONDS);
+  return Number.isInteger(seconds) && seconds > 0 ? seconds : DEFAULT_ACCESS_TOKEN_TTL_SECONDS;
+};
+
 const getSecret = (): string => {
   const secret = process.env.JWT_SECRET || process.env.APP_SECRET;
   if (!secret) {
@@ -29,7 +42,7 @@ const getSecret = (): string => {
 
 export const generateToken = (
   payload: Omit<TokenPayload, 'exp'>,
-  expiresInSeconds = 60 * 60 * 12 // 12 hours
+  expiresInSeconds = getAccessTokenTtlSeconds()
 ): string => {
   const header = { alg: 'HS256', typ: 'JWT' };
   const exp = Math.floor(Date.now() / 1000) + expiresInSeconds;
@@ -0,0 +1,131 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+/**
+ * TIME-BASED ONE-TIME PASSWORDS (RFC 6238)
+ *
+ * Authenticator apps derive a 6-digit code from a shared secret and the current 30-second time step
+ * (HMAC-SHA1, RFC 4226 dynamic truncation). Secrets are exchanged as base32 strings, usually inside
+ * an otpauth:// URI shown as a QR code.
+ *
+ * Unlike the rest of the API this works on real (UTC) time: the code depends on the Unix time only.
+ */
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+const STEP_SECONDS = 30;
+const DIGITS = 6;
+
+export const TOTP_ISSUER = '13Rooms';
+
+export const base32Encode = (buffer: Buffer): string => {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+};
+
+export const base32Decode = (input: string): Buffer => {
+  const normalized = input.toUpperCase().replace(/[\s=-]/g, '');
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+  for (const char of normalized) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error('Invalid base32 character');
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+};
+
+/**
+ * New shared secret (160 bits, base32).
+ */
+export const generateTotpSecret = (): string => base32Encode(randomBytes(20));
+
+export const getTimeStep = (timeMs = Date.now()): number => Math.floor(timeMs / 1000 / STEP_SECONDS);
+
+/**
+ * The code of a secret for a time step (RFC 4226 HOTP with the step as counter).
+ */
+export const generateTotp = (secret: string, step: number, digits = DIGITS): string => {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+  const hmac = createHmac('sha1', base32Decode(secret)).update(counter).digest();
+
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary = ((hmac[offset] & 0x7f) << 24)
+    | (hmac[offset + 1] << 16)
+    | (hmac[offset + 2] << 8)
+    | hmac[offset + 3];
+  return (binary % 10 ** digits).toString().padStart(digits, '0');
+};
+
+/**
+ * Checks a code against the current time step and one step before and after (clock drift).
+ *
+ * @param afterStep - Steps up to this one are not accepted again (replay protection)
+ * @returns The matching time step, or null
+ */
+export const verifyTotp = (secret: string, code: string, afterStep: number | null = null, timeMs = Date.now()): number | null => {
+  const normalized = code.replace(/\s/g, '');
+  if (!/^\d{6}$/.test(normalized)) {
+    return null;
+  }
+
+  const currentStep = getTimeStep(timeMs);
+  for (const step of [currentStep - 1, currentStep, currentStep + 1]) {
+    if (afterStep !== null && step <= afterStep) {
+      continue;
+    }
+    if (timingSafeEqual(Buffer.from(generateTotp(secret, step)), Buffer.from(normalized))) {
+      return step;
+    }
+  }
+  return null;
+};
+
+/**
+ * otpauth:// URI for authenticator apps (usually rendered as a QR code by the frontend).
+ */
+export const buildOtpauthUri = (secret: string, accountName: string): string => {
+  const label = `${encodeURIComponent(TOTP_ISSUER)}:${encodeURIComponent(accountName)}`;
+  const params = new URLSearchParams({
+    secret,
+    issuer: TOTP_ISSUER,
+    algorithm: 'SHA1',
+    digits: String(DIGITS),
+    period: String(STEP_SECONDS)
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+};
+
+/**
+ * One-time recovery codes ("xxxxx-xxxxx", 50 bits each) for users who lost their authenticator.
+ */
+export const generateRecoveryCodes = (count: number): string[] =>
+  Array.from({ length: count }, () => {
+    const code = base32Encode(randomBytes(7)).slice(0, 10).toLowerCase();
+    return `${code.slice(0, 5)}-${code.slice(5)}`;
+  });
+
+/**
+ * Recovery codes are compared without separators and case.
+ */
+export const normalizeRecoveryCode = (code: string): string => code.replace(/[\s-]/g, '').toLowerCase();
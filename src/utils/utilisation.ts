@@ -0,0 +1,303 @@
+import { WEEKDAY_CODES, WeeklyHours } from './business-hours';
+import { calculateSecondsBetweenNaive } from './date-utils';
+import { addSecondsToNaive, getWeekdayOfNaive, Weekday } from './recurrence';
+
+/**
+ * ROOM UTILISATION
+ *
+ * Aggregates booking rows (confirmed and canceled) into utilisation figures per room,
+ * then per location. Pure functions: the controller loads rooms, hours and bookings.
+ *
+ * - Booked time only counts confirmed bookings, clipped to the report range.
+ * - Available time is the room's current opening hours summed over the range.
+ * - Counts (bookings, cancellations, sizes) use bookings that start within the range.
+ *
+ * TIME ARCHITECTURE: All times are timezone-naive "YYYY-MM-DD HH:mm:ss" strings.
+ */
+
+export type UtilisationGroupBy = 'room' | 'floor' | 'building' | 'site';
+
+export type SizeBucket = 'unknown' | 'up_to_25' | 'up_to_50' | 'up_to_75' | 'up_to_100' | 'over_capacity';
+
+const SIZE_BUCKETS: SizeBucket[] = ['unknown', 'up_to_25', 'up_to_50', 'up_to_75', 'up_to_100', 'over_capacity'];
+
+export interface UtilisationRoom {
+  id: number;
+  name: string;
+  capacity: number;
+  floor_id: number | null;
+  floor_name: string | null;
+  building_id: number | null;
+  building_name: string | null;
+  site_id: number | null;
+  site_name: string | null;
+}
+
+export interface UtilisationBooking {
+  room_id: number;
+  start_time: string;
+  end_time: string;
+  status: 'confirmed' | 'canceled';
+  attendees: number | null;
+  no_show: boolean;
+}
+
+export interface UtilisationTotals {
+  availableMinutes: number;
+  bookedMinutes: number;
+  bookings: number;
+  bookingMinutes: number;
+  canceled: number;
+  noShows: number;
+  minutesByHour: number[];
+  minutesByWeekday: Record<Weekday, number>;
+  sizes: Record<SizeBucket, number>;
+}
+
+export interface UtilisationGroup {
+  id: number | null;
+  name: string;
+  rooms: number;
+  capacity: number;
+  totals: UtilisationTotals;
+}
+
+const emptyTotals = (): UtilisationTotals => ({
+  availableMinutes: 0,
+  bookedMinutes: 0,
+  bookings: 0,
+  bookingMinutes: 0,
+  canceled: 0,
+  noShows: 0,
+  minutesByHour: new Array(24).fill(0),
+  minutesByWeekday: { MO: 0, TU: 0, WE: 0, TH: 0, FR: 0, SA: 0, SU: 0 },
+  sizes: { unknown: 0, up_to_25: 0, up_to_50: 0, up_to_75: 0, up_to_100: 0, over_capacity: 0 },
+});
+
+const addTotals = (target: UtilisationTotals, source: UtilisationTotals): void => {
+  target.availableMinutes += source.availableMinutes;
+  target.bookedMinutes += source.bookedMinutes;
+  target.bookings += source.bookings;
+  target.bookingMinutes += source.bookingMinutes;
+  target.canceled += source.canceled;
+  target.noShows += source.noShows;
+  source.minutesByHour.forEach((minutes, hour) => { target.minutesByHour[hour] += minutes; });
+  for (const weekday of WEEKDAY_CODES) {
+    target.minutesByWeekday[weekday] += source.minutesByWeekday[weekday];
+  }
+  for (const bucket of SIZE_BUCKETS) {
+    target.sizes[bucket] += source.sizes[bucket];
+  }
+};
+
+const getSizeBucket = (attendees: number | null, capacity: number): SizeBucket => {
+  if (attendees === null || capacity <= 0) {
+    return 'unknown';
+  }
+  const ratio = attendees / capacity;
+  if (ratio <= 0.25) return 'up_to_25';
+  if (ratio <= 0.5) return 'up_to_50';
+  if (ratio <= 0.75) return 'up_to_75';
+  if (ratio <= 1) return 'up_to_100';
+  return 'over_capacity';
+};
+
+const minutesOfTime = (time: string): number => Number(time.slice(0, 2)) * 60 + Number(time.slice(3, 5));
+
+/**
+ * Opening minutes of a room between rangeStart (inclusive) and rangeEnd (exclusive), both at midnight.
+ */
+const getAvailableMinutes = (hours: WeeklyHours, rangeStart: string, rangeEnd: string): number => {
+  let minutes = 0;
+  for (let day = rangeStart; day < rangeEnd; day = addSecondsToNaive(day, 24 * 60 * 60)) {
+    const dayHours = hours[getWeekdayOfNaive(day)];
+    if (dayHours) {
+      minutes += Math.max(0, minutesOfTime(dayHours.close) - minutesOfTime(dayHours.open));
+    }
+  }
+  return minutes;
+};
+
+/**
+ * Adds a booked range to the hour-of-day and weekday distribution, split at full hours.
+ */
+const addToDistribution = (totals: UtilisationTotals, start: string, end: string): void => {
+  let cursor = start;
+  while (cursor < end) {
+    const nextHour = addSecondsToNaive(`${cursor.slice(0, 13)}:00:00`, 60 * 60);
+    const segmentEnd = nextHour < end ? nextHour : end;
+    const minutes = calculateSecondsBetweenNaive(cursor, segmentEnd) / 60;
+    totals.minutesByHour[Number(cursor.slice(11, 13))] += minutes;
+    totals.minutesByWeekday[getWeekdayOfNaive(cursor)] += minutes;
+    cursor = segmentEnd;
+  }
+};
+
+/**
+ * Computes the utilisation figures of every room for [rangeStart, rangeEnd).
+ */
+export const computeRoomUtilisation = (
+  rooms: UtilisationRoom[],
+  hoursByRoom: Map<number, WeeklyHours>,
+  bookings: UtilisationBooking[],
+  rangeStart: string,
+  rangeEnd: string
+): Map<number, UtilisationTotals> => {
+  const byRoom = new Map<number, UtilisationTotals>();
+  const capacityByRoom = new Map<number, number>();
+  for (const room of rooms) {
+    const totals = emptyTotals();
+    const hours = hoursByRoom.get(room.id);
+    totals.availableMinutes = hours ? getAvailableMinutes(hours, rangeStart, rangeEnd) : 0;
+    byRoom.set(room.id, totals);
+    capacityByRoom.set(room.id, room.capacity);
+  }
+
+  for (const booking of bookings) {
+    const totals = byRoom.get(booking.room_id);
+    if (!totals) {
+      continue;
+    }
+    const startsInRange = booking.start_time >= rangeStart && booking.start_time < rangeEnd;
+
+    if (booking.status === 'canceled') {
+      if (startsInRange) {
+        totals.canceled++;
+        if (booking.no_show) {
+          totals.noShows++;
+        }
+      }
+      continue;
+    }
+
+    const clippedStart = booking.start_time > rangeStart ? booking.start_time : rangeStart;
+    const clippedEnd = booking.end_time < rangeEnd ? booking.end_time : rangeEnd;
+    if (clippedStart < clippedEnd) {
+      totals.bookedMinutes += calculateSecondsBetweenNaive(clippedStart, clippedEnd) / 60;
+      addToDistribution(totals, clippedStart, clippedEnd);
+    }
+
+    if (startsInRange) {
+      totals.bookings++;
+      totals.bookingMinutes += calculateSecondsBetweenNaive(booking.start_time, booking.end_time) / 60;
+      totals.sizes[getSizeBucket(booking.attendees, capacityByRoom.get(booking.room_id) ?? 0)]++;
+    }
+  }
+
+  return byRoom;
+};
+
+/**
+ * Groups the per-room figures by room or by a level of the location hierarchy.
+ * Rooms without a location end up in one "unassigned" group (id null).
+ */
+export const groupUtilisation = (
+  rooms: UtilisationRoom[],
+  byRoom: Map<number, UtilisationTotals>,
+  groupBy: UtilisationGroupBy
+): UtilisationGroup[] => {
+  const groups = new Map<string, UtilisationGroup>();
+
+  for (const room of rooms) {
+    const [id, name] = groupBy === 'room'
+      ? [room.id, room.name]
+      : groupBy === 'floor'
+        ? [room.floor_id, [room.site_name, room.building_name, room.floor_name].filter(Boolean).join(', ')]
+        : groupBy === 'building'
+          ? [room.building_id, [room.site_name, room.building_name].filter(Boolean).join(', ')]
+          : [room.site_id, room.site_name ?? ''];
+
+    const key = String(id);
+    let group = groups.get(key);
+    if (!group) {
+      group = { id, name: id === null ? 'Ohne Standort' : name, rooms: 0, capacity: 0, totals: emptyTotals() };
+      groups.set(key, group);
+    }
+    group.rooms++;
+    group.capacity += room.capacity;
+    addTotals(group.totals, byRoom.get(room.id) ?? emptyTotals());
+  }
+
+  return Array.from(groups.values());
+};
+
+/**
+ * Sums all groups (the report's overall line).
+ */
+export const sumUtilisation = (groups: UtilisationGroup[]): UtilisationTotals => {
+  const totals = emptyTotals();
+  for (const group of groups) {
+    addTotals(totals, group.totals);
+  }
+  return totals;
+};
+
+const round = (value: number, digits = 2): number => Math.round(value * 10 ** digits) / 10 ** digits;
+
+const indexOfMax = (values: number[]): number | null => {
+  const max = Math.max(...values);
+  return max > 0 ? values.indexOf(max) : null;
+};
+
+/**
+ * Turns raw totals into the reported figures (hours, rates, peaks).
+ */
+export const formatUtilisation = (totals: UtilisationTotals) => {
+  const peakHour = indexOfMax(totals.minutesByHour);
+  const peakWeekday = indexOfMax(WEEKDAY_CODES.map(weekday => totals.minutesByWeekday[weekday]));
+  const decided = totals.bookings + totals.canceled;
+
+  return {
+    available_hours: round(totals.availableMinutes / 60),
+    booked_hours: round(totals.bookedMinutes / 60),
+    utilisation_rate: totals.availableMinutes > 0 ? round(totals.bookedMinutes / totals.availableMinutes, 4) : null,
+    bookings: totals.bookings,
+    canceled: totals.canceled,
+    no_shows: totals.noShows,
+    cancellation_rate: decided > 0 ? round(totals.canceled / decided, 4) : null,
+    average_booking_minutes: totals.bookings > 0 ? round(totals.bookingMinutes / totals.bookings, 1) : null,
+    peak_hour: peakHour !== null ? `${String(peakHour).padStart(2, '0')}:00` : null,
+    peak_weekday: peakWeekday !== null ? WEEKDAY_CODES[peakWeekday] : null,
+    booked_hours_by_hour: Object.fromEntries(
+      totals.minutesByHour.map((minutes, hour) => [String(hour).padStart(2, '0'), round(minutes / 60)])
+    ),
+    booked_hours_by_weekday: Object.fromEntries(
+      WEEKDAY_CODES.map(weekday => [weekday, round(totals.minutesByWeekday[weekday] / 60)])
+    ),
+    size_distribution: { ...totals.sizes },
+  };
+};
+
+const CSV_COLUMNS = [
+  'id', 'name', 'rooms', 'capacity', 'available_hours', 'booked_hours', 'utilisation_rate',
+  'bookings', 'canceled', 'no_shows', 'cancellation_rate', 'average_booking_minutes', 'peak_hour', 'peak_weekday',
+  ...SIZE_BUCKETS.map(bucket => `size_${bucket}`),
+];
+
+const escapeCsv = (value: unknown): string => {
+  let text = value === null || value === undefined ? '' : String(value);
+  // Names starting like a formula would be evaluated by spreadsheet programs (CSV injection)
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",;\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Renders the groups as CSV (one line per group, comma separated, RFC 4180 quoting).
+ * The hourly and weekday distributions are only part of the JSON response.
+ */
+export const utilisationToCsv = (groups: UtilisationGroup[]): string => {
+  const lines = [CSV_COLUMNS.join(',')];
+  for (const group of groups) {
+    const figures = formatUtilisation(group.totals);
+    lines.push([
+      group.id, group.name, group.rooms, group.capacity,
+      figures.available_hours, figures.booked_hours, figures.utilisation_rate,
+      figures.bookings, figures.canceled, figures.no_shows, figures.cancellation_rate,
+      figures.average_booking_minutes, figures.peak_hour, figures.peak_weekday,
+      ...SIZE_BUCKETS.map(bucket => figures.size_distribution[bucket]),
+    ].map(escapeCsv).join(','));
+  }
+  return lines.join('\r\n') + '\r\n';
+};
@@ -0,0 +1,63 @@
+#!/bin/bash
+
+# Test Script: Concurrent Booking Race Condition
+# Fires parallel POST /api/bookings requests for the same room and time slot
+# and verifies that exactly one succeeds (201) while all others receive 409.
+#
+# Usage: ./test-concurrent-booking.sh [ROOM_ID] [PARALLEL_REQUESTS]
+# Requires a running backend (npm start or docker compose up) and curl.
+
+API_URL="${API_URL:-http://localhost:3000/api}"
+ROOM_ID="${1:-1}"
+PARALLEL="${2:-10}"
+
+# Use a random Monday far in the future so repeated runs don't collide with each other
+# (a weekday, so the slot is within the default business hours)
+WEEK_OFFSET=$(( (RANDOM % 400) + 60 ))
+SLOT_DATE=$(date -d "next monday +${WEEK_OFFSET} weeks" +%Y-%m-%d)
+START="${SLOT_DATE} 10:00:00"
+END="${SLOT_DATE} 11:00:00"
+
+RESULTS_DIR=$(mktemp -d)
+trap 'rm -rf "$RESULTS_DIR"' EXIT
+
+echo "================================================"
+echo "Concurrent Booking Test"
+echo "================================================"
+echo ""
+echo "Room:     $ROOM_ID"
+echo "Slot:     $START - $END"
+echo "Requests: $PARALLEL (in parallel)"
+echo ""
+
+for i in $(seq 1 "$PARALLEL"); do
+  curl -s -o "$RESULTS_DIR/body_$i" -w "%{http_code}" \
+    -X POST "$API_URL/bookings" \
+    -H "Content-Type: application/json" \
+    -d "{\"room_id\": $ROOM_ID, \"guestName\": \"Race Test $i\", \"start_time\": \"$START\", \"end_time\": \"$END\"}" \
+    > "$RESULTS_DIR/status_$i" &
+done
+
+wait
+
+CREATED=$(cat "$RESULTS_DIR"/status_* | grep -c "^201$")
+CONFLICTS=$(cat "$RESULTS_DIR"/status_* | grep -c "^409$")
+OTHER=$(( PARALLEL - CREATED - CONFLICTS ))
+
+echo "201 Created:  $CREATED"
+echo "409 Conflict: $CONFLICTS"
+echo "Other:        $OTHER"
+echo ""
+
+if [ "$CREATED" -eq 1 ] && [ "$CONFLICTS" -eq $(( PARALLEL - 1 )) ]; then
+  echo "✓✓✓ SUCCESS! Exactly one request booked the slot."
+  echo ""
+  echo "Note: the test booking is kept. Cancel it via DELETE /api/bookings/:id if needed."
+  exit 0
+else
+  echo "✗✗✗ FAILED! Expected exactly one 201 and $(( PARALLEL - 1 )) x 409."
+  for i in $(seq 1 "$PARALLEL"); do
+    echo "  Request $i: $(cat "$RESULTS_DIR/status_$i") $(cat "$RESULTS_DIR/body_$i")"
+  done
+  exit 1
+fi